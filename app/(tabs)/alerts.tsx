@@ -12,11 +12,136 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { router, useFocusEffect } from "expo-router";
 import Colors from "@/constants/colors";
-import { getProducts, getCategories, Product, Category } from "@/lib/storage";
+import { useAuth } from "@/components/AuthProvider";
+import {
+  getProducts,
+  getCategories,
+  getLocations,
+  getStockBalances,
+  getLots,
+  getMaintenanceStatus,
+  MaintenanceStatus,
+  Product,
+  Category,
+  Location,
+} from "@/lib/storage";
+import { daysUntil, formatDateInput } from "@/lib/dates";
+import { EXPIRY_WARNING_DAYS, MAINTENANCE_KIND_LABELS, UNIT_STATUS_LABELS } from "@shared/products";
+
+/** Alerta de estoque: pelo total do produto ou pelo mínimo de um local. */
+interface StockAlert {
+  key: string;
+  product: Product;
+  quantity: number;
+  minStock: number;
+  location?: Location;
+}
+
+/** Lote vencendo ou vencido, ou CA do EPI perto do fim da validade. */
+interface ExpiryAlert {
+  key: string;
+  product: Product;
+  expiresAt: string;
+  lotNumber?: string | null;
+  quantity?: number;
+  location?: Location;
+  isCa?: boolean;
+}
+
+function ExpiryCard({ alert }: { alert: ExpiryAlert }) {
+  const { product, expiresAt, lotNumber, quantity, location, isCa } = alert;
+  const days = daysUntil(expiresAt);
+  const expired = days < 0;
+  const color = expired ? Colors.danger : Colors.warning;
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.alertCard, pressed && { opacity: 0.9 }]}
+      onPress={() => router.push({ pathname: "/product/[id]", params: { id: product.id } })}
+    >
+      <View style={styles.alertTop}>
+        <View style={styles.alertLeft}>
+          <View style={[styles.statusDot, { backgroundColor: color }]} />
+          <View>
+            <Text style={styles.alertName} numberOfLines={1}>{product.name}</Text>
+            <Text style={styles.alertCat}>
+              {isCa
+                ? `CA ${product.caNumber ?? ""}`.trim()
+                : `${lotNumber ? `Lote ${lotNumber}` : "Sem lote"}${location ? ` · ${location.name}` : ""}`}
+            </Text>
+          </View>
+        </View>
+        {quantity !== undefined && (
+          <View style={styles.alertRight}>
+            <Text style={[styles.alertQty, { color }]}>{quantity}</Text>
+            <Text style={styles.alertUnit}>{product.unit}</Text>
+          </View>
+        )}
+      </View>
+      <View style={styles.alertBottom}>
+        <Text style={[styles.alertLabel, { color }]}>
+          {expired
+            ? `Venceu em ${formatDateInput(expiresAt)}`
+            : days === 0
+              ? "Vence hoje"
+              : `Vence em ${days} ${days === 1 ? "dia" : "dias"} (${formatDateInput(expiresAt)})`}
+        </Text>
+      </View>
+    </Pressable>
+  );
+}
 
-function AlertCard({ product, category }: { product: Product; category?: Category }) {
-  const percentage = product.minStock > 0 ? Math.min((product.quantity / product.minStock) * 100, 100) : 0;
-  const isZero = product.quantity === 0;
+/** Calibração ou manutenção vencida ou perto do prazo, por data ou por número de usos. */
+function MaintenanceCard({ item }: { item: MaintenanceStatus }) {
+  const color = item.state === "due" ? Colors.danger : Colors.warning;
+  const days = item.dueAt ? daysUntil(item.dueAt) : null;
+  const usesDue = !!item.intervalUses && item.usesSince >= item.intervalUses;
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.alertCard, pressed && { opacity: 0.9 }]}
+      onPress={() => router.push({ pathname: "/product/[id]", params: { id: item.productId } })}
+    >
+      <View style={styles.alertTop}>
+        <View style={styles.alertLeft}>
+          <View style={[styles.statusDot, { backgroundColor: color }]} />
+          <View>
+            <Text style={styles.alertName} numberOfLines={1}>{item.productName}</Text>
+            <Text style={styles.alertCat}>
+              {MAINTENANCE_KIND_LABELS[item.kind]}
+              {item.serial ? ` · ${item.serial}` : ""}
+              {item.unitStatus === "in_repair" ? ` · ${UNIT_STATUS_LABELS.in_repair}` : ""}
+            </Text>
+          </View>
+        </View>
+        {item.intervalUses !== null && (
+          <View style={styles.alertRight}>
+            <Text style={[styles.alertQty, { color: usesDue ? Colors.danger : Colors.text }]}>{item.usesSince}</Text>
+            <Text style={styles.alertUnit}>/ {item.intervalUses} usos</Text>
+          </View>
+        )}
+      </View>
+      <View style={styles.alertBottom}>
+        <Text style={[styles.alertLabel, { color }]}>
+          {usesDue
+            ? "Limite de usos atingido"
+            : days === null
+              ? "Perto do limite de usos"
+              : days < 0
+                ? `Venceu em ${formatDateInput(item.dueAt!)}`
+                : days === 0
+                  ? "Vence hoje"
+                  : `Vence em ${days} ${days === 1 ? "dia" : "dias"} (${formatDateInput(item.dueAt!)})`}
+        </Text>
+      </View>
+    </Pressable>
+  );
+}
+
+function AlertCard({ alert, category, canRestock }: { alert: StockAlert; category?: Category; canRestock: boolean }) {
+  const { product, quantity, minStock, location } = alert;
+  const percentage = minStock > 0 ? Math.min((quantity / minStock) * 100, 100) : 0;
+  const isZero = quantity === 0;
 
   return (
     <Pressable
@@ -28,14 +153,17 @@ function AlertCard({ product, category }: { product: Product; category?: Categor
           <View style={[styles.statusDot, { backgroundColor: isZero ? Colors.danger : Colors.warning }]} />
           <View>
             <Text style={styles.alertName} numberOfLines={1}>{product.name}</Text>
-            <Text style={styles.alertCat}>{category?.name ?? "Sem categoria"}</Text>
+            <Text style={styles.alertCat}>
+              {category?.name ?? "Sem categoria"}
+              {location ? ` · ${location.name}` : " · Total"}
+            </Text>
           </View>
         </View>
         <View style={styles.alertRight}>
           <Text style={[styles.alertQty, { color: isZero ? Colors.danger : Colors.warning }]}>
-            {product.quantity}
+            {quantity}
           </Text>
-          <Text style={styles.alertUnit}>/ {product.minStock} {product.unit}</Text>
+          <Text style={styles.alertUnit}>/ {minStock} {product.unit}</Text>
         </View>
       </View>
       <View style={styles.progressBg}>
@@ -53,13 +181,24 @@ function AlertCard({ product, category }: { product: Product; category?: Categor
         <Text style={styles.alertLabel}>
           {isZero ? "Sem estoque" : `${Math.round(percentage)}% do mínimo`}
         </Text>
-        <Pressable
-          onPress={() => router.push({ pathname: "/movement/add", params: { productId: product.id, type: "entry" } })}
-          style={({ pressed }) => [styles.restockBtn, pressed && { opacity: 0.8 }]}
-        >
-          <Ionicons name="add-circle" size={16} color={Colors.primary} />
-          <Text style={styles.restockText}>Repor</Text>
-        </Pressable>
+        {canRestock && (
+          <Pressable
+            onPress={() =>
+              router.push({
+                pathname: "/movement/add",
+                params: {
+                  productId: product.id,
+                  type: "entry",
+                  ...(location ? { locationId: location.id } : {}),
+                },
+              })
+            }
+            style={({ pressed }) => [styles.restockBtn, pressed && { opacity: 0.8 }]}
+          >
+            <Ionicons name="add-circle" size={16} color={Colors.primary} />
+            <Text style={styles.restockText}>Repor</Text>
+          </Pressable>
+        )}
       </View>
     </Pressable>
   );
@@ -67,14 +206,73 @@ function AlertCard({ product, category }: { product: Product; category?: Categor
 
 export default function AlertsScreen() {
   const insets = useSafeAreaInsets();
+  const { can } = useAuth();
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [alerts, setAlerts] = useState<StockAlert[]>([]);
+  const [expiryAlerts, setExpiryAlerts] = useState<ExpiryAlert[]>([]);
+  const [maintenanceAlerts, setMaintenanceAlerts] = useState<MaintenanceStatus[]>([]);
   const [refreshing, setRefreshing] = useState(false);
 
   const loadData = useCallback(async () => {
-    const [p, c] = await Promise.all([getProducts(), getCategories()]);
+    const [p, c, l, balances, lots, maintenance] = await Promise.all([
+      getProducts(),
+      getCategories(),
+      getLocations(),
+      getStockBalances(),
+      getLots(),
+      getMaintenanceStatus(),
+    ]);
+    const totalAlerts: StockAlert[] = p
+      .filter((product) => product.quantity <= product.minStock)
+      .map((product) => ({
+        key: product.id,
+        product,
+        quantity: product.quantity,
+        minStock: product.minStock,
+      }));
+    const locationAlerts: StockAlert[] = balances
+      .filter((b) => b.minStock > 0 && b.quantity <= b.minStock)
+      .flatMap((b) => {
+        const product = p.find((item) => item.id === b.productId);
+        const location = l.find((item) => item.id === b.locationId);
+        if (!product || !location) return [];
+        return [{
+          key: `${b.productId}:${b.locationId}`,
+          product,
+          quantity: b.quantity,
+          minStock: b.minStock,
+          location,
+        }];
+      });
+    const lotAlerts: ExpiryAlert[] = lots
+      .filter((lot) => lot.expiresAt && daysUntil(lot.expiresAt) <= EXPIRY_WARNING_DAYS)
+      .flatMap((lot) => {
+        const product = p.find((item) => item.id === lot.productId);
+        if (!product) return [];
+        return [{
+          key: lot.id,
+          product,
+          expiresAt: lot.expiresAt!,
+          lotNumber: lot.lotNumber,
+          quantity: lot.quantity,
+          location: l.find((item) => item.id === lot.locationId),
+        }];
+      });
+    const caAlerts: ExpiryAlert[] = p
+      .filter((product) => product.caExpiresAt && daysUntil(product.caExpiresAt) <= EXPIRY_WARNING_DAYS)
+      .map((product) => ({ key: `ca:${product.id}`, product, expiresAt: product.caExpiresAt!, isCa: true }));
+    setExpiryAlerts(
+      [...lotAlerts, ...caAlerts].sort((a, b) => new Date(a.expiresAt).getTime() - new Date(b.expiresAt).getTime())
+    );
+    setMaintenanceAlerts(
+      maintenance
+        .filter((item) => item.state !== "ok")
+        .sort((a, b) => (a.state === b.state ? 0 : a.state === "due" ? -1 : 1))
+    );
     setProducts(p);
     setCategories(c);
+    setAlerts([...totalAlerts, ...locationAlerts].sort((a, b) => a.quantity - b.quantity));
   }, []);
 
   useFocusEffect(
@@ -89,12 +287,16 @@ export default function AlertsScreen() {
     setRefreshing(false);
   };
 
-  const lowStock = products
-    .filter((p) => p.quantity <= p.minStock)
-    .sort((a, b) => a.quantity - b.quantity);
+  const lowStock = products.filter(
+    (p) =>
+      alerts.some((a) => a.product.id === p.id) ||
+      expiryAlerts.some((a) => a.product.id === p.id) ||
+      maintenanceAlerts.some((a) => a.productId === p.id)
+  );
+  const expired = expiryAlerts.filter((a) => daysUntil(a.expiresAt) < 0);
 
-  const outOfStock = lowStock.filter((p) => p.quantity === 0);
-  const critical = lowStock.filter((p) => p.quantity > 0);
+  const outOfStock = alerts.filter((a) => a.quantity === 0);
+  const critical = alerts.filter((a) => a.quantity > 0);
 
   const topPadding = Platform.OS === "web" ? 67 : insets.top;
 
@@ -115,31 +317,61 @@ export default function AlertsScreen() {
             <Ionicons name="checkmark-circle" size={56} color={Colors.success} />
           </View>
           <Text style={styles.emptyTitle}>Tudo certo!</Text>
-          <Text style={styles.emptyText}>Nenhum produto com estoque baixo</Text>
+          <Text style={styles.emptyText}>Nenhum produto com estoque baixo, vencendo ou com manutenção pendente</Text>
         </View>
       ) : (
         <FlatList
-          data={lowStock}
-          keyExtractor={(item) => item.id}
+          data={alerts}
+          keyExtractor={(item) => item.key}
           renderItem={({ item }) => (
-            <AlertCard product={item} category={categories.find((c) => c.id === item.categoryId)} />
+            <AlertCard
+              alert={item}
+              category={categories.find((c) => c.id === item.product.categoryId)}
+              canRestock={can("movement:entry")}
+            />
           )}
           contentContainerStyle={styles.listContent}
           refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
           showsVerticalScrollIndicator={false}
           ListHeaderComponent={
-            <View style={styles.summaryRow}>
-              <View style={[styles.summaryCard, { backgroundColor: Colors.dangerLight }]}>
-                <Ionicons name="close-circle" size={20} color={Colors.danger} />
-                <Text style={[styles.summaryValue, { color: Colors.danger }]}>{outOfStock.length}</Text>
-                <Text style={styles.summaryLabel}>Sem estoque</Text>
+            <>
+              <View style={styles.summaryRow}>
+                <View style={[styles.summaryCard, { backgroundColor: Colors.dangerLight }]}>
+                  <Ionicons name="close-circle" size={20} color={Colors.danger} />
+                  <Text style={[styles.summaryValue, { color: Colors.danger }]}>{outOfStock.length}</Text>
+                  <Text style={styles.summaryLabel}>Sem estoque</Text>
+                </View>
+                <View style={[styles.summaryCard, { backgroundColor: Colors.warningLight }]}>
+                  <Ionicons name="warning" size={20} color={Colors.warning} />
+                  <Text style={[styles.summaryValue, { color: Colors.warning }]}>{critical.length}</Text>
+                  <Text style={styles.summaryLabel}>Estoque baixo</Text>
+                </View>
+                <View style={[styles.summaryCard, { backgroundColor: Colors.surfaceElevated }]}>
+                  <Ionicons name="time" size={20} color={Colors.textSecondary} />
+                  <Text style={[styles.summaryValue, { color: Colors.text }]}>{expiryAlerts.length}</Text>
+                  <Text style={styles.summaryLabel}>{expired.length > 0 ? `${expired.length} vencidos` : "Validade"}</Text>
+                </View>
               </View>
-              <View style={[styles.summaryCard, { backgroundColor: Colors.warningLight }]}>
-                <Ionicons name="warning" size={20} color={Colors.warning} />
-                <Text style={[styles.summaryValue, { color: Colors.warning }]}>{critical.length}</Text>
-                <Text style={styles.summaryLabel}>Estoque baixo</Text>
-              </View>
-            </View>
+              {expiryAlerts.length > 0 && (
+                <>
+                  <Text style={styles.sectionTitle}>Vencendo ou vencidos</Text>
+                  {expiryAlerts.map((alert) => (
+                    <ExpiryCard key={alert.key} alert={alert} />
+                  ))}
+                </>
+              )}
+              {maintenanceAlerts.length > 0 && (
+                <>
+                  <Text style={styles.sectionTitle}>Calibração e manutenção</Text>
+                  {maintenanceAlerts.map((item) => (
+                    <MaintenanceCard key={`${item.planId}:${item.unitId ?? ""}`} item={item} />
+                  ))}
+                </>
+              )}
+              {alerts.length > 0 && (expiryAlerts.length > 0 || maintenanceAlerts.length > 0) && (
+                <Text style={styles.sectionTitle}>Estoque baixo</Text>
+              )}
+            </>
           }
         />
       )}
@@ -191,6 +423,15 @@ const styles = StyleSheet.create({
     fontFamily: "Inter_500Medium",
     color: Colors.textSecondary,
   },
+  sectionTitle: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+    marginBottom: 10,
+    marginTop: 4,
+  },
   listContent: {
     paddingHorizontal: 20,
     paddingTop: 16,
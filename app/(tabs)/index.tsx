@@ -12,7 +12,12 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { router, useFocusEffect } from "expo-router";
 import Colors from "@/constants/colors";
+import { useAuth } from "@/components/AuthProvider";
 import { getProducts, getCategories, getMovements, Product, Category, Movement } from "@/lib/storage";
+import { currentUnitCost, movementCost } from "@shared/costing";
+import { movementDelta } from "@shared/movements";
+
+const CONSUMPTION_DAYS = 30;
 
 function StatCard({
   icon,
@@ -50,25 +55,48 @@ function RecentMovementRow({
 }) {
   const product = products.find((p) => p.id === movement.productId);
   const isEntry = movement.type === "entry";
+  const isTransfer = movement.type === "transfer";
+  const isAdjustment = movement.type === "adjustment";
+  const delta = movementDelta(movement);
+  const color = isTransfer ? Colors.primary : isAdjustment ? Colors.accentDark : isEntry ? Colors.success : Colors.danger;
   const date = new Date(movement.createdAt);
   const formatted = `${date.getDate().toString().padStart(2, "0")}/${(date.getMonth() + 1).toString().padStart(2, "0")} ${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
   return (
     <View style={styles.movRow}>
-      <View style={[styles.movIcon, { backgroundColor: isEntry ? Colors.successLight : Colors.dangerLight }]}>
+      <View
+        style={[
+          styles.movIcon,
+          {
+            backgroundColor: isTransfer
+              ? "#E0F2F1"
+              : isAdjustment
+                ? Colors.warningLight
+                : isEntry
+                  ? Colors.successLight
+                  : Colors.dangerLight,
+          },
+        ]}
+      >
         <Ionicons
-          name={isEntry ? "arrow-down" : "arrow-up"}
+          name={isTransfer ? "swap-horizontal" : isAdjustment ? "options-outline" : isEntry ? "arrow-down" : "arrow-up"}
           size={16}
-          color={isEntry ? Colors.success : Colors.danger}
+          color={color}
         />
       </View>
       <View style={styles.movInfo}>
         <Text style={styles.movProduct} numberOfLines={1}>
           {product?.name ?? "Produto removido"}
         </Text>
-        <Text style={styles.movDate}>{formatted}</Text>
+        <Text style={styles.movDate}>
+          {isTransfer
+            ? `Transferência · ${formatted}`
+            : isAdjustment
+              ? `Ajuste · ${movement.reasonName ?? "Sem motivo"} · ${formatted}`
+              : formatted}
+        </Text>
       </View>
-      <Text style={[styles.movQty, { color: isEntry ? Colors.success : Colors.danger }]}>
-        {isEntry ? "+" : "-"}{movement.quantity}
+      <Text style={[styles.movQty, { color }]}>
+        {isTransfer ? "" : delta > 0 ? "+" : "-"}{Math.abs(movement.quantity)}
       </Text>
     </View>
   );
@@ -76,6 +104,7 @@ function RecentMovementRow({
 
 export default function DashboardScreen() {
   const insets = useSafeAreaInsets();
+  const { user, logout, can } = useAuth();
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [movements, setMovements] = useState<Movement[]>([]);
@@ -102,9 +131,23 @@ export default function DashboardScreen() {
 
   const totalProducts = products.length;
   const totalItems = products.reduce((acc, p) => acc + p.quantity, 0);
-  const totalValue = products.reduce((acc, p) => acc + p.quantity * p.price, 0);
+  const totalValue = products.reduce((acc, p) => acc + p.quantity * currentUnitCost(p), 0);
+  // Custo do que foi consumido: saídas simples, pelo custo gravado em cada uma.
+  const consumptionSince = Date.now() - CONSUMPTION_DAYS * 24 * 60 * 60 * 1000;
+  const consumedValue = movements
+    .filter(
+      (m) =>
+        m.type === "exit" &&
+        !m.checkoutId &&
+        !m.unitStatusChange &&
+        new Date(m.createdAt).getTime() >= consumptionSince
+    )
+    .reduce((acc, m) => {
+      const product = products.find((p) => p.id === m.productId);
+      return acc + movementCost(m, product ? currentUnitCost(product) : 0);
+    }, 0);
   const lowStock = products.filter((p) => p.quantity <= p.minStock);
-  const recentMovements = movements.slice(0, 5);
+  const recentMovements = movements.filter((m) => m.transferDirection !== "in").slice(0, 5);
 
   const topPadding = Platform.OS === "web" ? 67 : insets.top;
 
@@ -116,7 +159,17 @@ export default function DashboardScreen() {
         contentInsetAdjustmentBehavior="automatic"
         showsVerticalScrollIndicator={false}
       >
-        <Text style={styles.companyName}>MTEC ENERGIA</Text>
+        <View style={styles.topRow}>
+          <Text style={styles.companyName}>MTEC ENERGIA</Text>
+          <Pressable
+            onPress={logout}
+            style={({ pressed }) => [styles.userChip, pressed && { opacity: 0.7 }]}
+          >
+            <Ionicons name="person-circle-outline" size={16} color={Colors.textSecondary} />
+            <Text style={styles.userChipText}>{user?.username}</Text>
+            <Ionicons name="log-out-outline" size={16} color={Colors.danger} />
+          </Pressable>
+        </View>
         <Text style={styles.greeting}>Controle de Estoque</Text>
         <Text style={styles.subGreeting}>Visão geral do seu inventário</Text>
 
@@ -141,6 +194,7 @@ export default function DashboardScreen() {
             iconBg={Colors.successLight}
             label="Valor Estoque"
             value={`R$ ${totalValue.toFixed(2).replace(".", ",")}`}
+            sub={`Consumo ${CONSUMPTION_DAYS} dias: R$ ${consumedValue.toFixed(2).replace(".", ",")}`}
           />
           <StatCard
             icon="warning-outline"
@@ -200,6 +254,102 @@ export default function DashboardScreen() {
             <Text style={styles.quickLabel}>Backup & Dados</Text>
             <Ionicons name="chevron-forward" size={16} color={Colors.textTertiary} />
           </Pressable>
+          <Pressable
+            onPress={() => router.push("/checkouts")}
+            style={({ pressed }) => [styles.quickCard, pressed && { opacity: 0.85 }]}
+          >
+            <View style={[styles.quickIcon, { backgroundColor: "#FEF3C7" }]}>
+              <Ionicons name="construct-outline" size={20} color="#D97706" />
+            </View>
+            <Text style={styles.quickLabel}>Com quem está</Text>
+            <Ionicons name="chevron-forward" size={16} color={Colors.textTertiary} />
+          </Pressable>
+          <Pressable
+            onPress={() => router.push("/locations")}
+            style={({ pressed }) => [styles.quickCard, pressed && { opacity: 0.85 }]}
+          >
+            <View style={[styles.quickIcon, { backgroundColor: "#E0F2F1" }]}>
+              <Ionicons name="location-outline" size={20} color={Colors.primary} />
+            </View>
+            <Text style={styles.quickLabel}>Locais de Estoque</Text>
+            <Ionicons name="chevron-forward" size={16} color={Colors.textTertiary} />
+          </Pressable>
+          <Pressable
+            onPress={() => router.push("/adjustment-reasons")}
+            style={({ pressed }) => [styles.quickCard, pressed && { opacity: 0.85 }]}
+          >
+            <View style={[styles.quickIcon, { backgroundColor: "#FEE2E2" }]}>
+              <Ionicons name="pricetags-outline" size={20} color={Colors.danger} />
+            </View>
+            <Text style={styles.quickLabel}>Motivos de Ajuste</Text>
+            <Ionicons name="chevron-forward" size={16} color={Colors.textTertiary} />
+          </Pressable>
+          <Pressable
+            onPress={() => router.push("/suppliers")}
+            style={({ pressed }) => [styles.quickCard, pressed && { opacity: 0.85 }]}
+          >
+            <View style={[styles.quickIcon, { backgroundColor: "#FCE7F3" }]}>
+              <Ionicons name="business-outline" size={20} color="#DB2777" />
+            </View>
+            <Text style={styles.quickLabel}>Fornecedores</Text>
+            <Ionicons name="chevron-forward" size={16} color={Colors.textTertiary} />
+          </Pressable>
+          <Pressable
+            onPress={() => router.push("/purchases")}
+            style={({ pressed }) => [styles.quickCard, pressed && { opacity: 0.85 }]}
+          >
+            <View style={[styles.quickIcon, { backgroundColor: "#E0E7FF" }]}>
+              <Ionicons name="receipt-outline" size={20} color="#4F46E5" />
+            </View>
+            <Text style={styles.quickLabel}>Pedidos de Compra</Text>
+            <Ionicons name="chevron-forward" size={16} color={Colors.textTertiary} />
+          </Pressable>
+          <Pressable
+            onPress={() => router.push("/stocktakes")}
+            style={({ pressed }) => [styles.quickCard, pressed && { opacity: 0.85 }]}
+          >
+            <View style={[styles.quickIcon, { backgroundColor: "#CCFBF1" }]}>
+              <Ionicons name="clipboard-outline" size={20} color="#0F766E" />
+            </View>
+            <Text style={styles.quickLabel}>Inventários</Text>
+            <Ionicons name="chevron-forward" size={16} color={Colors.textTertiary} />
+          </Pressable>
+          {(can("product:delete") || can("category:delete")) && (
+            <Pressable
+              onPress={() => router.push("/trash")}
+              style={({ pressed }) => [styles.quickCard, pressed && { opacity: 0.85 }]}
+            >
+              <View style={[styles.quickIcon, { backgroundColor: Colors.surfaceElevated }]}>
+                <Ionicons name="trash-outline" size={20} color={Colors.textSecondary} />
+              </View>
+              <Text style={styles.quickLabel}>Lixeira</Text>
+              <Ionicons name="chevron-forward" size={16} color={Colors.textTertiary} />
+            </Pressable>
+          )}
+          {can("audit:view") && (
+            <Pressable
+              onPress={() => router.push("/audit")}
+              style={({ pressed }) => [styles.quickCard, pressed && { opacity: 0.85 }]}
+            >
+              <View style={[styles.quickIcon, { backgroundColor: "#FEF3C7" }]}>
+                <Ionicons name="document-text-outline" size={20} color="#D97706" />
+              </View>
+              <Text style={styles.quickLabel}>Auditoria</Text>
+              <Ionicons name="chevron-forward" size={16} color={Colors.textTertiary} />
+            </Pressable>
+          )}
+          {can("user:manage") && (
+            <Pressable
+              onPress={() => router.push("/users")}
+              style={({ pressed }) => [styles.quickCard, pressed && { opacity: 0.85 }]}
+            >
+              <View style={[styles.quickIcon, { backgroundColor: "#CCFBF1" }]}>
+                <Ionicons name="people-outline" size={20} color={Colors.primary} />
+              </View>
+              <Text style={styles.quickLabel}>Usuários</Text>
+              <Ionicons name="chevron-forward" size={16} color={Colors.textTertiary} />
+            </Pressable>
+          )}
         </View>
 
         <View style={styles.sectionHeader}>
@@ -238,13 +388,34 @@ const styles = StyleSheet.create({
   scrollContent: {
     paddingHorizontal: 20,
   },
+  topRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 4,
+  },
   companyName: {
     fontSize: 13,
     fontFamily: "Inter_700Bold",
     color: Colors.primary,
     letterSpacing: 2,
     textTransform: "uppercase" as const,
-    marginBottom: 4,
+  },
+  userChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  userChipText: {
+    fontSize: 12,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
   },
   greeting: {
     fontSize: 26,
@@ -6,6 +6,7 @@ import {
   FlatList,
   Pressable,
   RefreshControl,
+  ScrollView,
   Platform,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
@@ -13,7 +14,32 @@ import { Ionicons } from "@expo/vector-icons";
 import { router, useFocusEffect } from "expo-router";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
-import { getMovements, getProducts, Movement, Product } from "@/lib/storage";
+import { useAuth } from "@/components/AuthProvider";
+import {
+  getMovements,
+  getMovementDocuments,
+  getProducts,
+  getLocations,
+  Movement,
+  MovementDocument,
+  Product,
+  Location,
+} from "@/lib/storage";
+import { MovementStatusBadge, movementStatus, type MovementStatus } from "@/components/MovementStatusBadge";
+import { MOVEMENT_DOCUMENT_TYPE_LABELS, movementDelta, reversedMovementIds } from "@shared/movements";
+
+type MovementFilter = "all" | Movement["type"];
+
+type HeaderRow = { type: "header"; title: string; id: string };
+type DocumentRow = { type: "document"; id: string; document: MovementDocument; lines: Movement[] };
+
+const FILTER_LABELS: Record<MovementFilter, string> = {
+  all: "Todas",
+  entry: "Entradas",
+  exit: "Saídas",
+  transfer: "Transferências",
+  adjustment: "Ajustes",
+};
 
 function groupByDate(movements: Movement[]): { title: string; data: Movement[] }[] {
   const groups: Record<string, Movement[]> = {};
@@ -38,47 +64,218 @@ function groupByDate(movements: Movement[]): { title: string; data: Movement[] }
   return Object.entries(groups).map(([title, data]) => ({ title, data }));
 }
 
-function MovementItem({ movement, product }: { movement: Movement; product?: Product }) {
-  const isEntry = movement.type === "entry";
+/** As duas pontas de uma transferência aparecem juntas, num único card. */
+function TransferItem({
+  outLeg,
+  inLeg,
+  product,
+  locations,
+  status,
+}: {
+  outLeg: Movement;
+  inLeg?: Movement;
+  product?: Product;
+  locations: Location[];
+  status: MovementStatus | null;
+}) {
+  const date = new Date(outLeg.createdAt);
+  const time = `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
+  const locationName = (id: string | null | undefined) => locations.find((l) => l.id === id)?.name ?? "Local removido";
+
+  return (
+    <Pressable
+      onPress={() => router.push({ pathname: "/movement/[id]", params: { id: outLeg.id } })}
+      style={({ pressed }) => [styles.movItem, status === "reversed" && styles.movReversed, pressed && { opacity: 0.85 }]}
+    >
+      <View style={[styles.movIconWrap, { backgroundColor: "#E0F2F1" }]}>
+        <Ionicons name="swap-horizontal" size={18} color={Colors.primary} />
+      </View>
+      <View style={styles.movContent}>
+        <Text style={styles.movProduct} numberOfLines={1}>{product?.name ?? "Produto removido"}</Text>
+        <View style={styles.transferLegs}>
+          <Text style={styles.transferLeg} numberOfLines={1}>
+            <Text style={{ color: Colors.danger }}>-{outLeg.quantity}</Text> {locationName(outLeg.locationId)}
+          </Text>
+          <Ionicons name="arrow-forward" size={11} color={Colors.textTertiary} />
+          <Text style={styles.transferLeg} numberOfLines={1}>
+            <Text style={{ color: Colors.success }}>+{inLeg?.quantity ?? outLeg.quantity}</Text> {locationName(inLeg?.locationId)}
+          </Text>
+        </View>
+        {outLeg.note ? (
+          <Text style={styles.movNote} numberOfLines={1}>{outLeg.note}</Text>
+        ) : null}
+        {outLeg.userName && (
+          <View style={styles.movUserRow}>
+            <Ionicons name="person-outline" size={11} color={Colors.textSecondary} />
+            <Text style={styles.movUser} numberOfLines={1}>{outLeg.userName}</Text>
+          </View>
+        )}
+        <MovementStatusBadge status={status} />
+      </View>
+      <View style={styles.movRight}>
+        <Text style={[styles.movQty, { color: Colors.primary }, status === "reversed" && styles.movQtyReversed]}>
+          {outLeg.quantity}
+        </Text>
+        <Text style={styles.movTime}>{time}</Text>
+      </View>
+    </Pressable>
+  );
+}
+
+/** Documento com várias linhas; ao tocar, abre as movimentações que o compõem. */
+function DocumentItem({
+  document,
+  lines,
+  products,
+  reversedIds,
+  expanded,
+  onToggle,
+}: {
+  document: MovementDocument;
+  lines: Movement[];
+  products: Product[];
+  reversedIds: Set<string>;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  const isEntry = document.type === "entry";
+  const color = isEntry ? Colors.success : Colors.danger;
+  const counterpart = isEntry ? document.supplierName : document.technicianName;
+  const date = new Date(document.createdAt);
+  const time = `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
+  const documentDate = new Date(document.documentDate).toLocaleDateString("pt-BR");
+
+  return (
+    <View style={styles.docWrap}>
+      <Pressable
+        onPress={() => {
+          Haptics.selectionAsync();
+          onToggle();
+        }}
+        style={({ pressed }) => [styles.movItem, styles.docItem, pressed && { opacity: 0.85 }]}
+      >
+        <View style={[styles.movIconWrap, { backgroundColor: isEntry ? Colors.successLight : Colors.dangerLight }]}>
+          <Ionicons name="document-text-outline" size={18} color={color} />
+        </View>
+        <View style={styles.movContent}>
+          <Text style={styles.movProduct} numberOfLines={1}>
+            {MOVEMENT_DOCUMENT_TYPE_LABELS[document.type]} {document.number}
+          </Text>
+          <Text style={styles.docMeta} numberOfLines={1}>
+            {lines.length} {lines.length === 1 ? "item" : "itens"} · {documentDate}
+            {counterpart ? ` · ${counterpart}` : ""}
+          </Text>
+          {document.note ? (
+            <Text style={styles.movNote} numberOfLines={1}>{document.note}</Text>
+          ) : null}
+          {document.userName && (
+            <View style={styles.movUserRow}>
+              <Ionicons name="person-outline" size={11} color={Colors.textSecondary} />
+              <Text style={styles.movUser} numberOfLines={1}>{document.userName}</Text>
+            </View>
+          )}
+        </View>
+        <View style={styles.movRight}>
+          <Ionicons name={expanded ? "chevron-up" : "chevron-down"} size={18} color={Colors.textTertiary} />
+          <Text style={styles.movTime}>{time}</Text>
+        </View>
+      </Pressable>
+      {expanded && (
+        <View style={styles.docLines}>
+          {lines.map((line) => (
+            <MovementItem
+              key={line.id}
+              movement={line}
+              product={products.find((p) => p.id === line.productId)}
+              status={movementStatus([line], reversedIds)}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+function MovementItem({
+  movement,
+  product,
+  status,
+}: {
+  movement: Movement;
+  product?: Product;
+  status: MovementStatus | null;
+}) {
+  const isAdjustment = movement.type === "adjustment";
+  const isIncoming = movementDelta(movement) > 0;
+  const color = isAdjustment ? Colors.accentDark : isIncoming ? Colors.success : Colors.danger;
   const date = new Date(movement.createdAt);
   const time = `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
 
   return (
-    <View style={styles.movItem}>
-      <View style={[styles.movIconWrap, { backgroundColor: isEntry ? Colors.successLight : Colors.dangerLight }]}>
+    <Pressable
+      onPress={() => router.push({ pathname: "/movement/[id]", params: { id: movement.id } })}
+      style={({ pressed }) => [styles.movItem, status === "reversed" && styles.movReversed, pressed && { opacity: 0.85 }]}
+    >
+      <View
+        style={[
+          styles.movIconWrap,
+          { backgroundColor: isAdjustment ? Colors.warningLight : isIncoming ? Colors.successLight : Colors.dangerLight },
+        ]}
+      >
         <Ionicons
-          name={isEntry ? "arrow-down" : "arrow-up"}
+          name={isAdjustment ? "options-outline" : isIncoming ? "arrow-down" : "arrow-up"}
           size={18}
-          color={isEntry ? Colors.success : Colors.danger}
+          color={color}
         />
       </View>
       <View style={styles.movContent}>
         <Text style={styles.movProduct} numberOfLines={1}>{product?.name ?? "Produto removido"}</Text>
+        {isAdjustment && (
+          <Text style={styles.movReason} numberOfLines={1}>Ajuste · {movement.reasonName ?? "Sem motivo"}</Text>
+        )}
         <Text style={styles.movNote} numberOfLines={1}>
-          {movement.note || (isEntry ? "Entrada de estoque" : "Saída de estoque")}
+          {movement.note || (isAdjustment ? "Ajuste de estoque" : isIncoming ? "Entrada de estoque" : "Saída de estoque")}
         </Text>
+        {movement.userName && (
+          <View style={styles.movUserRow}>
+            <Ionicons name="person-outline" size={11} color={Colors.textSecondary} />
+            <Text style={styles.movUser} numberOfLines={1}>{movement.userName}</Text>
+          </View>
+        )}
+        <MovementStatusBadge status={status} />
       </View>
       <View style={styles.movRight}>
-        <Text style={[styles.movQty, { color: isEntry ? Colors.success : Colors.danger }]}>
-          {isEntry ? "+" : "-"}{movement.quantity}
+        <Text style={[styles.movQty, { color }, status === "reversed" && styles.movQtyReversed]}>
+          {isIncoming ? "+" : "-"}{Math.abs(movement.quantity)}
         </Text>
         <Text style={styles.movTime}>{time}</Text>
       </View>
-    </View>
+    </Pressable>
   );
 }
 
 export default function MovementsScreen() {
   const insets = useSafeAreaInsets();
+  const { can } = useAuth();
   const [movements, setMovements] = useState<Movement[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
-  const [filter, setFilter] = useState<"all" | "entry" | "exit">("all");
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [documents, setDocuments] = useState<MovementDocument[]>([]);
+  const [expandedDocuments, setExpandedDocuments] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState<MovementFilter>("all");
   const [refreshing, setRefreshing] = useState(false);
 
   const loadData = useCallback(async () => {
-    const [m, p] = await Promise.all([getMovements(), getProducts()]);
+    const [m, p, l, d] = await Promise.all([
+      getMovements(),
+      getProducts("include"),
+      getLocations(),
+      getMovementDocuments(),
+    ]);
     setMovements(m.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
     setProducts(p);
+    setLocations(l);
+    setDocuments(d);
   }, []);
 
   useFocusEffect(
@@ -93,23 +290,77 @@ export default function MovementsScreen() {
     setRefreshing(false);
   };
 
-  const filtered = filter === "all" ? movements : movements.filter((m) => m.type === filter);
+  // A chegada de uma transferência é exibida junto com a saída correspondente.
+  const filtered = (filter === "all" ? movements : movements.filter((m) => m.type === filter)).filter(
+    (m) => m.type !== "transfer" || m.transferDirection === "out"
+  );
   const grouped = groupByDate(filtered);
+  const reversedIds = reversedMovementIds(movements);
 
   const topPadding = Platform.OS === "web" ? 67 : insets.top;
 
-  const renderItem = ({ item }: { item: Movement | { type: "header"; title: string } }) => {
+  const toggleDocument = (documentId: string) => {
+    setExpandedDocuments((current) => {
+      const next = new Set(current);
+      if (next.has(documentId)) next.delete(documentId);
+      else next.add(documentId);
+      return next;
+    });
+  };
+
+  const renderItem = ({ item }: { item: Movement | HeaderRow | DocumentRow }) => {
     if ("title" in item && item.type === "header") {
       return <Text style={styles.dateHeader}>{item.title}</Text>;
     }
+    if ("document" in item) {
+      return (
+        <DocumentItem
+          document={item.document}
+          lines={item.lines}
+          products={products}
+          reversedIds={reversedIds}
+          expanded={expandedDocuments.has(item.document.id)}
+          onToggle={() => toggleDocument(item.document.id)}
+        />
+      );
+    }
     const mov = item as Movement;
-    return <MovementItem movement={mov} product={products.find((p) => p.id === mov.productId)} />;
+    const product = products.find((p) => p.id === mov.productId);
+    if (mov.type === "transfer") {
+      const inLeg = movements.find((m) => m.transferId === mov.transferId && m.transferDirection === "in");
+      return (
+        <TransferItem
+          outLeg={mov}
+          inLeg={inLeg}
+          product={product}
+          locations={locations}
+          status={movementStatus(inLeg ? [mov, inLeg] : [mov], reversedIds)}
+        />
+      );
+    }
+    return <MovementItem movement={mov} product={product} status={movementStatus([mov], reversedIds)} />;
   };
 
-  const flatData: (Movement | { type: "header"; title: string; id: string })[] = [];
+  // As linhas de um documento aparecem dentro dele, no lugar da primeira delas.
+  const flatData: (Movement | HeaderRow | DocumentRow)[] = [];
+  const shownDocuments = new Set<string>();
   for (const group of grouped) {
     flatData.push({ type: "header", title: group.title, id: `header_${group.title}` });
-    flatData.push(...group.data);
+    for (const mov of group.data) {
+      const document = mov.documentId ? documents.find((d) => d.id === mov.documentId) : undefined;
+      if (!document) {
+        flatData.push(mov);
+        continue;
+      }
+      if (shownDocuments.has(document.id)) continue;
+      shownDocuments.add(document.id);
+      flatData.push({
+        type: "document",
+        id: `document_${document.id}`,
+        document,
+        lines: movements.filter((m) => m.documentId === document.id),
+      });
+    }
   }
 
   return (
@@ -117,18 +368,42 @@ export default function MovementsScreen() {
       <View style={[styles.header, { paddingTop: topPadding + 12 }]}>
         <View style={styles.headerRow}>
           <Text style={styles.title}>Movimentações</Text>
-          <Pressable
-            onPress={() => {
-              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-              router.push("/movement/add");
-            }}
-            style={({ pressed }) => [styles.addBtn, pressed && { opacity: 0.8 }]}
-          >
-            <Ionicons name="add" size={24} color={Colors.white} />
-          </Pressable>
+          <View style={styles.headerActions}>
+            {can("movement:transfer") && (
+              <Pressable
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  router.push("/movement/transfer");
+                }}
+                style={({ pressed }) => [styles.addBtn, styles.transferBtn, pressed && { opacity: 0.8 }]}
+              >
+                <Ionicons name="swap-horizontal" size={22} color={Colors.primary} />
+              </Pressable>
+            )}
+            {(can("movement:entry") || can("movement:exit")) && (
+              <Pressable
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  router.push("/movement/document");
+                }}
+                style={({ pressed }) => [styles.addBtn, styles.transferBtn, pressed && { opacity: 0.8 }]}
+              >
+                <Ionicons name="document-text-outline" size={21} color={Colors.primary} />
+              </Pressable>
+            )}
+            <Pressable
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push("/movement/add");
+              }}
+              style={({ pressed }) => [styles.addBtn, pressed && { opacity: 0.8 }]}
+            >
+              <Ionicons name="add" size={24} color={Colors.white} />
+            </Pressable>
+          </View>
         </View>
-        <View style={styles.filterRow}>
-          {(["all", "entry", "exit"] as const).map((f) => (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+          {(Object.keys(FILTER_LABELS) as MovementFilter[]).map((f) => (
             <Pressable
               key={f}
               onPress={() => {
@@ -138,16 +413,16 @@ export default function MovementsScreen() {
               style={[styles.filterChip, filter === f && styles.filterChipActive]}
             >
               <Text style={[styles.filterText, filter === f && styles.filterTextActive]}>
-                {f === "all" ? "Todas" : f === "entry" ? "Entradas" : "Saídas"}
+                {FILTER_LABELS[f]}
               </Text>
             </Pressable>
           ))}
-        </View>
+        </ScrollView>
       </View>
 
       <FlatList
         data={flatData}
-        keyExtractor={(item) => ("title" in item && "type" in item && item.type === "header" ? (item as any).id : (item as Movement).id)}
+        keyExtractor={(item) => item.id}
         renderItem={renderItem as any}
         contentContainerStyle={styles.listContent}
         refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
@@ -195,6 +470,13 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  headerActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  transferBtn: {
+    backgroundColor: "#E0F2F1",
+  },
   filterRow: {
     flexDirection: "row",
     gap: 8,
@@ -243,6 +525,28 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: Colors.borderLight,
   },
+  docWrap: {
+    marginBottom: 8,
+  },
+  docItem: {
+    marginBottom: 0,
+  },
+  docMeta: {
+    fontSize: 12,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  docLines: {
+    marginTop: 6,
+    marginLeft: 16,
+    paddingLeft: 10,
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.borderLight,
+  },
+  movReversed: {
+    opacity: 0.6,
+  },
   movIconWrap: {
     width: 38,
     height: 38,
@@ -260,12 +564,41 @@ const styles = StyleSheet.create({
     fontFamily: "Inter_600SemiBold",
     color: Colors.text,
   },
+  movReason: {
+    fontSize: 12,
+    fontFamily: "Inter_500Medium",
+    color: Colors.accentDark,
+    marginTop: 2,
+  },
   movNote: {
     fontSize: 12,
     fontFamily: "Inter_400Regular",
     color: Colors.textTertiary,
     marginTop: 2,
   },
+  transferLegs: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 2,
+  },
+  transferLeg: {
+    flexShrink: 1,
+    fontSize: 12,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  movUserRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 3,
+  },
+  movUser: {
+    fontSize: 11,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
   movRight: {
     alignItems: "flex-end",
   },
@@ -273,6 +606,9 @@ const styles = StyleSheet.create({
     fontSize: 17,
     fontFamily: "Inter_700Bold",
   },
+  movQtyReversed: {
+    textDecorationLine: "line-through",
+  },
   movTime: {
     fontSize: 11,
     fontFamily: "Inter_400Regular",
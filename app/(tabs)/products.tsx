@@ -15,28 +15,46 @@ import { Ionicons } from "@expo/vector-icons";
 import { router, useFocusEffect } from "expo-router";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
-import { getProducts, getCategories, deleteProduct, Product, Category } from "@/lib/storage";
+import { useAuth } from "@/components/AuthProvider";
+import {
+  getProducts,
+  getCategories,
+  deleteProduct,
+  getLocations,
+  getStockBalances,
+  Product,
+  Category,
+  Location,
+  StockBalance,
+} from "@/lib/storage";
 
 function ProductCard({
   product,
   category,
+  balance,
   onDelete,
 }: {
   product: Product;
   category?: Category;
-  onDelete: (id: string) => void;
+  balance?: StockBalance;
+  onDelete?: (id: string) => void;
 }) {
-  const isLow = product.quantity <= product.minStock;
+  // Com um local selecionado, o card mostra o saldo do local e o total abaixo.
+  const isLow = balance
+    ? balance.minStock > 0 && balance.quantity <= balance.minStock
+    : product.quantity <= product.minStock;
+  const displayQty = balance ? balance.quantity : product.quantity;
 
   const handlePress = () => {
     router.push({ pathname: "/product/[id]", params: { id: product.id } });
   };
 
   const handleLongPress = () => {
+    if (!onDelete) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    Alert.alert("Excluir Produto", `Deseja excluir "${product.name}"?`, [
+    Alert.alert("Mover para a Lixeira", `"${product.name}" poderá ser restaurado pela Lixeira.`, [
       { text: "Cancelar", style: "cancel" },
-      { text: "Excluir", style: "destructive", onPress: () => onDelete(product.id) },
+      { text: "Mover", style: "destructive", onPress: () => onDelete(product.id) },
     ]);
   };
 
@@ -56,10 +74,13 @@ function ProductCard({
       <View style={styles.productRight}>
         <View style={styles.productQtyWrap}>
           <Text style={[styles.productQty, isLow && { color: Colors.danger }]}>
-            {product.quantity}
+            {displayQty}
           </Text>
           <Text style={styles.productUnit}>{product.unit}</Text>
         </View>
+        {balance && (
+          <Text style={styles.productTotal}>Total: {product.quantity}</Text>
+        )}
         {isLow && (
           <View style={styles.lowBadge}>
             <Ionicons name="warning" size={10} color={Colors.danger} />
@@ -75,16 +96,22 @@ function ProductCard({
 
 export default function ProductsScreen() {
   const insets = useSafeAreaInsets();
+  const { can } = useAuth();
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [search, setSearch] = useState("");
   const [selectedCat, setSelectedCat] = useState<string | null>(null);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [balances, setBalances] = useState<StockBalance[]>([]);
+  const [selectedLocation, setSelectedLocation] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
 
   const loadData = useCallback(async () => {
-    const [p, c] = await Promise.all([getProducts(), getCategories()]);
+    const [p, c, l, b] = await Promise.all([getProducts(), getCategories(), getLocations(), getStockBalances()]);
     setProducts(p.sort((a, b) => a.name.localeCompare(b.name)));
     setCategories(c);
+    setLocations(l);
+    setBalances(b);
   }, []);
 
   useFocusEffect(
@@ -105,10 +132,14 @@ export default function ProductsScreen() {
     loadData();
   };
 
+  const balanceAt = (productId: string) =>
+    balances.find((b) => b.productId === productId && b.locationId === selectedLocation);
+
   const filtered = products.filter((p) => {
     const matchName = p.name.toLowerCase().includes(search.toLowerCase());
     const matchCat = selectedCat ? p.categoryId === selectedCat : true;
-    return matchName && matchCat;
+    const matchLocation = selectedLocation ? !!balanceAt(p.id) : true;
+    return matchName && matchCat && matchLocation;
   });
 
   const topPadding = Platform.OS === "web" ? 67 : insets.top;
@@ -118,15 +149,17 @@ export default function ProductsScreen() {
       <View style={[styles.header, { paddingTop: topPadding + 12 }]}>
         <View style={styles.headerRow}>
           <Text style={styles.title}>Produtos</Text>
-          <Pressable
-            onPress={() => {
-              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-              router.push("/product/add");
-            }}
-            style={({ pressed }) => [styles.addBtn, pressed && { opacity: 0.8 }]}
-          >
-            <Ionicons name="add" size={24} color={Colors.white} />
-          </Pressable>
+          {can("product:write") && (
+            <Pressable
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push("/product/add");
+              }}
+              style={({ pressed }) => [styles.addBtn, pressed && { opacity: 0.8 }]}
+            >
+              <Ionicons name="add" size={24} color={Colors.white} />
+            </Pressable>
+          )}
         </View>
         <View style={styles.searchWrap}>
           <Ionicons name="search" size={18} color={Colors.textTertiary} />
@@ -171,6 +204,30 @@ export default function ProductsScreen() {
             </Pressable>
           )}
         />
+        {locations.length > 1 && (
+          <FlatList
+            data={[{ id: null, name: "Todos os locais" } as any, ...locations]}
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            keyExtractor={(item) => item.id ?? "all"}
+            contentContainerStyle={[styles.catFilterList, { marginTop: 8 }]}
+            renderItem={({ item }) => {
+              const active = item.id === null ? selectedLocation === null : selectedLocation === item.id;
+              return (
+                <Pressable
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setSelectedLocation(item.id);
+                  }}
+                  style={[styles.catChip, styles.locationChip, active && styles.catChipActive]}
+                >
+                  <Ionicons name="location-outline" size={13} color={active ? Colors.white : Colors.textSecondary} />
+                  <Text style={[styles.catChipText, active && styles.catChipTextActive]}>{item.name}</Text>
+                </Pressable>
+              );
+            }}
+          />
+        )}
       </View>
       <FlatList
         data={filtered}
@@ -179,7 +236,8 @@ export default function ProductsScreen() {
           <ProductCard
             product={item}
             category={categories.find((c) => c.id === item.categoryId)}
-            onDelete={handleDelete}
+            balance={selectedLocation ? balanceAt(item.id) : undefined}
+            onDelete={can("product:delete") ? handleDelete : undefined}
           />
         )}
         contentContainerStyle={styles.listContent}
@@ -188,7 +246,9 @@ export default function ProductsScreen() {
           <View style={styles.emptyState}>
             <Ionicons name="cube-outline" size={48} color={Colors.textTertiary} />
             <Text style={styles.emptyTitle}>Nenhum produto encontrado</Text>
-            <Text style={styles.emptyText}>Adicione produtos tocando no botão +</Text>
+            {can("product:write") && (
+              <Text style={styles.emptyText}>Adicione produtos tocando no botão +</Text>
+            )}
           </View>
         }
         showsVerticalScrollIndicator={false}
@@ -268,6 +328,11 @@ const styles = StyleSheet.create({
   catChipTextActive: {
     color: Colors.white,
   },
+  locationChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
   listContent: {
     paddingHorizontal: 20,
     paddingTop: 12,
@@ -328,6 +393,11 @@ const styles = StyleSheet.create({
     fontFamily: "Inter_400Regular",
     color: Colors.textTertiary,
   },
+  productTotal: {
+    fontSize: 11,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
   lowBadge: {
     marginTop: 2,
   },
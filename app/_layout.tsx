@@ -5,6 +5,7 @@ import React, { useEffect } from "react";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { KeyboardProvider } from "react-native-keyboard-controller";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { AuthProvider, useAuth } from "@/components/AuthProvider";
 import { queryClient } from "@/lib/query-client";
 import { getProducts, importAllData } from "@/lib/storage";
 import { getSeedData } from "@/lib/seed-data";
@@ -19,71 +20,246 @@ import {
 SplashScreen.preventAutoHideAsync();
 
 function RootLayoutNav() {
+  const { user, isLoading } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    async function seedIfEmpty() {
+      try {
+        const existing = await getProducts("include");
+        if (existing.length === 0) {
+          await importAllData(getSeedData(), "merge");
+        }
+      } catch (_) {}
+    }
+    seedIfEmpty();
+  }, [userId]);
+
+  if (isLoading) return null;
+
   return (
     <Stack screenOptions={{ headerBackTitle: "Voltar" }}>
-      <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-      <Stack.Screen
-        name="product/add"
-        options={{
-          title: "Novo Produto",
-          presentation: "modal",
-          headerTintColor: "#0D9488",
-          headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
-        }}
-      />
-      <Stack.Screen
-        name="product/[id]"
-        options={{
-          title: "Detalhes",
-          headerTintColor: "#0D9488",
-          headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
-        }}
-      />
-      <Stack.Screen
-        name="product/edit/[id]"
-        options={{
-          title: "Editar Produto",
-          presentation: "modal",
-          headerTintColor: "#0D9488",
-          headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
-        }}
-      />
-      <Stack.Screen
-        name="movement/add"
-        options={{
-          title: "Nova Movimentação",
-          presentation: "modal",
-          headerTintColor: "#0D9488",
-          headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
-        }}
-      />
-      <Stack.Screen
-        name="categories"
-        options={{
-          title: "Categorias",
-          presentation: "modal",
-          headerTintColor: "#0D9488",
-          headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
-        }}
-      />
-      <Stack.Screen
-        name="reports"
-        options={{
-          title: "Relatórios",
-          presentation: "modal",
-          headerTintColor: "#0D9488",
-          headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
-        }}
-      />
-      <Stack.Screen
-        name="backup"
-        options={{
-          title: "Backup & Dados",
-          presentation: "modal",
-          headerTintColor: "#0D9488",
-          headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
-        }}
-      />
+      <Stack.Protected guard={!user}>
+        <Stack.Screen name="login" options={{ headerShown: false }} />
+      </Stack.Protected>
+      <Stack.Protected guard={!!user}>
+        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen
+          name="product/add"
+          options={{
+            title: "Novo Produto",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="product/[id]"
+          options={{
+            title: "Detalhes",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="product/edit/[id]"
+          options={{
+            title: "Editar Produto",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="movement/add"
+          options={{
+            title: "Nova Movimentação",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="movement/transfer"
+          options={{
+            title: "Transferência",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="movement/document"
+          options={{
+            title: "Novo Documento",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="movement/[id]"
+          options={{
+            title: "Movimentação",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="categories"
+          options={{
+            title: "Categorias",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="reports"
+          options={{
+            title: "Relatórios",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="backup"
+          options={{
+            title: "Backup & Dados",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="checkouts"
+          options={{
+            title: "Com quem está",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="checkout/add"
+          options={{
+            title: "Nova Retirada",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="locations"
+          options={{
+            title: "Locais de Estoque",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="adjustment-reasons"
+          options={{
+            title: "Motivos de Ajuste",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="suppliers"
+          options={{
+            title: "Fornecedores",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="purchases"
+          options={{
+            title: "Pedidos de Compra",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="purchase/add"
+          options={{
+            title: "Pedido de Compra",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="purchase/[id]"
+          options={{
+            title: "Pedido de Compra",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="reorder"
+          options={{
+            title: "Sugestões de Compra",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="stocktakes"
+          options={{
+            title: "Inventários",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="stocktake/[id]"
+          options={{
+            title: "Inventário",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="trash"
+          options={{
+            title: "Lixeira",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="audit"
+          options={{
+            title: "Auditoria",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+        <Stack.Screen
+          name="users"
+          options={{
+            title: "Usuários",
+            presentation: "modal",
+            headerTintColor: "#0D9488",
+            headerTitleStyle: { fontFamily: "Inter_600SemiBold" },
+          }}
+        />
+      </Stack.Protected>
     </Stack>
   );
 }
@@ -102,28 +278,18 @@ export default function RootLayout() {
     }
   }, [fontsLoaded]);
 
-  useEffect(() => {
-    async function seedIfEmpty() {
-      try {
-        const existing = await getProducts();
-        if (existing.length === 0) {
-          await importAllData(getSeedData());
-        }
-      } catch (_) {}
-    }
-    seedIfEmpty();
-  }, []);
-
   if (!fontsLoaded) return null;
 
   return (
     <ErrorBoundary>
       <QueryClientProvider client={queryClient}>
-        <GestureHandlerRootView>
-          <KeyboardProvider>
-            <RootLayoutNav />
-          </KeyboardProvider>
-        </GestureHandlerRootView>
+        <AuthProvider>
+          <GestureHandlerRootView>
+            <KeyboardProvider>
+              <RootLayoutNav />
+            </KeyboardProvider>
+          </GestureHandlerRootView>
+        </AuthProvider>
       </QueryClientProvider>
     </ErrorBoundary>
   );
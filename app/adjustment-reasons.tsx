@@ -0,0 +1,370 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  FlatList,
+  Pressable,
+  TextInput,
+  Alert,
+  Platform,
+  Modal,
+  Switch,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "expo-router";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useAuth } from "@/components/AuthProvider";
+import {
+  getAdjustmentReasons,
+  addAdjustmentReason,
+  updateAdjustmentReason,
+  AdjustmentReason,
+} from "@/lib/storage";
+
+function ReasonRow({
+  reason,
+  onEdit,
+}: {
+  reason: AdjustmentReason;
+  onEdit?: (reason: AdjustmentReason) => void;
+}) {
+  return (
+    <Pressable
+      onPress={() => onEdit?.(reason)}
+      disabled={!onEdit}
+      style={({ pressed }) => [styles.reasonRow, !reason.active && { opacity: 0.6 }, pressed && { opacity: 0.85 }]}
+    >
+      <View style={styles.reasonIcon}>
+        <Ionicons name="pricetag-outline" size={20} color={Colors.primary} />
+      </View>
+      <View style={styles.reasonInfo}>
+        <View style={styles.reasonTitleRow}>
+          <Text style={styles.reasonName}>{reason.name}</Text>
+          {reason.code && (
+            <View style={styles.badge}>
+              <Text style={styles.badgeText}>Padrão</Text>
+            </View>
+          )}
+        </View>
+        <Text style={styles.reasonMeta}>{reason.active ? "Ativo" : "Desativado"}</Text>
+      </View>
+      {onEdit && <Ionicons name="create-outline" size={18} color={Colors.textTertiary} />}
+    </Pressable>
+  );
+}
+
+export default function AdjustmentReasonsScreen() {
+  const { can } = useAuth();
+  const canManage = can("reason:manage");
+  const [reasons, setReasons] = useState<AdjustmentReason[]>([]);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editing, setEditing] = useState<AdjustmentReason | null>(null);
+  const [name, setName] = useState("");
+  const [active, setActive] = useState(true);
+
+  const loadData = useCallback(async () => {
+    setReasons(await getAdjustmentReasons());
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const openAdd = () => {
+    setEditing(null);
+    setName("");
+    setActive(true);
+    setModalVisible(true);
+  };
+
+  const openEdit = (reason: AdjustmentReason) => {
+    setEditing(reason);
+    setName(reason.name);
+    setActive(reason.active);
+    setModalVisible(true);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Erro", "Informe o nome do motivo");
+      return;
+    }
+    try {
+      if (editing) {
+        await updateAdjustmentReason(editing.id, { name: name.trim(), active });
+      } else {
+        await addAdjustmentReason(name.trim());
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setModalVisible(false);
+      loadData();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao salvar motivo");
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={reasons}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => <ReasonRow reason={item} onEdit={canManage ? openEdit : undefined} />}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          canManage ? (
+            <Pressable
+              onPress={openAdd}
+              style={({ pressed }) => [styles.addRow, pressed && { opacity: 0.8 }]}
+            >
+              <View style={styles.addIconWrap}>
+                <Ionicons name="add" size={22} color={Colors.white} />
+              </View>
+              <Text style={styles.addText}>Novo Motivo</Text>
+            </Pressable>
+          ) : null
+        }
+      />
+
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing ? "Editar Motivo" : "Novo Motivo"}</Text>
+              <Pressable onPress={() => setModalVisible(false)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+
+            <Text style={styles.label}>Nome</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Ex: Vencimento"
+              placeholderTextColor={Colors.textTertiary}
+              value={name}
+              onChangeText={setName}
+            />
+
+            {editing && (
+              <View style={styles.switchRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.switchLabel}>Ativo</Text>
+                  <Text style={styles.switchHint}>Motivos desativados não aparecem em novos ajustes</Text>
+                </View>
+                <Switch
+                  value={active}
+                  onValueChange={setActive}
+                  trackColor={{ true: Colors.primary, false: Colors.border }}
+                />
+              </View>
+            )}
+
+            <View style={styles.modalActions}>
+              <Pressable
+                onPress={() => setModalVisible(false)}
+                style={({ pressed }) => [styles.cancelBtn, pressed && { opacity: 0.8 }]}
+              >
+                <Text style={styles.cancelBtnText}>Cancelar</Text>
+              </Pressable>
+              <Pressable
+                onPress={handleSave}
+                style={({ pressed }) => [styles.saveBtn, pressed && { opacity: 0.8 }]}
+              >
+                <Ionicons name="checkmark" size={18} color={Colors.white} />
+                <Text style={styles.saveBtnText}>Salvar</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderStyle: "dashed" as const,
+  },
+  addIconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: Colors.primary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  addText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+  reasonRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  reasonIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    backgroundColor: "#E0F2F1",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  reasonInfo: {
+    flex: 1,
+  },
+  reasonTitleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  reasonName: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    backgroundColor: Colors.surfaceElevated,
+  },
+  badgeText: {
+    fontSize: 10,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+  },
+  reasonMeta: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalCard: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 8,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginBottom: 20,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  switchHint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 24,
+  },
+  cancelBtn: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  cancelBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+  },
+  saveBtn: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+  },
+  saveBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+});
@@ -0,0 +1,215 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  Platform,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "expo-router";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { AuditEntryCard } from "@/components/AuditEntryCard";
+import { getAuditLog, getCategories, AuditEntry, AuditEntityType, Category } from "@/lib/storage";
+
+type EntityFilter = "all" | AuditEntityType;
+type Period = "7d" | "30d" | "90d" | "all";
+
+const ENTITY_FILTERS: { key: EntityFilter; label: string }[] = [
+  { key: "all", label: "Todos" },
+  { key: "product", label: "Produtos" },
+  { key: "category", label: "Categorias" },
+  { key: "movement", label: "Movimentações" },
+  { key: "location", label: "Locais" },
+  { key: "checkout", label: "Retiradas" },
+  { key: "unit", label: "Unidades" },
+  { key: "maintenance", label: "Manutenções" },
+  { key: "supplier", label: "Fornecedores" },
+  { key: "purchase_order", label: "Pedidos de compra" },
+  { key: "stocktake", label: "Inventários" },
+  { key: "adjustment_reason", label: "Motivos de ajuste" },
+  { key: "movement_document", label: "Documentos" },
+  { key: "backup", label: "Backups" },
+  { key: "user", label: "Usuários" },
+];
+
+const PERIOD_LABELS: Record<Period, string> = {
+  "7d": "7 dias",
+  "30d": "30 dias",
+  "90d": "90 dias",
+  all: "Tudo",
+};
+
+function periodStart(period: Period): Date | undefined {
+  if (period === "all") return undefined;
+  const days = period === "7d" ? 7 : period === "30d" ? 30 : 90;
+  const from = new Date();
+  from.setDate(from.getDate() - days);
+  return from;
+}
+
+export default function AuditScreen() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [entity, setEntity] = useState<EntityFilter>("all");
+  const [period, setPeriod] = useState<Period>("30d");
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadData = useCallback(async () => {
+    const [log, cats] = await Promise.all([
+      getAuditLog({
+        entityType: entity === "all" ? undefined : entity,
+        from: periodStart(period),
+      }),
+      getCategories("include"),
+    ]);
+    setEntries(log);
+    setCategories(cats);
+  }, [entity, period]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filters}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {ENTITY_FILTERS.map((f) => (
+            <Pressable
+              key={f.key}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setEntity(f.key);
+              }}
+              style={[styles.chip, entity === f.key && styles.chipActive]}
+            >
+              <Text style={[styles.chipText, entity === f.key && styles.chipTextActive]}>{f.label}</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+        <View style={styles.periodRow}>
+          {(Object.keys(PERIOD_LABELS) as Period[]).map((p) => (
+            <Pressable
+              key={p}
+              onPress={() => setPeriod(p)}
+              style={[styles.periodBtn, period === p && styles.periodBtnActive]}
+            >
+              <Text style={[styles.periodText, period === p && styles.periodTextActive]}>{PERIOD_LABELS[p]}</Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      <FlatList
+        data={entries}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => <AuditEntryCard entry={item} categories={categories} />}
+        contentContainerStyle={styles.listContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+        showsVerticalScrollIndicator={false}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="document-text-outline" size={48} color={Colors.textTertiary} />
+            <Text style={styles.emptyTitle}>Nenhuma alteração registrada</Text>
+            <Text style={styles.emptyText}>Ajuste os filtros para ver outros períodos</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  filters: {
+    backgroundColor: Colors.surface,
+    paddingVertical: 12,
+    gap: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  chipRow: {
+    gap: 8,
+    paddingHorizontal: 20,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 20,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  periodRow: {
+    flexDirection: "row",
+    gap: 6,
+    paddingHorizontal: 20,
+  },
+  periodBtn: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: Colors.surfaceElevated,
+  },
+  periodBtnActive: {
+    backgroundColor: "#E0F2F1",
+  },
+  periodText: {
+    fontSize: 12,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  periodTextActive: {
+    color: Colors.primary,
+    fontFamily: "Inter_600SemiBold",
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 60,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+});
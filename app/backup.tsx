@@ -17,6 +17,7 @@ import * as FileSystem from "expo-file-system";
 import * as DocumentPicker from "expo-document-picker";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
+import { useAuth } from "@/components/AuthProvider";
 import {
   getProducts,
   getCategories,
@@ -24,8 +25,41 @@ import {
   exportAllData,
   importAllData,
   clearAllData,
+  getBackupSnapshots,
+  restoreBackupSnapshot,
   BackupData,
+  BackupSnapshot,
 } from "@/lib/storage";
+import {
+  BACKUP_RESTORE_MODE_LABELS,
+  BACKUP_RESTORE_MODES,
+  BACKUP_SNAPSHOT_REASON_LABELS,
+  CLEAR_DATA_CONFIRMATION,
+  type BackupRestoreMode,
+  type BackupRestoreResult,
+} from "@shared/backup";
+
+const LISTED_CONFLICTS = 5;
+
+/** Resumo do que voltou e dos registros que ficaram de fora. */
+function restoreSummary({ snapshotId, restored, conflicts }: BackupRestoreResult): string {
+  const lines = [
+    `Importados: ${restored.categories} categorias, ${restored.products} produtos e ${restored.movements} movimentações.`,
+  ];
+  if (snapshotId) {
+    lines.push("Os dados anteriores foram guardados numa cópia automática.");
+  }
+  if (conflicts.length > 0) {
+    lines.push("", `${conflicts.length} registro(s) não importado(s):`);
+    for (const conflict of conflicts.slice(0, LISTED_CONFLICTS)) {
+      lines.push(`- ${conflict.name}: ${conflict.reason}`);
+    }
+    if (conflicts.length > LISTED_CONFLICTS) {
+      lines.push(`... e mais ${conflicts.length - LISTED_CONFLICTS}`);
+    }
+  }
+  return lines.join("\n");
+}
 
 function ActionCard({
   icon,
@@ -66,19 +100,34 @@ function ActionCard({
 }
 
 export default function BackupScreen() {
+  const { can } = useAuth();
   const [productCount, setProductCount] = useState(0);
   const [categoryCount, setCategoryCount] = useState(0);
   const [movementCount, setMovementCount] = useState(0);
   const [importModalVisible, setImportModalVisible] = useState(false);
   const [importText, setImportText] = useState("");
   const [exporting, setExporting] = useState(false);
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[]>([]);
+  const [clearModalVisible, setClearModalVisible] = useState(false);
+  const [clearText, setClearText] = useState("");
+  const [clearing, setClearing] = useState(false);
+  // Mesclar não apaga nada; substituir exige a confirmação explícita.
+  const [restoreMode, setRestoreMode] = useState<BackupRestoreMode>("merge");
+
+  const canImport = can("backup:import");
 
   const loadCounts = useCallback(async () => {
-    const [p, c, m] = await Promise.all([getProducts(), getCategories(), getMovements()]);
+    const [p, c, m, s] = await Promise.all([
+      getProducts(),
+      getCategories(),
+      getMovements(),
+      canImport ? getBackupSnapshots() : Promise.resolve([]),
+    ]);
     setProductCount(p.length);
     setCategoryCount(c.length);
     setMovementCount(m.length);
-  }, []);
+    setSnapshots(s);
+  }, [canImport]);
 
   useFocusEffect(
     useCallback(() => {
@@ -141,6 +190,17 @@ export default function BackupScreen() {
     }
   };
 
+  const runImport = async (data: BackupData) => {
+    try {
+      const result = await importAllData(data, restoreMode);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert("Importação concluída", restoreSummary(result));
+      loadCounts();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Erro ao importar dados");
+    }
+  };
+
   const handleImportFile = async () => {
     try {
       const result = await DocumentPicker.getDocumentAsync({
@@ -166,27 +226,23 @@ export default function BackupScreen() {
         return;
       }
 
-      const confirmMsg = `Este backup contém:\n- ${data.categories.length} categorias\n- ${data.products.length} produtos\n- ${data.movements.length} movimentações\n\nIsso substituirá todos os dados atuais. Continuar?`;
+      const modeMsg =
+        restoreMode === "replace"
+          ? "Isso substituirá todos os dados atuais."
+          : "Os dados serão somados aos atuais; registros que já existem ficam como estão.";
+      const confirmMsg = `Este backup contém:\n- ${data.categories.length} categorias\n- ${data.products.length} produtos\n- ${data.movements.length} movimentações\n\n${modeMsg} Continuar?`;
 
       if (Platform.OS === "web") {
         const confirmed = window.confirm(confirmMsg);
         if (!confirmed) return;
-        await importAllData(data);
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-        Alert.alert("Sucesso", "Dados importados com sucesso!");
-        loadCounts();
+        await runImport(data);
       } else {
         Alert.alert("Importar Backup", confirmMsg, [
           { text: "Cancelar", style: "cancel" },
           {
             text: "Importar",
-            style: "destructive",
-            onPress: async () => {
-              await importAllData(data);
-              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-              Alert.alert("Sucesso", "Dados importados com sucesso!");
-              loadCounts();
-            },
+            style: restoreMode === "replace" ? "destructive" : "default",
+            onPress: () => runImport(data),
           },
         ]);
       }
@@ -196,52 +252,70 @@ export default function BackupScreen() {
   };
 
   const handleImportText = async () => {
+    let data: BackupData;
     try {
-      const data: BackupData = JSON.parse(importText);
-      if (!data.categories || !data.products || !data.movements) {
-        Alert.alert("Erro", "Dados inválidos. Formato não reconhecido.");
-        return;
-      }
-
-      await importAllData(data);
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      setImportModalVisible(false);
-      setImportText("");
-      Alert.alert("Sucesso", "Dados importados com sucesso!");
-      loadCounts();
+      data = JSON.parse(importText);
     } catch {
       Alert.alert("Erro", "JSON inválido. Verifique os dados colados.");
+      return;
+    }
+    if (!data.categories || !data.products || !data.movements) {
+      Alert.alert("Erro", "Dados inválidos. Formato não reconhecido.");
+      return;
     }
+
+    setImportModalVisible(false);
+    setImportText("");
+    await runImport(data);
   };
 
-  const handleClearData = () => {
-    const msg = "Isso excluirá TODOS os dados: produtos, categorias e movimentações. Esta ação não pode ser desfeita.";
+  const handleRestoreSnapshot = (snapshot: BackupSnapshot) => {
+    const modeMsg =
+      restoreMode === "replace"
+        ? "Isso substituirá todos os dados atuais."
+        : "Os dados serão somados aos atuais; registros que já existem ficam como estão.";
+    const msg = `Esta cópia contém:\n- ${snapshot.categories} categorias\n- ${snapshot.products} produtos\n- ${snapshot.movements} movimentações\n\n${modeMsg} Continuar?`;
+    const restore = async () => {
+      try {
+        const result = await restoreBackupSnapshot(snapshot.id, restoreMode);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        Alert.alert("Cópia restaurada", restoreSummary(result));
+        loadCounts();
+      } catch (e: any) {
+        Alert.alert("Erro", e.message || "Erro ao restaurar cópia");
+      }
+    };
 
     if (Platform.OS === "web") {
-      const confirmed = window.confirm(msg);
-      if (!confirmed) return;
-      clearAllData().then(() => {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-        Alert.alert("Dados excluídos", "Todos os dados foram removidos.");
-        loadCounts();
-      });
+      if (window.confirm(msg)) restore();
     } else {
-      Alert.alert("Limpar Todos os Dados", msg, [
+      Alert.alert("Restaurar Cópia", msg, [
         { text: "Cancelar", style: "cancel" },
-        {
-          text: "Excluir Tudo",
-          style: "destructive",
-          onPress: async () => {
-            await clearAllData();
-            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-            Alert.alert("Dados excluídos", "Todos os dados foram removidos.");
-            loadCounts();
-          },
-        },
+        { text: "Restaurar", style: restoreMode === "replace" ? "destructive" : "default", onPress: restore },
       ]);
     }
   };
 
+  // A frase digitada substitui a confirmação simples: a limpeza apaga tudo de uma vez.
+  const handleClearData = async () => {
+    setClearing(true);
+    try {
+      const { removed } = await clearAllData(clearText);
+      setClearModalVisible(false);
+      setClearText("");
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      Alert.alert(
+        "Dados excluídos",
+        `Removidos: ${removed.categories} categorias, ${removed.products} produtos e ${removed.movements} movimentações.\n\nUma cópia automática foi guardada e pode ser restaurada nesta tela.`
+      );
+      loadCounts();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Erro ao limpar os dados");
+    } finally {
+      setClearing(false);
+    }
+  };
+
   return (
     <View style={styles.container}>
       <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
@@ -279,39 +353,88 @@ export default function BackupScreen() {
           onPress={handleExportClipboard}
         />
 
-        <Text style={styles.sectionTitle}>Importar Dados</Text>
-        <ActionCard
-          icon="folder-open-outline"
-          iconColor="#10B981"
-          iconBg={Colors.successLight}
-          title="Importar de Arquivo"
-          description="Selecione um arquivo JSON de backup"
-          onPress={handleImportFile}
-        />
-        <ActionCard
-          icon="clipboard-outline"
-          iconColor="#8B5CF6"
-          iconBg="#EDE9FE"
-          title="Colar Dados (JSON)"
-          description="Cole dados de backup copiados anteriormente"
-          onPress={() => setImportModalVisible(true)}
-        />
+        {can("backup:import") && (
+          <>
+            <Text style={styles.sectionTitle}>Importar Dados</Text>
+            <View style={styles.modeRow}>
+              {BACKUP_RESTORE_MODES.map((mode) => (
+                <Pressable
+                  key={mode}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setRestoreMode(mode);
+                  }}
+                  style={[
+                    styles.modeChip,
+                    restoreMode === mode && (mode === "replace" ? styles.modeChipDanger : styles.modeChipActive),
+                  ]}
+                >
+                  <Text style={[styles.modeChipText, restoreMode === mode && { color: Colors.white }]}>
+                    {BACKUP_RESTORE_MODE_LABELS[mode]}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <Text style={styles.modeHint}>
+              {restoreMode === "replace"
+                ? "Apaga produtos, categorias e movimentações atuais antes de importar."
+                : "Importa só o que ainda não existe; os conflitos aparecem no resumo."}
+            </Text>
+            <ActionCard
+              icon="folder-open-outline"
+              iconColor="#10B981"
+              iconBg={Colors.successLight}
+              title="Importar de Arquivo"
+              description="Selecione um arquivo JSON de backup"
+              onPress={handleImportFile}
+            />
+            <ActionCard
+              icon="clipboard-outline"
+              iconColor="#8B5CF6"
+              iconBg="#EDE9FE"
+              title="Colar Dados (JSON)"
+              description="Cole dados de backup copiados anteriormente"
+              onPress={() => setImportModalVisible(true)}
+            />
 
-        <Text style={styles.sectionTitle}>Gerenciamento</Text>
-        <ActionCard
-          icon="trash-outline"
-          iconColor={Colors.danger}
-          iconBg={Colors.dangerLight}
-          title="Limpar Todos os Dados"
-          description="Remove todos os produtos, categorias e movimentações"
-          onPress={handleClearData}
-          danger
-        />
+            {snapshots.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Cópias Automáticas</Text>
+                {snapshots.map((snapshot) => (
+                  <ActionCard
+                    key={snapshot.id}
+                    icon="time-outline"
+                    iconColor={Colors.accentDark}
+                    iconBg={Colors.warningLight}
+                    title={`${BACKUP_SNAPSHOT_REASON_LABELS[snapshot.reason]} · ${new Date(snapshot.createdAt).toLocaleString("pt-BR")}`}
+                    description={`${snapshot.products} produtos, ${snapshot.categories} categorias e ${snapshot.movements} movimentações${snapshot.userName ? ` · ${snapshot.userName}` : ""}`}
+                    onPress={() => handleRestoreSnapshot(snapshot)}
+                  />
+                ))}
+              </>
+            )}
+          </>
+        )}
+
+        {can("data:clear") && (
+          <>
+            <Text style={styles.sectionTitle}>Gerenciamento</Text>
+            <ActionCard
+              icon="trash-outline"
+              iconColor={Colors.danger}
+              iconBg={Colors.dangerLight}
+              title="Limpar Todos os Dados"
+              description="Remove todos os produtos, categorias e movimentações"
+              onPress={() => setClearModalVisible(true)}
+              danger
+            />
+          </>
+        )}
 
         <View style={styles.infoBox}>
           <Ionicons name="information-circle-outline" size={18} color={Colors.textSecondary} />
           <Text style={styles.infoText}>
-            Os dados são armazenados localmente no dispositivo. Exporte regularmente para não perder seus dados.
+            Os dados ficam no servidor. Exporte regularmente para ter uma cópia fora dele.
           </Text>
         </View>
 
@@ -368,6 +491,59 @@ export default function BackupScreen() {
           </View>
         </View>
       </Modal>
+
+      <Modal
+        visible={clearModalVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setClearModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: Colors.danger }]}>Limpar Todos os Dados</Text>
+              <Pressable onPress={() => setClearModalVisible(false)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+            <Text style={styles.modalHint}>
+              Isso excluirá TODOS os produtos, categorias e movimentações. Antes, o servidor guarda uma cópia
+              automática só deles: números de série, lotes, manutenções, documentos, pedidos e inventários
+              encerrados se perdem de vez. Produtos com número de série em estoque impedem a limpeza. Digite {CLEAR_DATA_CONFIRMATION} para confirmar:
+            </Text>
+            <TextInput
+              style={styles.confirmInput}
+              value={clearText}
+              onChangeText={setClearText}
+              placeholder={CLEAR_DATA_CONFIRMATION}
+              placeholderTextColor={Colors.textTertiary}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+            <View style={styles.modalActions}>
+              <Pressable
+                onPress={() => setClearModalVisible(false)}
+                style={({ pressed }) => [styles.cancelBtn, pressed && { opacity: 0.8 }]}
+              >
+                <Text style={styles.cancelBtnText}>Cancelar</Text>
+              </Pressable>
+              <Pressable
+                onPress={handleClearData}
+                style={({ pressed }) => [
+                  styles.importBtn,
+                  { backgroundColor: Colors.danger },
+                  pressed && { opacity: 0.8 },
+                  (clearText.trim() !== CLEAR_DATA_CONFIRMATION || clearing) && { opacity: 0.5 },
+                ]}
+                disabled={clearText.trim() !== CLEAR_DATA_CONFIRMATION || clearing}
+              >
+                <Ionicons name="trash-outline" size={18} color={Colors.white} />
+                <Text style={styles.importBtnText}>{clearing ? "Excluindo..." : "Excluir Tudo"}</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -417,6 +593,38 @@ const styles = StyleSheet.create({
     textTransform: "uppercase" as const,
     letterSpacing: 0.5,
   },
+  modeRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 8,
+  },
+  modeChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  modeChipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  modeChipDanger: {
+    backgroundColor: Colors.danger,
+    borderColor: Colors.danger,
+  },
+  modeChipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  modeHint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginBottom: 12,
+  },
   actionCard: {
     flexDirection: "row",
     alignItems: "center",
@@ -499,6 +707,19 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     marginBottom: 12,
   },
+  confirmInput: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+    letterSpacing: 1,
+    marginBottom: 16,
+  },
   textArea: {
     backgroundColor: Colors.surfaceElevated,
     borderRadius: 12,
@@ -14,6 +14,7 @@ import { Ionicons } from "@expo/vector-icons";
 import { useFocusEffect } from "expo-router";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
+import { useAuth } from "@/components/AuthProvider";
 import {
   getCategories,
   addCategory,
@@ -37,8 +38,8 @@ function CategoryRow({
 }: {
   category: Category;
   productCount: number;
-  onEdit: (cat: Category) => void;
-  onDelete: (cat: Category) => void;
+  onEdit?: (cat: Category) => void;
+  onDelete?: (cat: Category) => void;
 }) {
   return (
     <View style={styles.catRow}>
@@ -50,24 +51,29 @@ function CategoryRow({
         </Text>
       </View>
       <View style={styles.catActions}>
-        <Pressable
-          onPress={() => onEdit(category)}
-          style={({ pressed }) => [styles.iconBtn, pressed && { opacity: 0.6 }]}
-        >
-          <Ionicons name="create-outline" size={20} color={Colors.primary} />
-        </Pressable>
-        <Pressable
-          onPress={() => onDelete(category)}
-          style={({ pressed }) => [styles.iconBtn, pressed && { opacity: 0.6 }]}
-        >
-          <Ionicons name="trash-outline" size={20} color={Colors.danger} />
-        </Pressable>
+        {onEdit && (
+          <Pressable
+            onPress={() => onEdit(category)}
+            style={({ pressed }) => [styles.iconBtn, pressed && { opacity: 0.6 }]}
+          >
+            <Ionicons name="create-outline" size={20} color={Colors.primary} />
+          </Pressable>
+        )}
+        {onDelete && (
+          <Pressable
+            onPress={() => onDelete(category)}
+            style={({ pressed }) => [styles.iconBtn, pressed && { opacity: 0.6 }]}
+          >
+            <Ionicons name="trash-outline" size={20} color={Colors.danger} />
+          </Pressable>
+        )}
       </View>
     </View>
   );
 }
 
 export default function CategoriesScreen() {
+  const { can } = useAuth();
   const [categories, setCategories] = useState<Category[]>([]);
   const [productCounts, setProductCounts] = useState<Record<string, number>>({});
   const [modalVisible, setModalVisible] = useState(false);
@@ -130,16 +136,16 @@ export default function CategoriesScreen() {
       return;
     }
     if (Platform.OS === "web") {
-      const confirmed = window.confirm(`Deseja excluir "${cat.name}"?`);
+      const confirmed = window.confirm(`Mover "${cat.name}" para a Lixeira?`);
       if (!confirmed) return;
       await deleteCategory(cat.id);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       loadData();
     } else {
-      Alert.alert("Excluir Categoria", `Deseja excluir "${cat.name}"?`, [
+      Alert.alert("Mover para a Lixeira", `"${cat.name}" poderá ser restaurada pela Lixeira.`, [
         { text: "Cancelar", style: "cancel" },
         {
-          text: "Excluir",
+          text: "Mover",
           style: "destructive",
           onPress: async () => {
             await deleteCategory(cat.id);
@@ -160,22 +166,24 @@ export default function CategoriesScreen() {
           <CategoryRow
             category={item}
             productCount={productCounts[item.id] ?? 0}
-            onEdit={openEdit}
-            onDelete={handleDelete}
+            onEdit={can("category:write") ? openEdit : undefined}
+            onDelete={can("category:delete") ? handleDelete : undefined}
           />
         )}
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
         ListHeaderComponent={
-          <Pressable
-            onPress={openAdd}
-            style={({ pressed }) => [styles.addRow, pressed && { opacity: 0.8 }]}
-          >
-            <View style={styles.addIconWrap}>
-              <Ionicons name="add" size={22} color={Colors.white} />
-            </View>
-            <Text style={styles.addText}>Nova Categoria</Text>
-          </Pressable>
+          can("category:write") ? (
+            <Pressable
+              onPress={openAdd}
+              style={({ pressed }) => [styles.addRow, pressed && { opacity: 0.8 }]}
+            >
+              <View style={styles.addIconWrap}>
+                <Ionicons name="add" size={22} color={Colors.white} />
+              </View>
+              <Text style={styles.addText}>Nova Categoria</Text>
+            </Pressable>
+          ) : null
         }
         ListEmptyComponent={
           <View style={styles.emptyState}>
@@ -0,0 +1,471 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  ScrollView,
+  Alert,
+  Platform,
+} from "react-native";
+import { router, useLocalSearchParams, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { UnitPicker } from "@/components/UnitPicker";
+import {
+  getProducts,
+  getLocations,
+  getStockBalances,
+  getTechnicians,
+  getProductUnits,
+  addCheckout,
+  getMaintenanceStatus,
+  Product,
+  ProductUnit,
+  Location,
+  StockBalance,
+  Technician,
+} from "@/lib/storage";
+import { isReturnable, maintenanceDueLabel } from "@shared/products";
+
+const RETURN_PERIODS = [1, 3, 7, 15, 30];
+
+export default function AddCheckoutScreen() {
+  const params = useLocalSearchParams<{ productId?: string }>();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [balances, setBalances] = useState<StockBalance[]>([]);
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [selectedProduct, setSelectedProduct] = useState<string>(params.productId ?? "");
+  const [selectedLocation, setSelectedLocation] = useState<string>("");
+  const [selectedTechnician, setSelectedTechnician] = useState<string>("");
+  const [returnDays, setReturnDays] = useState(7);
+  const [quantity, setQuantity] = useState("1");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [searchText, setSearchText] = useState("");
+  const [units, setUnits] = useState<ProductUnit[]>([]);
+  const [selectedUnits, setSelectedUnits] = useState<string[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      (async () => {
+        const [p, l, b, t] = await Promise.all([getProducts(), getLocations(), getStockBalances(), getTechnicians()]);
+        // Consumíveis saem por baixa simples; aqui só entra o que volta.
+        setProducts(p.filter((prod) => isReturnable(prod.kind)).sort((a, b) => a.name.localeCompare(b.name)));
+        setLocations(l);
+        setBalances(b);
+        // Técnicos primeiro: são eles que normalmente levam as ferramentas.
+        setTechnicians(t.sort((a, b) => Number(b.role === "technician") - Number(a.role === "technician")));
+        setSelectedLocation((current) => current || (l.find((loc) => loc.isDefault) ?? l[0])?.id || "");
+      })();
+    }, [])
+  );
+
+  const serialized = products.find((p) => p.id === selectedProduct)?.serialized ?? false;
+
+  useEffect(() => {
+    setSelectedUnits([]);
+    if (!serialized) {
+      setUnits([]);
+      return;
+    }
+    getProductUnits(selectedProduct).then(setUnits);
+  }, [selectedProduct, serialized]);
+
+  const balanceAt = (productId: string, locationId: string) =>
+    balances.find((b) => b.productId === productId && b.locationId === locationId)?.quantity ?? 0;
+
+  const handleSave = async () => {
+    if (!selectedProduct) {
+      Alert.alert("Erro", "Selecione uma ferramenta");
+      return;
+    }
+    if (!selectedTechnician) {
+      Alert.alert("Erro", "Selecione o técnico");
+      return;
+    }
+    const qty = serialized ? selectedUnits.length : parseInt(quantity);
+    if (!qty || qty <= 0) {
+      Alert.alert("Erro", "Informe uma quantidade válida");
+      return;
+    }
+    const product = products.find((p) => p.id === selectedProduct);
+    const available = balanceAt(selectedProduct, selectedLocation);
+    if (product && qty > available) {
+      Alert.alert("Erro", `Quantidade disponível neste local: ${available} ${product.unit}`);
+      return;
+    }
+
+    const expectedReturnAt = new Date();
+    expectedReturnAt.setDate(expectedReturnAt.getDate() + returnDays);
+
+    const submit = async (ignoreMaintenance: boolean) => {
+      setSaving(true);
+      try {
+        await addCheckout({
+          productId: selectedProduct,
+          locationId: selectedLocation,
+          technicianId: selectedTechnician,
+          quantity: qty,
+          expectedReturnAt,
+          note: note.trim() || null,
+          ...(serialized ? { unitIds: selectedUnits } : {}),
+          ignoreMaintenance,
+        });
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        router.back();
+      } catch (e: any) {
+        Alert.alert("Erro", e.message || "Falha ao registrar retirada");
+      } finally {
+        setSaving(false);
+      }
+    };
+
+    // O servidor recusa a retirada com manutenção vencida sem esta confirmação.
+    const due = (await getMaintenanceStatus(selectedProduct).catch(() => [])).filter(
+      (item) => item.state === "due" && (item.unitId === null || selectedUnits.includes(item.unitId))
+    );
+    if (due.length === 0) {
+      await submit(false);
+      return;
+    }
+    const msg = `${due.map(maintenanceDueLabel).join("\n")}\n\nRetirar mesmo assim?`;
+    if (Platform.OS === "web") {
+      if (window.confirm(msg)) await submit(true);
+    } else {
+      Alert.alert("Manutenção vencida", msg, [
+        { text: "Cancelar", style: "cancel" },
+        { text: "Retirar", style: "destructive", onPress: () => submit(true) },
+      ]);
+    }
+  };
+
+  const filteredProducts = searchText
+    ? products.filter((p) => p.name.toLowerCase().includes(searchText.toLowerCase()))
+    : products;
+
+  const selectedProductData = products.find((p) => p.id === selectedProduct);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardDismissMode="on-drag">
+      <Text style={styles.label}>Ferramenta</Text>
+      {selectedProductData ? (
+        <View style={styles.selectedProduct}>
+          <View style={styles.selectedLeft}>
+            <Ionicons name="construct" size={20} color={Colors.primary} />
+            <View>
+              <Text style={styles.selectedName}>{selectedProductData.name}</Text>
+              <Text style={styles.selectedQty}>
+                Total: {selectedProductData.quantity} {selectedProductData.unit}
+              </Text>
+            </View>
+          </View>
+          <Pressable onPress={() => setSelectedProduct("")}>
+            <Ionicons name="close-circle" size={22} color={Colors.textTertiary} />
+          </Pressable>
+        </View>
+      ) : (
+        <>
+          <View style={styles.searchWrap}>
+            <Ionicons name="search" size={16} color={Colors.textTertiary} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Buscar ferramenta..."
+              placeholderTextColor={Colors.textTertiary}
+              value={searchText}
+              onChangeText={setSearchText}
+            />
+          </View>
+          <View style={styles.productList}>
+            {filteredProducts.length === 0 ? (
+              <Text style={styles.noProducts}>Nenhum produto encontrado</Text>
+            ) : (
+              filteredProducts.slice(0, 8).map((p) => (
+                <Pressable
+                  key={p.id}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setSelectedProduct(p.id);
+                    setSearchText("");
+                  }}
+                  style={({ pressed }) => [styles.productItem, pressed && { backgroundColor: Colors.surfaceElevated }]}
+                >
+                  <Text style={styles.productItemName} numberOfLines={1}>{p.name}</Text>
+                  <Text style={styles.productItemQty}>{p.quantity} {p.unit}</Text>
+                </Pressable>
+              ))
+            )}
+          </View>
+        </>
+      )}
+
+      {locations.length > 1 && (
+        <>
+          <Text style={styles.label}>Retirar de</Text>
+          <View style={styles.chipRow}>
+            {locations.map((loc) => (
+              <Pressable
+                key={loc.id}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  setSelectedLocation(loc.id);
+                  setSelectedUnits([]);
+                }}
+                style={[styles.chip, selectedLocation === loc.id && styles.chipActive]}
+              >
+                <Text style={[styles.chipText, selectedLocation === loc.id && { color: Colors.white }]}>
+                  {loc.name}
+                  {selectedProductData ? ` (${balanceAt(selectedProductData.id, loc.id)})` : ""}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      )}
+
+      <Text style={styles.label}>Técnico</Text>
+      <View style={styles.chipRow}>
+        {technicians.map((t) => (
+          <Pressable
+            key={t.id}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setSelectedTechnician(t.id);
+            }}
+            style={[styles.chip, selectedTechnician === t.id && styles.chipActive]}
+          >
+            <Ionicons
+              name="person-outline"
+              size={13}
+              color={selectedTechnician === t.id ? Colors.white : Colors.textSecondary}
+            />
+            <Text style={[styles.chipText, selectedTechnician === t.id && { color: Colors.white }]}>{t.username}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {serialized ? (
+        <>
+          <Text style={styles.label}>Unidades ({selectedUnits.length})</Text>
+          <UnitPicker
+            units={units.filter((u) => u.status === "available" && u.locationId === selectedLocation)}
+            selected={selectedUnits}
+            onChange={setSelectedUnits}
+          />
+        </>
+      ) : (
+        <>
+          <Text style={styles.label}>Quantidade</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="1"
+            placeholderTextColor={Colors.textTertiary}
+            value={quantity}
+            onChangeText={setQuantity}
+            keyboardType="numeric"
+          />
+        </>
+      )}
+
+      <Text style={styles.label}>Devolução prevista em</Text>
+      <View style={styles.chipRow}>
+        {RETURN_PERIODS.map((days) => (
+          <Pressable
+            key={days}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setReturnDays(days);
+            }}
+            style={[styles.chip, returnDays === days && styles.chipActive]}
+          >
+            <Text style={[styles.chipText, returnDays === days && { color: Colors.white }]}>
+              {days} {days === 1 ? "dia" : "dias"}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Observação (opcional)</Text>
+      <TextInput
+        style={[styles.input, styles.textArea]}
+        placeholder="Ex: Obra da subestação norte"
+        placeholderTextColor={Colors.textTertiary}
+        value={note}
+        onChangeText={setNote}
+        multiline
+        numberOfLines={3}
+      />
+
+      <Pressable
+        onPress={handleSave}
+        disabled={saving}
+        style={({ pressed }) => [styles.saveBtn, pressed && { opacity: 0.9 }, saving && { opacity: 0.6 }]}
+      >
+        <Ionicons name="hand-right-outline" size={20} color={Colors.white} />
+        <Text style={styles.saveBtnText}>{saving ? "Salvando..." : "Registrar Retirada"}</Text>
+      </Pressable>
+
+      <View style={{ height: Platform.OS === "web" ? 34 : 40 }} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 8,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+  },
+  selectedProduct: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    padding: 14,
+    marginBottom: 20,
+  },
+  selectedLeft: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    flex: 1,
+  },
+  selectedName: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  selectedQty: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  searchWrap: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: Colors.surface,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 12,
+    height: 42,
+    gap: 8,
+    marginBottom: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+  },
+  productList: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 20,
+    overflow: "hidden",
+  },
+  productItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  productItemName: {
+    fontSize: 14,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+    flex: 1,
+    marginRight: 8,
+  },
+  productItemQty: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+  },
+  noProducts: {
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    textAlign: "center",
+    paddingVertical: 20,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginBottom: 20,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: "top" as const,
+  },
+  saveBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderRadius: 14,
+    paddingVertical: 16,
+    marginTop: 8,
+    backgroundColor: Colors.primary,
+  },
+  saveBtnText: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+});
@@ -0,0 +1,699 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  FlatList,
+  Pressable,
+  TextInput,
+  RefreshControl,
+  Alert,
+  Platform,
+  Modal,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router, useFocusEffect } from "expo-router";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useAuth } from "@/components/AuthProvider";
+import {
+  getCheckouts,
+  getProducts,
+  getProductUnits,
+  returnCheckout,
+  outstandingQuantity,
+  Checkout,
+  Product,
+  ProductUnit,
+  UnitOutcome,
+} from "@/lib/storage";
+
+type StatusFilter = "open" | "all";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const OUTCOME_LABELS: Record<UnitOutcome, string> = {
+  returned: "Devolvido",
+  lost: "Perdido",
+  damaged: "Avariado",
+};
+
+function formatDate(iso: string): string {
+  const d = new Date(iso);
+  return `${d.getDate().toString().padStart(2, "0")}/${(d.getMonth() + 1).toString().padStart(2, "0")}/${d.getFullYear()}`;
+}
+
+function overdueDays(checkout: Checkout): number {
+  if (checkout.closedAt) return 0;
+  const late = Date.now() - new Date(checkout.expectedReturnAt).getTime();
+  return late > 0 ? Math.ceil(late / DAY_MS) : 0;
+}
+
+function CheckoutCard({
+  checkout,
+  product,
+  onReturn,
+}: {
+  checkout: Checkout;
+  product?: Product;
+  onReturn?: (checkout: Checkout) => void;
+}) {
+  const outstanding = outstandingQuantity(checkout);
+  const late = overdueDays(checkout);
+  const unit = product?.unit ?? "un";
+
+  return (
+    <View style={[styles.card, late > 0 && styles.cardOverdue]}>
+      <View style={styles.cardTop}>
+        <View style={styles.cardInfo}>
+          <Text style={styles.productName} numberOfLines={1}>{product?.name ?? "Produto removido"}</Text>
+          <View style={styles.holderRow}>
+            <Ionicons name="person-outline" size={13} color={Colors.textSecondary} />
+            <Text style={styles.holderName}>{checkout.technicianName}</Text>
+          </View>
+        </View>
+        <View style={styles.qtyWrap}>
+          <Text style={[styles.qty, late > 0 && { color: Colors.danger }]}>{outstanding}</Text>
+          <Text style={styles.qtyUnit}>
+            {outstanding === checkout.quantity ? unit : `de ${checkout.quantity} ${unit}`}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.cardMeta}>
+        <Text style={styles.metaText}>Retirada em {formatDate(checkout.createdAt)}</Text>
+        {checkout.closedAt ? (
+          <Text style={styles.metaText}>Encerrada em {formatDate(checkout.closedAt)}</Text>
+        ) : late > 0 ? (
+          <View style={styles.overdueBadge}>
+            <Ionicons name="alert-circle" size={12} color={Colors.danger} />
+            <Text style={styles.overdueText}>
+              Atrasada há {late} {late === 1 ? "dia" : "dias"}
+            </Text>
+          </View>
+        ) : (
+          <Text style={styles.metaText}>Devolver até {formatDate(checkout.expectedReturnAt)}</Text>
+        )}
+      </View>
+
+      {(checkout.returnedQuantity > 0 || checkout.lostQuantity > 0 || checkout.damagedQuantity > 0) && (
+        <Text style={styles.settledText}>
+          Devolvido: {checkout.returnedQuantity}
+          {checkout.lostQuantity > 0 ? ` · Perdido: ${checkout.lostQuantity}` : ""}
+          {checkout.damagedQuantity > 0 ? ` · Avariado: ${checkout.damagedQuantity}` : ""}
+        </Text>
+      )}
+
+      {checkout.note ? <Text style={styles.noteText}>{checkout.note}</Text> : null}
+
+      {onReturn && !checkout.closedAt && (
+        <Pressable
+          onPress={() => onReturn(checkout)}
+          style={({ pressed }) => [styles.returnBtn, pressed && { opacity: 0.8 }]}
+        >
+          <Ionicons name="arrow-undo-outline" size={16} color={Colors.primary} />
+          <Text style={styles.returnBtnText}>Registrar Devolução</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+function QuantityField({ label, value, onChange }: { label: string; value: string; onChange: (v: string) => void }) {
+  return (
+    <View style={styles.qtyField}>
+      <Text style={styles.qtyFieldLabel}>{label}</Text>
+      <TextInput
+        style={styles.qtyFieldInput}
+        placeholder="0"
+        placeholderTextColor={Colors.textTertiary}
+        value={value}
+        onChangeText={onChange}
+        keyboardType="number-pad"
+      />
+    </View>
+  );
+}
+
+export default function CheckoutsScreen() {
+  const { can } = useAuth();
+  const canManage = can("checkout:manage");
+  const [checkouts, setCheckouts] = useState<Checkout[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [status, setStatus] = useState<StatusFilter>("open");
+  const [refreshing, setRefreshing] = useState(false);
+  const [returning, setReturning] = useState<Checkout | null>(null);
+  const [returned, setReturned] = useState("");
+  const [lost, setLost] = useState("");
+  const [damaged, setDamaged] = useState("");
+  const [note, setNote] = useState("");
+  const [heldUnits, setHeldUnits] = useState<ProductUnit[]>([]);
+  const [unitOutcomes, setUnitOutcomes] = useState<Record<string, UnitOutcome>>({});
+
+  const loadData = useCallback(async () => {
+    const [c, p] = await Promise.all([getCheckouts(status), getProducts("include")]);
+    // Abertas primeiro, pela data prevista de devolução: as atrasadas ficam no topo.
+    setCheckouts(
+      c.sort((a, b) => {
+        if (!!a.closedAt !== !!b.closedAt) return a.closedAt ? 1 : -1;
+        return new Date(a.expectedReturnAt).getTime() - new Date(b.expectedReturnAt).getTime();
+      })
+    );
+    setProducts(p);
+  }, [status]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  };
+
+  const returningSerialized = !!returning && !!products.find((p) => p.id === returning.productId)?.serialized;
+
+  const openReturn = async (checkout: Checkout) => {
+    setReturning(checkout);
+    setReturned(String(outstandingQuantity(checkout)));
+    setLost("");
+    setDamaged("");
+    setNote("");
+    setHeldUnits([]);
+    setUnitOutcomes({});
+    if (products.find((p) => p.id === checkout.productId)?.serialized) {
+      const units = (await getProductUnits(checkout.productId)).filter(
+        (u) => u.checkoutId === checkout.id && u.status === "checked_out"
+      );
+      setHeldUnits(units);
+      setUnitOutcomes(Object.fromEntries(units.map((u) => [u.id, "returned" as const])));
+    }
+  };
+
+  const toggleOutcome = (unitId: string, outcome: UnitOutcome) => {
+    Haptics.selectionAsync();
+    setUnitOutcomes((current) => {
+      const next = { ...current };
+      if (next[unitId] === outcome) delete next[unitId];
+      else next[unitId] = outcome;
+      return next;
+    });
+  };
+
+  const handleReturn = async () => {
+    if (!returning) return;
+    // Em produtos serializados, as quantidades saem das unidades apontadas.
+    const picked = Object.entries(unitOutcomes).map(([unitId, outcome]) => ({ unitId, outcome }));
+    const countOf = (outcome: UnitOutcome) => String(picked.filter((u) => u.outcome === outcome).length);
+    const values = (
+      returningSerialized ? [countOf("returned"), countOf("lost"), countOf("damaged")] : [returned, lost, damaged]
+    ).map((v) => (v.trim() ? parseInt(v, 10) : 0));
+    if (values.some((v) => isNaN(v) || v < 0)) {
+      Alert.alert("Erro", "Informe quantidades válidas");
+      return;
+    }
+    const [r, l, d] = values;
+    if (r + l + d === 0) {
+      Alert.alert("Erro", "Informe ao menos uma quantidade");
+      return;
+    }
+    if (r + l + d > outstandingQuantity(returning)) {
+      Alert.alert("Erro", `Quantidade pendente: ${outstandingQuantity(returning)}`);
+      return;
+    }
+    try {
+      await returnCheckout(returning.id, {
+        returned: r,
+        lost: l,
+        damaged: d,
+        note: note.trim() || null,
+        ...(returningSerialized ? { units: picked } : {}),
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setReturning(null);
+      loadData();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao registrar devolução");
+    }
+  };
+
+  const overdueCount = checkouts.filter((c) => overdueDays(c) > 0).length;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filters}>
+        {(["open", "all"] as const).map((s) => (
+          <Pressable
+            key={s}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setStatus(s);
+            }}
+            style={[styles.chip, status === s && styles.chipActive]}
+          >
+            <Text style={[styles.chipText, status === s && styles.chipTextActive]}>
+              {s === "open" ? "Em aberto" : "Todas"}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <FlatList
+        data={checkouts}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <CheckoutCard
+            checkout={item}
+            product={products.find((p) => p.id === item.productId)}
+            onReturn={canManage ? openReturn : undefined}
+          />
+        )}
+        contentContainerStyle={styles.listContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          <>
+            {canManage && (
+              <Pressable
+                onPress={() => router.push("/checkout/add")}
+                style={({ pressed }) => [styles.addRow, pressed && { opacity: 0.8 }]}
+              >
+                <View style={styles.addIconWrap}>
+                  <Ionicons name="add" size={22} color={Colors.white} />
+                </View>
+                <Text style={styles.addText}>Nova Retirada</Text>
+              </Pressable>
+            )}
+            {overdueCount > 0 && (
+              <View style={styles.overdueBanner}>
+                <Ionicons name="alert-circle" size={18} color={Colors.danger} />
+                <Text style={styles.overdueBannerText}>
+                  {overdueCount} {overdueCount === 1 ? "retirada atrasada" : "retiradas atrasadas"}
+                </Text>
+              </View>
+            )}
+          </>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="construct-outline" size={48} color={Colors.textTertiary} />
+            <Text style={styles.emptyTitle}>Nenhuma ferramenta retirada</Text>
+            <Text style={styles.emptyText}>Tudo está no estoque</Text>
+          </View>
+        }
+      />
+
+      <Modal
+        visible={!!returning}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setReturning(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Devolução</Text>
+              <Pressable onPress={() => setReturning(null)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+            {returning && (
+              <Text style={styles.modalSubtitle}>
+                {products.find((p) => p.id === returning.productId)?.name} com {returning.technicianName} ·
+                pendente: {outstandingQuantity(returning)}
+              </Text>
+            )}
+
+            {returningSerialized ? (
+              heldUnits.map((unit) => (
+                <View key={unit.id} style={styles.unitRow}>
+                  <Text style={styles.unitSerial}>{unit.serial}</Text>
+                  <View style={styles.outcomeRow}>
+                    {(["returned", "lost", "damaged"] as const).map((outcome) => (
+                      <Pressable
+                        key={outcome}
+                        onPress={() => toggleOutcome(unit.id, outcome)}
+                        style={[styles.outcomeChip, unitOutcomes[unit.id] === outcome && styles.chipActive]}
+                      >
+                        <Text
+                          style={[styles.outcomeChipText, unitOutcomes[unit.id] === outcome && styles.chipTextActive]}
+                        >
+                          {OUTCOME_LABELS[outcome]}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                </View>
+              ))
+            ) : (
+              <View style={styles.qtyFieldRow}>
+                <QuantityField label="Devolvido" value={returned} onChange={setReturned} />
+                <QuantityField label="Perdido" value={lost} onChange={setLost} />
+                <QuantityField label="Avariado" value={damaged} onChange={setDamaged} />
+              </View>
+            )}
+            <Text style={styles.modalHint}>
+              Itens perdidos ou avariados não voltam ao estoque.
+              {returningSerialized ? " Unidades avariadas vão para manutenção." : ""}
+            </Text>
+
+            <TextInput
+              style={styles.modalInput}
+              placeholder="Observação (opcional)"
+              placeholderTextColor={Colors.textTertiary}
+              value={note}
+              onChangeText={setNote}
+            />
+
+            <Pressable
+              onPress={handleReturn}
+              style={({ pressed }) => [styles.saveBtn, pressed && { opacity: 0.8 }]}
+            >
+              <Ionicons name="checkmark" size={18} color={Colors.white} />
+              <Text style={styles.saveBtnText}>Confirmar</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  filters: {
+    flexDirection: "row",
+    gap: 8,
+    backgroundColor: Colors.surface,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 20,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderStyle: "dashed" as const,
+  },
+  addIconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: Colors.primary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  addText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+  overdueBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: Colors.dangerLight,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  overdueBannerText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.danger,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  cardOverdue: {
+    borderColor: Colors.danger,
+  },
+  cardTop: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  productName: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  holderRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 3,
+  },
+  holderName: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  qtyWrap: {
+    alignItems: "flex-end",
+  },
+  qty: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  qtyUnit: {
+    fontSize: 11,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+  cardMeta: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: Colors.borderLight,
+  },
+  metaText: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+  overdueBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+    backgroundColor: Colors.dangerLight,
+  },
+  overdueText: {
+    fontSize: 11,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.danger,
+  },
+  settledText: {
+    fontSize: 12,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+    marginTop: 8,
+  },
+  noteText: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 6,
+  },
+  returnBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: "#E0F2F1",
+    marginTop: 12,
+  },
+  returnBtnText: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 60,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalCard: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+    marginBottom: 20,
+  },
+  qtyFieldRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  qtyField: {
+    flex: 1,
+  },
+  qtyFieldLabel: {
+    fontSize: 12,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 6,
+    textTransform: "uppercase" as const,
+  },
+  qtyFieldInput: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+  },
+  unitRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  unitSerial: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  outcomeRow: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  outcomeChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  outcomeChipText: {
+    fontSize: 12,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  modalHint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  modalInput: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+  },
+  saveBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    marginTop: 20,
+  },
+  saveBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+});
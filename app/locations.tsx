@@ -0,0 +1,397 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  FlatList,
+  Pressable,
+  TextInput,
+  Alert,
+  Platform,
+  Modal,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "expo-router";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { LOCATION_KIND_ICONS } from "@/constants/locations";
+import { useAuth } from "@/components/AuthProvider";
+import { getLocations, addLocation, updateLocation, getStockBalances, Location } from "@/lib/storage";
+import { LOCATION_KINDS, LOCATION_KIND_LABELS, LocationKind } from "@shared/locations";
+
+function LocationRow({
+  location,
+  itemCount,
+  onEdit,
+}: {
+  location: Location;
+  itemCount: number;
+  onEdit?: (location: Location) => void;
+}) {
+  return (
+    <Pressable
+      onPress={() => onEdit?.(location)}
+      disabled={!onEdit}
+      style={({ pressed }) => [styles.locationRow, pressed && { opacity: 0.85 }]}
+    >
+      <View style={styles.locationIcon}>
+        <Ionicons name={LOCATION_KIND_ICONS[location.kind]} size={20} color={Colors.primary} />
+      </View>
+      <View style={styles.locationInfo}>
+        <View style={styles.locationTitleRow}>
+          <Text style={styles.locationName}>{location.name}</Text>
+          {location.isDefault && (
+            <View style={styles.defaultBadge}>
+              <Text style={styles.defaultBadgeText}>Padrão</Text>
+            </View>
+          )}
+        </View>
+        <Text style={styles.locationMeta}>
+          {LOCATION_KIND_LABELS[location.kind]} · {itemCount} {itemCount === 1 ? "produto" : "produtos"}
+        </Text>
+      </View>
+      {onEdit && <Ionicons name="create-outline" size={18} color={Colors.textTertiary} />}
+    </Pressable>
+  );
+}
+
+export default function LocationsScreen() {
+  const { can } = useAuth();
+  const canManage = can("location:manage");
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [itemCounts, setItemCounts] = useState<Record<string, number>>({});
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editing, setEditing] = useState<Location | null>(null);
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<LocationKind>("warehouse");
+
+  const loadData = useCallback(async () => {
+    const [l, balances] = await Promise.all([getLocations(), getStockBalances()]);
+    const counts: Record<string, number> = {};
+    balances.forEach((b) => {
+      if (b.quantity > 0) counts[b.locationId] = (counts[b.locationId] ?? 0) + 1;
+    });
+    setLocations(l);
+    setItemCounts(counts);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const openAdd = () => {
+    setEditing(null);
+    setName("");
+    setKind("warehouse");
+    setModalVisible(true);
+  };
+
+  const openEdit = (location: Location) => {
+    setEditing(location);
+    setName(location.name);
+    setKind(location.kind);
+    setModalVisible(true);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Erro", "Informe o nome do local");
+      return;
+    }
+    try {
+      if (editing) {
+        await updateLocation(editing.id, { name: name.trim(), kind });
+      } else {
+        await addLocation(name.trim(), kind);
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setModalVisible(false);
+      loadData();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao salvar local");
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={locations}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <LocationRow
+            location={item}
+            itemCount={itemCounts[item.id] ?? 0}
+            onEdit={canManage ? openEdit : undefined}
+          />
+        )}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          canManage ? (
+            <Pressable
+              onPress={openAdd}
+              style={({ pressed }) => [styles.addRow, pressed && { opacity: 0.8 }]}
+            >
+              <View style={styles.addIconWrap}>
+                <Ionicons name="add" size={22} color={Colors.white} />
+              </View>
+              <Text style={styles.addText}>Novo Local</Text>
+            </Pressable>
+          ) : null
+        }
+      />
+
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing ? "Editar Local" : "Novo Local"}</Text>
+              <Pressable onPress={() => setModalVisible(false)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+
+            <Text style={styles.label}>Nome</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Ex: Van Equipe 1"
+              placeholderTextColor={Colors.textTertiary}
+              value={name}
+              onChangeText={setName}
+            />
+
+            <Text style={styles.label}>Tipo</Text>
+            <View style={styles.kindRow}>
+              {LOCATION_KINDS.map((k) => (
+                <Pressable
+                  key={k}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setKind(k);
+                  }}
+                  style={[styles.kindChip, kind === k && styles.kindChipActive]}
+                >
+                  <Ionicons name={LOCATION_KIND_ICONS[k]} size={16} color={kind === k ? Colors.white : Colors.primary} />
+                  <Text style={[styles.kindChipText, kind === k && { color: Colors.white }]}>
+                    {LOCATION_KIND_LABELS[k]}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <View style={styles.modalActions}>
+              <Pressable
+                onPress={() => setModalVisible(false)}
+                style={({ pressed }) => [styles.cancelBtn, pressed && { opacity: 0.8 }]}
+              >
+                <Text style={styles.cancelBtnText}>Cancelar</Text>
+              </Pressable>
+              <Pressable
+                onPress={handleSave}
+                style={({ pressed }) => [styles.saveBtn, pressed && { opacity: 0.8 }]}
+              >
+                <Ionicons name="checkmark" size={18} color={Colors.white} />
+                <Text style={styles.saveBtnText}>Salvar</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderStyle: "dashed" as const,
+  },
+  addIconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: Colors.primary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  addText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+  locationRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  locationIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    backgroundColor: "#E0F2F1",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  locationInfo: {
+    flex: 1,
+  },
+  locationTitleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  locationName: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  defaultBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    backgroundColor: Colors.surfaceElevated,
+  },
+  defaultBadgeText: {
+    fontSize: 10,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+  },
+  locationMeta: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalCard: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 8,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginBottom: 20,
+  },
+  kindRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  kindChip: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  kindChipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  kindChipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 24,
+  },
+  cancelBtn: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  cancelBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+  },
+  saveBtn: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+  },
+  saveBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+});
@@ -0,0 +1,195 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  Alert,
+  Platform,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { useAuth } from "@/components/AuthProvider";
+
+export default function LoginScreen() {
+  const insets = useSafeAreaInsets();
+  const { login, register } = useAuth();
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const isRegister = mode === "register";
+
+  const handleSubmit = async () => {
+    if (!username.trim() || !password) {
+      Alert.alert("Erro", "Informe usuário e senha");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (isRegister) {
+        await register(username.trim(), password);
+      } else {
+        await login(username.trim(), password);
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Não foi possível entrar");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const topPadding = Platform.OS === "web" ? 67 : insets.top;
+
+  return (
+    <KeyboardAwareScrollViewCompat
+      style={styles.container}
+      contentContainerStyle={[styles.content, { paddingTop: topPadding + 48 }]}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.logoWrap}>
+        <Ionicons name="cube" size={36} color={Colors.white} />
+      </View>
+      <Text style={styles.companyName}>MTEC ENERGIA</Text>
+      <Text style={styles.title}>Controle de Estoque</Text>
+      <Text style={styles.subtitle}>
+        {isRegister ? "Crie a primeira conta de acesso" : "Entre com seu usuário para continuar"}
+      </Text>
+
+      <Text style={styles.label}>Usuário</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Ex: joao.silva"
+        placeholderTextColor={Colors.textTertiary}
+        value={username}
+        onChangeText={setUsername}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+
+      <Text style={styles.label}>Senha</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="••••••"
+        placeholderTextColor={Colors.textTertiary}
+        value={password}
+        onChangeText={setPassword}
+        secureTextEntry
+        onSubmitEditing={handleSubmit}
+      />
+
+      <Pressable
+        onPress={handleSubmit}
+        disabled={saving}
+        style={({ pressed }) => [styles.saveBtn, pressed && { opacity: 0.9 }, saving && { opacity: 0.6 }]}
+      >
+        <Ionicons name={isRegister ? "person-add-outline" : "log-in-outline"} size={20} color={Colors.white} />
+        <Text style={styles.saveBtnText}>
+          {saving ? "Aguarde..." : isRegister ? "Criar Conta" : "Entrar"}
+        </Text>
+      </Pressable>
+
+      <Pressable
+        onPress={() => {
+          Haptics.selectionAsync();
+          setMode(isRegister ? "login" : "register");
+        }}
+        style={({ pressed }) => [styles.switchBtn, pressed && { opacity: 0.6 }]}
+      >
+        <Text style={styles.switchText}>
+          {isRegister ? "Já tenho uma conta" : "Primeiro acesso? Criar conta"}
+        </Text>
+      </Pressable>
+    </KeyboardAwareScrollViewCompat>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 24,
+  },
+  logoWrap: {
+    width: 64,
+    height: 64,
+    borderRadius: 18,
+    backgroundColor: Colors.primary,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: 20,
+  },
+  companyName: {
+    fontSize: 13,
+    fontFamily: "Inter_700Bold",
+    color: Colors.primary,
+    letterSpacing: 2,
+    textTransform: "uppercase" as const,
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 26,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+    marginBottom: 32,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 8,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginBottom: 20,
+  },
+  saveBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: Colors.primary,
+    borderRadius: 14,
+    paddingVertical: 16,
+    marginTop: 8,
+  },
+  saveBtnText: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+  switchBtn: {
+    alignItems: "center",
+    paddingVertical: 16,
+  },
+  switchText: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+});
@@ -0,0 +1,621 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  ScrollView,
+  Alert,
+  Platform,
+  Modal,
+} from "react-native";
+import { router, useLocalSearchParams, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useAuth } from "@/components/AuthProvider";
+import { MovementStatusBadge, movementStatus } from "@/components/MovementStatusBadge";
+import { formatDateInput } from "@/lib/dates";
+import {
+  getMovements,
+  getProducts,
+  getLocations,
+  getAdjustmentReasons,
+  reverseMovement,
+  correctMovement,
+  Movement,
+  Product,
+  Location,
+  AdjustmentReason,
+} from "@/lib/storage";
+import {
+  MOVEMENT_TYPE_LABELS,
+  correctionBlocker,
+  movementDelta,
+  reversalBlocker,
+  reversedMovementIds,
+} from "@shared/movements";
+import type { Permission } from "@shared/permissions";
+
+type ActionMode = "reverse" | "correct";
+
+const TYPE_PERMISSIONS: Record<Movement["type"], Permission> = {
+  entry: "movement:entry",
+  exit: "movement:exit",
+  transfer: "movement:transfer",
+  adjustment: "movement:adjust",
+};
+
+function formatPrice(value: number): string {
+  return `R$ ${value.toFixed(2).replace(".", ",")}`;
+}
+
+function formatDateTime(iso: string): string {
+  const d = new Date(iso);
+  return `${formatDateInput(iso)} ${d.getHours().toString().padStart(2, "0")}:${d.getMinutes().toString().padStart(2, "0")}`;
+}
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.detailRow}>
+      <Text style={styles.detailLabel}>{label}</Text>
+      <Text style={styles.detailValue}>{value}</Text>
+    </View>
+  );
+}
+
+/** Aviso que liga a movimentação ao seu estorno, ao original ou à correção. */
+function LinkBanner({ icon, text, target }: { icon: keyof typeof Ionicons.glyphMap; text: string; target?: Movement }) {
+  return (
+    <Pressable
+      onPress={() => target && router.push({ pathname: "/movement/[id]", params: { id: target.id } })}
+      disabled={!target}
+      style={({ pressed }) => [styles.banner, pressed && { opacity: 0.85 }]}
+    >
+      <Ionicons name={icon} size={16} color={Colors.accentDark} />
+      <Text style={styles.bannerText}>{text}</Text>
+      {target && <Ionicons name="chevron-forward" size={16} color={Colors.textTertiary} />}
+    </Pressable>
+  );
+}
+
+export default function MovementDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { can } = useAuth();
+  const [movements, setMovements] = useState<Movement[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [reasons, setReasons] = useState<AdjustmentReason[]>([]);
+  const [mode, setMode] = useState<ActionMode | null>(null);
+  const [quantity, setQuantity] = useState("");
+  const [decrease, setDecrease] = useState(false);
+  const [unitCost, setUnitCost] = useState("");
+  const [reasonId, setReasonId] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    const [m, p, l, r] = await Promise.all([
+      getMovements(),
+      getProducts("include"),
+      getLocations(),
+      getAdjustmentReasons(),
+    ]);
+    setMovements(m);
+    setProducts(p);
+    setLocations(l);
+    setReasons(r);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const movement = movements.find((m) => m.id === id);
+  if (!movement) return <View style={styles.container} />;
+
+  const product = products.find((p) => p.id === movement.productId);
+  const legs = movement.transferId ? movements.filter((m) => m.transferId === movement.transferId) : [movement];
+  const outLeg = legs.find((m) => m.transferDirection === "out");
+  const inLeg = legs.find((m) => m.transferDirection === "in");
+  const reversal = movements.find((m) => legs.some((leg) => leg.id === m.reversesId));
+  const original = movements.find((m) => m.id === movement.reversesId);
+  const corrected = movements.find((m) => m.id === movement.correctsId);
+  const correction = movements.find((m) => m.correctsId === movement.id);
+  const status = movementStatus(legs, reversedMovementIds(movements));
+  const locationName = (locationId: string | null | undefined) =>
+    locations.find((l) => l.id === locationId)?.name ?? "Local removido";
+
+  const delta = movementDelta(movement);
+  const reverseBlocked = reversalBlocker(movement);
+  const correctBlocked = correctionBlocker(movement, product?.serialized ?? false);
+  const canReverse = can("movement:reverse") && !reversal && !reverseBlocked;
+  const canCorrect = canReverse && !correctBlocked && can(TYPE_PERMISSIONS[movement.type]);
+  const activeReasons = reasons.filter((r) => r.active || r.id === movement.reasonId);
+
+  const openReverse = () => {
+    setNote("");
+    setMode("reverse");
+  };
+
+  const openCorrect = () => {
+    setQuantity(String(Math.abs(movement.quantity)));
+    setDecrease(movement.quantity < 0);
+    // Vazio mantém o custo original, sem arredondá-lo para duas casas.
+    setUnitCost("");
+    setReasonId(movement.reasonId ?? "");
+    setNote(movement.note ?? "");
+    setMode("correct");
+  };
+
+  const handleReverse = async () => {
+    setSaving(true);
+    try {
+      await reverseMovement(movement.id, note.trim() || null);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setMode(null);
+      loadData();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao estornar movimentação");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCorrect = async () => {
+    const qty = parseInt(quantity);
+    if (isNaN(qty) || qty <= 0) {
+      Alert.alert("Erro", "Informe uma quantidade válida");
+      return;
+    }
+    const cost = unitCost.trim() ? Number(unitCost.replace(",", ".")) : null;
+    if (cost !== null && (isNaN(cost) || cost < 0)) {
+      Alert.alert("Erro", "Informe um custo válido");
+      return;
+    }
+    if (movement.type === "adjustment" && !reasonId) {
+      Alert.alert("Erro", "Selecione o motivo do ajuste");
+      return;
+    }
+    setSaving(true);
+    try {
+      const created = await correctMovement(movement.id, {
+        quantity: movement.type === "adjustment" && decrease ? -qty : qty,
+        unitCost: movement.type === "entry" ? cost : null,
+        reasonId: movement.type === "adjustment" ? reasonId : null,
+        note: note.trim() || null,
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setMode(null);
+      router.replace({ pathname: "/movement/[id]", params: { id: created.id } });
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao corrigir movimentação");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const signedQuantity =
+    movement.type === "transfer" ? String(movement.quantity) : `${delta > 0 ? "+" : "-"}${Math.abs(movement.quantity)}`;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.headerCard}>
+          <View style={styles.headerTop}>
+            <Text style={styles.typeLabel}>{MOVEMENT_TYPE_LABELS[movement.type]}</Text>
+            <Text
+              style={[
+                styles.quantity,
+                { color: movement.type === "transfer" ? Colors.primary : delta > 0 ? Colors.success : Colors.danger },
+                status === "reversed" && styles.quantityReversed,
+              ]}
+            >
+              {signedQuantity} {product?.unit ?? ""}
+            </Text>
+          </View>
+          <Text style={styles.productName}>{product?.name ?? "Produto removido"}</Text>
+          <MovementStatusBadge status={status} />
+        </View>
+
+        {reversal && (
+          <LinkBanner
+            icon="arrow-undo-outline"
+            text={`Estornada em ${formatDateTime(reversal.createdAt)}${reversal.userName ? ` por ${reversal.userName}` : ""}`}
+            target={reversal}
+          />
+        )}
+        {correction && (
+          <LinkBanner icon="create-outline" text="Lançada de novo com os valores corrigidos" target={correction} />
+        )}
+        {movement.reversesId && (
+          <LinkBanner
+            icon="arrow-undo-outline"
+            text={original ? `Estorno da movimentação de ${formatDateTime(original.createdAt)}` : "Estorno"}
+            target={original}
+          />
+        )}
+        {movement.correctsId && (
+          <LinkBanner
+            icon="create-outline"
+            text={corrected ? `Correção da movimentação de ${formatDateTime(corrected.createdAt)}` : "Correção"}
+            target={corrected}
+          />
+        )}
+
+        <View style={styles.list}>
+          {movement.type === "transfer" ? (
+            <DetailRow
+              label="Trajeto"
+              value={`${locationName(outLeg?.locationId)} → ${locationName(inLeg?.locationId)}`}
+            />
+          ) : (
+            <DetailRow label="Local" value={locationName(movement.locationId)} />
+          )}
+          {movement.type === "adjustment" && <DetailRow label="Motivo" value={movement.reasonName ?? "Sem motivo"} />}
+          {movement.unitCost && movement.type !== "transfer" && (
+            <DetailRow label="Custo unitário" value={formatPrice(Number(movement.unitCost))} />
+          )}
+          {movement.note ? <DetailRow label="Observação" value={movement.note} /> : null}
+          <DetailRow label="Registrada em" value={formatDateTime(movement.createdAt)} />
+          {movement.userName && <DetailRow label="Por" value={movement.userName} />}
+        </View>
+
+        {canReverse && (
+          <Pressable onPress={openReverse} style={({ pressed }) => [styles.dangerBtn, pressed && { opacity: 0.8 }]}>
+            <Ionicons name="arrow-undo-outline" size={18} color={Colors.danger} />
+            <Text style={styles.dangerBtnText}>Estornar</Text>
+          </Pressable>
+        )}
+        {canCorrect && (
+          <Pressable onPress={openCorrect} style={({ pressed }) => [styles.secondaryBtn, pressed && { opacity: 0.8 }]}>
+            <Ionicons name="create-outline" size={18} color={Colors.primary} />
+            <Text style={styles.secondaryBtnText}>Corrigir</Text>
+          </Pressable>
+        )}
+        {can("movement:reverse") && !reversal && (reverseBlocked || correctBlocked) && (
+          <Text style={styles.hint}>{reverseBlocked ?? correctBlocked}</Text>
+        )}
+
+        <View style={{ height: Platform.OS === "web" ? 34 : 40 }} />
+      </ScrollView>
+
+      <Modal visible={mode !== null} animationType="slide" transparent onRequestClose={() => setMode(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{mode === "correct" ? "Corrigir Movimentação" : "Estornar Movimentação"}</Text>
+              <Pressable onPress={() => setMode(null)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+            <ScrollView style={styles.modalScroll} keyboardShouldPersistTaps="handled">
+              <Text style={styles.modalHint}>
+                {mode === "correct"
+                  ? "A movimentação original é estornada e lançada de novo com os valores abaixo. As duas continuam no histórico."
+                  : "Um lançamento inverso desfaz o efeito no estoque. A movimentação original continua no histórico, marcada como estornada."}
+              </Text>
+
+              {mode === "correct" && (
+                <>
+                  {movement.type === "adjustment" && (
+                    <>
+                      <Text style={styles.fieldLabel}>Sentido</Text>
+                      <View style={styles.chipRow}>
+                        {[true, false].map((value) => (
+                          <Pressable
+                            key={String(value)}
+                            onPress={() => {
+                              Haptics.selectionAsync();
+                              setDecrease(value);
+                            }}
+                            style={[styles.chip, decrease === value && styles.chipActive]}
+                          >
+                            <Text style={[styles.chipText, decrease === value && { color: Colors.white }]}>
+                              {value ? "Retirar do estoque" : "Acrescentar ao estoque"}
+                            </Text>
+                          </Pressable>
+                        ))}
+                      </View>
+                      <Text style={styles.fieldLabel}>Motivo</Text>
+                      <View style={styles.chipRow}>
+                        {activeReasons.map((reason) => (
+                          <Pressable
+                            key={reason.id}
+                            onPress={() => {
+                              Haptics.selectionAsync();
+                              setReasonId(reason.id);
+                            }}
+                            style={[styles.chip, reasonId === reason.id && styles.chipActive]}
+                          >
+                            <Text style={[styles.chipText, reasonId === reason.id && { color: Colors.white }]}>
+                              {reason.name}
+                            </Text>
+                          </Pressable>
+                        ))}
+                      </View>
+                    </>
+                  )}
+                  <Text style={styles.fieldLabel}>Quantidade</Text>
+                  <TextInput
+                    style={styles.modalInput}
+                    placeholder="Quantidade"
+                    placeholderTextColor={Colors.textTertiary}
+                    value={quantity}
+                    onChangeText={setQuantity}
+                    keyboardType="number-pad"
+                  />
+                  {movement.type === "entry" && (
+                    <>
+                      <Text style={styles.fieldLabel}>Custo unitário (vazio mantém o atual)</Text>
+                      <TextInput
+                        style={styles.modalInput}
+                        placeholder={
+                          movement.unitCost ? Number(movement.unitCost).toFixed(2).replace(".", ",") : "0,00"
+                        }
+                        placeholderTextColor={Colors.textTertiary}
+                        value={unitCost}
+                        onChangeText={setUnitCost}
+                        keyboardType="decimal-pad"
+                      />
+                    </>
+                  )}
+                </>
+              )}
+
+              <Text style={styles.fieldLabel}>Observação</Text>
+              <TextInput
+                style={styles.modalInput}
+                placeholder={mode === "correct" ? "Observação (opcional)" : "Por que estornar? (opcional)"}
+                placeholderTextColor={Colors.textTertiary}
+                value={note}
+                onChangeText={setNote}
+              />
+            </ScrollView>
+            <Pressable
+              onPress={mode === "correct" ? handleCorrect : handleReverse}
+              disabled={saving}
+              style={({ pressed }) => [
+                mode === "correct" ? styles.primaryBtn : styles.confirmDangerBtn,
+                pressed && { opacity: 0.9 },
+                saving && { opacity: 0.6 },
+              ]}
+            >
+              <Ionicons name="checkmark" size={18} color={Colors.white} />
+              <Text style={styles.primaryBtnText}>
+                {saving ? "Salvando..." : mode === "correct" ? "Confirmar Correção" : "Confirmar Estorno"}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  headerCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    marginBottom: 16,
+  },
+  headerTop: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  typeLabel: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+  },
+  quantity: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+  },
+  quantityReversed: {
+    textDecorationLine: "line-through",
+  },
+  productName: {
+    fontSize: 18,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+    marginTop: 6,
+  },
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: Colors.warningLight,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  list: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    overflow: "hidden",
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  detailRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  detailLabel: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  detailValue: {
+    flexShrink: 1,
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+    textAlign: "right",
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    textAlign: "center",
+    marginTop: 12,
+  },
+  primaryBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    marginTop: 12,
+  },
+  confirmDangerBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.danger,
+    marginTop: 12,
+  },
+  primaryBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+  secondaryBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#E0F2F1",
+    marginTop: 12,
+  },
+  secondaryBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+  dangerBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.dangerLight,
+    marginTop: 12,
+  },
+  dangerBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.danger,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalCard: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  modalScroll: {
+    maxHeight: 460,
+  },
+  modalHint: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 6,
+    textTransform: "uppercase" as const,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  modalInput: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginBottom: 16,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useCallback, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import {
   StyleSheet,
   Text,
@@ -13,54 +13,170 @@ import { router, useLocalSearchParams, useFocusEffect } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
-import { getProducts, addMovement, Product } from "@/lib/storage";
+import { useAuth } from "@/components/AuthProvider";
+import { UnitPicker } from "@/components/UnitPicker";
+import {
+  getProducts,
+  getLocations,
+  getStockBalances,
+  getProductUnits,
+  getLots,
+  getAdjustmentReasons,
+  addMovement,
+  AdjustmentReason,
+  Product,
+  ProductUnit,
+  StockLot,
+  Location,
+  StockBalance,
+} from "@/lib/storage";
+import { PRODUCT_KIND_LABELS, isReturnable } from "@shared/products";
+import { formatDateInput, parseDateInput } from "@/lib/dates";
+
+type MovementFormType = "entry" | "exit" | "adjustment";
+
+function describeLot(lot: StockLot): string {
+  const name = lot.lotNumber ? `lote ${lot.lotNumber}` : "sem lote";
+  return lot.expiresAt ? `${name}, vence ${formatDateInput(lot.expiresAt)}` : name;
+}
 
 export default function AddMovementScreen() {
-  const params = useLocalSearchParams<{ productId?: string; type?: string }>();
+  const params = useLocalSearchParams<{ productId?: string; type?: string; locationId?: string }>();
+  const { can } = useAuth();
+  const canEntry = can("movement:entry");
+  const canAdjust = can("movement:adjust");
+  const canCheckout = can("checkout:manage");
   const [products, setProducts] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [balances, setBalances] = useState<StockBalance[]>([]);
   const [selectedProduct, setSelectedProduct] = useState<string>(params.productId ?? "");
-  const [type, setType] = useState<"entry" | "exit">((params.type as "entry" | "exit") ?? "entry");
+  const [selectedLocation, setSelectedLocation] = useState<string>(params.locationId ?? "");
+  const [type, setType] = useState<MovementFormType>(() => {
+    const requested = params.type as MovementFormType | undefined;
+    if (requested === "adjustment") return canAdjust ? "adjustment" : "exit";
+    return canEntry ? (requested ?? "entry") : "exit";
+  });
+  // Ajustes podem acrescentar ou retirar; o motivo é obrigatório.
+  const [adjustIncrease, setAdjustIncrease] = useState(false);
+  const [reasons, setReasons] = useState<AdjustmentReason[]>([]);
+  const [reasonId, setReasonId] = useState("");
   const [quantity, setQuantity] = useState("");
   const [note, setNote] = useState("");
   const [saving, setSaving] = useState(false);
   const [searchText, setSearchText] = useState("");
+  const [units, setUnits] = useState<ProductUnit[]>([]);
+  const [selectedUnits, setSelectedUnits] = useState<string[]>([]);
+  const [serialsText, setSerialsText] = useState("");
+  const [lots, setLots] = useState<StockLot[]>([]);
+  const [lotNumber, setLotNumber] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [unitCost, setUnitCost] = useState("");
 
   useFocusEffect(
     useCallback(() => {
-      getProducts().then((p) => setProducts(p.sort((a, b) => a.name.localeCompare(b.name))));
+      (async () => {
+        const [p, l, b, lt, r] = await Promise.all([
+          getProducts(),
+          getLocations(),
+          getStockBalances(),
+          getLots(),
+          getAdjustmentReasons(),
+        ]);
+        setProducts(p.sort((a, b) => a.name.localeCompare(b.name)));
+        setLocations(l);
+        setBalances(b);
+        setLots(lt);
+        setReasons(r.filter((reason) => reason.active));
+        setSelectedLocation((current) => current || (l.find((loc) => loc.isDefault) ?? l[0])?.id || "");
+      })();
     }, [])
   );
 
+  const serialized = products.find((p) => p.id === selectedProduct)?.serialized ?? false;
+  const incoming = type === "entry" || (type === "adjustment" && adjustIncrease);
+
+  useEffect(() => {
+    setSelectedUnits([]);
+    if (!serialized) {
+      setUnits([]);
+      return;
+    }
+    getProductUnits(selectedProduct).then(setUnits);
+  }, [selectedProduct, serialized]);
+
+  const serials = serialsText
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const balanceAt = (productId: string, locationId: string) =>
+    balances.find((b) => b.productId === productId && b.locationId === locationId)?.quantity ?? 0;
+
   const handleSave = async () => {
     if (!selectedProduct) {
       Alert.alert("Erro", "Selecione um produto");
       return;
     }
-    const qty = parseInt(quantity);
+    // Em produtos serializados, a quantidade é o número de unidades informadas.
+    const qty = serialized ? (incoming ? serials.length : selectedUnits.length) : parseInt(quantity);
+    if (serialized && !qty) {
+      Alert.alert("Erro", incoming ? "Informe os números de série" : "Selecione as unidades");
+      return;
+    }
     if (!qty || qty <= 0) {
       Alert.alert("Erro", "Informe uma quantidade válida");
       return;
     }
-    if (type === "exit") {
+    if (!selectedLocation) {
+      Alert.alert("Erro", "Selecione o local");
+      return;
+    }
+    if (type === "adjustment" && !reasonId) {
+      Alert.alert("Erro", "Selecione o motivo do ajuste");
+      return;
+    }
+    if (!incoming) {
       const product = products.find((p) => p.id === selectedProduct);
-      if (product && qty > product.quantity) {
-        Alert.alert("Erro", `Quantidade disponível: ${product.quantity} ${product.unit}`);
+      if (type === "exit" && product && isReturnable(product.kind)) {
+        Alert.alert("Erro", `${PRODUCT_KIND_LABELS[product.kind]} sai por retirada, com devolução prevista.`);
+        return;
+      }
+      const available = balanceAt(selectedProduct, selectedLocation);
+      if (product && qty > available) {
+        Alert.alert("Erro", `Quantidade disponível neste local: ${available} ${product.unit}`);
         return;
       }
     }
 
+    const expiry = type === "entry" && expiresAt.trim() ? parseDateInput(expiresAt) : null;
+    if (type === "entry" && expiresAt.trim() && !expiry) {
+      Alert.alert("Erro", "Informe a validade no formato DD/MM/AAAA");
+      return;
+    }
+
+    const cost = type === "entry" && unitCost.trim() ? parseFloat(unitCost.replace(",", ".")) : null;
+    if (cost !== null && (isNaN(cost) || cost < 0)) {
+      Alert.alert("Erro", "Informe um custo unitário válido");
+      return;
+    }
+
     setSaving(true);
     try {
       await addMovement({
         productId: selectedProduct,
         type,
-        quantity: qty,
+        // Ajustes levam o sentido no sinal da quantidade.
+        quantity: type === "adjustment" && !incoming ? -qty : qty,
         note: note.trim(),
+        locationId: selectedLocation,
+        ...(serialized ? (incoming ? { serials } : { unitIds: selectedUnits }) : {}),
+        ...(type === "entry" ? { lotNumber: lotNumber.trim() || null, expiresAt: expiry, unitCost: cost } : {}),
+        ...(type === "adjustment" ? { reasonId } : {}),
       });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       router.back();
-    } catch {
-      Alert.alert("Erro", "Falha ao registrar movimentação");
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao registrar movimentação");
     } finally {
       setSaving(false);
     }
@@ -71,21 +187,33 @@ export default function AddMovementScreen() {
     : products;
 
   const selectedProductData = products.find((p) => p.id === selectedProduct);
+  const selectedLocationData = locations.find((l) => l.id === selectedLocation);
+  // Lotes do local na ordem em que as saídas os consomem: vence antes, sai antes.
+  const exitLots = lots
+    .filter((lot) => lot.productId === selectedProduct && lot.locationId === selectedLocation)
+    .sort((a, b) => {
+      if (!a.expiresAt || !b.expiresAt) return a.expiresAt ? -1 : b.expiresAt ? 1 : 0;
+      return new Date(a.expiresAt).getTime() - new Date(b.expiresAt).getTime();
+    })
+    .slice(0, 2);
+  const needsCheckout = type === "exit" && !!selectedProductData && isReturnable(selectedProductData.kind);
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardDismissMode="on-drag">
       <Text style={styles.label}>Tipo de Movimentação</Text>
       <View style={styles.typeRow}>
-        <Pressable
-          onPress={() => {
-            Haptics.selectionAsync();
-            setType("entry");
-          }}
-          style={[styles.typeBtn, type === "entry" && styles.typeBtnEntryActive]}
-        >
-          <Ionicons name="arrow-down" size={18} color={type === "entry" ? Colors.white : Colors.success} />
-          <Text style={[styles.typeBtnText, type === "entry" && { color: Colors.white }]}>Entrada</Text>
-        </Pressable>
+        {canEntry && (
+          <Pressable
+            onPress={() => {
+              Haptics.selectionAsync();
+              setType("entry");
+            }}
+            style={[styles.typeBtn, type === "entry" && styles.typeBtnEntryActive]}
+          >
+            <Ionicons name="arrow-down" size={18} color={type === "entry" ? Colors.white : Colors.success} />
+            <Text style={[styles.typeBtnText, type === "entry" && { color: Colors.white }]}>Entrada</Text>
+          </Pressable>
+        )}
         <Pressable
           onPress={() => {
             Haptics.selectionAsync();
@@ -96,8 +224,61 @@ export default function AddMovementScreen() {
           <Ionicons name="arrow-up" size={18} color={type === "exit" ? Colors.white : Colors.danger} />
           <Text style={[styles.typeBtnText, type === "exit" && { color: Colors.white }]}>Saída</Text>
         </Pressable>
+        {canAdjust && (
+          <Pressable
+            onPress={() => {
+              Haptics.selectionAsync();
+              setType("adjustment");
+            }}
+            style={[styles.typeBtn, type === "adjustment" && styles.typeBtnAdjustActive]}
+          >
+            <Ionicons name="options-outline" size={18} color={type === "adjustment" ? Colors.white : Colors.accentDark} />
+            <Text style={[styles.typeBtnText, type === "adjustment" && { color: Colors.white }]}>Ajuste</Text>
+          </Pressable>
+        )}
       </View>
 
+      {type === "adjustment" && (
+        <>
+          <Text style={styles.label}>Sentido</Text>
+          <View style={styles.locationRow}>
+            {[false, true].map((increase) => (
+              <Pressable
+                key={String(increase)}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  setAdjustIncrease(increase);
+                  setSelectedUnits([]);
+                }}
+                style={[styles.locationChip, adjustIncrease === increase && styles.adjustChipActive]}
+              >
+                <Text style={[styles.locationChipText, adjustIncrease === increase && { color: Colors.white }]}>
+                  {increase ? "Acrescentar ao estoque" : "Retirar do estoque"}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Motivo</Text>
+          <View style={styles.locationRow}>
+            {reasons.map((reason) => (
+              <Pressable
+                key={reason.id}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  setReasonId(reason.id);
+                }}
+                style={[styles.locationChip, reasonId === reason.id && styles.adjustChipActive]}
+              >
+                <Text style={[styles.locationChipText, reasonId === reason.id && { color: Colors.white }]}>
+                  {reason.name}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      )}
+
       <Text style={styles.label}>Produto</Text>
       {selectedProductData ? (
         <View style={styles.selectedProduct}>
@@ -105,7 +286,12 @@ export default function AddMovementScreen() {
             <Ionicons name="cube" size={20} color={Colors.primary} />
             <View>
               <Text style={styles.selectedName}>{selectedProductData.name}</Text>
-              <Text style={styles.selectedQty}>Estoque: {selectedProductData.quantity} {selectedProductData.unit}</Text>
+              <Text style={styles.selectedQty}>
+                {selectedLocationData
+                  ? `${selectedLocationData.name}: ${balanceAt(selectedProductData.id, selectedLocationData.id)} ${selectedProductData.unit} · `
+                  : ""}
+                Total: {selectedProductData.quantity} {selectedProductData.unit}
+              </Text>
             </View>
           </View>
           <Pressable onPress={() => setSelectedProduct("")}>
@@ -147,15 +333,133 @@ export default function AddMovementScreen() {
         </>
       )}
 
-      <Text style={styles.label}>Quantidade</Text>
-      <TextInput
-        style={styles.input}
-        placeholder="0"
-        placeholderTextColor={Colors.textTertiary}
-        value={quantity}
-        onChangeText={setQuantity}
-        keyboardType="numeric"
-      />
+      {needsCheckout && (
+        <View style={styles.checkoutNotice}>
+          <Ionicons name="information-circle" size={18} color={Colors.warning} />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.checkoutNoticeText}>
+              {PRODUCT_KIND_LABELS[selectedProductData.kind]} não sai por baixa simples: registre uma retirada para
+              acompanhar a devolução.
+            </Text>
+            {canCheckout && (
+              <Pressable
+                onPress={() =>
+                  router.replace({ pathname: "/checkout/add", params: { productId: selectedProductData.id } })
+                }
+              >
+                <Text style={styles.checkoutNoticeLink}>Registrar retirada</Text>
+              </Pressable>
+            )}
+          </View>
+        </View>
+      )}
+
+      <Text style={styles.label}>Local</Text>
+      <View style={styles.locationRow}>
+        {locations.map((loc) => (
+          <Pressable
+            key={loc.id}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setSelectedLocation(loc.id);
+              setSelectedUnits([]);
+            }}
+            style={[styles.locationChip, selectedLocation === loc.id && styles.locationChipActive]}
+          >
+            <Text style={[styles.locationChipText, selectedLocation === loc.id && { color: Colors.white }]}>
+              {loc.name}
+              {selectedProductData ? ` (${balanceAt(selectedProductData.id, loc.id)})` : ""}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {serialized && incoming ? (
+        <>
+          <Text style={styles.label}>Números de Série ({serials.length})</Text>
+          <TextInput
+            style={[styles.input, styles.textArea]}
+            placeholder="Um por linha"
+            placeholderTextColor={Colors.textTertiary}
+            value={serialsText}
+            onChangeText={setSerialsText}
+            autoCapitalize="characters"
+            multiline
+          />
+        </>
+      ) : serialized ? (
+        <>
+          <Text style={styles.label}>Unidades ({selectedUnits.length})</Text>
+          <UnitPicker
+            units={units.filter((u) => u.status === "available" && u.locationId === selectedLocation)}
+            selected={selectedUnits}
+            onChange={setSelectedUnits}
+          />
+        </>
+      ) : (
+        <>
+          <Text style={styles.label}>Quantidade</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="0"
+            placeholderTextColor={Colors.textTertiary}
+            value={quantity}
+            onChangeText={setQuantity}
+            keyboardType="numeric"
+          />
+        </>
+      )}
+
+      {type === "entry" && (
+        <>
+          <Text style={styles.label}>Custo unitário (opcional)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Sem custo, entra pelo custo médio"
+            placeholderTextColor={Colors.textTertiary}
+            value={unitCost}
+            onChangeText={setUnitCost}
+            keyboardType="decimal-pad"
+          />
+        </>
+      )}
+
+      {type === "entry" ? (
+        <View style={styles.row}>
+          <View style={styles.halfField}>
+            <Text style={styles.label}>Lote (opcional)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Ex: L2301"
+              placeholderTextColor={Colors.textTertiary}
+              value={lotNumber}
+              onChangeText={setLotNumber}
+              autoCapitalize="characters"
+            />
+          </View>
+          <View style={styles.halfField}>
+            <Text style={styles.label}>Validade (opcional)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="DD/MM/AAAA"
+              placeholderTextColor={Colors.textTertiary}
+              value={expiresAt}
+              onChangeText={setExpiresAt}
+              keyboardType="numbers-and-punctuation"
+            />
+          </View>
+        </View>
+      ) : (
+        !incoming &&
+        exitLots.length > 0 && (
+          <View style={styles.lotHint}>
+            <Ionicons name="time-outline" size={16} color={Colors.textSecondary} />
+            <Text style={styles.lotHintText}>
+              Sai primeiro: {exitLots.map(describeLot).join(" · ")}
+            </Text>
+          </View>
+        )
+      )}
 
       <Text style={styles.label}>Observação (opcional)</Text>
       <TextInput
@@ -173,14 +477,24 @@ export default function AddMovementScreen() {
         disabled={saving}
         style={({ pressed }) => [
           styles.saveBtn,
-          { backgroundColor: type === "entry" ? Colors.success : Colors.danger },
+          { backgroundColor: type === "adjustment" ? Colors.accentDark : type === "entry" ? Colors.success : Colors.danger },
           pressed && { opacity: 0.9 },
           saving && { opacity: 0.6 },
         ]}
       >
-        <Ionicons name={type === "entry" ? "arrow-down" : "arrow-up"} size={20} color={Colors.white} />
+        <Ionicons
+          name={type === "adjustment" ? "options-outline" : type === "entry" ? "arrow-down" : "arrow-up"}
+          size={20}
+          color={Colors.white}
+        />
         <Text style={styles.saveBtnText}>
-          {saving ? "Salvando..." : type === "entry" ? "Registrar Entrada" : "Registrar Saída"}
+          {saving
+            ? "Salvando..."
+            : type === "adjustment"
+              ? "Registrar Ajuste"
+              : type === "entry"
+                ? "Registrar Entrada"
+                : "Registrar Saída"}
         </Text>
       </Pressable>
 
@@ -230,11 +544,35 @@ const styles = StyleSheet.create({
     backgroundColor: Colors.danger,
     borderColor: Colors.danger,
   },
+  typeBtnAdjustActive: {
+    backgroundColor: Colors.accentDark,
+    borderColor: Colors.accentDark,
+  },
   typeBtnText: {
     fontSize: 15,
     fontFamily: "Inter_600SemiBold",
     color: Colors.text,
   },
+  checkoutNotice: {
+    flexDirection: "row",
+    gap: 8,
+    backgroundColor: Colors.warningLight,
+    borderRadius: 12,
+    padding: 12,
+    marginTop: -8,
+    marginBottom: 20,
+  },
+  checkoutNoticeText: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+  },
+  checkoutNoticeLink: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+    marginTop: 6,
+  },
   selectedProduct: {
     flexDirection: "row",
     alignItems: "center",
@@ -317,6 +655,33 @@ const styles = StyleSheet.create({
     textAlign: "center",
     paddingVertical: 20,
   },
+  locationRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 20,
+  },
+  locationChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  locationChipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  adjustChipActive: {
+    backgroundColor: Colors.accentDark,
+    borderColor: Colors.accentDark,
+  },
+  locationChipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
   input: {
     backgroundColor: Colors.surface,
     borderRadius: 12,
@@ -329,6 +694,29 @@ const styles = StyleSheet.create({
     color: Colors.text,
     marginBottom: 20,
   },
+  row: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  halfField: {
+    flex: 1,
+  },
+  lotHint: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    padding: 12,
+    marginTop: -8,
+    marginBottom: 20,
+  },
+  lotHintText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+  },
   textArea: {
     minHeight: 80,
     textAlignVertical: "top" as const,
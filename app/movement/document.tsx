@@ -0,0 +1,726 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  ScrollView,
+  Alert,
+  Platform,
+} from "react-native";
+import { router, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useAuth } from "@/components/AuthProvider";
+import { UnitPicker } from "@/components/UnitPicker";
+import { formatDateInput, parseDateInput } from "@/lib/dates";
+import {
+  getProducts,
+  getLocations,
+  getStockBalances,
+  getSuppliers,
+  getTechnicians,
+  getProductUnits,
+  addMovementDocument,
+  MovementDocumentLineInput,
+  Product,
+  ProductUnit,
+  Location,
+  StockBalance,
+  Supplier,
+  Technician,
+} from "@/lib/storage";
+import { MOVEMENT_DOCUMENT_TYPE_LABELS, type MovementDocumentType } from "@shared/movements";
+import { isReturnable } from "@shared/products";
+
+type DraftLine = {
+  productId: string;
+  quantity: string;
+  unitCost: string;
+  lotNumber: string;
+  expiresAt: string;
+  serials: string;
+  unitIds: string[];
+};
+
+function splitSerials(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/** Recebimento ou requisição com vários produtos, gravado de uma vez. */
+export default function AddMovementDocumentScreen() {
+  const { user, can } = useAuth();
+  const canEntry = can("movement:entry");
+  // Quem não gerencia retiradas requisita em nome próprio.
+  const canPickTechnician = can("checkout:manage");
+  const [type, setType] = useState<MovementDocumentType>(canEntry ? "entry" : "exit");
+  const [products, setProducts] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [balances, setBalances] = useState<StockBalance[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [units, setUnits] = useState<Record<string, ProductUnit[]>>({});
+  const [number, setNumber] = useState("");
+  const [documentDate, setDocumentDate] = useState(formatDateInput(new Date().toISOString()));
+  const [selectedLocation, setSelectedLocation] = useState("");
+  const [selectedSupplier, setSelectedSupplier] = useState("");
+  const [selectedTechnician, setSelectedTechnician] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [note, setNote] = useState("");
+  const [searchText, setSearchText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      (async () => {
+        const [p, l, b, s, t] = await Promise.all([
+          getProducts(),
+          getLocations(),
+          getStockBalances(),
+          getSuppliers(),
+          canPickTechnician ? getTechnicians() : Promise.resolve([]),
+        ]);
+        setProducts(p.sort((a, c) => a.name.localeCompare(c.name)));
+        setLocations(l);
+        setBalances(b);
+        setSuppliers(s);
+        setTechnicians(t);
+        setSelectedLocation((current) => current || (l.find((loc) => loc.isDefault) ?? l[0])?.id || "");
+      })();
+    }, [canPickTechnician])
+  );
+
+  const productOf = (productId: string) => products.find((p) => p.id === productId);
+  const balanceAt = (productId: string) =>
+    balances.find((b) => b.productId === productId && b.locationId === selectedLocation)?.quantity ?? 0;
+
+  const addLine = async (product: Product) => {
+    setLines((current) =>
+      current.some((l) => l.productId === product.id)
+        ? current
+        : [
+            ...current,
+            { productId: product.id, quantity: "1", unitCost: "", lotNumber: "", expiresAt: "", serials: "", unitIds: [] },
+          ]
+    );
+    if (product.serialized && !units[product.id]) {
+      const productUnits = await getProductUnits(product.id);
+      setUnits((current) => ({ ...current, [product.id]: productUnits }));
+    }
+  };
+
+  const updateLine = (productId: string, data: Partial<DraftLine>) => {
+    setLines((current) => current.map((l) => (l.productId === productId ? { ...l, ...data } : l)));
+  };
+
+  const removeLine = (productId: string) => {
+    Haptics.selectionAsync();
+    setLines((current) => current.filter((l) => l.productId !== productId));
+  };
+
+  const changeType = (next: MovementDocumentType) => {
+    Haptics.selectionAsync();
+    setType(next);
+    // Ferramentas e EPIs saem por retirada, não por requisição.
+    setLines((current) =>
+      current
+        .filter((l) => next === "entry" || !isReturnable(productOf(l.productId)?.kind ?? "consumable"))
+        .map((l) => ({ ...l, serials: "", unitIds: [] }))
+    );
+  };
+
+  const changeLocation = (locationId: string) => {
+    Haptics.selectionAsync();
+    setSelectedLocation(locationId);
+    setLines((current) => current.map((l) => ({ ...l, unitIds: [] })));
+  };
+
+  const handleSave = async () => {
+    if (!number.trim()) {
+      Alert.alert("Erro", "Informe o número do documento");
+      return;
+    }
+    const date = parseDateInput(documentDate);
+    if (!date) {
+      Alert.alert("Erro", "Informe a data no formato DD/MM/AAAA");
+      return;
+    }
+    if (!selectedLocation) {
+      Alert.alert("Erro", "Selecione o local");
+      return;
+    }
+    if (lines.length === 0) {
+      Alert.alert("Erro", "Inclua ao menos um item no documento");
+      return;
+    }
+
+    const parsed: MovementDocumentLineInput[] = [];
+    for (const line of lines) {
+      const product = productOf(line.productId);
+      const name = product?.name ?? "produto";
+      const serials = splitSerials(line.serials);
+      // Em produtos serializados, a quantidade é o número de unidades informadas.
+      const quantity = product?.serialized ? (type === "entry" ? serials.length : line.unitIds.length) : parseInt(line.quantity);
+      if (!quantity || quantity <= 0) {
+        Alert.alert("Erro", `Informe a quantidade de ${name}`);
+        return;
+      }
+      if (type === "exit" && quantity > balanceAt(line.productId)) {
+        Alert.alert("Erro", `${name}: disponível neste local ${balanceAt(line.productId)} ${product?.unit ?? ""}`);
+        return;
+      }
+      const cost = type === "entry" && line.unitCost.trim() ? parseFloat(line.unitCost.replace(",", ".")) : null;
+      if (cost !== null && (isNaN(cost) || cost < 0)) {
+        Alert.alert("Erro", `Informe um custo válido para ${name}`);
+        return;
+      }
+      const expiry = type === "entry" && line.expiresAt.trim() ? parseDateInput(line.expiresAt) : null;
+      if (type === "entry" && line.expiresAt.trim() && !expiry) {
+        Alert.alert("Erro", `Informe a validade de ${name} no formato DD/MM/AAAA`);
+        return;
+      }
+      parsed.push({
+        productId: line.productId,
+        quantity,
+        ...(type === "entry"
+          ? { unitCost: cost, lotNumber: line.lotNumber.trim() || null, expiresAt: expiry }
+          : {}),
+        ...(product?.serialized ? (type === "entry" ? { serials } : { unitIds: line.unitIds }) : {}),
+      });
+    }
+
+    setSaving(true);
+    try {
+      await addMovementDocument({
+        type,
+        number: number.trim(),
+        documentDate: date,
+        locationId: selectedLocation,
+        note: note.trim() || null,
+        ...(type === "entry"
+          ? { supplierId: selectedSupplier || null }
+          : { technicianId: (canPickTechnician ? selectedTechnician : user?.id) || null }),
+        lines: parsed,
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.back();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao registrar documento");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const filteredProducts = (
+    searchText ? products.filter((p) => p.name.toLowerCase().includes(searchText.toLowerCase())) : products
+  ).filter((p) => !lines.some((l) => l.productId === p.id) && (type === "entry" || !isReturnable(p.kind)));
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardDismissMode="on-drag">
+      <Text style={styles.label}>Tipo de Documento</Text>
+      <View style={styles.typeRow}>
+        {canEntry && (
+          <Pressable
+            onPress={() => changeType("entry")}
+            style={[styles.typeBtn, type === "entry" && styles.typeBtnEntryActive]}
+          >
+            <Ionicons name="download-outline" size={18} color={type === "entry" ? Colors.white : Colors.success} />
+            <Text style={[styles.typeBtnText, type === "entry" && { color: Colors.white }]}>
+              {MOVEMENT_DOCUMENT_TYPE_LABELS.entry}
+            </Text>
+          </Pressable>
+        )}
+        <Pressable
+          onPress={() => changeType("exit")}
+          style={[styles.typeBtn, type === "exit" && styles.typeBtnExitActive]}
+        >
+          <Ionicons name="document-text-outline" size={18} color={type === "exit" ? Colors.white : Colors.danger} />
+          <Text style={[styles.typeBtnText, type === "exit" && { color: Colors.white }]}>
+            {MOVEMENT_DOCUMENT_TYPE_LABELS.exit}
+          </Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.row}>
+        <View style={styles.halfField}>
+          <Text style={styles.label}>Número</Text>
+          <TextInput
+            style={styles.input}
+            placeholder={type === "entry" ? "Ex: NF 12345" : "Ex: REQ-0042"}
+            placeholderTextColor={Colors.textTertiary}
+            value={number}
+            onChangeText={setNumber}
+            autoCapitalize="characters"
+          />
+        </View>
+        <View style={styles.halfField}>
+          <Text style={styles.label}>Data</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="DD/MM/AAAA"
+            placeholderTextColor={Colors.textTertiary}
+            value={documentDate}
+            onChangeText={setDocumentDate}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      </View>
+
+      {type === "entry" ? (
+        <>
+          <Text style={styles.label}>Fornecedor (opcional)</Text>
+          {suppliers.length === 0 ? (
+            <Text style={styles.hint}>Cadastre fornecedores na tela Fornecedores</Text>
+          ) : (
+            <View style={styles.chipRow}>
+              {suppliers.map((s) => (
+                <Pressable
+                  key={s.id}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setSelectedSupplier((current) => (current === s.id ? "" : s.id));
+                  }}
+                  style={[styles.chip, selectedSupplier === s.id && styles.chipActive]}
+                >
+                  <Ionicons
+                    name="business-outline"
+                    size={13}
+                    color={selectedSupplier === s.id ? Colors.white : Colors.textSecondary}
+                  />
+                  <Text style={[styles.chipText, selectedSupplier === s.id && { color: Colors.white }]}>{s.name}</Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+        </>
+      ) : canPickTechnician ? (
+        <>
+          <Text style={styles.label}>Técnico (opcional)</Text>
+          <View style={styles.chipRow}>
+            {technicians.map((t) => (
+              <Pressable
+                key={t.id}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  setSelectedTechnician((current) => (current === t.id ? "" : t.id));
+                }}
+                style={[styles.chip, selectedTechnician === t.id && styles.chipActive]}
+              >
+                <Ionicons
+                  name="person-outline"
+                  size={13}
+                  color={selectedTechnician === t.id ? Colors.white : Colors.textSecondary}
+                />
+                <Text style={[styles.chipText, selectedTechnician === t.id && { color: Colors.white }]}>
+                  {t.username}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      ) : null}
+
+      <Text style={styles.label}>Local</Text>
+      <View style={styles.chipRow}>
+        {locations.map((loc) => (
+          <Pressable
+            key={loc.id}
+            onPress={() => changeLocation(loc.id)}
+            style={[styles.chip, selectedLocation === loc.id && styles.chipActive]}
+          >
+            <Text style={[styles.chipText, selectedLocation === loc.id && { color: Colors.white }]}>{loc.name}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Itens ({lines.length})</Text>
+      {lines.map((line) => {
+        const product = productOf(line.productId);
+        return (
+          <View key={line.productId} style={styles.lineCard}>
+            <View style={styles.lineHeader}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.lineName} numberOfLines={1}>{product?.name ?? "Produto"}</Text>
+                {type === "exit" && (
+                  <Text style={styles.lineMeta}>
+                    Disponível: {balanceAt(line.productId)} {product?.unit ?? ""}
+                  </Text>
+                )}
+              </View>
+              <Pressable onPress={() => removeLine(line.productId)} hitSlop={8}>
+                <Ionicons name="close-circle" size={20} color={Colors.textTertiary} />
+              </Pressable>
+            </View>
+
+            {product?.serialized && type === "entry" ? (
+              <>
+                <Text style={styles.fieldLabel}>Números de série ({splitSerials(line.serials).length})</Text>
+                <TextInput
+                  style={[styles.lineInput, styles.lineTextArea]}
+                  placeholder="Um por linha"
+                  placeholderTextColor={Colors.textTertiary}
+                  value={line.serials}
+                  onChangeText={(v) => updateLine(line.productId, { serials: v })}
+                  autoCapitalize="characters"
+                  multiline
+                />
+              </>
+            ) : product?.serialized ? (
+              <>
+                <Text style={styles.fieldLabel}>Unidades ({line.unitIds.length})</Text>
+                <UnitPicker
+                  units={(units[line.productId] ?? []).filter(
+                    (u) => u.status === "available" && u.locationId === selectedLocation
+                  )}
+                  selected={line.unitIds}
+                  onChange={(unitIds) => updateLine(line.productId, { unitIds })}
+                />
+              </>
+            ) : (
+              <View style={styles.row}>
+                <View style={styles.halfField}>
+                  <Text style={styles.fieldLabel}>Quantidade ({product?.unit ?? "un"})</Text>
+                  <TextInput
+                    style={styles.lineInput}
+                    placeholder="1"
+                    placeholderTextColor={Colors.textTertiary}
+                    value={line.quantity}
+                    onChangeText={(v) => updateLine(line.productId, { quantity: v })}
+                    keyboardType="numeric"
+                  />
+                </View>
+                {type === "entry" && (
+                  <View style={styles.halfField}>
+                    <Text style={styles.fieldLabel}>Custo unitário (R$)</Text>
+                    <TextInput
+                      style={styles.lineInput}
+                      placeholder="Custo médio"
+                      placeholderTextColor={Colors.textTertiary}
+                      value={line.unitCost}
+                      onChangeText={(v) => updateLine(line.productId, { unitCost: v })}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                )}
+              </View>
+            )}
+
+            {type === "entry" && (
+              <View style={[styles.row, { marginTop: 10 }]}>
+                <View style={styles.halfField}>
+                  <Text style={styles.fieldLabel}>Lote (opcional)</Text>
+                  <TextInput
+                    style={styles.lineInput}
+                    placeholder="Ex: L2301"
+                    placeholderTextColor={Colors.textTertiary}
+                    value={line.lotNumber}
+                    onChangeText={(v) => updateLine(line.productId, { lotNumber: v })}
+                    autoCapitalize="characters"
+                  />
+                </View>
+                <View style={styles.halfField}>
+                  <Text style={styles.fieldLabel}>Validade (opcional)</Text>
+                  <TextInput
+                    style={styles.lineInput}
+                    placeholder="DD/MM/AAAA"
+                    placeholderTextColor={Colors.textTertiary}
+                    value={line.expiresAt}
+                    onChangeText={(v) => updateLine(line.productId, { expiresAt: v })}
+                    keyboardType="numbers-and-punctuation"
+                  />
+                </View>
+              </View>
+            )}
+          </View>
+        );
+      })}
+
+      <View style={styles.searchWrap}>
+        <Ionicons name="search" size={16} color={Colors.textTertiary} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Adicionar produto..."
+          placeholderTextColor={Colors.textTertiary}
+          value={searchText}
+          onChangeText={setSearchText}
+        />
+      </View>
+      {searchText ? (
+        <View style={styles.productList}>
+          {filteredProducts.length === 0 ? (
+            <Text style={styles.noProducts}>Nenhum produto encontrado</Text>
+          ) : (
+            filteredProducts.slice(0, 8).map((p) => (
+              <Pressable
+                key={p.id}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  addLine(p);
+                  setSearchText("");
+                }}
+                style={({ pressed }) => [styles.productItem, pressed && { backgroundColor: Colors.surfaceElevated }]}
+              >
+                <Text style={styles.productItemName} numberOfLines={1}>{p.name}</Text>
+                <Text style={styles.productItemQty}>{p.quantity} {p.unit}</Text>
+              </Pressable>
+            ))
+          )}
+        </View>
+      ) : (
+        <View style={{ height: 12 }} />
+      )}
+
+      <Text style={styles.label}>Observação (opcional)</Text>
+      <TextInput
+        style={[styles.input, styles.textArea]}
+        placeholder={type === "entry" ? "Ex: Entrega parcial, faltou uma caixa" : "Ex: Obra da rua 7"}
+        placeholderTextColor={Colors.textTertiary}
+        value={note}
+        onChangeText={setNote}
+        multiline
+        numberOfLines={3}
+      />
+
+      <Pressable
+        onPress={handleSave}
+        disabled={saving}
+        style={({ pressed }) => [
+          styles.saveBtn,
+          { backgroundColor: type === "entry" ? Colors.success : Colors.danger },
+          pressed && { opacity: 0.9 },
+          saving && { opacity: 0.6 },
+        ]}
+      >
+        <Ionicons name="checkmark" size={20} color={Colors.white} />
+        <Text style={styles.saveBtnText}>
+          {saving ? "Salvando..." : `Registrar ${MOVEMENT_DOCUMENT_TYPE_LABELS[type]}`}
+        </Text>
+      </Pressable>
+
+      <View style={{ height: Platform.OS === "web" ? 34 : 40 }} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 8,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+  },
+  hint: {
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginBottom: 20,
+  },
+  typeRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginBottom: 20,
+  },
+  typeBtn: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  typeBtnEntryActive: {
+    backgroundColor: Colors.success,
+    borderColor: Colors.success,
+  },
+  typeBtnExitActive: {
+    backgroundColor: Colors.danger,
+    borderColor: Colors.danger,
+  },
+  typeBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  lineCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 14,
+    marginBottom: 10,
+  },
+  lineHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 10,
+  },
+  lineName: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+    marginRight: 8,
+  },
+  lineMeta: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  halfField: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 11,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textTertiary,
+    marginBottom: 4,
+  },
+  lineInput: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+  },
+  lineTextArea: {
+    minHeight: 72,
+    textAlignVertical: "top" as const,
+  },
+  searchWrap: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: Colors.surface,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 12,
+    height: 42,
+    gap: 8,
+    marginBottom: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+  },
+  productList: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 20,
+    overflow: "hidden",
+  },
+  productItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  productItemName: {
+    fontSize: 14,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+    flex: 1,
+    marginRight: 8,
+  },
+  productItemQty: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+  },
+  noProducts: {
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    textAlign: "center",
+    paddingVertical: 20,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginBottom: 20,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: "top" as const,
+  },
+  saveBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderRadius: 14,
+    paddingVertical: 16,
+    marginTop: 8,
+  },
+  saveBtnText: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+});
@@ -0,0 +1,467 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  ScrollView,
+  Alert,
+  Platform,
+} from "react-native";
+import { router, useLocalSearchParams, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { UnitPicker } from "@/components/UnitPicker";
+import {
+  getProducts,
+  getLocations,
+  getStockBalances,
+  getProductUnits,
+  addTransfer,
+  Product,
+  ProductUnit,
+  Location,
+  StockBalance,
+} from "@/lib/storage";
+
+function LocationChips({
+  locations,
+  selected,
+  disabledId,
+  quantityAt,
+  onSelect,
+}: {
+  locations: Location[];
+  selected: string;
+  disabledId?: string;
+  quantityAt?: (locationId: string) => number;
+  onSelect: (id: string) => void;
+}) {
+  return (
+    <View style={styles.locationRow}>
+      {locations.map((loc) => {
+        const active = selected === loc.id;
+        const disabled = loc.id === disabledId;
+        return (
+          <Pressable
+            key={loc.id}
+            disabled={disabled}
+            onPress={() => {
+              Haptics.selectionAsync();
+              onSelect(loc.id);
+            }}
+            style={[styles.locationChip, active && styles.locationChipActive, disabled && { opacity: 0.4 }]}
+          >
+            <Text style={[styles.locationChipText, active && { color: Colors.white }]}>
+              {loc.name}
+              {quantityAt ? ` (${quantityAt(loc.id)})` : ""}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+export default function TransferScreen() {
+  const params = useLocalSearchParams<{ productId?: string; fromLocationId?: string }>();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [balances, setBalances] = useState<StockBalance[]>([]);
+  const [selectedProduct, setSelectedProduct] = useState<string>(params.productId ?? "");
+  const [fromLocation, setFromLocation] = useState<string>(params.fromLocationId ?? "");
+  const [toLocation, setToLocation] = useState<string>("");
+  const [quantity, setQuantity] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [searchText, setSearchText] = useState("");
+  const [units, setUnits] = useState<ProductUnit[]>([]);
+  const [selectedUnits, setSelectedUnits] = useState<string[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      (async () => {
+        const [p, l, b] = await Promise.all([getProducts(), getLocations(), getStockBalances()]);
+        setProducts(p.sort((a, b) => a.name.localeCompare(b.name)));
+        setLocations(l);
+        setBalances(b);
+        setFromLocation((current) => current || (l.find((loc) => loc.isDefault) ?? l[0])?.id || "");
+      })();
+    }, [])
+  );
+
+  const serialized = products.find((p) => p.id === selectedProduct)?.serialized ?? false;
+
+  useEffect(() => {
+    setSelectedUnits([]);
+    if (!serialized) {
+      setUnits([]);
+      return;
+    }
+    getProductUnits(selectedProduct).then(setUnits);
+  }, [selectedProduct, serialized]);
+
+  const balanceAt = (productId: string, locationId: string) =>
+    balances.find((b) => b.productId === productId && b.locationId === locationId)?.quantity ?? 0;
+
+  const handleSave = async () => {
+    if (!selectedProduct) {
+      Alert.alert("Erro", "Selecione um produto");
+      return;
+    }
+    if (!fromLocation || !toLocation) {
+      Alert.alert("Erro", "Selecione a origem e o destino");
+      return;
+    }
+    const qty = serialized ? selectedUnits.length : parseInt(quantity);
+    if (!qty || qty <= 0) {
+      Alert.alert("Erro", "Informe uma quantidade válida");
+      return;
+    }
+    const product = products.find((p) => p.id === selectedProduct);
+    const available = balanceAt(selectedProduct, fromLocation);
+    if (product && qty > available) {
+      Alert.alert("Erro", `Quantidade disponível na origem: ${available} ${product.unit}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await addTransfer({
+        productId: selectedProduct,
+        fromLocationId: fromLocation,
+        toLocationId: toLocation,
+        quantity: qty,
+        note: note.trim(),
+        ...(serialized ? { unitIds: selectedUnits } : {}),
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.back();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao registrar transferência");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const filteredProducts = searchText
+    ? products.filter((p) => p.name.toLowerCase().includes(searchText.toLowerCase()))
+    : products;
+
+  const selectedProductData = products.find((p) => p.id === selectedProduct);
+
+  if (locations.length > 0 && locations.length < 2) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Ionicons name="location-outline" size={48} color={Colors.textTertiary} />
+          <Text style={styles.emptyTitle}>Cadastre outro local</Text>
+          <Text style={styles.emptyText}>Transferências precisam de ao menos dois locais de estoque</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardDismissMode="on-drag">
+      <Text style={styles.label}>Produto</Text>
+      {selectedProductData ? (
+        <View style={styles.selectedProduct}>
+          <View style={styles.selectedLeft}>
+            <Ionicons name="cube" size={20} color={Colors.primary} />
+            <View>
+              <Text style={styles.selectedName}>{selectedProductData.name}</Text>
+              <Text style={styles.selectedQty}>
+                Total: {selectedProductData.quantity} {selectedProductData.unit}
+              </Text>
+            </View>
+          </View>
+          <Pressable onPress={() => setSelectedProduct("")}>
+            <Ionicons name="close-circle" size={22} color={Colors.textTertiary} />
+          </Pressable>
+        </View>
+      ) : (
+        <>
+          <View style={styles.searchWrap}>
+            <Ionicons name="search" size={16} color={Colors.textTertiary} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Buscar produto..."
+              placeholderTextColor={Colors.textTertiary}
+              value={searchText}
+              onChangeText={setSearchText}
+            />
+          </View>
+          <View style={styles.productList}>
+            {filteredProducts.length === 0 ? (
+              <Text style={styles.noProducts}>Nenhum produto encontrado</Text>
+            ) : (
+              filteredProducts.slice(0, 8).map((p) => (
+                <Pressable
+                  key={p.id}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setSelectedProduct(p.id);
+                    setSearchText("");
+                  }}
+                  style={({ pressed }) => [styles.productItem, pressed && { backgroundColor: Colors.surfaceElevated }]}
+                >
+                  <Text style={styles.productItemName} numberOfLines={1}>{p.name}</Text>
+                  <Text style={styles.productItemQty}>{p.quantity} {p.unit}</Text>
+                </Pressable>
+              ))
+            )}
+          </View>
+        </>
+      )}
+
+      <Text style={styles.label}>Origem</Text>
+      <LocationChips
+        locations={locations}
+        selected={fromLocation}
+        quantityAt={selectedProductData ? (id) => balanceAt(selectedProductData.id, id) : undefined}
+        onSelect={(id) => {
+          setFromLocation(id);
+          setSelectedUnits([]);
+          if (id === toLocation) setToLocation("");
+        }}
+      />
+
+      <View style={styles.arrowWrap}>
+        <Ionicons name="arrow-down" size={18} color={Colors.textTertiary} />
+      </View>
+
+      <Text style={styles.label}>Destino</Text>
+      <LocationChips
+        locations={locations}
+        selected={toLocation}
+        disabledId={fromLocation}
+        quantityAt={selectedProductData ? (id) => balanceAt(selectedProductData.id, id) : undefined}
+        onSelect={setToLocation}
+      />
+
+      {serialized ? (
+        <>
+          <Text style={styles.label}>Unidades ({selectedUnits.length})</Text>
+          <UnitPicker
+            units={units.filter((u) => u.status === "available" && u.locationId === fromLocation)}
+            selected={selectedUnits}
+            onChange={setSelectedUnits}
+          />
+        </>
+      ) : (
+        <>
+          <Text style={styles.label}>Quantidade</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="0"
+            placeholderTextColor={Colors.textTertiary}
+            value={quantity}
+            onChangeText={setQuantity}
+            keyboardType="numeric"
+          />
+        </>
+      )}
+
+      <Text style={styles.label}>Observação (opcional)</Text>
+      <TextInput
+        style={[styles.input, styles.textArea]}
+        placeholder="Ex: Ferramentas para a obra X"
+        placeholderTextColor={Colors.textTertiary}
+        value={note}
+        onChangeText={setNote}
+        multiline
+        numberOfLines={3}
+      />
+
+      <Pressable
+        onPress={handleSave}
+        disabled={saving}
+        style={({ pressed }) => [styles.saveBtn, pressed && { opacity: 0.9 }, saving && { opacity: 0.6 }]}
+      >
+        <Ionicons name="swap-horizontal" size={20} color={Colors.white} />
+        <Text style={styles.saveBtnText}>{saving ? "Salvando..." : "Registrar Transferência"}</Text>
+      </Pressable>
+
+      <View style={{ height: Platform.OS === "web" ? 34 : 40 }} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 8,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+  },
+  selectedProduct: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    padding: 14,
+    marginBottom: 20,
+  },
+  selectedLeft: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    flex: 1,
+  },
+  selectedName: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  selectedQty: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  searchWrap: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: Colors.surface,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 12,
+    height: 42,
+    gap: 8,
+    marginBottom: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+  },
+  productList: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 20,
+    overflow: "hidden",
+  },
+  productItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  productItemName: {
+    fontSize: 14,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+    flex: 1,
+    marginRight: 8,
+  },
+  productItemQty: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+  },
+  noProducts: {
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    textAlign: "center",
+    paddingVertical: 20,
+  },
+  locationRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  locationChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  locationChipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  locationChipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  arrowWrap: {
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginBottom: 20,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: "top" as const,
+  },
+  saveBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderRadius: 14,
+    paddingVertical: 16,
+    marginTop: 8,
+    backgroundColor: Colors.primary,
+  },
+  saveBtnText: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 40,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    textAlign: "center",
+  },
+});
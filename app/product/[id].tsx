@@ -7,18 +7,90 @@ import {
   Pressable,
   Alert,
   Platform,
+  Modal,
+  TextInput,
 } from "react-native";
 import { router, useLocalSearchParams, useFocusEffect } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
-import { getProduct, getCategories, getMovements, deleteProduct, Product, Category, Movement } from "@/lib/storage";
+import { useAuth } from "@/components/AuthProvider";
+import { AuditEntryCard } from "@/components/AuditEntryCard";
+import { MaintenanceSection } from "@/components/MaintenanceSection";
+import { ProductSuppliersSection } from "@/components/ProductSuppliersSection";
+import { PriceHistorySection } from "@/components/PriceHistorySection";
+import { MovementStatusBadge, movementStatus } from "@/components/MovementStatusBadge";
+import { LOCATION_KIND_ICONS } from "@/constants/locations";
+import { PRODUCT_KIND_ICONS, UNIT_STATUS_COLORS } from "@/constants/products";
+import {
+  getProduct,
+  getCategories,
+  getMovements,
+  getAuditLog,
+  getLocations,
+  getStockBalances,
+  updateLocationMinStock,
+  getLots,
+  getProductUnits,
+  getUnitHistory,
+  updateUnitStatus,
+  serializeProduct,
+  getProductMaintenance,
+  getMaintenanceStatus,
+  getSuppliers,
+  getProductSuppliers,
+  getProductPrices,
+  deleteProduct,
+  Product,
+  Category,
+  Movement,
+  AuditEntry,
+  Location,
+  StockBalance,
+  StockLot,
+  ProductUnit,
+  MaintenancePlan,
+  MaintenanceEvent,
+  MaintenanceStatus,
+  Supplier,
+  ProductSupplier,
+  PricePoint,
+} from "@/lib/storage";
+import { daysUntil, formatDateInput } from "@/lib/dates";
+import {
+  PRODUCT_KIND_LABELS,
+  UNIT_STATUS_LABELS,
+  UNIT_STATUS_TRANSITIONS,
+  UnitStatus,
+  isReturnable,
+} from "@shared/products";
+import { currentUnitCost } from "@shared/costing";
+import { movementDelta, reversedMovementIds } from "@shared/movements";
 
 export default function ProductDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
+  const { can } = useAuth();
   const [product, setProduct] = useState<Product | null>(null);
   const [category, setCategory] = useState<Category | null>(null);
   const [movements, setMovements] = useState<Movement[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [changes, setChanges] = useState<AuditEntry[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [balances, setBalances] = useState<StockBalance[]>([]);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const [minStockInput, setMinStockInput] = useState("");
+  const [units, setUnits] = useState<ProductUnit[]>([]);
+  const [lots, setLots] = useState<StockLot[]>([]);
+  const [selectedUnit, setSelectedUnit] = useState<ProductUnit | null>(null);
+  const [unitHistory, setUnitHistory] = useState<AuditEntry[]>([]);
+  const [serializeVisible, setSerializeVisible] = useState(false);
+  const [serialInputs, setSerialInputs] = useState<Record<string, string>>({});
+  const [maintenancePlans, setMaintenancePlans] = useState<MaintenancePlan[]>([]);
+  const [maintenanceEvents, setMaintenanceEvents] = useState<MaintenanceEvent[]>([]);
+  const [maintenanceStatus, setMaintenanceStatus] = useState<MaintenanceStatus[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [productSuppliers, setProductSuppliers] = useState<ProductSupplier[]>([]);
+  const [pricePoints, setPricePoints] = useState<PricePoint[]>([]);
 
   const loadData = useCallback(async () => {
     if (!id) return;
@@ -26,15 +98,39 @@ export default function ProductDetailScreen() {
     if (!p) return;
     setProduct(p);
     const cats = await getCategories();
+    setCategories(cats);
     setCategory(cats.find((c) => c.id === p.categoryId) ?? null);
     const movs = await getMovements();
     setMovements(
       movs
         .filter((m) => m.productId === id)
         .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-        .slice(0, 20)
     );
-  }, [id]);
+    const [locs, allBalances, allLots, allSuppliers, links, prices] = await Promise.all([
+      getLocations(),
+      getStockBalances(),
+      getLots(),
+      getSuppliers(),
+      getProductSuppliers(id),
+      getProductPrices(id),
+    ]);
+    setSuppliers(allSuppliers);
+    setProductSuppliers(links);
+    setPricePoints(prices);
+    setLocations(locs);
+    setBalances(allBalances.filter((b) => b.productId === id));
+    setLots(allLots.filter((lot) => lot.productId === id));
+    setUnits(p.serialized ? await getProductUnits(id) : []);
+    if (isReturnable(p.kind)) {
+      const [maintenance, status] = await Promise.all([getProductMaintenance(id), getMaintenanceStatus(id)]);
+      setMaintenancePlans(maintenance.plans);
+      setMaintenanceEvents(maintenance.events);
+      setMaintenanceStatus(status);
+    }
+    if (can("audit:view")) {
+      setChanges(await getAuditLog({ entityType: "product", entityId: id }));
+    }
+  }, [id, can]);
 
   useFocusEffect(
     useCallback(() => {
@@ -43,10 +139,10 @@ export default function ProductDetailScreen() {
   );
 
   const handleDelete = () => {
-    Alert.alert("Excluir Produto", `Deseja realmente excluir "${product?.name}"?`, [
+    Alert.alert("Mover para a Lixeira", `"${product?.name}" poderá ser restaurado pela Lixeira.`, [
       { text: "Cancelar", style: "cancel" },
       {
-        text: "Excluir",
+        text: "Mover",
         style: "destructive",
         onPress: async () => {
           if (!id) return;
@@ -58,6 +154,87 @@ export default function ProductDetailScreen() {
     ]);
   };
 
+  const openMinStock = (location: Location) => {
+    const balance = balances.find((b) => b.locationId === location.id);
+    setEditingLocation(location);
+    setMinStockInput(String(balance?.minStock ?? 0));
+  };
+
+  const handleSaveMinStock = async () => {
+    if (!id || !editingLocation) return;
+    const value = parseInt(minStockInput, 10);
+    if (isNaN(value) || value < 0) {
+      Alert.alert("Erro", "Informe um estoque mínimo válido");
+      return;
+    }
+    try {
+      await updateLocationMinStock(id, editingLocation.id, value);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setEditingLocation(null);
+      loadData();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao salvar estoque mínimo");
+    }
+  };
+
+  const openUnit = async (unit: ProductUnit) => {
+    setSelectedUnit(unit);
+    setUnitHistory([]);
+    setUnitHistory(await getUnitHistory(unit.id));
+  };
+
+  const handleUnitStatus = (unit: ProductUnit, status: UnitStatus) => {
+    Alert.alert(UNIT_STATUS_LABELS[status], `Alterar a unidade ${unit.serial} para "${UNIT_STATUS_LABELS[status]}"?`, [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Confirmar",
+        onPress: async () => {
+          try {
+            await updateUnitStatus(unit.id, status);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            setSelectedUnit(null);
+            loadData();
+          } catch (e: any) {
+            Alert.alert("Erro", e.message || "Falha ao atualizar unidade");
+          }
+        },
+      },
+    ]);
+  };
+
+  const serialsFor = (locationId: string) =>
+    (serialInputs[locationId] ?? "")
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+  const openSerialize = () => {
+    setSerialInputs({});
+    setSerializeVisible(true);
+  };
+
+  const handleSerialize = async () => {
+    if (!id) return;
+    const stocked = balances.filter((b) => b.quantity > 0);
+    const missing = stocked.find((b) => serialsFor(b.locationId).length !== b.quantity);
+    if (missing) {
+      const name = locations.find((l) => l.id === missing.locationId)?.name ?? "o local";
+      Alert.alert("Erro", `Informe ${missing.quantity} números de série para ${name}`);
+      return;
+    }
+    try {
+      await serializeProduct(
+        id,
+        stocked.flatMap((b) => serialsFor(b.locationId).map((serial) => ({ serial, locationId: b.locationId })))
+      );
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setSerializeVisible(false);
+      loadData();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao ativar número de série");
+    }
+  };
+
   if (!product) {
     return (
       <View style={styles.container}>
@@ -69,9 +246,16 @@ export default function ProductDetailScreen() {
     );
   }
 
+  const locationName = (locationId: string | null | undefined) =>
+    locations.find((l) => l.id === locationId)?.name ?? "";
+  // Transferências aparecem uma vez, pela ponta de saída, com origem e destino.
+  const history = movements.filter((m) => m.transferDirection !== "in").slice(0, 20);
+  const reversedIds = reversedMovementIds(movements);
+
+  const isArchived = !!product.deletedAt;
   const isLow = product.quantity <= product.minStock;
   const percentage = product.minStock > 0 ? Math.min((product.quantity / product.minStock) * 100, 100) : (product.quantity > 0 ? 100 : 0);
-  const totalValue = product.quantity * product.price;
+  const totalValue = product.quantity * currentUnitCost(product);
   const created = new Date(product.createdAt);
   const updated = new Date(product.updatedAt);
   const formatDate = (d: Date) =>
@@ -84,6 +268,10 @@ export default function ProductDetailScreen() {
           <View style={[styles.catBadge, { backgroundColor: category?.color ?? Colors.textTertiary }]}>
             <Text style={styles.catBadgeText}>{category?.name ?? "Sem categoria"}</Text>
           </View>
+          <View style={styles.kindBadge}>
+            <Ionicons name={PRODUCT_KIND_ICONS[product.kind]} size={12} color={Colors.textSecondary} />
+            <Text style={styles.kindBadgeText}>{PRODUCT_KIND_LABELS[product.kind]}</Text>
+          </View>
           {isLow && (
             <View style={styles.lowBadge}>
               <Ionicons name="warning" size={12} color={Colors.danger} />
@@ -126,95 +314,499 @@ export default function ProductDetailScreen() {
         <View style={styles.infoCard}>
           <Ionicons name="cash-outline" size={20} color={Colors.primary} />
           <Text style={styles.infoLabel}>Preço Unit.</Text>
-          <Text style={styles.infoValue}>R$ {product.price.toFixed(2).replace(".", ",")}</Text>
+          <Text style={styles.infoValue}>R$ {Number(product.price).toFixed(2).replace(".", ",")}</Text>
         </View>
+        {product.averageCost !== null && (
+          <View style={styles.infoCard}>
+            <Ionicons name="calculator-outline" size={20} color={Colors.primary} />
+            <Text style={styles.infoLabel}>Custo Médio</Text>
+            <Text style={styles.infoValue}>R$ {Number(product.averageCost).toFixed(2).replace(".", ",")}</Text>
+          </View>
+        )}
         <View style={styles.infoCard}>
           <Ionicons name="wallet-outline" size={20} color={Colors.success} />
           <Text style={styles.infoLabel}>Valor Total</Text>
           <Text style={styles.infoValue}>R$ {totalValue.toFixed(2).replace(".", ",")}</Text>
         </View>
+        {product.caExpiresAt && (
+          <View style={styles.infoCard}>
+            <Ionicons
+              name="shield-checkmark-outline"
+              size={20}
+              color={daysUntil(product.caExpiresAt) < 0 ? Colors.danger : Colors.primary}
+            />
+            <Text style={styles.infoLabel}>{product.caNumber ? `CA ${product.caNumber}` : "CA"}</Text>
+            <Text style={styles.infoValue}>{formatDateInput(product.caExpiresAt)}</Text>
+          </View>
+        )}
       </View>
 
+      {isArchived && (
+        <View style={styles.archivedBanner}>
+          <Ionicons name="trash-outline" size={18} color={Colors.textSecondary} />
+          <Text style={styles.archivedText}>Este produto está na Lixeira</Text>
+        </View>
+      )}
+
       <View style={styles.actionRow}>
-        <Pressable
-          onPress={() => {
-            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-            router.push({ pathname: "/movement/add", params: { productId: product.id, type: "entry" } });
-          }}
-          style={({ pressed }) => [styles.actionBtn, styles.entryBtn, pressed && { opacity: 0.8 }]}
-        >
-          <Ionicons name="arrow-down" size={18} color={Colors.success} />
-          <Text style={[styles.actionBtnText, { color: Colors.success }]}>Entrada</Text>
-        </Pressable>
-        <Pressable
-          onPress={() => {
-            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-            router.push({ pathname: "/movement/add", params: { productId: product.id, type: "exit" } });
-          }}
-          style={({ pressed }) => [styles.actionBtn, styles.exitBtn, pressed && { opacity: 0.8 }]}
-        >
-          <Ionicons name="arrow-up" size={18} color={Colors.danger} />
-          <Text style={[styles.actionBtnText, { color: Colors.danger }]}>Saída</Text>
-        </Pressable>
-        <Pressable
-          onPress={() => {
-            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-            router.push({ pathname: "/product/edit/[id]", params: { id: product.id } });
-          }}
-          style={({ pressed }) => [styles.actionBtn, styles.editBtn, pressed && { opacity: 0.8 }]}
-        >
-          <Ionicons name="create-outline" size={18} color={Colors.primary} />
-          <Text style={[styles.actionBtnText, { color: Colors.primary }]}>Editar</Text>
-        </Pressable>
+        {can("movement:entry") && !isArchived && (
+          <Pressable
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push({ pathname: "/movement/add", params: { productId: product.id, type: "entry" } });
+            }}
+            style={({ pressed }) => [styles.actionBtn, styles.entryBtn, pressed && { opacity: 0.8 }]}
+          >
+            <Ionicons name="arrow-down" size={18} color={Colors.success} />
+            <Text style={[styles.actionBtnText, { color: Colors.success }]}>Entrada</Text>
+          </Pressable>
+        )}
+        {can("movement:exit") && !isArchived && !isReturnable(product.kind) && (
+          <Pressable
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push({ pathname: "/movement/add", params: { productId: product.id, type: "exit" } });
+            }}
+            style={({ pressed }) => [styles.actionBtn, styles.exitBtn, pressed && { opacity: 0.8 }]}
+          >
+            <Ionicons name="arrow-up" size={18} color={Colors.danger} />
+            <Text style={[styles.actionBtnText, { color: Colors.danger }]}>Saída</Text>
+          </Pressable>
+        )}
+        {can("checkout:manage") && !isArchived && isReturnable(product.kind) && (
+          <Pressable
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push({ pathname: "/checkout/add", params: { productId: product.id } });
+            }}
+            style={({ pressed }) => [styles.actionBtn, styles.exitBtn, pressed && { opacity: 0.8 }]}
+          >
+            <Ionicons name="hand-left-outline" size={18} color={Colors.danger} />
+            <Text style={[styles.actionBtnText, { color: Colors.danger }]}>Retirada</Text>
+          </Pressable>
+        )}
+        {can("product:write") && !isArchived && (
+          <Pressable
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push({ pathname: "/product/edit/[id]", params: { id: product.id } });
+            }}
+            style={({ pressed }) => [styles.actionBtn, styles.editBtn, pressed && { opacity: 0.8 }]}
+          >
+            <Ionicons name="create-outline" size={18} color={Colors.primary} />
+            <Text style={[styles.actionBtnText, { color: Colors.primary }]}>Editar</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <View style={[styles.sectionHeader, styles.sectionHeaderRow]}>
+        <Text style={styles.sectionTitle}>Estoque por Local</Text>
+        {can("movement:transfer") && !isArchived && locations.length > 1 && (
+          <Pressable
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push({ pathname: "/movement/transfer", params: { productId: product.id } });
+            }}
+            style={({ pressed }) => [styles.sectionLink, pressed && { opacity: 0.7 }]}
+          >
+            <Ionicons name="swap-horizontal" size={16} color={Colors.primary} />
+            <Text style={styles.sectionLinkText}>Transferir</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <View style={styles.movList}>
+        {locations
+          .filter((l) => balances.some((b) => b.locationId === l.id) || l.isDefault)
+          .map((l) => {
+            const balance = balances.find((b) => b.locationId === l.id);
+            const qty = balance?.quantity ?? 0;
+            const min = balance?.minStock ?? 0;
+            const locationLow = min > 0 && qty <= min;
+            const canEditMin = can("product:write") && !isArchived;
+            return (
+              <Pressable
+                key={l.id}
+                onPress={() => openMinStock(l)}
+                disabled={!canEditMin}
+                style={({ pressed }) => [styles.movRow, pressed && { opacity: 0.85 }]}
+              >
+                <View style={[styles.movIcon, { backgroundColor: "#E0F2F1" }]}>
+                  <Ionicons name={LOCATION_KIND_ICONS[l.kind]} size={14} color={Colors.primary} />
+                </View>
+                <View style={styles.movInfo}>
+                  <Text style={styles.movNote}>{l.name}</Text>
+                  <Text style={styles.movDate}>{min > 0 ? `Mínimo: ${min} ${product.unit}` : "Sem mínimo definido"}</Text>
+                </View>
+                <Text style={[styles.movQty, { color: locationLow ? Colors.danger : Colors.text }]}>
+                  {qty} <Text style={styles.qtyUnit}>{product.unit}</Text>
+                </Text>
+                {canEditMin && (
+                  <Ionicons name="create-outline" size={16} color={Colors.textTertiary} style={{ marginLeft: 8 }} />
+                )}
+              </Pressable>
+            );
+          })}
+        <View style={[styles.movRow, styles.totalRow]}>
+          <Text style={[styles.movNote, styles.movInfo]}>Total</Text>
+          <Text style={styles.movQty}>
+            {product.quantity} <Text style={styles.qtyUnit}>{product.unit}</Text>
+          </Text>
+        </View>
       </View>
 
+      {lots.length > 0 && (
+        <>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Lotes</Text>
+          </View>
+          <View style={styles.movList}>
+            {lots.map((lot) => {
+              const expired = !!lot.expiresAt && daysUntil(lot.expiresAt) < 0;
+              return (
+                <View key={lot.id} style={styles.movRow}>
+                  <View style={[styles.movIcon, { backgroundColor: expired ? Colors.dangerLight : Colors.surfaceElevated }]}>
+                    <Ionicons name="time-outline" size={14} color={expired ? Colors.danger : Colors.textSecondary} />
+                  </View>
+                  <View style={styles.movInfo}>
+                    <Text style={styles.movNote}>{lot.lotNumber ? `Lote ${lot.lotNumber}` : "Sem número de lote"}</Text>
+                    <Text style={[styles.movDate, expired && { color: Colors.danger }]}>
+                      {lot.expiresAt ? `${expired ? "Venceu" : "Vence"} em ${formatDateInput(lot.expiresAt)}` : "Sem validade"}
+                      {locations.length > 1 ? ` · ${locationName(lot.locationId)}` : ""}
+                    </Text>
+                  </View>
+                  <Text style={styles.movQty}>
+                    {lot.quantity} <Text style={styles.qtyUnit}>{product.unit}</Text>
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        </>
+      )}
+
+      {product.serialized ? (
+        <>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Unidades</Text>
+          </View>
+          {units.length === 0 ? (
+            <View style={styles.emptyMov}>
+              <Ionicons name="barcode-outline" size={32} color={Colors.textTertiary} />
+              <Text style={styles.emptyMovText}>Nenhuma unidade cadastrada</Text>
+            </View>
+          ) : (
+            <View style={styles.movList}>
+              {units.map((unit) => {
+                const statusColors = UNIT_STATUS_COLORS[unit.status];
+                return (
+                  <Pressable
+                    key={unit.id}
+                    onPress={() => openUnit(unit)}
+                    style={({ pressed }) => [styles.movRow, pressed && { opacity: 0.85 }]}
+                  >
+                    <View style={[styles.movIcon, { backgroundColor: statusColors.bg }]}>
+                      <Ionicons name="barcode-outline" size={14} color={statusColors.color} />
+                    </View>
+                    <View style={styles.movInfo}>
+                      <Text style={styles.movNote}>{unit.serial}</Text>
+                      <Text style={styles.movDate}>
+                        {unit.status === "checked_out" && unit.holderName
+                          ? `Com ${unit.holderName}`
+                          : locationName(unit.locationId)}
+                      </Text>
+                    </View>
+                    <View style={[styles.unitStatusBadge, { backgroundColor: statusColors.bg }]}>
+                      <Text style={[styles.unitStatusText, { color: statusColors.color }]}>
+                        {UNIT_STATUS_LABELS[unit.status]}
+                      </Text>
+                    </View>
+                  </Pressable>
+                );
+              })}
+            </View>
+          )}
+        </>
+      ) : (
+        can("product:write") &&
+        !isArchived && (
+          <Pressable
+            onPress={openSerialize}
+            style={({ pressed }) => [styles.serializeLink, pressed && { opacity: 0.7 }]}
+          >
+            <Ionicons name="barcode-outline" size={16} color={Colors.primary} />
+            <Text style={styles.sectionLinkText}>Controlar por número de série</Text>
+          </Pressable>
+        )
+      )}
+
+      <PriceHistorySection points={pricePoints} />
+
+      <ProductSuppliersSection
+        product={product}
+        links={productSuppliers}
+        suppliers={suppliers}
+        canManage={can("supplier:manage") && !isArchived}
+        onChanged={loadData}
+      />
+
+      {isReturnable(product.kind) && (
+        <MaintenanceSection
+          product={product}
+          units={units}
+          plans={maintenancePlans}
+          events={maintenanceEvents}
+          statuses={maintenanceStatus}
+          canManage={can("maintenance:manage") && !isArchived}
+          onChanged={loadData}
+        />
+      )}
+
       <View style={styles.sectionHeader}>
         <Text style={styles.sectionTitle}>Histórico de Movimentações</Text>
       </View>
 
-      {movements.length === 0 ? (
+      {history.length === 0 ? (
         <View style={styles.emptyMov}>
           <Ionicons name="swap-horizontal" size={32} color={Colors.textTertiary} />
           <Text style={styles.emptyMovText}>Nenhuma movimentação registrada</Text>
         </View>
       ) : (
         <View style={styles.movList}>
-          {movements.map((m) => {
-            const isEntry = m.type === "entry";
+          {history.map((m) => {
+            const isAdjustment = m.type === "adjustment";
+            const isIncoming = movementDelta(m) > 0;
+            const color = isAdjustment ? Colors.accentDark : isIncoming ? Colors.success : Colors.danger;
             const d = new Date(m.createdAt);
             const dateStr = `${d.getDate().toString().padStart(2, "0")}/${(d.getMonth() + 1).toString().padStart(2, "0")} ${d.getHours().toString().padStart(2, "0")}:${d.getMinutes().toString().padStart(2, "0")}`;
+            const openMovement = () => router.push({ pathname: "/movement/[id]", params: { id: m.id } });
+            if (m.type === "transfer") {
+              const inLeg = movements.find((x) => x.transferId === m.transferId && x.transferDirection === "in");
+              const status = movementStatus(inLeg ? [m, inLeg] : [m], reversedIds);
+              return (
+                <Pressable
+                  key={m.id}
+                  onPress={openMovement}
+                  style={({ pressed }) => [styles.movRow, status === "reversed" && styles.movReversed, pressed && { opacity: 0.85 }]}
+                >
+                  <View style={[styles.movIcon, { backgroundColor: "#E0F2F1" }]}>
+                    <Ionicons name="swap-horizontal" size={14} color={Colors.primary} />
+                  </View>
+                  <View style={styles.movInfo}>
+                    <Text style={styles.movNote}>
+                      {locationName(m.locationId)} → {locationName(inLeg?.locationId)}
+                    </Text>
+                    <Text style={styles.movDate}>
+                      {dateStr}
+                      {m.note ? ` · ${m.note}` : ""}
+                      {m.userName ? ` · ${m.userName}` : ""}
+                    </Text>
+                    <MovementStatusBadge status={status} />
+                  </View>
+                  <Text style={[styles.movQty, { color: Colors.primary }, status === "reversed" && styles.movQtyReversed]}>
+                    {m.quantity}
+                  </Text>
+                </Pressable>
+              );
+            }
+            const status = movementStatus([m], reversedIds);
             return (
-              <View key={m.id} style={styles.movRow}>
-                <View style={[styles.movIcon, { backgroundColor: isEntry ? Colors.successLight : Colors.dangerLight }]}>
-                  <Ionicons name={isEntry ? "arrow-down" : "arrow-up"} size={14} color={isEntry ? Colors.success : Colors.danger} />
+              <Pressable
+                key={m.id}
+                onPress={openMovement}
+                style={({ pressed }) => [styles.movRow, status === "reversed" && styles.movReversed, pressed && { opacity: 0.85 }]}
+              >
+                <View
+                  style={[
+                    styles.movIcon,
+                    { backgroundColor: isAdjustment ? Colors.warningLight : isIncoming ? Colors.successLight : Colors.dangerLight },
+                  ]}
+                >
+                  <Ionicons
+                    name={isAdjustment ? "options-outline" : isIncoming ? "arrow-down" : "arrow-up"}
+                    size={14}
+                    color={color}
+                  />
                 </View>
                 <View style={styles.movInfo}>
-                  <Text style={styles.movNote}>{m.note || (isEntry ? "Entrada" : "Saída")}</Text>
-                  <Text style={styles.movDate}>{dateStr}</Text>
+                  <Text style={styles.movNote}>
+                    {isAdjustment
+                      ? `Ajuste · ${m.reasonName ?? "Sem motivo"}${m.note ? ` · ${m.note}` : ""}`
+                      : m.note || (isIncoming ? "Entrada" : "Saída")}
+                  </Text>
+                  <Text style={styles.movDate}>
+                    {dateStr}
+                    {locations.length > 1 && m.locationId ? ` · ${locationName(m.locationId)}` : ""}
+                    {m.userName ? ` · ${m.userName}` : ""}
+                  </Text>
+                  <MovementStatusBadge status={status} />
                 </View>
-                <Text style={[styles.movQty, { color: isEntry ? Colors.success : Colors.danger }]}>
-                  {isEntry ? "+" : "-"}{m.quantity}
+                <Text style={[styles.movQty, { color }, status === "reversed" && styles.movQtyReversed]}>
+                  {isIncoming ? "+" : "-"}{Math.abs(m.quantity)}
                 </Text>
-              </View>
+              </Pressable>
             );
           })}
         </View>
       )}
 
+      {changes.length > 0 && (
+        <>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Histórico de Alterações</Text>
+          </View>
+          <View style={styles.changeList}>
+            {changes.map((entry) => (
+              <AuditEntryCard key={entry.id} entry={entry} categories={categories} showEntity={false} />
+            ))}
+          </View>
+        </>
+      )}
+
       <View style={styles.metaSection}>
-        <Text style={styles.metaText}>Criado em: {formatDate(created)}</Text>
-        <Text style={styles.metaText}>Atualizado em: {formatDate(updated)}</Text>
+        <Text style={styles.metaText}>
+          Criado em: {formatDate(created)}{product.createdByName ? ` por ${product.createdByName}` : ""}
+        </Text>
+        <Text style={styles.metaText}>
+          Atualizado em: {formatDate(updated)}{product.updatedByName ? ` por ${product.updatedByName}` : ""}
+        </Text>
       </View>
 
-      <Pressable
-        onPress={handleDelete}
-        style={({ pressed }) => [styles.deleteBtn, pressed && { opacity: 0.8 }]}
-      >
-        <Ionicons name="trash-outline" size={18} color={Colors.danger} />
-        <Text style={styles.deleteBtnText}>Excluir Produto</Text>
-      </Pressable>
+      {can("product:delete") && !isArchived && (
+        <Pressable
+          onPress={handleDelete}
+          style={({ pressed }) => [styles.deleteBtn, pressed && { opacity: 0.8 }]}
+        >
+          <Ionicons name="trash-outline" size={18} color={Colors.danger} />
+          <Text style={styles.deleteBtnText}>Mover para a Lixeira</Text>
+        </Pressable>
+      )}
 
       <View style={{ height: Platform.OS === "web" ? 34 : 40 }} />
+
+      <Modal
+        visible={!!editingLocation}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setEditingLocation(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Mínimo em {editingLocation?.name}</Text>
+              <Pressable onPress={() => setEditingLocation(null)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+            <TextInput
+              style={styles.modalInput}
+              placeholder="0"
+              placeholderTextColor={Colors.textTertiary}
+              value={minStockInput}
+              onChangeText={setMinStockInput}
+              keyboardType="number-pad"
+            />
+            <Text style={styles.modalHint}>Use 0 para não gerar alertas neste local.</Text>
+            <Pressable
+              onPress={handleSaveMinStock}
+              style={({ pressed }) => [styles.modalSaveBtn, pressed && { opacity: 0.8 }]}
+            >
+              <Ionicons name="checkmark" size={18} color={Colors.white} />
+              <Text style={styles.modalSaveText}>Salvar</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={!!selectedUnit}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setSelectedUnit(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{selectedUnit?.serial}</Text>
+              <Pressable onPress={() => setSelectedUnit(null)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+            {selectedUnit && can("product:write") && !isArchived && (
+              <View style={styles.unitActions}>
+                {UNIT_STATUS_TRANSITIONS[selectedUnit.status].map((status) => (
+                  <Pressable
+                    key={status}
+                    onPress={() => handleUnitStatus(selectedUnit, status)}
+                    style={({ pressed }) => [styles.unitActionBtn, pressed && { opacity: 0.8 }]}
+                  >
+                    <Text style={styles.unitActionText}>
+                      {status === "available"
+                        ? "Voltou da manutenção"
+                        : status === "in_repair"
+                          ? "Enviar para manutenção"
+                          : "Dar baixa"}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+            <ScrollView style={styles.unitHistory}>
+              {unitHistory.map((entry) => (
+                <AuditEntryCard key={entry.id} entry={entry} showEntity={false} />
+              ))}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={serializeVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setSerializeVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Números de Série</Text>
+              <Pressable onPress={() => setSerializeVisible(false)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+            <ScrollView style={styles.unitHistory}>
+              {balances
+                .filter((b) => b.quantity > 0)
+                .map((b) => (
+                  <View key={b.locationId} style={styles.serialField}>
+                    <Text style={styles.serialFieldLabel}>
+                      {locationName(b.locationId)} · {serialsFor(b.locationId).length}/{b.quantity}
+                    </Text>
+                    <TextInput
+                      style={[styles.modalInput, styles.serialInput]}
+                      placeholder="Um por linha"
+                      placeholderTextColor={Colors.textTertiary}
+                      value={serialInputs[b.locationId] ?? ""}
+                      onChangeText={(text) => setSerialInputs((current) => ({ ...current, [b.locationId]: text }))}
+                      autoCapitalize="characters"
+                      multiline
+                    />
+                  </View>
+                ))}
+            </ScrollView>
+            <Text style={styles.modalHint}>
+              Informe o número de cada unidade em estoque. Depois disso, entradas e saídas passam a pedir os números.
+            </Text>
+            <Pressable
+              onPress={handleSerialize}
+              style={({ pressed }) => [styles.modalSaveBtn, pressed && { opacity: 0.8 }]}
+            >
+              <Ionicons name="checkmark" size={18} color={Colors.white} />
+              <Text style={styles.modalSaveText}>Ativar</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
     </ScrollView>
   );
 }
@@ -251,6 +843,20 @@ const styles = StyleSheet.create({
     fontFamily: "Inter_600SemiBold",
     color: Colors.white,
   },
+  kindBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: Colors.surfaceElevated,
+  },
+  kindBadgeText: {
+    fontSize: 11,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+  },
   lowBadge: {
     flexDirection: "row",
     alignItems: "center",
@@ -337,6 +943,22 @@ const styles = StyleSheet.create({
     fontFamily: "Inter_700Bold",
     color: Colors.text,
   },
+  archivedBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  archivedText: {
+    fontSize: 14,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
   actionRow: {
     flexDirection: "row",
     gap: 10,
@@ -371,6 +993,21 @@ const styles = StyleSheet.create({
   sectionHeader: {
     marginBottom: 12,
   },
+  sectionHeaderRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  sectionLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  sectionLinkText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
   sectionTitle: {
     fontSize: 16,
     fontFamily: "Inter_600SemiBold",
@@ -402,6 +1039,9 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: Colors.borderLight,
   },
+  movReversed: {
+    opacity: 0.6,
+  },
   movIcon: {
     width: 28,
     height: 28,
@@ -428,6 +1068,67 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontFamily: "Inter_600SemiBold",
   },
+  movQtyReversed: {
+    textDecorationLine: "line-through",
+  },
+  unitStatusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  unitStatusText: {
+    fontSize: 11,
+    fontFamily: "Inter_600SemiBold",
+  },
+  serializeLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  unitActions: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 16,
+  },
+  unitActionBtn: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  unitActionText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  unitHistory: {
+    maxHeight: 360,
+  },
+  serialField: {
+    marginBottom: 12,
+  },
+  serialFieldLabel: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 6,
+  },
+  serialInput: {
+    minHeight: 80,
+    textAlignVertical: "top" as const,
+  },
+  totalRow: {
+    backgroundColor: Colors.surfaceElevated,
+    borderBottomWidth: 0,
+  },
+  changeList: {
+    marginBottom: 16,
+  },
   metaSection: {
     paddingVertical: 12,
     gap: 4,
@@ -453,6 +1154,61 @@ const styles = StyleSheet.create({
     fontFamily: "Inter_600SemiBold",
     color: Colors.danger,
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalCard: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  modalInput: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+  },
+  modalHint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 8,
+  },
+  modalSaveBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    marginTop: 20,
+  },
+  modalSaveText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
   emptyState: {
     flex: 1,
     alignItems: "center",
@@ -13,7 +13,10 @@ import { router, useFocusEffect } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
+import { PRODUCT_KIND_HINTS, PRODUCT_KIND_ICONS } from "@/constants/products";
 import { addProduct, getCategories, Category } from "@/lib/storage";
+import { PRODUCT_KINDS, PRODUCT_KIND_LABELS, ProductKind } from "@shared/products";
+import { parseDateInput } from "@/lib/dates";
 
 export default function AddProductScreen() {
   const [name, setName] = useState("");
@@ -22,6 +25,10 @@ export default function AddProductScreen() {
   const [minStock, setMinStock] = useState("");
   const [price, setPrice] = useState("");
   const [unit, setUnit] = useState("un");
+  const [kind, setKind] = useState<ProductKind>("consumable");
+  const [caNumber, setCaNumber] = useState("");
+  const [caExpiresAt, setCaExpiresAt] = useState("");
+  const [serialized, setSerialized] = useState(false);
   const [categories, setCategories] = useState<Category[]>([]);
   const [saving, setSaving] = useState(false);
 
@@ -42,10 +49,17 @@ export default function AddProductScreen() {
       Alert.alert("Erro", "Selecione uma categoria");
       return;
     }
-    const qty = parseInt(quantity) || 0;
+    // Produtos serializados começam zerados; as unidades entram com seus números.
+    const qty = serialized ? 0 : parseInt(quantity) || 0;
     const min = parseInt(minStock) || 0;
     const p = parseFloat(price.replace(",", ".")) || 0;
 
+    const caExpiry = caExpiresAt.trim() ? parseDateInput(caExpiresAt) : null;
+    if (caExpiresAt.trim() && !caExpiry) {
+      Alert.alert("Erro", "Informe a validade do CA no formato DD/MM/AAAA");
+      return;
+    }
+
     setSaving(true);
     try {
       await addProduct({
@@ -55,6 +69,10 @@ export default function AddProductScreen() {
         minStock: min,
         price: p,
         unit,
+        kind,
+        serialized,
+        caNumber: caNumber.trim() || null,
+        caExpiresAt: caExpiry?.toISOString() ?? null,
       });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       router.back();
@@ -94,18 +112,58 @@ export default function AddProductScreen() {
         ))}
       </View>
 
-      <View style={styles.row}>
-        <View style={styles.halfField}>
-          <Text style={styles.label}>Quantidade Inicial</Text>
-          <TextInput
-            style={styles.input}
-            placeholder="0"
-            placeholderTextColor={Colors.textTertiary}
-            value={quantity}
-            onChangeText={setQuantity}
-            keyboardType="numeric"
-          />
+      <Text style={styles.label}>Tipo</Text>
+      <View style={styles.kindRow}>
+        {PRODUCT_KINDS.map((k) => (
+          <Pressable
+            key={k}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setKind(k);
+            }}
+            style={[styles.kindChip, kind === k && styles.kindChipActive]}
+          >
+            <Ionicons name={PRODUCT_KIND_ICONS[k]} size={16} color={kind === k ? Colors.white : Colors.primary} />
+            <Text style={[styles.kindChipText, kind === k && { color: Colors.white }]}>{PRODUCT_KIND_LABELS[k]}</Text>
+          </Pressable>
+        ))}
+      </View>
+      <Text style={styles.kindHint}>{PRODUCT_KIND_HINTS[kind]}</Text>
+
+      <Pressable
+        onPress={() => {
+          Haptics.selectionAsync();
+          setSerialized((v) => !v);
+        }}
+        style={styles.toggleRow}
+      >
+        <Ionicons
+          name={serialized ? "checkbox" : "square-outline"}
+          size={22}
+          color={serialized ? Colors.primary : Colors.textTertiary}
+        />
+        <View style={{ flex: 1 }}>
+          <Text style={styles.toggleTitle}>Controlar por número de série</Text>
+          <Text style={styles.toggleHint}>
+            Cada unidade é cadastrada na entrada e escolhida pelo número na saída.
+          </Text>
         </View>
+      </Pressable>
+
+      <View style={styles.row}>
+        {!serialized && (
+          <View style={styles.halfField}>
+            <Text style={styles.label}>Quantidade Inicial</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0"
+              placeholderTextColor={Colors.textTertiary}
+              value={quantity}
+              onChangeText={setQuantity}
+              keyboardType="numeric"
+            />
+          </View>
+        )}
         <View style={styles.halfField}>
           <Text style={styles.label}>Estoque Mínimo</Text>
           <TextInput
@@ -150,6 +208,31 @@ export default function AddProductScreen() {
         </View>
       </View>
 
+      <View style={styles.row}>
+        <View style={styles.halfField}>
+          <Text style={styles.label}>Nº do CA (EPI)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Opcional"
+            placeholderTextColor={Colors.textTertiary}
+            value={caNumber}
+            onChangeText={setCaNumber}
+            keyboardType="number-pad"
+          />
+        </View>
+        <View style={styles.halfField}>
+          <Text style={styles.label}>Validade do CA</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="DD/MM/AAAA"
+            placeholderTextColor={Colors.textTertiary}
+            value={caExpiresAt}
+            onChangeText={setCaExpiresAt}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      </View>
+
       <Pressable
         onPress={handleSave}
         disabled={saving}
@@ -219,6 +302,60 @@ const styles = StyleSheet.create({
     fontFamily: "Inter_500Medium",
     color: Colors.text,
   },
+  kindRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  kindChip: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  kindChipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  kindChipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  kindHint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 8,
+    marginBottom: 20,
+  },
+  toggleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 14,
+    marginBottom: 20,
+  },
+  toggleTitle: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  toggleHint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
   row: {
     flexDirection: "row",
     gap: 12,
@@ -13,15 +13,24 @@ import { router, useLocalSearchParams, useFocusEffect } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
+import { useAuth } from "@/components/AuthProvider";
+import { PRODUCT_KIND_HINTS, PRODUCT_KIND_ICONS } from "@/constants/products";
 import { getProduct, getCategories, updateProduct, Category } from "@/lib/storage";
+import { PRODUCT_KINDS, PRODUCT_KIND_LABELS, ProductKind } from "@shared/products";
+import { formatDateInput, parseDateInput } from "@/lib/dates";
 
 export default function EditProductScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
+  const { can } = useAuth();
+  const canEditPrice = can("product:price");
   const [name, setName] = useState("");
   const [categoryId, setCategoryId] = useState("");
   const [minStock, setMinStock] = useState("");
   const [price, setPrice] = useState("");
   const [unit, setUnit] = useState("un");
+  const [kind, setKind] = useState<ProductKind>("consumable");
+  const [caNumber, setCaNumber] = useState("");
+  const [caExpiresAt, setCaExpiresAt] = useState("");
   const [categories, setCategories] = useState<Category[]>([]);
   const [saving, setSaving] = useState(false);
   const [loaded, setLoaded] = useState(false);
@@ -38,6 +47,9 @@ export default function EditProductScreen() {
         setMinStock(p.minStock.toString());
         setPrice(p.price.toFixed(2).replace(".", ","));
         setUnit(p.unit);
+        setKind(p.kind);
+        setCaNumber(p.caNumber ?? "");
+        setCaExpiresAt(p.caExpiresAt ? formatDateInput(p.caExpiresAt) : "");
         setCategories(cats);
         setLoaded(true);
       });
@@ -56,14 +68,23 @@ export default function EditProductScreen() {
     const min = parseInt(minStock) || 0;
     const p = parseFloat(price.replace(",", ".")) || 0;
 
+    const caExpiry = caExpiresAt.trim() ? parseDateInput(caExpiresAt) : null;
+    if (caExpiresAt.trim() && !caExpiry) {
+      Alert.alert("Erro", "Informe a validade do CA no formato DD/MM/AAAA");
+      return;
+    }
+
     setSaving(true);
     try {
       await updateProduct(id!, {
         name: name.trim(),
         categoryId,
         minStock: min,
-        price: p,
+        ...(canEditPrice ? { price: p } : {}),
         unit,
+        kind,
+        caNumber: caNumber.trim() || null,
+        caExpiresAt: caExpiry?.toISOString() ?? null,
       });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       router.back();
@@ -104,6 +125,24 @@ export default function EditProductScreen() {
         ))}
       </View>
 
+      <Text style={styles.label}>Tipo</Text>
+      <View style={styles.kindRow}>
+        {PRODUCT_KINDS.map((k) => (
+          <Pressable
+            key={k}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setKind(k);
+            }}
+            style={[styles.kindChip, kind === k && styles.kindChipActive]}
+          >
+            <Ionicons name={PRODUCT_KIND_ICONS[k]} size={16} color={kind === k ? Colors.white : Colors.primary} />
+            <Text style={[styles.kindChipText, kind === k && { color: Colors.white }]}>{PRODUCT_KIND_LABELS[k]}</Text>
+          </Pressable>
+        ))}
+      </View>
+      <Text style={styles.kindHint}>{PRODUCT_KIND_HINTS[kind]}</Text>
+
       <View style={styles.row}>
         <View style={styles.halfField}>
           <Text style={styles.label}>Estoque Mínimo</Text>
@@ -119,12 +158,13 @@ export default function EditProductScreen() {
         <View style={styles.halfField}>
           <Text style={styles.label}>Preço Unitário (R$)</Text>
           <TextInput
-            style={styles.input}
+            style={[styles.input, !canEditPrice && styles.inputDisabled]}
             placeholder="0,00"
             placeholderTextColor={Colors.textTertiary}
             value={price}
             onChangeText={setPrice}
             keyboardType="decimal-pad"
+            editable={canEditPrice}
           />
         </View>
       </View>
@@ -145,6 +185,31 @@ export default function EditProductScreen() {
         ))}
       </View>
 
+      <View style={styles.row}>
+        <View style={styles.halfField}>
+          <Text style={styles.label}>Nº do CA (EPI)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Opcional"
+            placeholderTextColor={Colors.textTertiary}
+            value={caNumber}
+            onChangeText={setCaNumber}
+            keyboardType="number-pad"
+          />
+        </View>
+        <View style={styles.halfField}>
+          <Text style={styles.label}>Validade do CA</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="DD/MM/AAAA"
+            placeholderTextColor={Colors.textTertiary}
+            value={caExpiresAt}
+            onChangeText={setCaExpiresAt}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      </View>
+
       <Pressable
         onPress={handleSave}
         disabled={saving}
@@ -187,6 +252,10 @@ const styles = StyleSheet.create({
     color: Colors.text,
     marginBottom: 20,
   },
+  inputDisabled: {
+    backgroundColor: Colors.surfaceElevated,
+    color: Colors.textTertiary,
+  },
   catGrid: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -214,6 +283,38 @@ const styles = StyleSheet.create({
     fontFamily: "Inter_500Medium",
     color: Colors.text,
   },
+  kindRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  kindChip: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  kindChipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  kindChipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  kindHint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 8,
+    marginBottom: 20,
+  },
   row: {
     flexDirection: "row",
     gap: 12,
@@ -0,0 +1,636 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  ScrollView,
+  Alert,
+  Platform,
+  Modal,
+} from "react-native";
+import { router, useLocalSearchParams, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { PURCHASE_ORDER_STATUS_COLORS } from "@/constants/purchases";
+import { useAuth } from "@/components/AuthProvider";
+import { formatDateInput, parseDateInput } from "@/lib/dates";
+import {
+  getPurchaseOrder,
+  getLocations,
+  setPurchaseOrderStatus,
+  receivePurchaseOrder,
+  pendingQuantity,
+  PurchaseOrder,
+  Location,
+} from "@/lib/storage";
+import { PURCHASE_ORDER_STATUS_LABELS, isPurchaseOrderOpen } from "@shared/purchases";
+
+type ReceiptDraft = { quantity: string; serials: string; lotNumber: string; expiresAt: string };
+
+function formatPrice(value: number): string {
+  return `R$ ${value.toFixed(2).replace(".", ",")}`;
+}
+
+function splitSerials(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export default function PurchaseOrderDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { can } = useAuth();
+  const canManage = can("purchase:manage");
+  const canReceive = can("movement:entry");
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [receiving, setReceiving] = useState(false);
+  const [selectedLocation, setSelectedLocation] = useState("");
+  const [receipt, setReceipt] = useState<Record<string, ReceiptDraft>>({});
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    const [o, l] = await Promise.all([getPurchaseOrder(id), getLocations()]);
+    setOrder(o);
+    setLocations(l);
+    setSelectedLocation((current) => current || (l.find((loc) => loc.isDefault) ?? l[0])?.id || "");
+  }, [id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  if (!order) return <View style={styles.container} />;
+
+  const statusColor = PURCHASE_ORDER_STATUS_COLORS[order.status];
+  const total = order.lines.reduce((sum, line) => sum + line.quantity * Number(line.unitCost), 0);
+  const open = isPurchaseOrderOpen(order.status);
+
+  const changeStatus = (status: "sent" | "cancelled") => {
+    const [title, message, action] =
+      status === "sent"
+        ? ["Enviar Pedido", "Depois de enviado, o pedido não pode mais ser editado.", "Enviar"]
+        : [
+            "Cancelar Pedido",
+            order.status === "partially_received"
+              ? "O que já foi recebido continua no estoque; o restante deixa de ser esperado."
+              : "O pedido deixa de ser esperado.",
+            "Cancelar Pedido",
+          ];
+    Alert.alert(title, message, [
+      { text: "Voltar", style: "cancel" },
+      {
+        text: action,
+        style: status === "cancelled" ? "destructive" : "default",
+        onPress: async () => {
+          try {
+            setOrder(await setPurchaseOrderStatus(order.id, status));
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          } catch (e: any) {
+            Alert.alert("Erro", e.message || "Falha ao atualizar pedido");
+          }
+        },
+      },
+    ]);
+  };
+
+  const openReceive = () => {
+    setReceipt(
+      Object.fromEntries(
+        order.lines
+          .filter((line) => pendingQuantity(line) > 0)
+          .map((line) => [
+            line.id,
+            { quantity: String(pendingQuantity(line)), serials: "", lotNumber: "", expiresAt: "" },
+          ])
+      )
+    );
+    setNote("");
+    setReceiving(true);
+  };
+
+  const updateReceipt = (lineId: string, data: Partial<ReceiptDraft>) => {
+    setReceipt((current) => ({ ...current, [lineId]: { ...current[lineId], ...data } }));
+  };
+
+  const handleReceive = async () => {
+    const lines = [];
+    for (const line of order.lines) {
+      const draft = receipt[line.id];
+      if (!draft) continue;
+      // Em produtos serializados, a quantidade é o número de séries informadas.
+      const serials = line.serialized ? splitSerials(draft.serials) : undefined;
+      const quantity = serials ? serials.length : draft.quantity.trim() ? parseInt(draft.quantity) : 0;
+      if (isNaN(quantity) || quantity < 0) {
+        Alert.alert("Erro", `Quantidade inválida para ${line.productName}`);
+        return;
+      }
+      if (quantity > pendingQuantity(line)) {
+        Alert.alert("Erro", `${line.productName}: faltam receber só ${pendingQuantity(line)} ${line.productUnit}`);
+        return;
+      }
+      const expiry = draft.expiresAt.trim() ? parseDateInput(draft.expiresAt) : null;
+      if (draft.expiresAt.trim() && !expiry) {
+        Alert.alert("Erro", `Informe a validade de ${line.productName} no formato DD/MM/AAAA`);
+        return;
+      }
+      if (quantity > 0) {
+        lines.push({
+          lineId: line.id,
+          quantity,
+          lotNumber: draft.lotNumber.trim() || null,
+          expiresAt: expiry,
+          ...(serials ? { serials } : {}),
+        });
+      }
+    }
+    if (lines.length === 0) {
+      Alert.alert("Erro", "Informe a quantidade recebida de ao menos um item");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      setOrder(
+        await receivePurchaseOrder(order.id, {
+          locationId: selectedLocation || undefined,
+          note: note.trim() || null,
+          lines,
+        })
+      );
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setReceiving(false);
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao registrar recebimento");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.headerCard}>
+          <View style={styles.headerTop}>
+            <Text style={styles.orderNumber}>Pedido {order.number}</Text>
+            <View style={[styles.statusBadge, { backgroundColor: statusColor.bg }]}>
+              <Text style={[styles.statusText, { color: statusColor.color }]}>
+                {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+              </Text>
+            </View>
+          </View>
+          <View style={styles.supplierRow}>
+            <Ionicons name="business-outline" size={14} color={Colors.textSecondary} />
+            <Text style={styles.supplierName}>{order.supplierName}</Text>
+          </View>
+          <Text style={styles.metaText}>
+            Criado em {formatDateInput(order.createdAt)}
+            {order.sentAt ? ` · Enviado em ${formatDateInput(order.sentAt)}` : ""}
+            {order.expectedAt && !order.closedAt ? ` · Previsto para ${formatDateInput(order.expectedAt)}` : ""}
+            {order.closedAt ? ` · Encerrado em ${formatDateInput(order.closedAt)}` : ""}
+          </Text>
+          {order.note ? <Text style={styles.noteText}>{order.note}</Text> : null}
+        </View>
+
+        <Text style={styles.sectionTitle}>Itens</Text>
+        <View style={styles.list}>
+          {order.lines.map((line) => {
+            const pending = pendingQuantity(line);
+            return (
+              <View key={line.id} style={styles.lineRow}>
+                <View style={styles.lineInfo}>
+                  <Text style={styles.lineName} numberOfLines={1}>{line.productName}</Text>
+                  <Text style={styles.lineMeta}>
+                    {line.quantity} {line.productUnit} × {formatPrice(Number(line.unitCost))}
+                  </Text>
+                </View>
+                <View style={styles.lineProgress}>
+                  <Text style={[styles.lineReceived, pending === 0 && { color: Colors.success }]}>
+                    {line.receivedQuantity}/{line.quantity}
+                  </Text>
+                  <Text style={styles.linePending}>
+                    {pending === 0
+                      ? "Recebido"
+                      : order.status === "cancelled"
+                        ? `${pending} não entregue`
+                        : `Faltam ${pending}`}
+                  </Text>
+                </View>
+              </View>
+            );
+          })}
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Total</Text>
+            <Text style={styles.totalValue}>{formatPrice(total)}</Text>
+          </View>
+        </View>
+
+        {order.status === "draft" && canManage && (
+          <>
+            <Pressable
+              onPress={() => changeStatus("sent")}
+              style={({ pressed }) => [styles.primaryBtn, pressed && { opacity: 0.9 }]}
+            >
+              <Ionicons name="paper-plane-outline" size={18} color={Colors.white} />
+              <Text style={styles.primaryBtnText}>Enviar ao Fornecedor</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => router.push({ pathname: "/purchase/add", params: { id: order.id } })}
+              style={({ pressed }) => [styles.secondaryBtn, pressed && { opacity: 0.8 }]}
+            >
+              <Ionicons name="create-outline" size={18} color={Colors.primary} />
+              <Text style={styles.secondaryBtnText}>Editar Rascunho</Text>
+            </Pressable>
+          </>
+        )}
+
+        {open && canReceive && (
+          <Pressable onPress={openReceive} style={({ pressed }) => [styles.primaryBtn, pressed && { opacity: 0.9 }]}>
+            <Ionicons name="download-outline" size={18} color={Colors.white} />
+            <Text style={styles.primaryBtnText}>Receber Entrega</Text>
+          </Pressable>
+        )}
+
+        {(order.status === "draft" || open) && canManage && (
+          <Pressable
+            onPress={() => changeStatus("cancelled")}
+            style={({ pressed }) => [styles.dangerBtn, pressed && { opacity: 0.8 }]}
+          >
+            <Ionicons name="close-circle-outline" size={18} color={Colors.danger} />
+            <Text style={styles.dangerBtnText}>Cancelar Pedido</Text>
+          </Pressable>
+        )}
+
+        <View style={{ height: Platform.OS === "web" ? 34 : 40 }} />
+      </ScrollView>
+
+      <Modal visible={receiving} animationType="slide" transparent onRequestClose={() => setReceiving(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Receber Entrega</Text>
+              <Pressable onPress={() => setReceiving(false)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+            <ScrollView style={styles.modalScroll} keyboardShouldPersistTaps="handled">
+              {locations.length > 1 && (
+                <>
+                  <Text style={styles.fieldLabel}>Receber em</Text>
+                  <View style={styles.chipRow}>
+                    {locations.map((loc) => (
+                      <Pressable
+                        key={loc.id}
+                        onPress={() => {
+                          Haptics.selectionAsync();
+                          setSelectedLocation(loc.id);
+                        }}
+                        style={[styles.chip, selectedLocation === loc.id && styles.chipActive]}
+                      >
+                        <Text style={[styles.chipText, selectedLocation === loc.id && { color: Colors.white }]}>
+                          {loc.name}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                </>
+              )}
+
+              {order.lines
+                .filter((line) => receipt[line.id])
+                .map((line) => {
+                  const draft = receipt[line.id];
+                  return (
+                    <View key={line.id} style={styles.receiptLine}>
+                      <Text style={styles.lineName}>{line.productName}</Text>
+                      <Text style={styles.lineMeta}>
+                        Faltam {pendingQuantity(line)} {line.productUnit}
+                      </Text>
+                      {line.serialized ? (
+                        <TextInput
+                          style={[styles.modalInput, styles.textArea]}
+                          placeholder={`Números de série recebidos (${splitSerials(draft.serials).length}), um por linha`}
+                          placeholderTextColor={Colors.textTertiary}
+                          value={draft.serials}
+                          onChangeText={(v) => updateReceipt(line.id, { serials: v })}
+                          autoCapitalize="characters"
+                          multiline
+                        />
+                      ) : (
+                        <TextInput
+                          style={styles.modalInput}
+                          placeholder="Quantidade recebida"
+                          placeholderTextColor={Colors.textTertiary}
+                          value={draft.quantity}
+                          onChangeText={(v) => updateReceipt(line.id, { quantity: v })}
+                          keyboardType="number-pad"
+                        />
+                      )}
+                      <View style={styles.row}>
+                        <TextInput
+                          style={[styles.modalInput, styles.halfField]}
+                          placeholder="Lote (opcional)"
+                          placeholderTextColor={Colors.textTertiary}
+                          value={draft.lotNumber}
+                          onChangeText={(v) => updateReceipt(line.id, { lotNumber: v })}
+                          autoCapitalize="characters"
+                        />
+                        <TextInput
+                          style={[styles.modalInput, styles.halfField]}
+                          placeholder="Validade DD/MM/AAAA"
+                          placeholderTextColor={Colors.textTertiary}
+                          value={draft.expiresAt}
+                          onChangeText={(v) => updateReceipt(line.id, { expiresAt: v })}
+                          keyboardType="numbers-and-punctuation"
+                        />
+                      </View>
+                    </View>
+                  );
+                })}
+
+              <TextInput
+                style={styles.modalInput}
+                placeholder="Observação (opcional, ex: NF 12345)"
+                placeholderTextColor={Colors.textTertiary}
+                value={note}
+                onChangeText={setNote}
+              />
+            </ScrollView>
+            <Pressable
+              onPress={handleReceive}
+              disabled={saving}
+              style={({ pressed }) => [styles.primaryBtn, pressed && { opacity: 0.9 }, saving && { opacity: 0.6 }]}
+            >
+              <Ionicons name="checkmark" size={18} color={Colors.white} />
+              <Text style={styles.primaryBtnText}>{saving ? "Salvando..." : "Confirmar Recebimento"}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  headerCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    marginBottom: 20,
+  },
+  headerTop: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  orderNumber: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  statusText: {
+    fontSize: 12,
+    fontFamily: "Inter_600SemiBold",
+  },
+  supplierRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 6,
+  },
+  supplierName: {
+    fontSize: 14,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  metaText: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 8,
+  },
+  noteText: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  list: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    overflow: "hidden",
+    marginBottom: 20,
+  },
+  lineRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  lineInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  lineName: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  lineMeta: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  lineProgress: {
+    alignItems: "flex-end",
+  },
+  lineReceived: {
+    fontSize: 16,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  linePending: {
+    fontSize: 11,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  totalRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  totalLabel: {
+    fontSize: 14,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  totalValue: {
+    fontSize: 16,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  primaryBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    marginTop: 12,
+  },
+  primaryBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+  secondaryBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#E0F2F1",
+    marginTop: 12,
+  },
+  secondaryBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+  dangerBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.dangerLight,
+    marginTop: 12,
+  },
+  dangerBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.danger,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalCard: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  modalScroll: {
+    maxHeight: 460,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 6,
+    textTransform: "uppercase" as const,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  receiptLine: {
+    paddingBottom: 8,
+    marginBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  halfField: {
+    flex: 1,
+  },
+  modalInput: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginTop: 8,
+  },
+  textArea: {
+    minHeight: 72,
+    textAlignVertical: "top" as const,
+  },
+});
@@ -0,0 +1,481 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  ScrollView,
+  Alert,
+  Platform,
+} from "react-native";
+import { router, useLocalSearchParams, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { formatDateInput, parseDateInput } from "@/lib/dates";
+import {
+  getProducts,
+  getSuppliers,
+  getProductSuppliers,
+  getPurchaseOrder,
+  addPurchaseOrder,
+  updatePurchaseOrder,
+  Product,
+  Supplier,
+} from "@/lib/storage";
+
+type DraftLine = { productId: string; quantity: string; unitCost: string };
+
+function formatCost(value: string | number): string {
+  return Number(value).toFixed(2).replace(".", ",");
+}
+
+/** Cria um pedido em rascunho ou edita um rascunho existente (`id`). */
+export default function AddPurchaseOrderScreen() {
+  const params = useLocalSearchParams<{ id?: string; productId?: string; supplierId?: string }>();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [selectedSupplier, setSelectedSupplier] = useState<string>(params.supplierId ?? "");
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [expectedAt, setExpectedAt] = useState("");
+  const [note, setNote] = useState("");
+  const [searchText, setSearchText] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+
+  const addLine = useCallback(async (productId: string, supplierId: string) => {
+    setLines((current) =>
+      current.some((l) => l.productId === productId) ? current : [...current, { productId, quantity: "1", unitCost: "" }]
+    );
+    // Sugere o último preço pago a este fornecedor.
+    const link = supplierId ? (await getProductSuppliers(productId)).find((l) => l.supplierId === supplierId) : undefined;
+    if (link?.lastPrice) {
+      setLines((current) =>
+        current.map((l) => (l.productId === productId && !l.unitCost ? { ...l, unitCost: formatCost(link.lastPrice!) } : l))
+      );
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      (async () => {
+        const [p, s] = await Promise.all([getProducts(), getSuppliers()]);
+        setProducts(p.sort((a, b) => a.name.localeCompare(b.name)));
+        setSuppliers(s);
+        if (loaded) return;
+        setLoaded(true);
+        if (params.id) {
+          const order = await getPurchaseOrder(params.id);
+          setSelectedSupplier(order.supplierId);
+          setExpectedAt(order.expectedAt ? formatDateInput(order.expectedAt) : "");
+          setNote(order.note ?? "");
+          setLines(
+            order.lines.map((l) => ({ productId: l.productId, quantity: String(l.quantity), unitCost: formatCost(l.unitCost) }))
+          );
+        } else if (params.productId) {
+          addLine(params.productId, params.supplierId ?? "");
+        }
+      })();
+    }, [loaded, params.id, params.productId, params.supplierId, addLine])
+  );
+
+  const updateLine = (productId: string, data: Partial<DraftLine>) => {
+    setLines((current) => current.map((l) => (l.productId === productId ? { ...l, ...data } : l)));
+  };
+
+  const removeLine = (productId: string) => {
+    Haptics.selectionAsync();
+    setLines((current) => current.filter((l) => l.productId !== productId));
+  };
+
+  const total = lines.reduce(
+    (sum, l) => sum + (parseInt(l.quantity) || 0) * (parseFloat(l.unitCost.replace(",", ".")) || 0),
+    0
+  );
+
+  const handleSave = async () => {
+    if (!selectedSupplier) {
+      Alert.alert("Erro", "Selecione o fornecedor");
+      return;
+    }
+    if (lines.length === 0) {
+      Alert.alert("Erro", "Inclua ao menos um item no pedido");
+      return;
+    }
+    const parsed = lines.map((l) => ({
+      productId: l.productId,
+      quantity: parseInt(l.quantity),
+      unitCost: l.unitCost.trim() ? parseFloat(l.unitCost.replace(",", ".")) : 0,
+    }));
+    const invalid = parsed.find((l) => !l.quantity || l.quantity <= 0 || isNaN(l.unitCost) || l.unitCost < 0);
+    if (invalid) {
+      Alert.alert("Erro", `Revise quantidade e custo de ${products.find((p) => p.id === invalid.productId)?.name}`);
+      return;
+    }
+    const expected = expectedAt.trim() ? parseDateInput(expectedAt) : null;
+    if (expectedAt.trim() && !expected) {
+      Alert.alert("Erro", "Informe a entrega prevista no formato DD/MM/AAAA");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const data = { supplierId: selectedSupplier, expectedAt: expected, note: note.trim() || null, lines: parsed };
+      if (params.id) {
+        await updatePurchaseOrder(params.id, data);
+      } else {
+        await addPurchaseOrder(data);
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.back();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao salvar pedido");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const filteredProducts = (
+    searchText ? products.filter((p) => p.name.toLowerCase().includes(searchText.toLowerCase())) : products
+  ).filter((p) => !lines.some((l) => l.productId === p.id));
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardDismissMode="on-drag">
+      <Text style={styles.label}>Fornecedor</Text>
+      {suppliers.length === 0 ? (
+        <Text style={styles.hint}>Cadastre fornecedores na tela Fornecedores</Text>
+      ) : (
+        <View style={styles.chipRow}>
+          {suppliers.map((s) => (
+            <Pressable
+              key={s.id}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setSelectedSupplier(s.id);
+              }}
+              style={[styles.chip, selectedSupplier === s.id && styles.chipActive]}
+            >
+              <Ionicons
+                name="business-outline"
+                size={13}
+                color={selectedSupplier === s.id ? Colors.white : Colors.textSecondary}
+              />
+              <Text style={[styles.chipText, selectedSupplier === s.id && { color: Colors.white }]}>{s.name}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      <Text style={styles.label}>Itens ({lines.length})</Text>
+      {lines.map((line) => {
+        const product = products.find((p) => p.id === line.productId);
+        return (
+          <View key={line.productId} style={styles.lineCard}>
+            <View style={styles.lineHeader}>
+              <Text style={styles.lineName} numberOfLines={1}>{product?.name ?? "Produto"}</Text>
+              <Pressable onPress={() => removeLine(line.productId)} hitSlop={8}>
+                <Ionicons name="close-circle" size={20} color={Colors.textTertiary} />
+              </Pressable>
+            </View>
+            <View style={styles.row}>
+              <View style={styles.halfField}>
+                <Text style={styles.fieldLabel}>Quantidade ({product?.unit ?? "un"})</Text>
+                <TextInput
+                  style={styles.lineInput}
+                  placeholder="1"
+                  placeholderTextColor={Colors.textTertiary}
+                  value={line.quantity}
+                  onChangeText={(v) => updateLine(line.productId, { quantity: v })}
+                  keyboardType="numeric"
+                />
+              </View>
+              <View style={styles.halfField}>
+                <Text style={styles.fieldLabel}>Custo unitário (R$)</Text>
+                <TextInput
+                  style={styles.lineInput}
+                  placeholder="0,00"
+                  placeholderTextColor={Colors.textTertiary}
+                  value={line.unitCost}
+                  onChangeText={(v) => updateLine(line.productId, { unitCost: v })}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            </View>
+          </View>
+        );
+      })}
+
+      <View style={styles.searchWrap}>
+        <Ionicons name="search" size={16} color={Colors.textTertiary} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Adicionar produto..."
+          placeholderTextColor={Colors.textTertiary}
+          value={searchText}
+          onChangeText={setSearchText}
+        />
+      </View>
+      {searchText ? (
+        <View style={styles.productList}>
+          {filteredProducts.length === 0 ? (
+            <Text style={styles.noProducts}>Nenhum produto encontrado</Text>
+          ) : (
+            filteredProducts.slice(0, 8).map((p) => (
+              <Pressable
+                key={p.id}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  addLine(p.id, selectedSupplier);
+                  setSearchText("");
+                }}
+                style={({ pressed }) => [styles.productItem, pressed && { backgroundColor: Colors.surfaceElevated }]}
+              >
+                <Text style={styles.productItemName} numberOfLines={1}>{p.name}</Text>
+                <Text style={styles.productItemQty}>{p.quantity} {p.unit}</Text>
+              </Pressable>
+            ))
+          )}
+        </View>
+      ) : (
+        <View style={{ height: 12 }} />
+      )}
+
+      <View style={styles.totalRow}>
+        <Text style={styles.totalLabel}>Total do pedido</Text>
+        <Text style={styles.totalValue}>R$ {formatCost(total)}</Text>
+      </View>
+
+      <Text style={styles.label}>Entrega prevista (opcional)</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="DD/MM/AAAA"
+        placeholderTextColor={Colors.textTertiary}
+        value={expectedAt}
+        onChangeText={setExpectedAt}
+        keyboardType="numbers-and-punctuation"
+      />
+
+      <Text style={styles.label}>Observação (opcional)</Text>
+      <TextInput
+        style={[styles.input, styles.textArea]}
+        placeholder="Ex: Cotação 4471, frete por conta do fornecedor"
+        placeholderTextColor={Colors.textTertiary}
+        value={note}
+        onChangeText={setNote}
+        multiline
+        numberOfLines={3}
+      />
+
+      <Pressable
+        onPress={handleSave}
+        disabled={saving}
+        style={({ pressed }) => [styles.saveBtn, pressed && { opacity: 0.9 }, saving && { opacity: 0.6 }]}
+      >
+        <Ionicons name="document-text-outline" size={20} color={Colors.white} />
+        <Text style={styles.saveBtnText}>{saving ? "Salvando..." : "Salvar Rascunho"}</Text>
+      </Pressable>
+
+      <View style={{ height: Platform.OS === "web" ? 34 : 40 }} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 8,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+  },
+  hint: {
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginBottom: 20,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  lineCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 14,
+    marginBottom: 10,
+  },
+  lineHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 10,
+  },
+  lineName: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+    flex: 1,
+    marginRight: 8,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  halfField: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 11,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textTertiary,
+    marginBottom: 4,
+  },
+  lineInput: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+  },
+  searchWrap: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: Colors.surface,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 12,
+    height: 42,
+    gap: 8,
+    marginBottom: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+  },
+  productList: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 20,
+    overflow: "hidden",
+  },
+  productItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  productItemName: {
+    fontSize: 14,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+    flex: 1,
+    marginRight: 8,
+  },
+  productItemQty: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+  },
+  noProducts: {
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    textAlign: "center",
+    paddingVertical: 20,
+  },
+  totalRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 12,
+    marginBottom: 16,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  totalLabel: {
+    fontSize: 14,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  totalValue: {
+    fontSize: 18,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginBottom: 20,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: "top" as const,
+  },
+  saveBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderRadius: 14,
+    paddingVertical: 16,
+    marginTop: 8,
+    backgroundColor: Colors.primary,
+  },
+  saveBtnText: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+});
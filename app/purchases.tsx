@@ -0,0 +1,314 @@
+import React, { useCallback, useState } from "react";
+import { StyleSheet, Text, View, FlatList, Pressable, RefreshControl, Platform } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router, useFocusEffect } from "expo-router";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { PURCHASE_ORDER_STATUS_COLORS } from "@/constants/purchases";
+import { useAuth } from "@/components/AuthProvider";
+import { formatDateInput } from "@/lib/dates";
+import { getPurchaseOrders, pendingQuantity, PurchaseOrder } from "@/lib/storage";
+import { PURCHASE_ORDER_STATUS_LABELS } from "@shared/purchases";
+
+type StatusFilter = "open" | "all";
+
+function orderTotal(order: PurchaseOrder): number {
+  return order.lines.reduce((sum, line) => sum + line.quantity * Number(line.unitCost), 0);
+}
+
+function formatPrice(value: number): string {
+  return `R$ ${value.toFixed(2).replace(".", ",")}`;
+}
+
+function PurchaseOrderCard({ order }: { order: PurchaseOrder }) {
+  const pendingLines = order.lines.filter((line) => pendingQuantity(line) > 0);
+  const statusColor = PURCHASE_ORDER_STATUS_COLORS[order.status];
+
+  return (
+    <Pressable
+      onPress={() => router.push({ pathname: "/purchase/[id]", params: { id: order.id } })}
+      style={({ pressed }) => [styles.card, pressed && { opacity: 0.85 }]}
+    >
+      <View style={styles.cardTop}>
+        <View style={styles.cardInfo}>
+          <Text style={styles.orderNumber}>Pedido {order.number}</Text>
+          <View style={styles.supplierRow}>
+            <Ionicons name="business-outline" size={13} color={Colors.textSecondary} />
+            <Text style={styles.supplierName} numberOfLines={1}>{order.supplierName}</Text>
+          </View>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: statusColor.bg }]}>
+          <Text style={[styles.statusText, { color: statusColor.color }]}>
+            {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+          </Text>
+        </View>
+      </View>
+
+      {order.status !== "received" && order.status !== "cancelled" && pendingLines.length > 0 && (
+        <Text style={styles.pendingText} numberOfLines={2}>
+          Falta entregar:{" "}
+          {pendingLines.map((line) => `${pendingQuantity(line)} ${line.productUnit} ${line.productName}`).join(" · ")}
+        </Text>
+      )}
+
+      <View style={styles.cardMeta}>
+        <Text style={styles.metaText}>
+          {order.lines.length} {order.lines.length === 1 ? "item" : "itens"} · {formatPrice(orderTotal(order))}
+        </Text>
+        <Text style={styles.metaText}>
+          {order.closedAt
+            ? `Encerrado em ${formatDateInput(order.closedAt)}`
+            : order.expectedAt
+              ? `Previsto para ${formatDateInput(order.expectedAt)}`
+              : `Criado em ${formatDateInput(order.createdAt)}`}
+        </Text>
+      </View>
+    </Pressable>
+  );
+}
+
+export default function PurchasesScreen() {
+  const { can } = useAuth();
+  const canManage = can("purchase:manage");
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [status, setStatus] = useState<StatusFilter>("open");
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadData = useCallback(async () => {
+    setOrders(await getPurchaseOrders(status));
+  }, [status]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filters}>
+        {(["open", "all"] as const).map((s) => (
+          <Pressable
+            key={s}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setStatus(s);
+            }}
+            style={[styles.chip, status === s && styles.chipActive]}
+          >
+            <Text style={[styles.chipText, status === s && styles.chipTextActive]}>
+              {s === "open" ? "Em aberto" : "Todos"}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <FlatList
+        data={orders}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => <PurchaseOrderCard order={item} />}
+        contentContainerStyle={styles.listContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          canManage ? (
+            <>
+              <Pressable
+                onPress={() => router.push("/purchase/add")}
+                style={({ pressed }) => [styles.addRow, pressed && { opacity: 0.8 }]}
+              >
+                <View style={styles.addIconWrap}>
+                  <Ionicons name="add" size={22} color={Colors.white} />
+                </View>
+                <Text style={styles.addText}>Novo Pedido</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => router.push("/reorder")}
+                style={({ pressed }) => [styles.suggestRow, pressed && { opacity: 0.8 }]}
+              >
+                <Ionicons name="bulb-outline" size={18} color={Colors.accentDark} />
+                <Text style={styles.suggestText}>Sugestões de Compra</Text>
+                <Ionicons name="chevron-forward" size={16} color={Colors.textTertiary} />
+              </Pressable>
+            </>
+          ) : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="receipt-outline" size={48} color={Colors.textTertiary} />
+            <Text style={styles.emptyTitle}>Nenhum pedido de compra</Text>
+            <Text style={styles.emptyText}>
+              {status === "open" ? "Nada esperando entrega" : "Crie um pedido para acompanhar as entregas"}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  filters: {
+    flexDirection: "row",
+    gap: 8,
+    backgroundColor: Colors.surface,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 20,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderStyle: "dashed" as const,
+  },
+  addIconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: Colors.primary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  addText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+  suggestRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: Colors.warningLight,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  suggestText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.accentDark,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  cardTop: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  orderNumber: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  supplierRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 3,
+  },
+  supplierName: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+    flexShrink: 1,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  statusText: {
+    fontSize: 11,
+    fontFamily: "Inter_600SemiBold",
+  },
+  pendingText: {
+    fontSize: 12,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+    marginTop: 8,
+  },
+  cardMeta: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: Colors.borderLight,
+  },
+  metaText: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 60,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+});
@@ -0,0 +1,439 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  ScrollView,
+  RefreshControl,
+  Alert,
+  Platform,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router, useFocusEffect } from "expo-router";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { addPurchaseOrder, getReorderSuggestions, ReorderSuggestion } from "@/lib/storage";
+import { DEFAULT_REORDER_COVERAGE_DAYS, REORDER_COVERAGE_OPTIONS } from "@shared/reorder";
+
+type Draft = { quantity: string; included: boolean };
+
+const NO_SUPPLIER = "";
+
+function formatPrice(value: number): string {
+  return `R$ ${value.toFixed(2).replace(".", ",")}`;
+}
+
+function SuggestionRow({
+  suggestion,
+  draft,
+  onChange,
+}: {
+  suggestion: ReorderSuggestion;
+  draft: Draft;
+  onChange: (data: Partial<Draft>) => void;
+}) {
+  const orderable = !!suggestion.supplierId;
+
+  return (
+    <View style={[styles.row, !draft.included && { opacity: 0.5 }]}>
+      <Pressable
+        onPress={() => {
+          Haptics.selectionAsync();
+          onChange({ included: !draft.included });
+        }}
+        disabled={!orderable}
+        hitSlop={8}
+      >
+        <Ionicons
+          name={draft.included ? "checkbox" : "square-outline"}
+          size={22}
+          color={draft.included ? Colors.primary : Colors.textTertiary}
+        />
+      </Pressable>
+      <View style={styles.rowInfo}>
+        <View style={styles.rowTitleLine}>
+          <Text style={styles.rowName} numberOfLines={1}>{suggestion.productName}</Text>
+          {suggestion.urgent && (
+            <View style={styles.urgentBadge}>
+              <Text style={styles.urgentText}>Urgente</Text>
+            </View>
+          )}
+        </View>
+        <Text style={styles.rowMeta}>
+          Estoque {suggestion.quantity} · mín. {suggestion.minStock}
+          {suggestion.onOrder > 0 ? ` · pedido ${suggestion.onOrder}` : ""} · {suggestion.dailyAvg.toFixed(1)}/dia
+        </Text>
+        <Text style={styles.rowMeta}>
+          {suggestion.daysUntilEmpty !== null ? `Acaba em ~${suggestion.daysUntilEmpty} dias` : "Sem consumo recente"}
+          {orderable ? ` · entrega em ${suggestion.leadTimeDays} dias` : ""}
+          {suggestion.unitCost !== null ? ` · ${formatPrice(Number(suggestion.unitCost))}` : ""}
+        </Text>
+      </View>
+      <View style={styles.qtyWrap}>
+        <TextInput
+          style={styles.qtyInput}
+          value={draft.quantity}
+          onChangeText={(v) => onChange({ quantity: v })}
+          keyboardType="number-pad"
+          editable={orderable}
+        />
+        <Text style={styles.qtyUnit}>{suggestion.unit}</Text>
+      </View>
+    </View>
+  );
+}
+
+export default function ReorderScreen() {
+  const [coverageDays, setCoverageDays] = useState<number>(DEFAULT_REORDER_COVERAGE_DAYS);
+  const [windowDays, setWindowDays] = useState(0);
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    const result = await getReorderSuggestions(coverageDays);
+    setSuggestions(result.suggestions);
+    setWindowDays(result.windowDays);
+    setDrafts(
+      Object.fromEntries(
+        result.suggestions.map((s) => [s.productId, { quantity: String(s.suggestedQuantity), included: !!s.supplierId }])
+      )
+    );
+  }, [coverageDays]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  };
+
+  const updateDraft = (productId: string, data: Partial<Draft>) => {
+    setDrafts((current) => ({ ...current, [productId]: { ...current[productId], ...data } }));
+  };
+
+  // Um pedido por fornecedor; sem fornecedor ligado não há para quem pedir.
+  const groups = suggestions.reduce<Record<string, ReorderSuggestion[]>>((acc, s) => {
+    const key = s.supplierId ?? NO_SUPPLIER;
+    (acc[key] ??= []).push(s);
+    return acc;
+  }, {});
+  const supplierIds = Object.keys(groups).sort((a, b) =>
+    a === NO_SUPPLIER ? 1 : b === NO_SUPPLIER ? -1 : groups[a][0].supplierName!.localeCompare(groups[b][0].supplierName!)
+  );
+
+  const selectedLines = (supplierId: string) =>
+    (groups[supplierId] ?? [])
+      .filter((s) => drafts[s.productId]?.included)
+      .map((s) => ({
+        productId: s.productId,
+        quantity: parseInt(drafts[s.productId].quantity),
+        unitCost: s.unitCost !== null ? Number(s.unitCost) : 0,
+      }));
+
+  const orderCount = supplierIds.filter((id) => id !== NO_SUPPLIER && selectedLines(id).length > 0).length;
+
+  const handleCreate = async () => {
+    const orders = supplierIds
+      .filter((id) => id !== NO_SUPPLIER)
+      .map((supplierId) => ({ supplierId, lines: selectedLines(supplierId) }))
+      .filter((o) => o.lines.length > 0);
+    if (orders.length === 0) {
+      Alert.alert("Erro", "Selecione ao menos um produto");
+      return;
+    }
+    const invalid = orders.flatMap((o) => o.lines).find((l) => !l.quantity || l.quantity <= 0);
+    if (invalid) {
+      const name = suggestions.find((s) => s.productId === invalid.productId)?.productName;
+      Alert.alert("Erro", `Informe uma quantidade válida para ${name}`);
+      return;
+    }
+
+    setSaving(true);
+    let created = 0;
+    try {
+      for (const order of orders) {
+        const leadTimeDays = groups[order.supplierId][0].leadTimeDays;
+        const expectedAt = new Date();
+        expectedAt.setDate(expectedAt.getDate() + leadTimeDays);
+        await addPurchaseOrder({
+          supplierId: order.supplierId,
+          expectedAt: leadTimeDays > 0 ? expectedAt : null,
+          note: `Gerado pelas sugestões de compra (cobertura de ${coverageDays} dias)`,
+          lines: order.lines,
+        });
+        created++;
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.replace("/purchases");
+    } catch (e: any) {
+      Alert.alert(
+        "Erro",
+        `${e.message || "Falha ao criar pedido"}${created > 0 ? `\n${created} de ${orders.length} rascunhos já foram criados.` : ""}`
+      );
+      loadData();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filters}>
+        <Text style={styles.filterLabel}>Cobrir</Text>
+        {REORDER_COVERAGE_OPTIONS.map((days) => (
+          <Pressable
+            key={days}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setCoverageDays(days);
+            }}
+            style={[styles.chip, coverageDays === days && styles.chipActive]}
+          >
+            <Text style={[styles.chipText, coverageDays === days && styles.chipTextActive]}>{days} dias</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.listContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+        keyboardDismissMode="on-drag"
+      >
+        {windowDays > 0 && (
+          <Text style={styles.hint}>
+            Consumo médio dos últimos {windowDays} dias. A sugestão cobre o prazo de entrega mais {coverageDays} dias
+            acima do estoque mínimo, descontando o que já foi pedido.
+          </Text>
+        )}
+
+        {suggestions.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="checkmark-circle-outline" size={48} color={Colors.success} />
+            <Text style={styles.emptyTitle}>Nada a comprar</Text>
+            <Text style={styles.emptyText}>O estoque cobre o período escolhido</Text>
+          </View>
+        ) : (
+          supplierIds.map((supplierId) => (
+            <View key={supplierId || "none"} style={styles.group}>
+              <View style={styles.groupHeader}>
+                <Ionicons
+                  name={supplierId ? "business-outline" : "alert-circle-outline"}
+                  size={16}
+                  color={supplierId ? Colors.textSecondary : Colors.warning}
+                />
+                <Text style={styles.groupTitle}>{groups[supplierId][0].supplierName ?? "Sem fornecedor"}</Text>
+              </View>
+              {!supplierId && (
+                <Text style={styles.groupHint}>Ligue um fornecedor ao produto para incluí-lo num pedido.</Text>
+              )}
+              <View style={styles.list}>
+                {groups[supplierId].map((s) => (
+                  <SuggestionRow
+                    key={s.productId}
+                    suggestion={s}
+                    draft={drafts[s.productId] ?? { quantity: "", included: false }}
+                    onChange={(data) => updateDraft(s.productId, data)}
+                  />
+                ))}
+              </View>
+            </View>
+          ))
+        )}
+
+        {orderCount > 0 && (
+          <Pressable
+            onPress={handleCreate}
+            disabled={saving}
+            style={({ pressed }) => [styles.saveBtn, pressed && { opacity: 0.9 }, saving && { opacity: 0.6 }]}
+          >
+            <Ionicons name="document-text-outline" size={20} color={Colors.white} />
+            <Text style={styles.saveBtnText}>
+              {saving ? "Criando..." : `Criar ${orderCount} ${orderCount === 1 ? "rascunho" : "rascunhos"} de pedido`}
+            </Text>
+          </Pressable>
+        )}
+
+        <View style={{ height: Platform.OS === "web" ? 34 : 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  filters: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: Colors.surface,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  filterLabel: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 20,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  listContent: {
+    padding: 20,
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginBottom: 16,
+  },
+  group: {
+    marginBottom: 20,
+  },
+  groupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 8,
+  },
+  groupTitle: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  groupHint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.warning,
+    marginBottom: 8,
+  },
+  list: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    overflow: "hidden",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitleLine: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  rowName: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+    flexShrink: 1,
+  },
+  urgentBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 5,
+    backgroundColor: Colors.dangerLight,
+  },
+  urgentText: {
+    fontSize: 10,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.danger,
+  },
+  rowMeta: {
+    fontSize: 11,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  qtyWrap: {
+    alignItems: "center",
+  },
+  qtyInput: {
+    width: 64,
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+    textAlign: "center",
+  },
+  qtyUnit: {
+    fontSize: 10,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 60,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+  saveBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderRadius: 14,
+    paddingVertical: 16,
+    backgroundColor: Colors.primary,
+  },
+  saveBtnText: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+});
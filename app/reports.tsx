@@ -1,4 +1,4 @@
-import React, { useCallback, useState, useMemo } from "react";
+import React, { useCallback, useEffect, useState, useMemo } from "react";
 import {
   StyleSheet,
   Text,
@@ -12,19 +12,31 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useFocusEffect } from "expo-router";
-import * as Print from "expo-print";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
+import { buildReportHtml, printHtml } from "@/lib/print";
 import {
   getProducts,
   getCategories,
   getMovements,
+  getLocations,
+  getCostIncreases,
   Product,
   Category,
   Movement,
+  Location,
+  CostIncrease,
 } from "@/lib/storage";
-
-type ReportTab = "entries" | "exits" | "general" | "consumption";
+import { consumptionStats } from "@shared/reorder";
+import {
+  COST_INCREASE_THRESHOLD_OPTIONS,
+  DEFAULT_COST_INCREASE_THRESHOLD,
+  currentUnitCost,
+  movementCost,
+} from "@shared/costing";
+import { movementDelta, reversedMovementIds } from "@shared/movements";
+
+type ReportTab = "entries" | "exits" | "transfers" | "general" | "consumption" | "costs" | "losses";
 type Period = "7d" | "30d" | "90d" | "all";
 
 const PERIOD_LABELS: Record<Period, string> = {
@@ -37,18 +49,56 @@ const PERIOD_LABELS: Record<Period, string> = {
 const TAB_CONFIG: { key: ReportTab; label: string; icon: keyof typeof Ionicons.glyphMap; color: string }[] = [
   { key: "entries", label: "Entradas", icon: "arrow-down", color: Colors.success },
   { key: "exits", label: "Saídas", icon: "arrow-up", color: Colors.danger },
+  { key: "transfers", label: "Transferências", icon: "swap-horizontal", color: Colors.primary },
   { key: "general", label: "Geral", icon: "stats-chart", color: "#3B82F6" },
   { key: "consumption", label: "Consumo", icon: "flash", color: "#8B5CF6" },
+  { key: "costs", label: "Custos", icon: "trending-up", color: "#DB2777" },
+  { key: "losses", label: "Perdas", icon: "alert-circle", color: Colors.accentDark },
 ];
 
-function filterByPeriod(movements: Movement[], period: Period): Movement[] {
-  if (period === "all") return movements;
+function periodStart(period: Period): Date | undefined {
+  if (period === "all") return undefined;
   const days = period === "7d" ? 7 : period === "30d" ? 30 : 90;
   const cutoff = new Date();
   cutoff.setDate(cutoff.getDate() - days);
+  return cutoff;
+}
+
+function filterByPeriod(movements: Movement[], period: Period): Movement[] {
+  const cutoff = periodStart(period);
+  if (!cutoff) return movements;
   return movements.filter((m) => new Date(m.createdAt) >= cutoff);
 }
 
+/**
+ * Agrupa as perdas por dia nos períodos curtos, por semana (a partir da
+ * segunda-feira) nos médios e por mês no histórico completo. A chave ordena
+ * os grupos cronologicamente.
+ */
+function lossBucket(iso: string, period: Period): { key: string; label: string } {
+  const d = new Date(iso);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  if (period === "all") {
+    return { key: `${d.getFullYear()}-${pad(d.getMonth() + 1)}`, label: `${pad(d.getMonth() + 1)}/${d.getFullYear()}` };
+  }
+  if (period !== "7d") {
+    d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  }
+  const key = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  const label = `${pad(d.getDate())}/${pad(d.getMonth() + 1)}`;
+  return { key, label: period === "7d" ? label : `Semana de ${label}` };
+}
+
+/** Valor retirado por um ajuste, pelo custo gravado nele. */
+function lossValue(movement: Movement, products: Product[]): number {
+  const product = products.find((p) => p.id === movement.productId);
+  return Math.abs(movementCost(movement, product ? currentUnitCost(product) : 0));
+}
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(1).replace(".", ",")}%`;
+}
+
 function formatCurrency(value: number): string {
   return `R$ ${value.toFixed(2).replace(".", ",")}`;
 }
@@ -58,6 +108,21 @@ function formatDate(iso: string): string {
   return `${d.getDate().toString().padStart(2, "0")}/${(d.getMonth() + 1).toString().padStart(2, "0")}/${d.getFullYear()} ${d.getHours().toString().padStart(2, "0")}:${d.getMinutes().toString().padStart(2, "0")}`;
 }
 
+const NO_USER_LABEL = "Sem usuário";
+
+type UserTotal = { userId: string | null; name: string; qty: number; count: number };
+
+function groupByUser(movements: Movement[]): UserTotal[] {
+  const map: Record<string, UserTotal> = {};
+  movements.forEach((m) => {
+    const key = m.userId ?? "";
+    if (!map[key]) map[key] = { userId: m.userId, name: m.userName ?? NO_USER_LABEL, qty: 0, count: 0 };
+    map[key].qty += m.quantity;
+    map[key].count += 1;
+  });
+  return Object.values(map).sort((a, b) => b.qty - a.qty);
+}
+
 function BarRow({ label, value, displayValue, maxValue, color }: { label: string; value: number; displayValue?: string; maxValue: number; color: string }) {
   const width = maxValue > 0 ? Math.max((value / maxValue) * 100, 4) : 4;
   return (
@@ -72,19 +137,52 @@ function BarRow({ label, value, displayValue, maxValue, color }: { label: string
 }
 
 function MovementRow({ movement, product }: { movement: Movement; product?: Product }) {
-  const isEntry = movement.type === "entry";
+  const isEntry = movementDelta(movement) > 0;
   return (
     <View style={styles.movRow}>
       <View style={[styles.movDot, { backgroundColor: isEntry ? Colors.success : Colors.danger }]} />
       <View style={styles.movInfo}>
         <Text style={styles.movName} numberOfLines={1}>{product?.name ?? "Produto removido"}</Text>
-        <Text style={styles.movMeta}>{formatDate(movement.createdAt)}{movement.note ? ` - ${movement.note}` : ""}</Text>
+        <Text style={styles.movMeta}>
+          {movement.reasonName ? `${movement.reasonName} - ` : ""}
+          {formatDate(movement.createdAt)}
+          {movement.userName ? ` - ${movement.userName}` : ""}
+          {movement.note ? ` - ${movement.note}` : ""}
+        </Text>
       </View>
       <View style={styles.movRight}>
         <Text style={[styles.movQty, { color: isEntry ? Colors.success : Colors.danger }]}>
-          {isEntry ? "+" : "-"}{movement.quantity}
+          {isEntry ? "+" : "-"}{Math.abs(movement.quantity)}
         </Text>
-        {product && <Text style={styles.movVal}>{formatCurrency(movement.quantity * product.price)}</Text>}
+        {product && (
+          <Text style={styles.movVal}>{formatCurrency(Math.abs(movementCost(movement, currentUnitCost(product))))}</Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+/** Saída e chegada de uma mesma transferência entre locais. */
+type TransferPair = { out: Movement; in?: Movement };
+
+function TransferRow({ pair, product, locations }: { pair: TransferPair; product?: Product; locations: Location[] }) {
+  const locationName = (id: string | null | undefined) => locations.find((l) => l.id === id)?.name ?? "Local removido";
+  return (
+    <View style={styles.movRow}>
+      <View style={[styles.movDot, { backgroundColor: Colors.primary }]} />
+      <View style={styles.movInfo}>
+        <Text style={styles.movName} numberOfLines={1}>{product?.name ?? "Produto removido"}</Text>
+        <Text style={styles.movMeta} numberOfLines={1}>
+          {locationName(pair.out.locationId)} → {locationName(pair.in?.locationId)}
+        </Text>
+        <Text style={styles.movMeta}>
+          {formatDate(pair.out.createdAt)}
+          {pair.out.userName ? ` - ${pair.out.userName}` : ""}
+          {pair.out.note ? ` - ${pair.out.note}` : ""}
+        </Text>
+      </View>
+      <View style={styles.movRight}>
+        <Text style={[styles.movQty, { color: Colors.primary }]}>{pair.out.quantity}</Text>
       </View>
     </View>
   );
@@ -94,32 +192,91 @@ export default function ReportsScreen() {
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [movements, setMovements] = useState<Movement[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
   const [tab, setTab] = useState<ReportTab>("entries");
   const [period, setPeriod] = useState<Period>("30d");
   const [selectedProductIds, setSelectedProductIds] = useState<string[]>([]);
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
   const [filterVisible, setFilterVisible] = useState(false);
+  const [threshold, setThreshold] = useState<number>(DEFAULT_COST_INCREASE_THRESHOLD);
+  const [costIncreases, setCostIncreases] = useState<CostIncrease[]>([]);
 
   useFocusEffect(
     useCallback(() => {
       (async () => {
-        const [p, c, m] = await Promise.all([getProducts(), getCategories(), getMovements()]);
+        const [p, c, m, l] = await Promise.all([
+          getProducts("include"),
+          getCategories("include"),
+          getMovements(),
+          getLocations(),
+        ]);
         setProducts(p);
         setCategories(c);
+        setLocations(l);
         setMovements(m.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
       })();
     }, [])
   );
 
+  // O histórico de custos fica no servidor; só é buscado com a aba aberta.
+  useEffect(() => {
+    if (tab !== "costs") return;
+    getCostIncreases({ from: periodStart(period), threshold })
+      .then((result) => setCostIncreases(result.increases))
+      .catch(() => setCostIncreases([]));
+  }, [tab, period, threshold]);
+
+  const visibleCostIncreases = useMemo(
+    () =>
+      selectedProductIds.length > 0
+        ? costIncreases.filter((item) => selectedProductIds.includes(item.productId))
+        : costIncreases,
+    [costIncreases, selectedProductIds]
+  );
+
+  // Movimentações estornadas e seus estornos se anulam e ficam fora dos relatórios,
+  // assim como as idas e voltas de unidades da manutenção.
   const filtered = useMemo(() => {
-    let result = filterByPeriod(movements, period);
+    const reversedIds = reversedMovementIds(movements);
+    let result = filterByPeriod(movements, period).filter(
+      (m) => !m.reversesId && !reversedIds.has(m.id) && !m.unitStatusChange
+    );
     if (selectedProductIds.length > 0) {
       result = result.filter((m) => selectedProductIds.includes(m.productId));
     }
+    if (selectedUserIds.length > 0) {
+      result = result.filter((m) => m.userId !== null && selectedUserIds.includes(m.userId));
+    }
     return result;
-  }, [movements, period, selectedProductIds]);
+  }, [movements, period, selectedProductIds, selectedUserIds]);
+
+  const movementUsers = useMemo(() => {
+    const map: Record<string, string> = {};
+    movements.forEach((m) => {
+      if (m.userId && m.userName) map[m.userId] = m.userName;
+    });
+    return Object.entries(map)
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [movements]);
+
+  // Itens da lixeira entram no histórico, mas não no retrato atual do estoque.
+  const activeProducts = useMemo(() => products.filter((p) => !p.deletedAt), [products]);
 
   const entries = useMemo(() => filtered.filter((m) => m.type === "entry"), [filtered]);
   const exits = useMemo(() => filtered.filter((m) => m.type === "exit"), [filtered]);
+  // Perdas: ajustes que retiraram estoque, qualquer que seja o motivo.
+  const losses = useMemo(() => filtered.filter((m) => m.type === "adjustment" && m.quantity < 0), [filtered]);
+  const transfers = useMemo<TransferPair[]>(
+    () =>
+      filtered
+        .filter((m) => m.type === "transfer" && m.transferDirection === "out")
+        .map((out) => ({
+          out,
+          in: movements.find((m) => m.transferId === out.transferId && m.transferDirection === "in"),
+        })),
+    [filtered, movements]
+  );
 
   const toggleProduct = (id: string) => {
     setSelectedProductIds((prev) =>
@@ -127,16 +284,38 @@ export default function ReportsScreen() {
     );
   };
 
-  const clearFilters = () => setSelectedProductIds([]);
+  const toggleUser = (id: string) => {
+    setSelectedUserIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+    );
+  };
+
+  const clearFilters = () => {
+    setSelectedProductIds([]);
+    setSelectedUserIds([]);
+  };
+
+  const activeFilterCount = selectedProductIds.length + selectedUserIds.length;
 
   const totalEntryQty = entries.reduce((a, m) => a + m.quantity, 0);
   const totalExitQty = exits.reduce((a, m) => a + m.quantity, 0);
-  const entryValue = entries.reduce((acc, m) => acc + m.quantity * (products.find((p) => p.id === m.productId)?.price ?? 0), 0);
-  const exitValue = exits.reduce((acc, m) => acc + m.quantity * (products.find((p) => p.id === m.productId)?.price ?? 0), 0);
+  const unitCostOf = (productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    return product ? currentUnitCost(product) : 0;
+  };
+  const entryValue = entries.reduce((acc, m) => acc + movementCost(m, unitCostOf(m.productId)), 0);
+  const exitValue = exits.reduce((acc, m) => acc + movementCost(m, unitCostOf(m.productId)), 0);
+  const totalLossQty = losses.reduce((a, m) => a - m.quantity, 0);
+  const totalLossValue = losses.reduce((acc, m) => acc + lossValue(m, products), 0);
+  // Custo do consumido no período: saídas simples, sem as retiradas que voltam.
+  const consumedValue = exits
+    .filter((m) => !m.checkoutId)
+    .reduce((acc, m) => acc + movementCost(m, unitCostOf(m.productId)), 0);
 
   const consumptionData = useMemo(() => {
     const exitsByProduct: Record<string, { total: number; dates: string[] }> = {};
-    exits.forEach((m) => {
+    // Ferramentas retiradas voltam ao estoque; não contam como consumo.
+    exits.filter((m) => !m.checkoutId).forEach((m) => {
       if (!exitsByProduct[m.productId]) exitsByProduct[m.productId] = { total: 0, dates: [] };
       exitsByProduct[m.productId].total += m.quantity;
       exitsByProduct[m.productId].dates.push(m.createdAt);
@@ -147,7 +326,8 @@ export default function ReportsScreen() {
     return Object.entries(exitsByProduct)
       .map(([productId, data]) => {
         const product = products.find((p) => p.id === productId);
-        if (!product) return null;
+        // Projeção de consumo só faz sentido para o que acaba; ferramentas e patrimônio ficam de fora.
+        if (!product || product.kind !== "consumable") return null;
         const category = categories.find((c) => c.id === product.categoryId);
 
         const sortedDates = data.dates.sort();
@@ -156,9 +336,11 @@ export default function ReportsScreen() {
         const daySpan = Math.max(1, Math.ceil((lastDate.getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24)));
         const actualDays = periodDays ?? daySpan;
 
-        const dailyAvg = data.total / Math.max(actualDays, 1);
-        const monthlyProjection = dailyAvg * 30;
-        const daysUntilEmpty = dailyAvg > 0 ? Math.round(product.quantity / dailyAvg) : null;
+        const { dailyAvg, monthlyProjection, daysUntilEmpty } = consumptionStats(
+          data.total,
+          actualDays,
+          product.quantity
+        );
 
         let status: "critical" | "warning" | "ok" = "ok";
         if (daysUntilEmpty !== null && daysUntilEmpty <= 7) status = "critical";
@@ -173,7 +355,7 @@ export default function ReportsScreen() {
           monthlyProjection,
           daysUntilEmpty,
           status,
-          costProjection: monthlyProjection * product.price,
+          costProjection: monthlyProjection * currentUnitCost(product),
         };
       })
       .filter(Boolean)
@@ -200,19 +382,70 @@ export default function ReportsScreen() {
       .slice(0, 10);
   }, [exits, products]);
 
+  const transfersByRoute = useMemo(() => {
+    const locationName = (id: string | null | undefined) => locations.find((l) => l.id === id)?.name ?? "Local removido";
+    const map: Record<string, { label: string; qty: number; count: number }> = {};
+    transfers.forEach((pair) => {
+      const key = `${pair.out.locationId}:${pair.in?.locationId}`;
+      if (!map[key]) {
+        map[key] = { label: `${locationName(pair.out.locationId)} → ${locationName(pair.in?.locationId)}`, qty: 0, count: 0 };
+      }
+      map[key].qty += pair.out.quantity;
+      map[key].count += 1;
+    });
+    return Object.entries(map)
+      .map(([key, value]) => ({ key, ...value }))
+      .sort((a, b) => b.qty - a.qty);
+  }, [transfers, locations]);
+
+  const lossesByReason = useMemo(() => {
+    const map: Record<string, { label: string; qty: number; value: number; count: number }> = {};
+    losses.forEach((m) => {
+      const key = m.reasonId ?? "";
+      if (!map[key]) map[key] = { label: m.reasonName ?? "Sem motivo", qty: 0, value: 0, count: 0 };
+      map[key].qty -= m.quantity;
+      map[key].value += lossValue(m, products);
+      map[key].count += 1;
+    });
+    return Object.entries(map)
+      .map(([key, item]) => ({ key, ...item }))
+      .sort((a, b) => b.value - a.value || b.qty - a.qty);
+  }, [losses, products]);
+
+  const lossesByPeriod = useMemo(() => {
+    const map: Record<string, { label: string; qty: number; value: number; byReason: Record<string, number> }> = {};
+    losses.forEach((m) => {
+      const bucket = lossBucket(m.createdAt, period);
+      if (!map[bucket.key]) map[bucket.key] = { label: bucket.label, qty: 0, value: 0, byReason: {} };
+      map[bucket.key].qty -= m.quantity;
+      map[bucket.key].value += lossValue(m, products);
+      const reasonKey = m.reasonId ?? "";
+      map[bucket.key].byReason[reasonKey] = (map[bucket.key].byReason[reasonKey] ?? 0) + lossValue(m, products);
+    });
+    return Object.entries(map)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, item]) => ({ key, ...item }));
+  }, [losses, products, period]);
+
+  const entriesByUser = useMemo(() => groupByUser(entries), [entries]);
+  const exitsByUser = useMemo(() => groupByUser(exits), [exits]);
+
   const categoryBreakdown = useMemo(() => {
     return categories.map((cat) => {
-      const catProducts = products.filter((p) => p.categoryId === cat.id);
+      const catProducts = activeProducts.filter((p) => p.categoryId === cat.id);
       const totalQty = catProducts.reduce((a, p) => a + p.quantity, 0);
-      const totalVal = catProducts.reduce((a, p) => a + p.quantity * p.price, 0);
+      const totalVal = catProducts.reduce((a, p) => a + p.quantity * currentUnitCost(p), 0);
       return { category: cat, productCount: catProducts.length, totalQty, totalVal };
     }).filter((c) => c.productCount > 0).sort((a, b) => b.totalVal - a.totalVal);
-  }, [categories, products]);
+  }, [categories, activeProducts]);
 
   const renderContent = () => {
     if (tab === "entries") return renderEntriesReport();
     if (tab === "exits") return renderExitsReport();
+    if (tab === "transfers") return renderTransfersReport();
     if (tab === "general") return renderGeneralReport();
+    if (tab === "costs") return renderCostsReport();
+    if (tab === "losses") return renderLossesReport();
     return renderConsumptionReport();
   };
 
@@ -248,6 +481,17 @@ export default function ReportsScreen() {
           </>
         )}
 
+        {entriesByUser.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Por Usuário</Text>
+            <View style={styles.chartCard}>
+              {entriesByUser.map((item) => (
+                <BarRow key={item.userId ?? "none"} label={item.name} value={item.qty} maxValue={entriesByUser[0].qty} color={Colors.success} />
+              ))}
+            </View>
+          </>
+        )}
+
         <Text style={styles.sectionTitle}>Histórico de Entradas</Text>
         {entries.length === 0 ? (
           <View style={styles.emptyState}>
@@ -295,6 +539,17 @@ export default function ReportsScreen() {
           </>
         )}
 
+        {exitsByUser.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Por Usuário</Text>
+            <View style={styles.chartCard}>
+              {exitsByUser.map((item) => (
+                <BarRow key={item.userId ?? "none"} label={item.name} value={item.qty} maxValue={exitsByUser[0].qty} color={Colors.danger} />
+              ))}
+            </View>
+          </>
+        )}
+
         <Text style={styles.sectionTitle}>Histórico de Saídas</Text>
         {exits.length === 0 ? (
           <View style={styles.emptyState}>
@@ -310,11 +565,65 @@ export default function ReportsScreen() {
     );
   };
 
+  const renderTransfersReport = () => {
+    const totalTransferQty = transfers.reduce((a, pair) => a + pair.out.quantity, 0);
+    return (
+      <>
+        <View style={styles.summaryRow}>
+          <View style={[styles.summaryPill, { borderColor: "#E0F2F1" }]}>
+            <Ionicons name="swap-horizontal" size={16} color={Colors.primary} />
+            <View>
+              <Text style={styles.summaryPillValue}>{totalTransferQty} un.</Text>
+              <Text style={styles.summaryPillLabel}>transferidas</Text>
+            </View>
+          </View>
+          <View style={[styles.summaryPill, { borderColor: Colors.borderLight }]}>
+            <Ionicons name="receipt-outline" size={16} color={Colors.textSecondary} />
+            <View>
+              <Text style={styles.summaryPillValue}>{transfers.length}</Text>
+              <Text style={styles.summaryPillLabel}>registros</Text>
+            </View>
+          </View>
+        </View>
+
+        {transfersByRoute.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Por Trajeto</Text>
+            <View style={styles.chartCard}>
+              {transfersByRoute.map((item) => (
+                <BarRow key={item.key} label={item.label} value={item.qty} maxValue={transfersByRoute[0].qty} color={Colors.primary} />
+              ))}
+            </View>
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>Histórico de Transferências</Text>
+        {transfers.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="swap-horizontal-outline" size={40} color={Colors.textTertiary} />
+            <Text style={styles.emptyText}>Nenhuma transferência no período</Text>
+          </View>
+        ) : (
+          <View style={styles.listCard}>
+            {transfers.map((pair) => (
+              <TransferRow
+                key={pair.out.id}
+                pair={pair}
+                product={products.find((p) => p.id === pair.out.productId)}
+                locations={locations}
+              />
+            ))}
+          </View>
+        )}
+      </>
+    );
+  };
+
   const renderGeneralReport = () => {
-    const totalStockValue = products.reduce((a, p) => a + p.quantity * p.price, 0);
-    const avgPrice = products.length > 0 ? products.reduce((a, p) => a + p.price, 0) / products.length : 0;
-    const lowStock = products.filter((p) => p.quantity <= p.minStock);
-    const zeroStock = products.filter((p) => p.quantity === 0);
+    const totalStockValue = activeProducts.reduce((a, p) => a + p.quantity * currentUnitCost(p), 0);
+    const avgCost = activeProducts.length > 0 ? activeProducts.reduce((a, p) => a + currentUnitCost(p), 0) / activeProducts.length : 0;
+    const lowStock = activeProducts.filter((p) => p.quantity <= p.minStock);
+    const zeroStock = activeProducts.filter((p) => p.quantity === 0);
     const maxCatVal = categoryBreakdown.length > 0 ? categoryBreakdown[0].totalVal : 1;
 
     return (
@@ -345,12 +654,17 @@ export default function ReportsScreen() {
           <View style={styles.divider} />
           <View style={styles.overviewRow}>
             <Text style={styles.overviewLabel}>Total de produtos</Text>
-            <Text style={styles.overviewValueText}>{products.length}</Text>
+            <Text style={styles.overviewValueText}>{activeProducts.length}</Text>
           </View>
           <View style={styles.divider} />
           <View style={styles.overviewRow}>
-            <Text style={styles.overviewLabel}>Preço médio unitário</Text>
-            <Text style={styles.overviewValueText}>{formatCurrency(avgPrice)}</Text>
+            <Text style={styles.overviewLabel}>Custo médio unitário</Text>
+            <Text style={styles.overviewValueText}>{formatCurrency(avgCost)}</Text>
+          </View>
+          <View style={styles.divider} />
+          <View style={styles.overviewRow}>
+            <Text style={styles.overviewLabel}>Custo do consumo (período)</Text>
+            <Text style={styles.overviewValueText}>{formatCurrency(consumedValue)}</Text>
           </View>
           <View style={styles.divider} />
           <View style={styles.overviewRow}>
@@ -498,39 +812,137 @@ export default function ReportsScreen() {
     );
   };
 
+  const renderCostsReport = () => (
+    <>
+      <Text style={styles.filterGroupLabel}>Alta mínima no custo de compra</Text>
+      <View style={[styles.periodRow, { marginBottom: 20 }]}>
+        {COST_INCREASE_THRESHOLD_OPTIONS.map((option) => (
+          <Pressable
+            key={option}
+            onPress={() => setThreshold(option)}
+            style={[styles.periodBtn, threshold === option && styles.periodBtnActive]}
+          >
+            <Text style={[styles.periodText, threshold === option && styles.periodTextActive]}>+{option}%</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {visibleCostIncreases.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="trending-up-outline" size={40} color={Colors.textTertiary} />
+          <Text style={styles.emptyText}>Nenhuma alta acima de {threshold}% no período</Text>
+          <Text style={styles.emptySubText}>Os custos vêm das entradas com custo unitário informado</Text>
+        </View>
+      ) : (
+        <>
+          <Text style={styles.sectionTitle}>Custos em Alta</Text>
+          <View style={styles.listCard}>
+            {visibleCostIncreases.map((item) => (
+              <View key={item.productId} style={styles.movRow}>
+                <View style={[styles.movDot, { backgroundColor: "#DB2777" }]} />
+                <View style={styles.movInfo}>
+                  <Text style={styles.movName} numberOfLines={1}>{item.productName}</Text>
+                  <Text style={styles.movMeta}>
+                    {formatCurrency(Number(item.fromCost))} ({formatDate(item.fromAt)}) → {formatCurrency(Number(item.toCost))} ({formatDate(item.toAt)})
+                  </Text>
+                </View>
+                <View style={styles.movRight}>
+                  <Text style={[styles.movQty, { color: Colors.danger }]}>{formatPercent(item.increasePercent)}</Text>
+                  <Text style={styles.movVal}>por {item.unit}</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+    </>
+  );
+
+  const renderLossesReport = () => (
+    <>
+      <View style={styles.summaryRow}>
+        <View style={[styles.summaryPill, { borderColor: Colors.warningLight }]}>
+          <Ionicons name="alert-circle" size={16} color={Colors.accentDark} />
+          <View>
+            <Text style={styles.summaryPillValue}>{totalLossQty} un.</Text>
+            <Text style={styles.summaryPillLabel}>{formatCurrency(totalLossValue)}</Text>
+          </View>
+        </View>
+        <View style={[styles.summaryPill, { borderColor: Colors.borderLight }]}>
+          <Ionicons name="receipt-outline" size={16} color={Colors.textSecondary} />
+          <View>
+            <Text style={styles.summaryPillValue}>{losses.length}</Text>
+            <Text style={styles.summaryPillLabel}>ajustes</Text>
+          </View>
+        </View>
+      </View>
+
+      {lossesByReason.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Por Motivo</Text>
+          <View style={styles.chartCard}>
+            {lossesByReason.map((item) => (
+              <BarRow
+                key={item.key}
+                label={item.label}
+                value={item.value}
+                displayValue={`${item.qty} un. · ${formatCurrency(item.value)}`}
+                maxValue={lossesByReason[0].value}
+                color={Colors.accentDark}
+              />
+            ))}
+          </View>
+        </>
+      )}
+
+      {lossesByPeriod.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Por Período</Text>
+          <View style={styles.chartCard}>
+            {lossesByPeriod.map((item) => (
+              <BarRow
+                key={item.key}
+                label={item.label}
+                value={item.value}
+                displayValue={formatCurrency(item.value)}
+                maxValue={Math.max(...lossesByPeriod.map((p) => p.value))}
+                color={Colors.accentDark}
+              />
+            ))}
+          </View>
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>Histórico de Perdas</Text>
+      {losses.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="alert-circle-outline" size={40} color={Colors.textTertiary} />
+          <Text style={styles.emptyText}>Nenhuma perda no período</Text>
+          <Text style={styles.emptySubText}>As perdas vêm dos ajustes que retiram estoque</Text>
+        </View>
+      ) : (
+        <View style={styles.listCard}>
+          {losses.map((m) => <MovementRow key={m.id} movement={m} product={products.find((p) => p.id === m.productId)} />)}
+        </View>
+      )}
+    </>
+  );
+
   const buildPrintHtml = () => {
     const tabLabel = TAB_CONFIG.find((t) => t.key === tab)?.label ?? "";
     const periodLabel = PERIOD_LABELS[period];
-    const now = new Date();
-    const dateStr = `${now.getDate().toString().padStart(2, "0")}/${(now.getMonth() + 1).toString().padStart(2, "0")}/${now.getFullYear()} ${now.getHours().toString().padStart(2, "0")}:${now.getMinutes().toString().padStart(2, "0")}`;
-    const filterNote = selectedProductIds.length > 0 ? `Filtro: ${selectedProductIds.length} produto(s) selecionado(s)` : "Sem filtro (Todos produtos)";
-
-    const css = `
-      <style>
-        * { margin: 0; padding: 0; box-sizing: border-box; }
-        body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; color: #1E293B; padding: 24px; font-size: 12px; }
-        .header { text-align: center; border-bottom: 2px solid #0D9488; padding-bottom: 12px; margin-bottom: 20px; }
-        .header h1 { font-size: 18px; color: #0D9488; letter-spacing: 3px; margin-bottom: 4px; }
-        .header h2 { font-size: 14px; color: #334155; }
-        .header .meta { font-size: 11px; color: #64748B; margin-top: 6px; }
-        .section-title { font-size: 13px; font-weight: 700; color: #0F172A; margin: 16px 0 8px; border-left: 3px solid #0D9488; padding-left: 8px; }
-        table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
-        th { background-color: #F1F5F9; font-weight: 600; text-align: left; padding: 8px; border-bottom: 2px solid #CBD5E1; font-size: 11px; color: #475569; }
-        td { padding: 6px 8px; border-bottom: 1px solid #E2E8F0; font-size: 11px; }
-        tr:nth-child(even) { background-color: #F8FAFC; }
-        .summary-box { display: flex; gap: 16px; margin-bottom: 16px; }
-        .summary-item { flex: 1; background: #F1F5F9; border-radius: 8px; padding: 12px; text-align: center; }
-        .summary-item .value { font-size: 18px; font-weight: 700; color: #0F172A; }
-        .summary-item .label { font-size: 10px; color: #64748B; margin-top: 2px; }
-        .badge { display: inline-block; padding: 2px 8px; border-radius: 4px; font-size: 10px; font-weight: 600; }
-        .badge-critical { background: #FEE2E2; color: #DC2626; }
-        .badge-warning { background: #FEF3C7; color: #D97706; }
-        .badge-ok { background: #E0F2F1; color: #0D9488; }
-        .entry { color: #10B981; }
-        .exit { color: #EF4444; }
-        .footer { text-align: center; font-size: 10px; color: #94A3B8; margin-top: 24px; border-top: 1px solid #E2E8F0; padding-top: 8px; }
-        @media print { body { padding: 12px; } }
-      </style>`;
+    const productNote = selectedProductIds.length > 0 ? `Filtro: ${selectedProductIds.length} produto(s) selecionado(s)` : "Sem filtro (Todos produtos)";
+    const userNote = selectedUserIds.length > 0
+      ? ` | Usuários: ${movementUsers.filter((u) => selectedUserIds.includes(u.id)).map((u) => u.name).join(", ")}`
+      : "";
+    const filterNote = `${productNote}${userNote}`;
+    const userTable = (totals: UserTotal[]) => {
+      let html = `<div class="section-title">Por Usuário</div><table><tr><th>Usuário</th><th style="text-align:right">Registros</th><th style="text-align:right">Quantidade</th></tr>`;
+      totals.forEach((item) => {
+        html += `<tr><td>${item.name}</td><td style="text-align:right">${item.count}</td><td style="text-align:right">${item.qty}</td></tr>`;
+      });
+      return `${html}</table>`;
+    };
 
     let body = "";
 
@@ -547,14 +959,15 @@ export default function ReportsScreen() {
         });
         body += `</table>`;
       }
+      if (entriesByUser.length > 0) body += userTable(entriesByUser);
       body += `<div class="section-title">Histórico de Entradas</div>`;
       if (entries.length === 0) {
         body += `<p>Nenhuma entrada no período.</p>`;
       } else {
-        body += `<table><tr><th>Data</th><th>Produto</th><th style="text-align:right">Qtd</th><th>Observação</th></tr>`;
+        body += `<table><tr><th>Data</th><th>Produto</th><th style="text-align:right">Qtd</th><th>Usuário</th><th>Observação</th></tr>`;
         entries.forEach((m) => {
           const p = products.find((pr) => pr.id === m.productId);
-          body += `<tr><td>${formatDate(m.createdAt)}</td><td>${p?.name ?? "Removido"}</td><td style="text-align:right" class="entry">+${m.quantity}</td><td>${m.note || "-"}</td></tr>`;
+          body += `<tr><td>${formatDate(m.createdAt)}</td><td>${p?.name ?? "Removido"}</td><td style="text-align:right" class="entry">+${m.quantity}</td><td>${m.userName ?? "-"}</td><td>${m.note || "-"}</td></tr>`;
         });
         body += `</table>`;
       }
@@ -571,22 +984,48 @@ export default function ReportsScreen() {
         });
         body += `</table>`;
       }
+      if (exitsByUser.length > 0) body += userTable(exitsByUser);
       body += `<div class="section-title">Histórico de Saídas</div>`;
       if (exits.length === 0) {
         body += `<p>Nenhuma saída no período.</p>`;
       } else {
-        body += `<table><tr><th>Data</th><th>Produto</th><th style="text-align:right">Qtd</th><th>Observação</th></tr>`;
+        body += `<table><tr><th>Data</th><th>Produto</th><th style="text-align:right">Qtd</th><th>Usuário</th><th>Observação</th></tr>`;
         exits.forEach((m) => {
           const p = products.find((pr) => pr.id === m.productId);
-          body += `<tr><td>${formatDate(m.createdAt)}</td><td>${p?.name ?? "Removido"}</td><td style="text-align:right" class="exit">-${m.quantity}</td><td>${m.note || "-"}</td></tr>`;
+          body += `<tr><td>${formatDate(m.createdAt)}</td><td>${p?.name ?? "Removido"}</td><td style="text-align:right" class="exit">-${m.quantity}</td><td>${m.userName ?? "-"}</td><td>${m.note || "-"}</td></tr>`;
+        });
+        body += `</table>`;
+      }
+    } else if (tab === "transfers") {
+      const totalTransferQty = transfers.reduce((a, pair) => a + pair.out.quantity, 0);
+      const locationName = (id: string | null | undefined) => locations.find((l) => l.id === id)?.name ?? "Removido";
+      body += `<div class="summary-box">
+        <div class="summary-item"><div class="value">${totalTransferQty} un.</div><div class="label">Total Transferido</div></div>
+        <div class="summary-item"><div class="value">${transfers.length}</div><div class="label">Registros</div></div>
+      </div>`;
+      if (transfersByRoute.length > 0) {
+        body += `<div class="section-title">Por Trajeto</div><table><tr><th>Trajeto</th><th style="text-align:right">Registros</th><th style="text-align:right">Quantidade</th></tr>`;
+        transfersByRoute.forEach((item) => {
+          body += `<tr><td>${item.label}</td><td style="text-align:right">${item.count}</td><td style="text-align:right">${item.qty}</td></tr>`;
+        });
+        body += `</table>`;
+      }
+      body += `<div class="section-title">Histórico de Transferências</div>`;
+      if (transfers.length === 0) {
+        body += `<p>Nenhuma transferência no período.</p>`;
+      } else {
+        body += `<table><tr><th>Data</th><th>Produto</th><th>Origem</th><th>Destino</th><th style="text-align:right">Qtd</th><th>Usuário</th><th>Observação</th></tr>`;
+        transfers.forEach((pair) => {
+          const p = products.find((pr) => pr.id === pair.out.productId);
+          body += `<tr><td>${formatDate(pair.out.createdAt)}</td><td>${p?.name ?? "Removido"}</td><td>${locationName(pair.out.locationId)}</td><td>${locationName(pair.in?.locationId)}</td><td style="text-align:right">${pair.out.quantity}</td><td>${pair.out.userName ?? "-"}</td><td>${pair.out.note || "-"}</td></tr>`;
         });
         body += `</table>`;
       }
     } else if (tab === "general") {
-      const totalStockValue = products.reduce((a, p) => a + p.quantity * p.price, 0);
-      const avgPrice = products.length > 0 ? products.reduce((a, p) => a + p.price, 0) / products.length : 0;
-      const lowStock = products.filter((p) => p.quantity <= p.minStock);
-      const zeroStock = products.filter((p) => p.quantity === 0);
+      const totalStockValue = activeProducts.reduce((a, p) => a + p.quantity * currentUnitCost(p), 0);
+      const avgCost = activeProducts.length > 0 ? activeProducts.reduce((a, p) => a + currentUnitCost(p), 0) / activeProducts.length : 0;
+      const lowStock = activeProducts.filter((p) => p.quantity <= p.minStock);
+      const zeroStock = activeProducts.filter((p) => p.quantity === 0);
 
       body += `<div class="summary-box">
         <div class="summary-item"><div class="value entry">+${totalEntryQty}</div><div class="label">Entradas</div></div>
@@ -597,8 +1036,9 @@ export default function ReportsScreen() {
       body += `<div class="section-title">Resumo do Estoque</div>
       <table>
         <tr><td>Valor total em estoque</td><td style="text-align:right; font-weight:600">${formatCurrency(totalStockValue)}</td></tr>
-        <tr><td>Total de produtos</td><td style="text-align:right; font-weight:600">${products.length}</td></tr>
-        <tr><td>Preço médio unitário</td><td style="text-align:right; font-weight:600">${formatCurrency(avgPrice)}</td></tr>
+        <tr><td>Total de produtos</td><td style="text-align:right; font-weight:600">${activeProducts.length}</td></tr>
+        <tr><td>Custo médio unitário</td><td style="text-align:right; font-weight:600">${formatCurrency(avgCost)}</td></tr>
+        <tr><td>Custo do consumo (período)</td><td style="text-align:right; font-weight:600">${formatCurrency(consumedValue)}</td></tr>
         <tr><td>Estoque baixo</td><td style="text-align:right; font-weight:600; color:${lowStock.length > 0 ? "#D97706" : "#0F172A"}">${lowStock.length}</td></tr>
         <tr><td>Sem estoque</td><td style="text-align:right; font-weight:600; color:${zeroStock.length > 0 ? "#DC2626" : "#0F172A"}">${zeroStock.length}</td></tr>
       </table>`;
@@ -610,6 +1050,57 @@ export default function ReportsScreen() {
         });
         body += `</table>`;
       }
+    } else if (tab === "costs") {
+      body += `<div class="section-title">Custos de compra com alta acima de ${threshold}%</div>`;
+      if (visibleCostIncreases.length === 0) {
+        body += `<p>Nenhuma alta acima de ${threshold}% no período.</p>`;
+      } else {
+        body += `<table><tr><th>Produto</th><th style="text-align:right">Custo anterior</th><th>Desde</th><th style="text-align:right">Custo atual</th><th>Desde</th><th style="text-align:right">Alta</th></tr>`;
+        visibleCostIncreases.forEach((item) => {
+          body += `<tr><td>${item.productName}</td><td style="text-align:right">${formatCurrency(Number(item.fromCost))}</td><td>${formatDate(item.fromAt)}</td><td style="text-align:right">${formatCurrency(Number(item.toCost))}</td><td>${formatDate(item.toAt)}</td><td style="text-align:right" class="exit">${formatPercent(item.increasePercent)}</td></tr>`;
+        });
+        body += `</table>`;
+      }
+    } else if (tab === "losses") {
+      body += `<div class="summary-box">
+        <div class="summary-item"><div class="value exit">-${totalLossQty} un.</div><div class="label">Total Perdido</div></div>
+        <div class="summary-item"><div class="value">${formatCurrency(totalLossValue)}</div><div class="label">Valor Total</div></div>
+        <div class="summary-item"><div class="value">${losses.length}</div><div class="label">Ajustes</div></div>
+      </div>`;
+      if (lossesByReason.length > 0) {
+        body += `<div class="section-title">Por Motivo</div><table><tr><th>Motivo</th><th style="text-align:right">Registros</th><th style="text-align:right">Quantidade</th><th style="text-align:right">Valor</th></tr>`;
+        lossesByReason.forEach((item) => {
+          body += `<tr><td>${item.label}</td><td style="text-align:right">${item.count}</td><td style="text-align:right">${item.qty}</td><td style="text-align:right">${formatCurrency(item.value)}</td></tr>`;
+        });
+        body += `</table>`;
+
+        // Uma coluna por motivo, para comparar a evolução de cada um.
+        body += `<div class="section-title">Por Período</div><table><tr><th>Período</th>`;
+        lossesByReason.forEach((reason) => {
+          body += `<th style="text-align:right">${reason.label}</th>`;
+        });
+        body += `<th style="text-align:right">Total</th></tr>`;
+        lossesByPeriod.forEach((item) => {
+          body += `<tr><td>${item.label}</td>`;
+          lossesByReason.forEach((reason) => {
+            const value = item.byReason[reason.key];
+            body += `<td style="text-align:right">${value ? formatCurrency(value) : "-"}</td>`;
+          });
+          body += `<td style="text-align:right; font-weight:600">${formatCurrency(item.value)}</td></tr>`;
+        });
+        body += `</table>`;
+      }
+      body += `<div class="section-title">Histórico de Perdas</div>`;
+      if (losses.length === 0) {
+        body += `<p>Nenhuma perda no período.</p>`;
+      } else {
+        body += `<table><tr><th>Data</th><th>Produto</th><th>Motivo</th><th style="text-align:right">Qtd</th><th style="text-align:right">Valor</th><th>Usuário</th><th>Observação</th></tr>`;
+        losses.forEach((m) => {
+          const p = products.find((pr) => pr.id === m.productId);
+          body += `<tr><td>${formatDate(m.createdAt)}</td><td>${p?.name ?? "Removido"}</td><td>${m.reasonName ?? "-"}</td><td style="text-align:right" class="exit">${m.quantity}</td><td style="text-align:right">${formatCurrency(lossValue(m, products))}</td><td>${m.userName ?? "-"}</td><td>${m.note || "-"}</td></tr>`;
+        });
+        body += `</table>`;
+      }
     } else {
       const criticalItems = consumptionData.filter((c) => c.status === "critical");
       const warningItems = consumptionData.filter((c) => c.status === "warning");
@@ -642,32 +1133,17 @@ export default function ReportsScreen() {
       }
     }
 
-    return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>Relatório MTEC ENERGIA</title>${css}</head><body>
-      <div class="header">
-        <h1>MTEC ENERGIA</h1>
-        <h2>Relatório de ${tabLabel}</h2>
-        <div class="meta">Período: ${periodLabel} | ${filterNote} | Gerado em: ${dateStr}</div>
-      </div>
-      ${body}
-      <div class="footer">MTEC ENERGIA - Sistema de Controle de Estoque - ${dateStr}</div>
-    </body></html>`;
+    return buildReportHtml({
+      title: `Relatório de ${tabLabel}`,
+      meta: `Período: ${periodLabel} | ${filterNote}`,
+      body,
+    });
   };
 
   const handlePrint = async () => {
     try {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-      const html = buildPrintHtml();
-
-      if (Platform.OS === "web") {
-        const printWindow = window.open("", "_blank");
-        if (printWindow) {
-          printWindow.document.write(html);
-          printWindow.document.close();
-          setTimeout(() => printWindow.print(), 300);
-        }
-      } else {
-        await Print.printAsync({ html });
-      }
+      await printHtml(buildPrintHtml());
     } catch (e) {
       Alert.alert("Erro", "Não foi possível imprimir o relatório.");
     }
@@ -710,11 +1186,11 @@ export default function ReportsScreen() {
 
           <Pressable
             onPress={() => setFilterVisible(true)}
-            style={({ pressed }) => [styles.filterBtn, selectedProductIds.length > 0 && styles.filterBtnActive, pressed && { opacity: 0.8 }]}
+            style={({ pressed }) => [styles.filterBtn, activeFilterCount > 0 && styles.filterBtnActive, pressed && { opacity: 0.8 }]}
           >
-            <Ionicons name="filter" size={16} color={selectedProductIds.length > 0 ? Colors.white : Colors.primary} />
-            <Text style={[styles.filterText, selectedProductIds.length > 0 && { color: Colors.white }]}>
-              {selectedProductIds.length > 0 ? `${selectedProductIds.length} selecionado(s)` : "Filtrar"}
+            <Ionicons name="filter" size={16} color={activeFilterCount > 0 ? Colors.white : Colors.primary} />
+            <Text style={[styles.filterText, activeFilterCount > 0 && { color: Colors.white }]}>
+              {activeFilterCount > 0 ? `${activeFilterCount} selecionado(s)` : "Filtrar"}
             </Text>
           </Pressable>
         </View>
@@ -728,19 +1204,42 @@ export default function ReportsScreen() {
         <View style={styles.modalOverlay}>
           <View style={styles.modalCard}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Filtrar por Produto</Text>
+              <Text style={styles.modalTitle}>Filtros</Text>
               <Pressable onPress={() => setFilterVisible(false)}>
                 <Ionicons name="close" size={24} color={Colors.text} />
               </Pressable>
             </View>
 
-            {selectedProductIds.length > 0 && (
+            {activeFilterCount > 0 && (
               <Pressable onPress={clearFilters} style={({ pressed }) => [styles.clearBtn, pressed && { opacity: 0.7 }]}>
                 <Ionicons name="close-circle" size={16} color={Colors.danger} />
                 <Text style={styles.clearBtnText}>Limpar filtros</Text>
               </Pressable>
             )}
 
+            {movementUsers.length > 0 && (
+              <>
+                <Text style={styles.filterGroupLabel}>Usuários</Text>
+                <View style={styles.userChipRow}>
+                  {movementUsers.map((u) => {
+                    const selected = selectedUserIds.includes(u.id);
+                    return (
+                      <Pressable
+                        key={u.id}
+                        onPress={() => toggleUser(u.id)}
+                        style={[styles.userChip, selected && styles.userChipSelected]}
+                      >
+                        <Ionicons name="person-outline" size={12} color={selected ? Colors.white : Colors.textSecondary} />
+                        <Text style={[styles.userChipText, selected && { color: Colors.white }]}>{u.name}</Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.filterGroupLabel}>Produtos</Text>
+
             <FlatList
               data={products}
               keyExtractor={(item) => item.id}
@@ -1190,6 +1689,40 @@ const styles = StyleSheet.create({
     fontFamily: "Inter_500Medium",
     color: Colors.danger,
   },
+  filterGroupLabel: {
+    fontSize: 12,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  userChipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  userChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  userChipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  userChipText: {
+    fontSize: 12,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
   filterList: {
     maxHeight: 350,
   },
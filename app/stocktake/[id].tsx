@@ -0,0 +1,625 @@
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  FlatList,
+  Alert,
+  Platform,
+  RefreshControl,
+} from "react-native";
+import { useLocalSearchParams, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { STOCKTAKE_STATUS_COLORS } from "@/constants/stocktakes";
+import { useAuth } from "@/components/AuthProvider";
+import { formatDateInput } from "@/lib/dates";
+import { buildReportHtml, printHtml } from "@/lib/print";
+import {
+  approveStocktake,
+  cancelStocktake,
+  getStocktake,
+  saveStocktakeCounts,
+  StocktakeDetail,
+  StocktakeItem,
+} from "@/lib/storage";
+import { STOCKTAKE_STATUS_LABELS, stocktakeTarget, stocktakeVariance } from "@shared/stocktakes";
+
+type ItemFilter = "all" | "pending" | "variance";
+
+const ITEM_FILTER_LABELS: Record<ItemFilter, string> = {
+  all: "Todos",
+  pending: "Não contados",
+  variance: "Com diferença",
+};
+
+function formatVariance(variance: number): string {
+  return variance > 0 ? `+${variance}` : String(variance);
+}
+
+export default function StocktakeDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { can } = useAuth();
+  const canManage = can("stocktake:manage");
+  const [stocktake, setStocktake] = useState<StocktakeDetail | null>(null);
+  // Contagens digitadas neste aparelho e ainda não enviadas.
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [search, setSearch] = useState("");
+  const [filter, setFilter] = useState<ItemFilter>("all");
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    setStocktake(await getStocktake(id));
+  }, [id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  };
+
+  const items = useMemo(() => {
+    if (!stocktake) return [];
+    const term = search.trim().toLowerCase();
+    return stocktake.items.filter((item) => {
+      if (term && !item.productName.toLowerCase().includes(term)) return false;
+      if (filter === "pending") return item.countedQuantity === null;
+      if (filter === "variance") return (stocktakeVariance(item) ?? 0) !== 0;
+      return true;
+    });
+  }, [stocktake, search, filter]);
+
+  if (!stocktake) return <View style={styles.container} />;
+
+  const counting = stocktake.status === "counting";
+  const canCount = counting && can("stocktake:count");
+  const statusColor = STOCKTAKE_STATUS_COLORS[stocktake.status];
+  const countedItems = stocktake.items.filter((item) => item.countedQuantity !== null);
+  const varianceItems = stocktake.items.filter((item) => (stocktakeVariance(item) ?? 0) !== 0);
+  const surplus = varianceItems.reduce((sum, item) => sum + Math.max(0, stocktakeVariance(item)!), 0);
+  const shortage = varianceItems.reduce((sum, item) => sum + Math.max(0, -stocktakeVariance(item)!), 0);
+  const pendingDrafts = Object.keys(drafts).length;
+
+  const updateDraft = (item: StocktakeItem, text: string) => {
+    const saved = item.countedQuantity === null ? "" : String(item.countedQuantity);
+    setDrafts((current) => {
+      const next = { ...current };
+      if (text === saved) delete next[item.id];
+      else next[item.id] = text;
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const counts = [];
+    for (const [itemId, text] of Object.entries(drafts)) {
+      const item = stocktake.items.find((i) => i.id === itemId);
+      const quantity = text.trim() ? parseInt(text) : null;
+      if (quantity !== null && (isNaN(quantity) || quantity < 0)) {
+        Alert.alert("Erro", `Quantidade inválida para ${item?.productName ?? "o item"}`);
+        return;
+      }
+      counts.push({ itemId, countedQuantity: quantity });
+    }
+    if (counts.length === 0) return;
+
+    setSaving(true);
+    try {
+      setStocktake(await saveStocktakeCounts(stocktake.id, counts));
+      setDrafts({});
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao salvar contagem");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApprove = () => {
+    if (pendingDrafts > 0) {
+      Alert.alert("Contagem não salva", "Salve a contagem deste aparelho antes de aprovar o inventário.");
+      return;
+    }
+    const uncounted = stocktake.items.length - countedItems.length;
+    Alert.alert(
+      "Aprovar Inventário",
+      [
+        varianceItems.length > 0
+          ? `${varianceItems.length} item(ns) com diferença serão ajustados no estoque (+${surplus} / -${shortage}).`
+          : "Nenhuma diferença encontrada; o estoque não muda.",
+        uncounted > 0 ? `${uncounted} item(ns) não contados ficam como estão.` : "",
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+      [
+        { text: "Voltar", style: "cancel" },
+        {
+          text: "Aprovar",
+          onPress: async () => {
+            try {
+              setStocktake(await approveStocktake(stocktake.id));
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            } catch (e: any) {
+              Alert.alert("Erro", e.message || "Falha ao aprovar inventário");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCancel = () => {
+    Alert.alert("Cancelar Inventário", "As contagens ficam registradas, mas o estoque não é ajustado.", [
+      { text: "Voltar", style: "cancel" },
+      {
+        text: "Cancelar Inventário",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            setStocktake(await cancelStocktake(stocktake.id));
+            setDrafts({});
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          } catch (e: any) {
+            Alert.alert("Erro", e.message || "Falha ao cancelar inventário");
+          }
+        },
+      },
+    ]);
+  };
+
+  const handlePrint = async () => {
+    let body = `<div class="summary-box">
+      <div class="summary-item"><div class="value">${countedItems.length}/${stocktake.items.length}</div><div class="label">Itens Contados</div></div>
+      <div class="summary-item"><div class="value">${varianceItems.length}</div><div class="label">Com Diferença</div></div>
+      <div class="summary-item"><div class="value entry">+${surplus}</div><div class="label">Sobras</div></div>
+      <div class="summary-item"><div class="value exit">-${shortage}</div><div class="label">Faltas</div></div>
+    </div>`;
+    if (stocktake.note) body += `<p style="margin-bottom:12px">${stocktake.note}</p>`;
+    body += `<div class="section-title">Itens</div><table><tr><th>Produto</th><th>Local</th><th style="text-align:right">Sistema</th><th style="text-align:right">Contado</th><th style="text-align:right">Diferença</th></tr>`;
+    stocktake.items.forEach((item) => {
+      const variance = stocktakeVariance(item);
+      const varianceClass = variance === null || variance === 0 ? "" : variance > 0 ? "entry" : "exit";
+      body += `<tr><td>${item.productName}</td><td>${item.locationName}</td><td style="text-align:right">${item.expectedQuantity}</td><td style="text-align:right">${item.countedQuantity ?? "-"}</td><td style="text-align:right" class="${varianceClass}">${variance === null ? "Não contado" : formatVariance(variance)}</td></tr>`;
+    });
+    body += `</table>`;
+
+    try {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      await printHtml(
+        buildReportHtml({
+          title: `Inventário ${stocktake.number} - ${stocktakeTarget(stocktake)}`,
+          meta: `Situação: ${STOCKTAKE_STATUS_LABELS[stocktake.status]} | Aberto em ${formatDateInput(stocktake.createdAt)}${
+            stocktake.closedAt ? ` | Encerrado em ${formatDateInput(stocktake.closedAt)}` : ""
+          }`,
+          body,
+        })
+      );
+    } catch {
+      Alert.alert("Erro", "Não foi possível imprimir o relatório.");
+    }
+  };
+
+  const renderItem = ({ item }: { item: StocktakeItem }) => {
+    const draft = drafts[item.id];
+    const shown = draft !== undefined ? draft : item.countedQuantity === null ? "" : String(item.countedQuantity);
+    const draftQuantity = draft !== undefined && draft.trim() ? parseInt(draft) : null;
+    const variance =
+      draft !== undefined
+        ? draftQuantity === null || isNaN(draftQuantity)
+          ? null
+          : draftQuantity - item.expectedQuantity
+        : stocktakeVariance(item);
+
+    return (
+      <View style={styles.itemRow}>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName} numberOfLines={1}>{item.productName}</Text>
+          <Text style={styles.itemMeta} numberOfLines={1}>
+            {item.locationName} · Sistema: {item.expectedQuantity} {item.productUnit}
+          </Text>
+          {variance !== null && variance !== 0 && (
+            <Text style={[styles.itemVariance, { color: variance > 0 ? Colors.success : Colors.danger }]}>
+              {variance > 0 ? "Sobra" : "Falta"} de {Math.abs(variance)} {item.productUnit}
+            </Text>
+          )}
+        </View>
+        {canCount ? (
+          <TextInput
+            style={[styles.countInput, draft !== undefined && styles.countInputDirty]}
+            placeholder="-"
+            placeholderTextColor={Colors.textTertiary}
+            value={shown}
+            onChangeText={(text) => updateDraft(item, text)}
+            keyboardType="number-pad"
+          />
+        ) : (
+          <View style={styles.itemResult}>
+            <Text style={styles.itemCounted}>{item.countedQuantity ?? "-"}</Text>
+            <Text style={styles.itemCountedLabel}>{item.countedQuantity === null ? "não contado" : "contado"}</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={items}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+        ListHeaderComponent={
+          <>
+            <View style={styles.headerCard}>
+              <View style={styles.headerTop}>
+                <Text style={styles.stocktakeNumber}>Inventário {stocktake.number}</Text>
+                <View style={styles.headerActions}>
+                  <View style={[styles.statusBadge, { backgroundColor: statusColor.bg }]}>
+                    <Text style={[styles.statusText, { color: statusColor.color }]}>
+                      {STOCKTAKE_STATUS_LABELS[stocktake.status]}
+                    </Text>
+                  </View>
+                  <Pressable onPress={handlePrint} hitSlop={8} style={({ pressed }) => [styles.printBtn, pressed && { opacity: 0.7 }]}>
+                    <Ionicons name="print-outline" size={18} color={Colors.primary} />
+                  </Pressable>
+                </View>
+              </View>
+              <Text style={styles.targetText}>{stocktakeTarget(stocktake)}</Text>
+              <Text style={styles.metaText}>
+                Aberto em {formatDateInput(stocktake.createdAt)}
+                {stocktake.closedAt ? ` · Encerrado em ${formatDateInput(stocktake.closedAt)}` : ""}
+              </Text>
+              {stocktake.note ? <Text style={styles.noteText}>{stocktake.note}</Text> : null}
+            </View>
+
+            <View style={styles.summaryRow}>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryValue}>
+                  {countedItems.length}/{stocktake.items.length}
+                </Text>
+                <Text style={styles.summaryLabel}>contados</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={[styles.summaryValue, { color: Colors.success }]}>+{surplus}</Text>
+                <Text style={styles.summaryLabel}>sobras</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={[styles.summaryValue, { color: Colors.danger }]}>-{shortage}</Text>
+                <Text style={styles.summaryLabel}>faltas</Text>
+              </View>
+            </View>
+
+            <View style={styles.searchBar}>
+              <Ionicons name="search" size={16} color={Colors.textTertiary} />
+              <TextInput
+                style={styles.searchInput}
+                placeholder="Buscar produto"
+                placeholderTextColor={Colors.textTertiary}
+                value={search}
+                onChangeText={setSearch}
+              />
+            </View>
+            <View style={styles.chipRow}>
+              {(Object.keys(ITEM_FILTER_LABELS) as ItemFilter[]).map((f) => (
+                <Pressable
+                  key={f}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setFilter(f);
+                  }}
+                  style={[styles.chip, filter === f && styles.chipActive]}
+                >
+                  <Text style={[styles.chipText, filter === f && { color: Colors.white }]}>{ITEM_FILTER_LABELS[f]}</Text>
+                </Pressable>
+              ))}
+            </View>
+          </>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="clipboard-outline" size={40} color={Colors.textTertiary} />
+            <Text style={styles.emptyText}>Nenhum item neste filtro</Text>
+          </View>
+        }
+        ListFooterComponent={
+          <>
+            {canCount && (
+              <Pressable
+                onPress={handleSave}
+                disabled={saving || pendingDrafts === 0}
+                style={({ pressed }) => [
+                  styles.primaryBtn,
+                  pressed && { opacity: 0.9 },
+                  (saving || pendingDrafts === 0) && { opacity: 0.6 },
+                ]}
+              >
+                <Ionicons name="save-outline" size={18} color={Colors.white} />
+                <Text style={styles.primaryBtnText}>
+                  {saving ? "Salvando..." : pendingDrafts > 0 ? `Salvar Contagem (${pendingDrafts})` : "Contagem Salva"}
+                </Text>
+              </Pressable>
+            )}
+            {counting && canManage && (
+              <>
+                <Pressable
+                  onPress={handleApprove}
+                  style={({ pressed }) => [styles.secondaryBtn, pressed && { opacity: 0.8 }]}
+                >
+                  <Ionicons name="checkmark-done-outline" size={18} color={Colors.primary} />
+                  <Text style={styles.secondaryBtnText}>Aprovar e Ajustar Estoque</Text>
+                </Pressable>
+                <Pressable onPress={handleCancel} style={({ pressed }) => [styles.dangerBtn, pressed && { opacity: 0.8 }]}>
+                  <Ionicons name="close-circle-outline" size={18} color={Colors.danger} />
+                  <Text style={styles.dangerBtnText}>Cancelar Inventário</Text>
+                </Pressable>
+              </>
+            )}
+            <View style={{ height: Platform.OS === "web" ? 34 : 40 }} />
+          </>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  headerCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    marginBottom: 16,
+  },
+  headerTop: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  stocktakeNumber: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  statusText: {
+    fontSize: 12,
+    fontFamily: "Inter_600SemiBold",
+  },
+  printBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 10,
+    backgroundColor: "#E0F2F1",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  targetText: {
+    fontSize: 14,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+    marginTop: 6,
+  },
+  metaText: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 8,
+  },
+  noteText: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+    marginTop: 8,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    gap: 10,
+    marginBottom: 16,
+  },
+  summaryItem: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  summaryLabel: {
+    fontSize: 11,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  searchBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    paddingHorizontal: 12,
+    marginBottom: 10,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 10,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemName: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  itemMeta: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  itemVariance: {
+    fontSize: 12,
+    fontFamily: "Inter_600SemiBold",
+    marginTop: 2,
+  },
+  countInput: {
+    width: 72,
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingVertical: 8,
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+    textAlign: "center",
+  },
+  countInputDirty: {
+    borderColor: Colors.warning,
+    backgroundColor: Colors.warningLight,
+  },
+  itemResult: {
+    alignItems: "flex-end",
+  },
+  itemCounted: {
+    fontSize: 16,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  itemCountedLabel: {
+    fontSize: 11,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 40,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textTertiary,
+  },
+  primaryBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    marginTop: 12,
+  },
+  primaryBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+  secondaryBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#E0F2F1",
+    marginTop: 12,
+  },
+  secondaryBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+  dangerBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.dangerLight,
+    marginTop: 12,
+  },
+  dangerBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.danger,
+  },
+});
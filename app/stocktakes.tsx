@@ -0,0 +1,510 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  Platform,
+  Modal,
+  TextInput,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router, useFocusEffect } from "expo-router";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { STOCKTAKE_STATUS_COLORS } from "@/constants/stocktakes";
+import { useAuth } from "@/components/AuthProvider";
+import { formatDateInput } from "@/lib/dates";
+import {
+  addStocktake,
+  getCategories,
+  getLocations,
+  getStocktakes,
+  Category,
+  Location,
+  StocktakeSummary,
+} from "@/lib/storage";
+import {
+  STOCKTAKE_SCOPES,
+  STOCKTAKE_SCOPE_LABELS,
+  STOCKTAKE_STATUS_LABELS,
+  StocktakeScope,
+  stocktakeTarget,
+} from "@shared/stocktakes";
+
+type StatusFilter = "open" | "all";
+
+function StocktakeCard({ stocktake }: { stocktake: StocktakeSummary }) {
+  const statusColor = STOCKTAKE_STATUS_COLORS[stocktake.status];
+
+  return (
+    <Pressable
+      onPress={() => router.push({ pathname: "/stocktake/[id]", params: { id: stocktake.id } })}
+      style={({ pressed }) => [styles.card, pressed && { opacity: 0.85 }]}
+    >
+      <View style={styles.cardTop}>
+        <View style={styles.cardInfo}>
+          <Text style={styles.stocktakeNumber}>Inventário {stocktake.number}</Text>
+          <View style={styles.targetRow}>
+            <Ionicons
+              name={stocktake.scope === "location" ? "location-outline" : stocktake.scope === "category" ? "pricetag-outline" : "cube-outline"}
+              size={13}
+              color={Colors.textSecondary}
+            />
+            <Text style={styles.targetName} numberOfLines={1}>{stocktakeTarget(stocktake)}</Text>
+          </View>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: statusColor.bg }]}>
+          <Text style={[styles.statusText, { color: statusColor.color }]}>
+            {STOCKTAKE_STATUS_LABELS[stocktake.status]}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.cardMeta}>
+        <Text style={styles.metaText}>
+          {stocktake.countedCount}/{stocktake.itemCount} contados
+          {stocktake.varianceCount > 0 ? ` · ${stocktake.varianceCount} com diferença` : ""}
+        </Text>
+        <Text style={styles.metaText}>
+          {stocktake.closedAt
+            ? `Encerrado em ${formatDateInput(stocktake.closedAt)}`
+            : `Aberto em ${formatDateInput(stocktake.createdAt)}`}
+        </Text>
+      </View>
+    </Pressable>
+  );
+}
+
+export default function StocktakesScreen() {
+  const { can } = useAuth();
+  const canManage = can("stocktake:manage");
+  const [stocktakes, setStocktakes] = useState<StocktakeSummary[]>([]);
+  const [status, setStatus] = useState<StatusFilter>("open");
+  const [refreshing, setRefreshing] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [scope, setScope] = useState<StocktakeScope>("all");
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [locationId, setLocationId] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    setStocktakes(await getStocktakes(status));
+  }, [status]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  };
+
+  const openNew = async () => {
+    const [cats, locs] = await Promise.all([getCategories(), getLocations()]);
+    setCategories(cats);
+    setLocations(locs);
+    setScope("all");
+    setCategoryId(cats[0]?.id ?? null);
+    setLocationId((locs.find((l) => l.isDefault) ?? locs[0])?.id ?? null);
+    setNote("");
+    setModalVisible(true);
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const created = await addStocktake({
+        scope,
+        categoryId: scope === "category" ? categoryId : null,
+        locationId: scope === "location" ? locationId : null,
+        note: note.trim() || null,
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setModalVisible(false);
+      router.push({ pathname: "/stocktake/[id]", params: { id: created.id } });
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao abrir inventário");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filters}>
+        {(["open", "all"] as const).map((s) => (
+          <Pressable
+            key={s}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setStatus(s);
+            }}
+            style={[styles.filterChip, status === s && styles.filterChipActive]}
+          >
+            <Text style={[styles.filterChipText, status === s && styles.filterChipTextActive]}>
+              {s === "open" ? "Em contagem" : "Todos"}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <FlatList
+        data={stocktakes}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => <StocktakeCard stocktake={item} />}
+        contentContainerStyle={styles.listContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          canManage ? (
+            <Pressable onPress={openNew} style={({ pressed }) => [styles.addRow, pressed && { opacity: 0.8 }]}>
+              <View style={styles.addIconWrap}>
+                <Ionicons name="add" size={22} color={Colors.white} />
+              </View>
+              <Text style={styles.addText}>Novo Inventário</Text>
+            </Pressable>
+          ) : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="clipboard-outline" size={48} color={Colors.textTertiary} />
+            <Text style={styles.emptyTitle}>Nenhum inventário</Text>
+            <Text style={styles.emptyText}>
+              {status === "open" ? "Nenhuma contagem em andamento" : "Abra um inventário para conferir o estoque"}
+            </Text>
+          </View>
+        }
+      />
+
+      <Modal visible={modalVisible} animationType="slide" transparent onRequestClose={() => setModalVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Novo Inventário</Text>
+              <Pressable onPress={() => setModalVisible(false)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+            <ScrollView style={styles.modalScroll} keyboardShouldPersistTaps="handled">
+              <Text style={styles.fieldLabel}>Contar</Text>
+              <View style={styles.chipRow}>
+                {STOCKTAKE_SCOPES.map((s) => (
+                  <Pressable
+                    key={s}
+                    onPress={() => {
+                      Haptics.selectionAsync();
+                      setScope(s);
+                    }}
+                    style={[styles.chip, scope === s && styles.chipActive]}
+                  >
+                    <Text style={[styles.chipText, scope === s && { color: Colors.white }]}>
+                      {STOCKTAKE_SCOPE_LABELS[s]}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+
+              {scope === "category" && (
+                <>
+                  <Text style={styles.fieldLabel}>Categoria</Text>
+                  <View style={styles.chipRow}>
+                    {categories.map((c) => (
+                      <Pressable
+                        key={c.id}
+                        onPress={() => {
+                          Haptics.selectionAsync();
+                          setCategoryId(c.id);
+                        }}
+                        style={[styles.chip, categoryId === c.id && styles.chipActive]}
+                      >
+                        <Text style={[styles.chipText, categoryId === c.id && { color: Colors.white }]}>{c.name}</Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                </>
+              )}
+
+              {scope === "location" && (
+                <>
+                  <Text style={styles.fieldLabel}>Local</Text>
+                  <View style={styles.chipRow}>
+                    {locations.map((l) => (
+                      <Pressable
+                        key={l.id}
+                        onPress={() => {
+                          Haptics.selectionAsync();
+                          setLocationId(l.id);
+                        }}
+                        style={[styles.chip, locationId === l.id && styles.chipActive]}
+                      >
+                        <Text style={[styles.chipText, locationId === l.id && { color: Colors.white }]}>{l.name}</Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                </>
+              )}
+
+              <Text style={styles.hintText}>
+                O saldo de cada item é registrado agora. Produtos com número de série são conferidos pelas unidades.
+              </Text>
+
+              <TextInput
+                style={styles.modalInput}
+                placeholder="Observação (opcional)"
+                placeholderTextColor={Colors.textTertiary}
+                value={note}
+                onChangeText={setNote}
+              />
+            </ScrollView>
+            <Pressable
+              onPress={handleCreate}
+              disabled={saving}
+              style={({ pressed }) => [styles.primaryBtn, pressed && { opacity: 0.9 }, saving && { opacity: 0.6 }]}
+            >
+              <Ionicons name="clipboard-outline" size={18} color={Colors.white} />
+              <Text style={styles.primaryBtnText}>{saving ? "Abrindo..." : "Abrir Inventário"}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  filters: {
+    flexDirection: "row",
+    gap: 8,
+    backgroundColor: Colors.surface,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 20,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  filterChipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  filterChipTextActive: {
+    color: Colors.white,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderStyle: "dashed" as const,
+  },
+  addIconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: Colors.primary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  addText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  cardTop: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  stocktakeNumber: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  targetRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 3,
+  },
+  targetName: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+    flexShrink: 1,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  statusText: {
+    fontSize: 11,
+    fontFamily: "Inter_600SemiBold",
+  },
+  cardMeta: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: Colors.borderLight,
+  },
+  metaText: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 60,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalCard: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  modalScroll: {
+    maxHeight: 420,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 6,
+    textTransform: "uppercase" as const,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  hintText: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+  modalInput: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginTop: 12,
+  },
+  primaryBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    marginTop: 12,
+  },
+  primaryBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+});
@@ -0,0 +1,522 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  FlatList,
+  Pressable,
+  TextInput,
+  Alert,
+  Platform,
+  Modal,
+  ScrollView,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "expo-router";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useAuth } from "@/components/AuthProvider";
+import { getSuppliers, addSupplier, updateSupplier, deleteSupplier, Supplier, SupplierInput } from "@/lib/storage";
+import { formatCnpj, isValidCnpj } from "@shared/suppliers";
+
+function SupplierRow({
+  supplier,
+  onEdit,
+  onDelete,
+}: {
+  supplier: Supplier;
+  onEdit?: (supplier: Supplier) => void;
+  onDelete?: (supplier: Supplier) => void;
+}) {
+  const contact = [supplier.contactName, supplier.phone, supplier.email].filter(Boolean).join(" · ");
+  return (
+    <View style={styles.supplierRow}>
+      <View style={styles.supplierIcon}>
+        <Ionicons name="business-outline" size={20} color="#DB2777" />
+      </View>
+      <View style={styles.supplierInfo}>
+        <Text style={styles.supplierName}>{supplier.name}</Text>
+        {supplier.cnpj && <Text style={styles.supplierMeta}>CNPJ {formatCnpj(supplier.cnpj)}</Text>}
+        {contact !== "" && <Text style={styles.supplierMeta}>{contact}</Text>}
+        <Text style={styles.supplierMeta}>
+          {supplier.leadTimeDays > 0 ? `Entrega em ${supplier.leadTimeDays} dias` : "Prazo não informado"}
+          {" · "}
+          {supplier.productCount} {supplier.productCount === 1 ? "produto" : "produtos"}
+        </Text>
+      </View>
+      <View style={styles.supplierActions}>
+        {onEdit && (
+          <Pressable
+            onPress={() => onEdit(supplier)}
+            style={({ pressed }) => [styles.iconBtn, pressed && { opacity: 0.6 }]}
+          >
+            <Ionicons name="create-outline" size={20} color={Colors.primary} />
+          </Pressable>
+        )}
+        {onDelete && (
+          <Pressable
+            onPress={() => onDelete(supplier)}
+            style={({ pressed }) => [styles.iconBtn, pressed && { opacity: 0.6 }]}
+          >
+            <Ionicons name="trash-outline" size={20} color={Colors.danger} />
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+}
+
+export default function SuppliersScreen() {
+  const { can } = useAuth();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [name, setName] = useState("");
+  const [cnpj, setCnpj] = useState("");
+  const [contactName, setContactName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [leadTime, setLeadTime] = useState("");
+  const [note, setNote] = useState("");
+
+  const loadData = useCallback(async () => {
+    setSuppliers(await getSuppliers());
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const openAdd = () => {
+    setEditingSupplier(null);
+    setName("");
+    setCnpj("");
+    setContactName("");
+    setPhone("");
+    setEmail("");
+    setLeadTime("");
+    setNote("");
+    setModalVisible(true);
+  };
+
+  const openEdit = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setName(supplier.name);
+    setCnpj(supplier.cnpj ? formatCnpj(supplier.cnpj) : "");
+    setContactName(supplier.contactName ?? "");
+    setPhone(supplier.phone ?? "");
+    setEmail(supplier.email ?? "");
+    setLeadTime(supplier.leadTimeDays > 0 ? String(supplier.leadTimeDays) : "");
+    setNote(supplier.note ?? "");
+    setModalVisible(true);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Erro", "Informe o nome do fornecedor");
+      return;
+    }
+    if (cnpj.trim() && !isValidCnpj(cnpj)) {
+      Alert.alert("Erro", "CNPJ inválido");
+      return;
+    }
+    const leadTimeDays = leadTime.trim() ? parseInt(leadTime, 10) : 0;
+    if (isNaN(leadTimeDays) || leadTimeDays < 0) {
+      Alert.alert("Erro", "Informe um prazo de entrega válido");
+      return;
+    }
+    const data: SupplierInput = {
+      name: name.trim(),
+      cnpj: cnpj.trim() || null,
+      contactName: contactName.trim() || null,
+      phone: phone.trim() || null,
+      email: email.trim() || null,
+      leadTimeDays,
+      note: note.trim() || null,
+    };
+    try {
+      if (editingSupplier) {
+        await updateSupplier(editingSupplier.id, data);
+      } else {
+        await addSupplier(data);
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setModalVisible(false);
+      loadData();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao salvar fornecedor");
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (supplier.productCount > 0) {
+      Alert.alert(
+        "Fornecedor em uso",
+        `Este fornecedor está ligado a ${supplier.productCount} ${supplier.productCount === 1 ? "produto" : "produtos"}. Remova os vínculos na tela de cada produto antes de excluir.`
+      );
+      return;
+    }
+    const remove = async () => {
+      try {
+        await deleteSupplier(supplier.id);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        loadData();
+      } catch (e: any) {
+        Alert.alert("Erro", e.message || "Falha ao excluir fornecedor");
+      }
+    };
+    if (Platform.OS === "web") {
+      const confirmed = window.confirm(`Excluir "${supplier.name}"?`);
+      if (!confirmed) return;
+      await remove();
+    } else {
+      Alert.alert("Excluir Fornecedor", `"${supplier.name}" será excluído.`, [
+        { text: "Cancelar", style: "cancel" },
+        { text: "Excluir", style: "destructive", onPress: remove },
+      ]);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={suppliers}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <SupplierRow
+            supplier={item}
+            onEdit={can("supplier:manage") ? openEdit : undefined}
+            onDelete={can("supplier:manage") ? handleDelete : undefined}
+          />
+        )}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          can("supplier:manage") ? (
+            <Pressable
+              onPress={openAdd}
+              style={({ pressed }) => [styles.addRow, pressed && { opacity: 0.8 }]}
+            >
+              <View style={styles.addIconWrap}>
+                <Ionicons name="add" size={22} color={Colors.white} />
+              </View>
+              <Text style={styles.addText}>Novo Fornecedor</Text>
+            </Pressable>
+          ) : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="business-outline" size={48} color={Colors.textTertiary} />
+            <Text style={styles.emptyTitle}>Nenhum fornecedor</Text>
+            <Text style={styles.emptyText}>Cadastre fornecedores e ligue-os aos produtos</Text>
+          </View>
+        }
+      />
+
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {editingSupplier ? "Editar Fornecedor" : "Novo Fornecedor"}
+              </Text>
+              <Pressable onPress={() => setModalVisible(false)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+
+            <ScrollView style={styles.modalScroll} keyboardShouldPersistTaps="handled">
+              <Text style={styles.label}>Nome</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Ex: Distribuidora Elétrica"
+                placeholderTextColor={Colors.textTertiary}
+                value={name}
+                onChangeText={setName}
+                autoFocus
+              />
+
+              <Text style={styles.label}>CNPJ</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="00.000.000/0000-00"
+                placeholderTextColor={Colors.textTertiary}
+                value={cnpj}
+                onChangeText={setCnpj}
+                onBlur={() => setCnpj((value) => formatCnpj(value))}
+                keyboardType="number-pad"
+              />
+
+              <Text style={styles.label}>Contato</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Nome do vendedor"
+                placeholderTextColor={Colors.textTertiary}
+                value={contactName}
+                onChangeText={setContactName}
+              />
+
+              <View style={styles.row}>
+                <View style={styles.halfField}>
+                  <Text style={styles.label}>Telefone</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="(00) 00000-0000"
+                    placeholderTextColor={Colors.textTertiary}
+                    value={phone}
+                    onChangeText={setPhone}
+                    keyboardType="phone-pad"
+                  />
+                </View>
+                <View style={styles.halfField}>
+                  <Text style={styles.label}>Prazo (dias)</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="0"
+                    placeholderTextColor={Colors.textTertiary}
+                    value={leadTime}
+                    onChangeText={setLeadTime}
+                    keyboardType="number-pad"
+                  />
+                </View>
+              </View>
+
+              <Text style={styles.label}>E-mail</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="vendas@fornecedor.com.br"
+                placeholderTextColor={Colors.textTertiary}
+                value={email}
+                onChangeText={setEmail}
+                keyboardType="email-address"
+                autoCapitalize="none"
+              />
+
+              <Text style={styles.label}>Observações</Text>
+              <TextInput
+                style={[styles.input, styles.noteInput]}
+                placeholder="Condições de pagamento, pedido mínimo..."
+                placeholderTextColor={Colors.textTertiary}
+                value={note}
+                onChangeText={setNote}
+                multiline
+              />
+            </ScrollView>
+
+            <View style={styles.modalActions}>
+              <Pressable
+                onPress={() => setModalVisible(false)}
+                style={({ pressed }) => [styles.cancelBtn, pressed && { opacity: 0.8 }]}
+              >
+                <Text style={styles.cancelBtnText}>Cancelar</Text>
+              </Pressable>
+              <Pressable
+                onPress={handleSave}
+                style={({ pressed }) => [styles.saveBtn, pressed && { opacity: 0.8 }]}
+              >
+                <Ionicons name="checkmark" size={18} color={Colors.white} />
+                <Text style={styles.saveBtnText}>
+                  {editingSupplier ? "Salvar" : "Criar"}
+                </Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderStyle: "dashed" as const,
+  },
+  addIconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: Colors.primary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  addText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+  supplierRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  supplierIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    backgroundColor: "#FCE7F3",
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 14,
+  },
+  supplierInfo: {
+    flex: 1,
+  },
+  supplierName: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  supplierMeta: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  supplierActions: {
+    flexDirection: "row",
+    gap: 4,
+  },
+  iconBtn: {
+    width: 38,
+    height: 38,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 60,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalCard: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  modalScroll: {
+    maxHeight: 460,
+    marginBottom: 4,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 8,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginBottom: 20,
+  },
+  noteInput: {
+    minHeight: 72,
+    textAlignVertical: "top" as const,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  halfField: {
+    flex: 1,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  cancelBtn: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  cancelBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+  },
+  saveBtn: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+  },
+  saveBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+});
@@ -0,0 +1,271 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  Pressable,
+  Alert,
+  Platform,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "expo-router";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useAuth } from "@/components/AuthProvider";
+import {
+  getProducts,
+  getCategories,
+  restoreProduct,
+  purgeProduct,
+  restoreCategory,
+  purgeCategory,
+  Product,
+  Category,
+} from "@/lib/storage";
+
+function formatDate(iso: string): string {
+  const d = new Date(iso);
+  return `${d.getDate().toString().padStart(2, "0")}/${(d.getMonth() + 1).toString().padStart(2, "0")}/${d.getFullYear()}`;
+}
+
+function confirmPurge(name: string, onConfirm: () => void) {
+  const message = `"${name}" será excluído definitivamente. Esta ação não pode ser desfeita.`;
+  if (Platform.OS === "web") {
+    if (window.confirm(message)) onConfirm();
+    return;
+  }
+  Alert.alert("Excluir Definitivamente", message, [
+    { text: "Cancelar", style: "cancel" },
+    { text: "Excluir", style: "destructive", onPress: onConfirm },
+  ]);
+}
+
+function TrashRow({
+  title,
+  subtitle,
+  color,
+  onRestore,
+  onPurge,
+}: {
+  title: string;
+  subtitle: string;
+  color?: string;
+  onRestore: () => void;
+  onPurge: () => void;
+}) {
+  return (
+    <View style={styles.row}>
+      <View style={styles.rowInfo}>
+        {color && <View style={[styles.colorDot, { backgroundColor: color }]} />}
+        <View style={styles.rowText}>
+          <Text style={styles.rowTitle} numberOfLines={1}>{title}</Text>
+          <Text style={styles.rowSubtitle}>{subtitle}</Text>
+        </View>
+      </View>
+      <View style={styles.rowActions}>
+        <Pressable
+          onPress={onRestore}
+          style={({ pressed }) => [styles.actionBtn, styles.restoreBtn, pressed && { opacity: 0.7 }]}
+        >
+          <Ionicons name="arrow-undo-outline" size={16} color={Colors.primary} />
+        </Pressable>
+        <Pressable
+          onPress={onPurge}
+          style={({ pressed }) => [styles.actionBtn, styles.purgeBtn, pressed && { opacity: 0.7 }]}
+        >
+          <Ionicons name="trash-outline" size={16} color={Colors.danger} />
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+export default function TrashScreen() {
+  const { can } = useAuth();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  const canProducts = can("product:delete");
+  const canCategories = can("category:delete");
+
+  const loadData = useCallback(async () => {
+    const [p, c] = await Promise.all([
+      canProducts ? getProducts("only") : Promise.resolve([]),
+      canCategories ? getCategories("only") : Promise.resolve([]),
+    ]);
+    setProducts(p);
+    setCategories(c);
+  }, [canProducts, canCategories]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      loadData();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || fallback);
+    }
+  };
+
+  const isEmpty = products.length === 0 && categories.length === 0;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+      <View style={styles.infoCard}>
+        <Ionicons name="information-circle-outline" size={18} color={Colors.textSecondary} />
+        <Text style={styles.infoText}>
+          Itens na lixeira não aparecem nas telas de operação, mas continuam nos relatórios.
+        </Text>
+      </View>
+
+      {isEmpty && (
+        <View style={styles.emptyState}>
+          <Ionicons name="trash-outline" size={48} color={Colors.textTertiary} />
+          <Text style={styles.emptyTitle}>Lixeira vazia</Text>
+        </View>
+      )}
+
+      {products.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Produtos</Text>
+          {products.map((p) => (
+            <TrashRow
+              key={p.id}
+              title={p.name}
+              subtitle={`Removido em ${formatDate(p.deletedAt!)} · ${p.quantity} ${p.unit}`}
+              onRestore={() => run(() => restoreProduct(p.id), "Falha ao restaurar produto")}
+              onPurge={() =>
+                confirmPurge(p.name, () => run(() => purgeProduct(p.id), "Falha ao excluir produto"))
+              }
+            />
+          ))}
+        </>
+      )}
+
+      {categories.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Categorias</Text>
+          {categories.map((c) => (
+            <TrashRow
+              key={c.id}
+              title={c.name}
+              subtitle={`Removida em ${formatDate(c.deletedAt!)}`}
+              color={c.color}
+              onRestore={() => run(() => restoreCategory(c.id), "Falha ao restaurar categoria")}
+              onPurge={() =>
+                confirmPurge(c.name, () => run(() => purgeCategory(c.id), "Falha ao excluir categoria"))
+              }
+            />
+          ))}
+        </>
+      )}
+
+      <View style={{ height: Platform.OS === "web" ? 34 : 40 }} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  infoCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  rowInfo: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginRight: 8,
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  rowActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  actionBtn: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  restoreBtn: {
+    backgroundColor: "#E0F2F1",
+  },
+  purgeBtn: {
+    backgroundColor: Colors.dangerLight,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 60,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+});
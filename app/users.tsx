@@ -0,0 +1,368 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  FlatList,
+  Pressable,
+  TextInput,
+  Alert,
+  Platform,
+  Modal,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "expo-router";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useAuth } from "@/components/AuthProvider";
+import { getUsers, addUser, updateUserRole, AuthUser } from "@/lib/storage";
+import { USER_ROLES, ROLE_LABELS, UserRole } from "@shared/permissions";
+
+const ROLE_COLORS: Record<UserRole, string> = {
+  admin: "#8B5CF6",
+  stock_keeper: Colors.primary,
+  technician: "#3B82F6",
+};
+
+function RoleChips({ value, onChange }: { value: UserRole; onChange: (role: UserRole) => void }) {
+  return (
+    <View style={styles.roleRow}>
+      {USER_ROLES.map((role) => (
+        <Pressable
+          key={role}
+          onPress={() => {
+            Haptics.selectionAsync();
+            onChange(role);
+          }}
+          style={[
+            styles.roleChip,
+            value === role && { backgroundColor: ROLE_COLORS[role], borderColor: ROLE_COLORS[role] },
+          ]}
+        >
+          <Text style={[styles.roleChipText, value === role && { color: Colors.white }]}>
+            {ROLE_LABELS[role]}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+function UserRow({
+  user,
+  isSelf,
+  onChangeRole,
+}: {
+  user: AuthUser;
+  isSelf: boolean;
+  onChangeRole: (user: AuthUser, role: UserRole) => void;
+}) {
+  return (
+    <View style={styles.userRow}>
+      <View style={styles.userHeader}>
+        <Ionicons name="person-circle-outline" size={28} color={ROLE_COLORS[user.role]} />
+        <View style={styles.userInfo}>
+          <Text style={styles.userName}>{user.username}{isSelf ? " (você)" : ""}</Text>
+          <Text style={styles.userRole}>{ROLE_LABELS[user.role]}</Text>
+        </View>
+      </View>
+      {!isSelf && <RoleChips value={user.role} onChange={(role) => onChangeRole(user, role)} />}
+    </View>
+  );
+}
+
+export default function UsersScreen() {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<AuthUser[]>([]);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("technician");
+
+  const loadData = useCallback(async () => {
+    setUsers(await getUsers());
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const openAdd = () => {
+    setUsername("");
+    setPassword("");
+    setRole("technician");
+    setModalVisible(true);
+  };
+
+  const handleSave = async () => {
+    if (!username.trim() || !password) {
+      Alert.alert("Erro", "Informe usuário e senha");
+      return;
+    }
+    try {
+      await addUser(username.trim(), password, role);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setModalVisible(false);
+      loadData();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao criar usuário");
+    }
+  };
+
+  const handleChangeRole = async (user: AuthUser, newRole: UserRole) => {
+    if (user.role === newRole) return;
+    try {
+      await updateUserRole(user.id, newRole);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      loadData();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao alterar perfil");
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={users}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <UserRow user={item} isSelf={item.id === currentUser?.id} onChangeRole={handleChangeRole} />
+        )}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          <Pressable
+            onPress={openAdd}
+            style={({ pressed }) => [styles.addRow, pressed && { opacity: 0.8 }]}
+          >
+            <View style={styles.addIconWrap}>
+              <Ionicons name="person-add" size={20} color={Colors.white} />
+            </View>
+            <Text style={styles.addText}>Novo Usuário</Text>
+          </Pressable>
+        }
+      />
+
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Novo Usuário</Text>
+              <Pressable onPress={() => setModalVisible(false)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+
+            <Text style={styles.label}>Usuário</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Ex: joao.silva"
+              placeholderTextColor={Colors.textTertiary}
+              value={username}
+              onChangeText={setUsername}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            <Text style={styles.label}>Senha inicial</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Mínimo 6 caracteres"
+              placeholderTextColor={Colors.textTertiary}
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+            />
+
+            <Text style={styles.label}>Perfil</Text>
+            <RoleChips value={role} onChange={setRole} />
+
+            <View style={styles.modalActions}>
+              <Pressable
+                onPress={() => setModalVisible(false)}
+                style={({ pressed }) => [styles.cancelBtn, pressed && { opacity: 0.8 }]}
+              >
+                <Text style={styles.cancelBtnText}>Cancelar</Text>
+              </Pressable>
+              <Pressable
+                onPress={handleSave}
+                style={({ pressed }) => [styles.saveBtn, pressed && { opacity: 0.8 }]}
+              >
+                <Ionicons name="checkmark" size={18} color={Colors.white} />
+                <Text style={styles.saveBtnText}>Criar</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderStyle: "dashed" as const,
+  },
+  addIconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: Colors.primary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  addText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+  userRow: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    gap: 12,
+  },
+  userHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  userInfo: {
+    flex: 1,
+  },
+  userName: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  userRole: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  roleRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 4,
+  },
+  roleChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  roleChipText: {
+    fontSize: 12,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalCard: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 8,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginBottom: 20,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelBtn: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  cancelBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+  },
+  saveBtn: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+  },
+  saveBtnText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+});
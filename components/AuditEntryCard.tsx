@@ -0,0 +1,225 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import Colors from "@/constants/colors";
+import type { AuditEntry, Category } from "@/lib/storage";
+import { ROLE_LABELS, type UserRole } from "@shared/permissions";
+import { LOCATION_KIND_LABELS, type LocationKind } from "@shared/locations";
+import { PRODUCT_KIND_LABELS, UNIT_STATUS_LABELS, type ProductKind, type UnitStatus } from "@shared/products";
+import { formatCnpj } from "@shared/suppliers";
+import { PURCHASE_ORDER_STATUS_LABELS, type PurchaseOrderStatus } from "@shared/purchases";
+import {
+  STOCKTAKE_SCOPE_LABELS,
+  STOCKTAKE_STATUS_LABELS,
+  type StocktakeScope,
+  type StocktakeStatus,
+} from "@shared/stocktakes";
+import { MOVEMENT_TYPE_LABELS, type MovementType } from "@shared/movements";
+
+const ENTITY_LABELS: Record<AuditEntry["entityType"], string> = {
+  product: "Produto",
+  category: "Categoria",
+  movement: "Movimentação",
+  user: "Usuário",
+  location: "Local",
+  checkout: "Retirada",
+  unit: "Unidade",
+  maintenance: "Manutenção",
+  supplier: "Fornecedor",
+  purchase_order: "Pedido de compra",
+  stocktake: "Inventário",
+  adjustment_reason: "Motivo de ajuste",
+  movement_document: "Documento",
+  backup: "Backup",
+};
+
+const ACTION_CONFIG: Record<
+  AuditEntry["action"],
+  { label: string; icon: keyof typeof Ionicons.glyphMap; color: string; bg: string }
+> = {
+  create: { label: "Criou", icon: "add-circle-outline", color: Colors.success, bg: Colors.successLight },
+  update: { label: "Alterou", icon: "create-outline", color: "#3B82F6", bg: "#DBEAFE" },
+  archive: { label: "Moveu para a lixeira", icon: "archive-outline", color: Colors.textSecondary, bg: Colors.surfaceElevated },
+  restore: { label: "Restaurou", icon: "arrow-undo-outline", color: Colors.primary, bg: "#E0F2F1" },
+  delete: { label: "Excluiu", icon: "trash-outline", color: Colors.danger, bg: Colors.dangerLight },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Nome",
+  color: "Cor",
+  categoryId: "Categoria",
+  quantity: "Quantidade",
+  minStock: "Estoque mínimo",
+  price: "Preço",
+  unit: "Unidade",
+  type: "Tipo",
+  note: "Observação",
+  username: "Usuário",
+  role: "Perfil",
+  kind: "Tipo",
+  returnedQuantity: "Devolvido",
+  lostQuantity: "Perdido",
+  damagedQuantity: "Avariado",
+  serialized: "Número de série",
+  status: "Situação",
+  location: "Local",
+  holder: "Com",
+  caNumber: "CA",
+  caExpiresAt: "Validade do CA",
+  cnpj: "CNPJ",
+  contactName: "Contato",
+  phone: "Telefone",
+  email: "E-mail",
+  leadTimeDays: "Prazo de entrega",
+  supplierSku: "Código no fornecedor",
+  lastPrice: "Último preço",
+  preferred: "Preferido",
+  expectedAt: "Entrega prevista",
+  averageCost: "Custo médio",
+  unitCost: "Custo unitário",
+  scope: "Abrangência",
+  reason: "Motivo",
+  itemCount: "Itens",
+  active: "Ativo",
+  number: "Número",
+  documentDate: "Data do documento",
+  supplier: "Fornecedor",
+  technician: "Técnico",
+};
+
+const CURRENCY_FIELDS = ["price", "lastPrice", "averageCost", "unitCost"];
+
+function formatDateTime(iso: string): string {
+  const d = new Date(iso);
+  return `${d.getDate().toString().padStart(2, "0")}/${(d.getMonth() + 1).toString().padStart(2, "0")}/${d.getFullYear()} ${d.getHours().toString().padStart(2, "0")}:${d.getMinutes().toString().padStart(2, "0")}`;
+}
+
+function formatValue(field: string, value: unknown, categories: Category[]): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (CURRENCY_FIELDS.includes(field)) return `R$ ${Number(value).toFixed(2).replace(".", ",")}`;
+  if (field === "categoryId") return categories.find((c) => c.id === value)?.name ?? String(value);
+  if (field === "caExpiresAt" || field === "expectedAt" || field === "documentDate") return formatDateTime(String(value)).slice(0, 10);
+  if (field === "serialized" || field === "preferred" || field === "active") return value ? "Sim" : "Não";
+  if (field === "cnpj") return formatCnpj(String(value));
+  if (field === "leadTimeDays") return `${value} dias`;
+  // Unidades, pedidos de compra e inventários também não repetem valores de `status`.
+  if (field === "status") {
+    return (
+      UNIT_STATUS_LABELS[value as UnitStatus] ??
+      PURCHASE_ORDER_STATUS_LABELS[value as PurchaseOrderStatus] ??
+      STOCKTAKE_STATUS_LABELS[value as StocktakeStatus] ??
+      String(value)
+    );
+  }
+  if (field === "scope") return STOCKTAKE_SCOPE_LABELS[value as StocktakeScope] ?? String(value);
+  if (field === "role") return ROLE_LABELS[value as UserRole] ?? String(value);
+  if (field === "type") return MOVEMENT_TYPE_LABELS[value as MovementType] ?? String(value);
+  // Locais e produtos usam `kind` com valores distintos, então basta procurar nos dois.
+  if (field === "kind") {
+    return LOCATION_KIND_LABELS[value as LocationKind] ?? PRODUCT_KIND_LABELS[value as ProductKind] ?? String(value);
+  }
+  return String(value);
+}
+
+export function AuditEntryCard({
+  entry,
+  categories = [],
+  showEntity = true,
+}: {
+  entry: AuditEntry;
+  categories?: Category[];
+  showEntity?: boolean;
+}) {
+  const action = ACTION_CONFIG[entry.action];
+  const changes =
+    entry.action === "update"
+      ? Object.keys(entry.after ?? {}).filter((field) => FIELD_LABELS[field])
+      : [];
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <View style={[styles.iconWrap, { backgroundColor: action.bg }]}>
+          <Ionicons name={action.icon} size={16} color={action.color} />
+        </View>
+        <View style={styles.headerInfo}>
+          <Text style={styles.title} numberOfLines={1}>
+            {action.label}
+            {showEntity ? ` ${ENTITY_LABELS[entry.entityType].toLowerCase()}` : ""}
+            {entry.entityName ? ` · ${entry.entityName}` : ""}
+          </Text>
+          <Text style={styles.meta}>
+            {formatDateTime(entry.createdAt)}
+            {entry.userName ? ` · ${entry.userName}` : ""}
+          </Text>
+        </View>
+      </View>
+
+      {changes.length > 0 && (
+        <View style={styles.changes}>
+          {changes.map((field) => (
+            <Text key={field} style={styles.changeText}>
+              <Text style={styles.changeLabel}>{FIELD_LABELS[field]}: </Text>
+              {formatValue(field, entry.before?.[field], categories)}
+              {"  →  "}
+              {formatValue(field, entry.after?.[field], categories)}
+            </Text>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  iconWrap: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  meta: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  changes: {
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: Colors.borderLight,
+    gap: 4,
+  },
+  changeText: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textSecondary,
+  },
+  changeLabel: {
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+});
@@ -0,0 +1,79 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn, queryClient } from "@/lib/query-client";
+import { loadAuthToken, onUnauthorized, setAuthToken } from "@/lib/auth-token";
+import { login as apiLogin, logout as apiLogout, registerFirstUser, AuthUser } from "@/lib/storage";
+import { can as roleCan, Permission } from "@shared/permissions";
+
+const ME_QUERY_KEY = ["/api/auth/me"];
+
+type AuthContextValue = {
+  user: AuthUser | null;
+  isLoading: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  register: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [tokenLoaded, setTokenLoaded] = useState(false);
+
+  useEffect(() => {
+    loadAuthToken().finally(() => setTokenLoaded(true));
+  }, []);
+
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: tokenLoaded,
+  });
+
+  useEffect(
+    () =>
+      onUnauthorized(() => {
+        setAuthToken(null);
+        queryClient.setQueryData(ME_QUERY_KEY, null);
+      }),
+    []
+  );
+
+  const login = useCallback(async (username: string, password: string) => {
+    const loggedUser = await apiLogin(username, password);
+    queryClient.setQueryData(ME_QUERY_KEY, loggedUser);
+  }, []);
+
+  const register = useCallback(async (username: string, password: string) => {
+    const createdUser = await registerFirstUser(username, password);
+    queryClient.setQueryData(ME_QUERY_KEY, createdUser);
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await apiLogout();
+    } finally {
+      queryClient.clear();
+      queryClient.setQueryData(ME_QUERY_KEY, null);
+    }
+  }, []);
+
+  const can = useCallback((permission: Permission) => roleCan(user?.role, permission), [user?.role]);
+
+  return (
+    <AuthContext.Provider
+      value={{ user: user ?? null, isLoading: !tokenLoaded || isLoading, login, register, logout, can }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth deve ser usado dentro de AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,645 @@
+import React, { useState } from "react";
+import { Alert, Modal, Platform, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { MAINTENANCE_KIND_ICONS } from "@/constants/products";
+import { UnitPicker } from "@/components/UnitPicker";
+import {
+  addMaintenanceEvent,
+  addMaintenancePlan,
+  deleteMaintenancePlan,
+  MaintenanceEvent,
+  MaintenancePlan,
+  MaintenanceStatus,
+  Product,
+  ProductUnit,
+} from "@/lib/storage";
+import { formatDateInput } from "@/lib/dates";
+import { MAINTENANCE_KINDS, MAINTENANCE_KIND_LABELS, MaintenanceKind, UNIT_STATUS_LABELS } from "@shared/products";
+
+const STATE_LABELS: Record<MaintenanceStatus["state"], string> = {
+  ok: "Em dia",
+  soon: "Em breve",
+  due: "Vencida",
+};
+
+const STATE_COLORS: Record<MaintenanceStatus["state"], { color: string; bg: string }> = {
+  ok: { color: Colors.success, bg: Colors.successLight },
+  soon: { color: Colors.warning, bg: Colors.warningLight },
+  due: { color: Colors.danger, bg: Colors.dangerLight },
+};
+
+function describeInterval(plan: MaintenancePlan): string {
+  const parts = [
+    plan.intervalDays ? `${plan.intervalDays} dias` : null,
+    plan.intervalUses ? `${plan.intervalUses} usos` : null,
+  ].filter(Boolean);
+  return `A cada ${parts.join(" ou ")}`;
+}
+
+/** Situação mais urgente entre as unidades cobertas pelo plano. */
+function worstState(statuses: MaintenanceStatus[]): MaintenanceStatus["state"] | null {
+  if (statuses.some((s) => s.state === "due")) return "due";
+  if (statuses.some((s) => s.state === "soon")) return "soon";
+  return statuses.length > 0 ? "ok" : null;
+}
+
+/** Planos de calibração e manutenção do produto, com o registro do que já foi feito. */
+export function MaintenanceSection({
+  product,
+  units,
+  plans,
+  events,
+  statuses,
+  canManage,
+  onChanged,
+}: {
+  product: Product;
+  units: ProductUnit[];
+  plans: MaintenancePlan[];
+  events: MaintenanceEvent[];
+  statuses: MaintenanceStatus[];
+  canManage: boolean;
+  onChanged: () => void;
+}) {
+  const [planVisible, setPlanVisible] = useState(false);
+  const [planKind, setPlanKind] = useState<MaintenanceKind>("calibration");
+  const [planUnitId, setPlanUnitId] = useState<string | null>(null);
+  const [description, setDescription] = useState("");
+  const [intervalDays, setIntervalDays] = useState("");
+  const [intervalUses, setIntervalUses] = useState("");
+
+  const [eventVisible, setEventVisible] = useState(false);
+  const [eventPlanId, setEventPlanId] = useState<string | null>(null);
+  const [eventKind, setEventKind] = useState<MaintenanceKind>("maintenance");
+  const [eventUnitId, setEventUnitId] = useState<string | null>(null);
+  const [cost, setCost] = useState("");
+  const [note, setNote] = useState("");
+  const [releaseUnit, setReleaseUnit] = useState(true);
+
+  const activeUnits = units.filter((u) => u.status !== "written_off");
+  const eventPlan = plans.find((p) => p.id === eventPlanId);
+  const eventUnit = units.find((u) => u.id === (eventPlan?.unitId ?? eventUnitId));
+
+  const openPlan = () => {
+    setPlanKind("calibration");
+    setPlanUnitId(null);
+    setDescription("");
+    setIntervalDays("");
+    setIntervalUses("");
+    setPlanVisible(true);
+  };
+
+  const openEvent = (plan?: MaintenancePlan) => {
+    setEventPlanId(plan?.id ?? null);
+    setEventKind(plan?.kind ?? "maintenance");
+    setEventUnitId(null);
+    setCost("");
+    setNote("");
+    setReleaseUnit(true);
+    setEventVisible(true);
+  };
+
+  const handleSavePlan = async () => {
+    const days = intervalDays.trim() ? parseInt(intervalDays, 10) : null;
+    const uses = intervalUses.trim() ? parseInt(intervalUses, 10) : null;
+    if ((days !== null && (isNaN(days) || days <= 0)) || (uses !== null && (isNaN(uses) || uses <= 0))) {
+      Alert.alert("Erro", "Informe intervalos maiores que zero");
+      return;
+    }
+    if (days === null && uses === null) {
+      Alert.alert("Erro", "Informe o intervalo em dias ou em usos");
+      return;
+    }
+    try {
+      await addMaintenancePlan({
+        productId: product.id,
+        unitId: planUnitId,
+        kind: planKind,
+        description: description.trim() || null,
+        intervalDays: days,
+        intervalUses: uses,
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setPlanVisible(false);
+      onChanged();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao criar plano");
+    }
+  };
+
+  const handleDeletePlan = (plan: MaintenancePlan) => {
+    Alert.alert("Excluir Plano", "Os registros já feitos continuam no histórico.", [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Excluir",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteMaintenancePlan(plan.id);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            onChanged();
+          } catch (e: any) {
+            Alert.alert("Erro", e.message || "Falha ao excluir plano");
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSaveEvent = async () => {
+    const value = cost.trim() ? parseFloat(cost.replace(",", ".")) : 0;
+    if (isNaN(value) || value < 0) {
+      Alert.alert("Erro", "Informe um custo válido");
+      return;
+    }
+    if (product.serialized && eventPlan && !eventUnit) {
+      Alert.alert("Erro", "Selecione a unidade atendida");
+      return;
+    }
+    try {
+      await addMaintenanceEvent({
+        productId: product.id,
+        unitId: eventUnit?.id ?? null,
+        planId: eventPlanId,
+        kind: eventPlan?.kind ?? eventKind,
+        cost: value,
+        note: note.trim() || null,
+        releaseUnit: eventUnit?.status === "in_repair" && releaseUnit,
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setEventVisible(false);
+      onChanged();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao registrar manutenção");
+    }
+  };
+
+  return (
+    <>
+      <View style={[styles.sectionHeader, styles.sectionHeaderRow]}>
+        <Text style={styles.sectionTitle}>Calibração e Manutenção</Text>
+        {canManage && (
+          <Pressable onPress={openPlan} style={({ pressed }) => [styles.sectionLink, pressed && { opacity: 0.7 }]}>
+            <Ionicons name="add" size={16} color={Colors.primary} />
+            <Text style={styles.sectionLinkText}>Novo plano</Text>
+          </Pressable>
+        )}
+      </View>
+
+      {plans.length === 0 && events.length === 0 ? (
+        <View style={styles.empty}>
+          <Ionicons name="construct-outline" size={32} color={Colors.textTertiary} />
+          <Text style={styles.emptyText}>Nenhum plano de manutenção</Text>
+        </View>
+      ) : (
+        <View style={styles.list}>
+          {plans.map((plan) => {
+            const planStatuses = statuses.filter((s) => s.planId === plan.id);
+            const state = worstState(planStatuses);
+            const overdue = planStatuses.filter((s) => s.state === "due").length;
+            const next = planStatuses.length === 1 ? planStatuses[0] : null;
+            return (
+              <Pressable
+                key={plan.id}
+                onPress={() => openEvent(plan)}
+                disabled={!canManage}
+                style={({ pressed }) => [styles.row, pressed && { opacity: 0.85 }]}
+              >
+                <View style={[styles.icon, { backgroundColor: "#E0F2F1" }]}>
+                  <Ionicons name={MAINTENANCE_KIND_ICONS[plan.kind]} size={14} color={Colors.primary} />
+                </View>
+                <View style={styles.info}>
+                  <Text style={styles.title}>
+                    {MAINTENANCE_KIND_LABELS[plan.kind]}
+                    {plan.description ? ` · ${plan.description}` : ""}
+                  </Text>
+                  <Text style={styles.subtitle}>
+                    {describeInterval(plan)}
+                    {plan.serial ? ` · ${plan.serial}` : ""}
+                    {next?.dueAt ? ` · Próxima: ${formatDateInput(next.dueAt)}` : ""}
+                    {next?.intervalUses ? ` · ${next.usesSince}/${next.intervalUses} usos` : ""}
+                    {planStatuses.length > 1 && overdue > 0
+                      ? ` · ${overdue} ${overdue === 1 ? "unidade vencida" : "unidades vencidas"}`
+                      : ""}
+                  </Text>
+                </View>
+                {state && (
+                  <View style={[styles.badge, { backgroundColor: STATE_COLORS[state].bg }]}>
+                    <Text style={[styles.badgeText, { color: STATE_COLORS[state].color }]}>{STATE_LABELS[state]}</Text>
+                  </View>
+                )}
+                {canManage && (
+                  <Pressable onPress={() => handleDeletePlan(plan)} hitSlop={8} style={{ marginLeft: 8 }}>
+                    <Ionicons name="trash-outline" size={16} color={Colors.textTertiary} />
+                  </Pressable>
+                )}
+              </Pressable>
+            );
+          })}
+          {events.map((event) => (
+            <View key={event.id} style={styles.row}>
+              <View style={[styles.icon, { backgroundColor: Colors.surfaceElevated }]}>
+                <Ionicons name="checkmark-done" size={14} color={Colors.textSecondary} />
+              </View>
+              <View style={styles.info}>
+                <Text style={styles.title}>
+                  {MAINTENANCE_KIND_LABELS[event.kind]}
+                  {event.serial ? ` · ${event.serial}` : ""}
+                </Text>
+                <Text style={styles.subtitle}>
+                  {formatDateInput(event.performedAt)}
+                  {event.note ? ` · ${event.note}` : ""}
+                  {event.userName ? ` · ${event.userName}` : ""}
+                </Text>
+              </View>
+              <Text style={styles.cost}>R$ {Number(event.cost).toFixed(2).replace(".", ",")}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {canManage && (
+        <Pressable onPress={() => openEvent()} style={({ pressed }) => [styles.registerLink, pressed && { opacity: 0.7 }]}>
+          <Ionicons name="create-outline" size={16} color={Colors.primary} />
+          <Text style={styles.sectionLinkText}>Registrar manutenção</Text>
+        </Pressable>
+      )}
+
+      <Modal visible={planVisible} animationType="slide" transparent onRequestClose={() => setPlanVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Novo Plano</Text>
+              <Pressable onPress={() => setPlanVisible(false)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+            <ScrollView style={styles.modalScroll}>
+              <View style={styles.chipRow}>
+                {MAINTENANCE_KINDS.map((k) => (
+                  <Pressable
+                    key={k}
+                    onPress={() => {
+                      Haptics.selectionAsync();
+                      setPlanKind(k);
+                    }}
+                    style={[styles.chip, planKind === k && styles.chipActive]}
+                  >
+                    <Ionicons
+                      name={MAINTENANCE_KIND_ICONS[k]}
+                      size={16}
+                      color={planKind === k ? Colors.white : Colors.primary}
+                    />
+                    <Text style={[styles.chipText, planKind === k && { color: Colors.white }]}>
+                      {MAINTENANCE_KIND_LABELS[k]}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              <TextInput
+                style={styles.modalInput}
+                placeholder="Descrição (opcional)"
+                placeholderTextColor={Colors.textTertiary}
+                value={description}
+                onChangeText={setDescription}
+              />
+              <View style={styles.fieldRow}>
+                <TextInput
+                  style={[styles.modalInput, styles.half]}
+                  placeholder="A cada (dias)"
+                  placeholderTextColor={Colors.textTertiary}
+                  value={intervalDays}
+                  onChangeText={setIntervalDays}
+                  keyboardType="number-pad"
+                />
+                <TextInput
+                  style={[styles.modalInput, styles.half]}
+                  placeholder="A cada (usos)"
+                  placeholderTextColor={Colors.textTertiary}
+                  value={intervalUses}
+                  onChangeText={setIntervalUses}
+                  keyboardType="number-pad"
+                />
+              </View>
+              <Text style={styles.modalHint}>Cada retirada conta como um uso. Vale o prazo que vencer primeiro.</Text>
+              {product.serialized && activeUnits.length > 0 && (
+                <>
+                  <Text style={styles.fieldLabel}>
+                    {planUnitId ? "Só para a unidade escolhida" : "Para todas as unidades"}
+                  </Text>
+                  <UnitPicker
+                    units={activeUnits}
+                    selected={planUnitId ? [planUnitId] : []}
+                    onChange={(ids) => setPlanUnitId(ids[ids.length - 1] ?? null)}
+                  />
+                </>
+              )}
+            </ScrollView>
+            <Pressable onPress={handleSavePlan} style={({ pressed }) => [styles.modalSaveBtn, pressed && { opacity: 0.8 }]}>
+              <Ionicons name="checkmark" size={18} color={Colors.white} />
+              <Text style={styles.modalSaveText}>Salvar</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal visible={eventVisible} animationType="slide" transparent onRequestClose={() => setEventVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Registrar Manutenção</Text>
+              <Pressable onPress={() => setEventVisible(false)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+            <ScrollView style={styles.modalScroll}>
+              {eventPlan ? (
+                <Text style={styles.fieldLabel}>
+                  {MAINTENANCE_KIND_LABELS[eventPlan.kind]} · {describeInterval(eventPlan)}
+                </Text>
+              ) : (
+                <View style={styles.chipRow}>
+                  {MAINTENANCE_KINDS.map((k) => (
+                    <Pressable
+                      key={k}
+                      onPress={() => {
+                        Haptics.selectionAsync();
+                        setEventKind(k);
+                      }}
+                      style={[styles.chip, eventKind === k && styles.chipActive]}
+                    >
+                      <Ionicons
+                        name={MAINTENANCE_KIND_ICONS[k]}
+                        size={16}
+                        color={eventKind === k ? Colors.white : Colors.primary}
+                      />
+                      <Text style={[styles.chipText, eventKind === k && { color: Colors.white }]}>
+                        {MAINTENANCE_KIND_LABELS[k]}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+              {product.serialized && !eventPlan?.unitId && activeUnits.length > 0 && (
+                <UnitPicker
+                  units={activeUnits}
+                  selected={eventUnitId ? [eventUnitId] : []}
+                  onChange={(ids) => setEventUnitId(ids[ids.length - 1] ?? null)}
+                />
+              )}
+              <TextInput
+                style={styles.modalInput}
+                placeholder="Custo (R$)"
+                placeholderTextColor={Colors.textTertiary}
+                value={cost}
+                onChangeText={setCost}
+                keyboardType="decimal-pad"
+              />
+              <TextInput
+                style={[styles.modalInput, styles.noteInput]}
+                placeholder="Observações (opcional)"
+                placeholderTextColor={Colors.textTertiary}
+                value={note}
+                onChangeText={setNote}
+                multiline
+              />
+              {eventUnit?.status === "in_repair" && (
+                <Pressable
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setReleaseUnit((v) => !v);
+                  }}
+                  style={styles.toggleRow}
+                >
+                  <Ionicons
+                    name={releaseUnit ? "checkbox" : "square-outline"}
+                    size={22}
+                    color={releaseUnit ? Colors.primary : Colors.textTertiary}
+                  />
+                  <Text style={styles.toggleText}>
+                    Devolver {eventUnit.serial} ao estoque (hoje: {UNIT_STATUS_LABELS.in_repair})
+                  </Text>
+                </Pressable>
+              )}
+            </ScrollView>
+            <Pressable onPress={handleSaveEvent} style={({ pressed }) => [styles.modalSaveBtn, pressed && { opacity: 0.8 }]}>
+              <Ionicons name="checkmark" size={18} color={Colors.white} />
+              <Text style={styles.modalSaveText}>Registrar</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  sectionHeader: {
+    marginBottom: 12,
+  },
+  sectionHeaderRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  sectionLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  sectionLinkText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+  registerLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: -8,
+    marginBottom: 20,
+  },
+  empty: {
+    alignItems: "center",
+    paddingVertical: 24,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+  list: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    overflow: "hidden",
+    marginBottom: 20,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  icon: {
+    width: 28,
+    height: 28,
+    borderRadius: 7,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 10,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  subtitle: {
+    fontSize: 11,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 1,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontFamily: "Inter_600SemiBold",
+  },
+  cost: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalCard: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  modalScroll: {
+    maxHeight: 420,
+  },
+  modalInput: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  noteInput: {
+    minHeight: 72,
+    textAlignVertical: "top" as const,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  half: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  modalHint: {
+    fontSize: 12,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginBottom: 16,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  toggleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 8,
+  },
+  toggleText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  modalSaveBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    marginTop: 12,
+  },
+  modalSaveText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+});
@@ -0,0 +1,47 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import Colors from "@/constants/colors";
+import type { Movement } from "@/lib/storage";
+
+export type MovementStatus = "reversed" | "reversal" | "correction";
+
+const STATUS_STYLES: Record<MovementStatus, { label: string; color: string; background: string }> = {
+  reversed: { label: "Estornada", color: Colors.danger, background: Colors.dangerLight },
+  reversal: { label: "Estorno", color: Colors.accentDark, background: Colors.warningLight },
+  correction: { label: "Correção", color: Colors.primary, background: "#E0F2F1" },
+};
+
+/**
+ * Situação da movimentação no histórico. `reversedIds` vem de
+ * `reversedMovementIds`; nas transferências, basta uma das pontas estornada.
+ */
+export function movementStatus(movements: Movement[], reversedIds: Set<string>): MovementStatus | null {
+  if (movements.some((m) => reversedIds.has(m.id))) return "reversed";
+  if (movements.some((m) => m.reversesId)) return "reversal";
+  if (movements.some((m) => m.correctsId)) return "correction";
+  return null;
+}
+
+export function MovementStatusBadge({ status }: { status: MovementStatus | null }) {
+  if (!status) return null;
+  const { label, color, background } = STATUS_STYLES[status];
+  return (
+    <View style={[styles.badge, { backgroundColor: background }]}>
+      <Text style={[styles.badgeText, { color }]}>{label}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: "flex-start",
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    marginTop: 4,
+  },
+  badgeText: {
+    fontSize: 10,
+    fontFamily: "Inter_600SemiBold",
+  },
+});
@@ -0,0 +1,171 @@
+import React, { useState } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import Svg, { Circle, Line, Polyline } from "react-native-svg";
+import Colors from "@/constants/colors";
+import { formatDateInput } from "@/lib/dates";
+import { PricePoint } from "@/lib/storage";
+import { PRICE_POINT_KINDS, PRICE_POINT_KIND_LABELS, PricePointKind } from "@shared/costing";
+
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 10;
+
+const SERIES_COLORS: Record<PricePointKind, string> = {
+  price: Colors.primary,
+  cost: Colors.accentDark,
+};
+
+function formatPrice(value: string | number): string {
+  return `R$ ${Number(value).toFixed(2).replace(".", ",")}`;
+}
+
+/** Evolução do preço de venda e do custo de compra do produto. */
+export function PriceHistorySection({ points }: { points: PricePoint[] }) {
+  const [width, setWidth] = useState(0);
+
+  if (points.length === 0) return null;
+
+  const times = points.map((p) => new Date(p.createdAt).getTime());
+  const values = points.map((p) => Number(p.value));
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+
+  // Um único ponto (ou valores iguais) fica centralizado em vez de dividir por zero.
+  const x = (time: number) =>
+    maxTime === minTime
+      ? width / 2
+      : CHART_PADDING + ((time - minTime) / (maxTime - minTime)) * (width - CHART_PADDING * 2);
+  const y = (value: number) =>
+    maxValue === minValue
+      ? CHART_HEIGHT / 2
+      : CHART_PADDING + (1 - (value - minValue) / (maxValue - minValue)) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const series = PRICE_POINT_KINDS.map((kind) => ({
+    kind,
+    points: points.filter((p) => p.kind === kind),
+  })).filter((s) => s.points.length > 0);
+
+  return (
+    <>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Histórico de Preços</Text>
+      </View>
+
+      <View style={styles.card}>
+        <View style={styles.legend}>
+          {series.map(({ kind, points: history }) => (
+            <View key={kind} style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: SERIES_COLORS[kind] }]} />
+              <Text style={styles.legendText}>
+                {PRICE_POINT_KIND_LABELS[kind]} · {formatPrice(history[history.length - 1].value)}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.chart} onLayout={(e) => setWidth(e.nativeEvent.layout.width)}>
+          {width > 0 && (
+            <Svg width={width} height={CHART_HEIGHT}>
+              {[CHART_PADDING, CHART_HEIGHT / 2, CHART_HEIGHT - CHART_PADDING].map((lineY) => (
+                <Line
+                  key={lineY}
+                  x1={0}
+                  x2={width}
+                  y1={lineY}
+                  y2={lineY}
+                  stroke={Colors.borderLight}
+                  strokeWidth={1}
+                />
+              ))}
+              {series.map(({ kind, points: history }) => (
+                <React.Fragment key={kind}>
+                  {history.length > 1 && (
+                    <Polyline
+                      points={history
+                        .map((p) => `${x(new Date(p.createdAt).getTime())},${y(Number(p.value))}`)
+                        .join(" ")}
+                      fill="none"
+                      stroke={SERIES_COLORS[kind]}
+                      strokeWidth={2}
+                    />
+                  )}
+                  {history.map((p) => (
+                    <Circle
+                      key={p.id}
+                      cx={x(new Date(p.createdAt).getTime())}
+                      cy={y(Number(p.value))}
+                      r={3}
+                      fill={SERIES_COLORS[kind]}
+                    />
+                  ))}
+                </React.Fragment>
+              ))}
+            </Svg>
+          )}
+        </View>
+
+        <View style={styles.axis}>
+          <Text style={styles.axisText}>{formatDateInput(new Date(minTime).toISOString())}</Text>
+          <Text style={styles.axisText}>
+            {formatPrice(minValue)} – {formatPrice(maxValue)}
+          </Text>
+          <Text style={styles.axisText}>{formatDateInput(new Date(maxTime).toISOString())}</Text>
+        </View>
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  sectionHeader: {
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    padding: 14,
+    marginBottom: 20,
+  },
+  legend: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 14,
+    marginBottom: 10,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    fontFamily: "Inter_500Medium",
+    color: Colors.textSecondary,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+  },
+  axis: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 6,
+  },
+  axisText: {
+    fontSize: 11,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+});
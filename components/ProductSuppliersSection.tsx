@@ -0,0 +1,394 @@
+import React, { useState } from "react";
+import { Alert, Modal, Platform, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import {
+  removeProductSupplier,
+  saveProductSupplier,
+  Product,
+  ProductSupplier,
+  Supplier,
+} from "@/lib/storage";
+
+function formatPrice(value: string | number): string {
+  return `R$ ${Number(value).toFixed(2).replace(".", ",")}`;
+}
+
+/** Fornecedores do produto, com o preferido e o prazo de entrega em destaque. */
+export function ProductSuppliersSection({
+  product,
+  links,
+  suppliers,
+  canManage,
+  onChanged,
+}: {
+  product: Product;
+  links: ProductSupplier[];
+  suppliers: Supplier[];
+  canManage: boolean;
+  onChanged: () => void;
+}) {
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editing, setEditing] = useState<ProductSupplier | null>(null);
+  const [supplierId, setSupplierId] = useState<string | null>(null);
+  const [supplierSku, setSupplierSku] = useState("");
+  const [lastPrice, setLastPrice] = useState("");
+  const [preferred, setPreferred] = useState(false);
+
+  const sorted = [...links].sort((a, b) => Number(b.preferred) - Number(a.preferred));
+  const available = suppliers.filter((s) => !links.some((l) => l.supplierId === s.id));
+
+  const openAdd = () => {
+    setEditing(null);
+    setSupplierId(available[0]?.id ?? null);
+    setSupplierSku("");
+    setLastPrice("");
+    setPreferred(links.length === 0);
+    setModalVisible(true);
+  };
+
+  const openEdit = (link: ProductSupplier) => {
+    setEditing(link);
+    setSupplierId(link.supplierId);
+    setSupplierSku(link.supplierSku ?? "");
+    setLastPrice(link.lastPrice !== null ? Number(link.lastPrice).toFixed(2).replace(".", ",") : "");
+    setPreferred(link.preferred);
+    setModalVisible(true);
+  };
+
+  const handleSave = async () => {
+    if (!supplierId) {
+      Alert.alert("Erro", "Selecione um fornecedor");
+      return;
+    }
+    const price = lastPrice.trim() ? parseFloat(lastPrice.replace(",", ".")) : null;
+    if (price !== null && (isNaN(price) || price < 0)) {
+      Alert.alert("Erro", "Informe um preço válido");
+      return;
+    }
+    try {
+      await saveProductSupplier(product.id, supplierId, {
+        supplierSku: supplierSku.trim() || null,
+        lastPrice: price,
+        preferred,
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setModalVisible(false);
+      onChanged();
+    } catch (e: any) {
+      Alert.alert("Erro", e.message || "Falha ao salvar fornecedor");
+    }
+  };
+
+  const handleRemove = (link: ProductSupplier) => {
+    Alert.alert("Remover Fornecedor", `Desligar "${link.supplierName}" deste produto?`, [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Remover",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await removeProductSupplier(product.id, link.supplierId);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            onChanged();
+          } catch (e: any) {
+            Alert.alert("Erro", e.message || "Falha ao remover fornecedor");
+          }
+        },
+      },
+    ]);
+  };
+
+  if (links.length === 0 && !canManage) return null;
+
+  return (
+    <>
+      <View style={[styles.sectionHeader, styles.sectionHeaderRow]}>
+        <Text style={styles.sectionTitle}>Fornecedores</Text>
+        {canManage && available.length > 0 && (
+          <Pressable onPress={openAdd} style={({ pressed }) => [styles.sectionLink, pressed && { opacity: 0.7 }]}>
+            <Ionicons name="add" size={16} color={Colors.primary} />
+            <Text style={styles.sectionLinkText}>Adicionar</Text>
+          </Pressable>
+        )}
+      </View>
+
+      {links.length === 0 ? (
+        <View style={styles.empty}>
+          <Ionicons name="business-outline" size={32} color={Colors.textTertiary} />
+          <Text style={styles.emptyText}>
+            {suppliers.length === 0 ? "Cadastre fornecedores na tela Fornecedores" : "Nenhum fornecedor ligado"}
+          </Text>
+        </View>
+      ) : (
+        <View style={styles.list}>
+          {sorted.map((link) => (
+            <Pressable
+              key={link.supplierId}
+              onPress={() => openEdit(link)}
+              disabled={!canManage}
+              style={({ pressed }) => [styles.row, pressed && { opacity: 0.85 }]}
+            >
+              <View style={[styles.icon, { backgroundColor: link.preferred ? Colors.warningLight : "#FCE7F3" }]}>
+                <Ionicons
+                  name={link.preferred ? "star" : "business-outline"}
+                  size={14}
+                  color={link.preferred ? Colors.warning : "#DB2777"}
+                />
+              </View>
+              <View style={styles.info}>
+                <Text style={styles.title}>
+                  {link.supplierName}
+                  {link.preferred ? " · Preferido" : ""}
+                </Text>
+                <Text style={styles.subtitle}>
+                  {link.leadTimeDays > 0 ? `Entrega em ${link.leadTimeDays} dias` : "Prazo não informado"}
+                  {link.supplierSku ? ` · Cód. ${link.supplierSku}` : ""}
+                </Text>
+              </View>
+              {link.lastPrice !== null && <Text style={styles.price}>{formatPrice(link.lastPrice)}</Text>}
+              {canManage && (
+                <Pressable onPress={() => handleRemove(link)} hitSlop={8} style={{ marginLeft: 8 }}>
+                  <Ionicons name="trash-outline" size={16} color={Colors.textTertiary} />
+                </Pressable>
+              )}
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      <Modal visible={modalVisible} animationType="slide" transparent onRequestClose={() => setModalVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing ? editing.supplierName : "Adicionar Fornecedor"}</Text>
+              <Pressable onPress={() => setModalVisible(false)}>
+                <Ionicons name="close" size={24} color={Colors.text} />
+              </Pressable>
+            </View>
+            <ScrollView style={styles.modalScroll} keyboardShouldPersistTaps="handled">
+              {!editing && (
+                <View style={styles.chipGrid}>
+                  {available.map((s) => (
+                    <Pressable
+                      key={s.id}
+                      onPress={() => {
+                        Haptics.selectionAsync();
+                        setSupplierId(s.id);
+                      }}
+                      style={[styles.chip, supplierId === s.id && styles.chipActive]}
+                    >
+                      <Text style={[styles.chipText, supplierId === s.id && { color: Colors.white }]}>{s.name}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+              <TextInput
+                style={styles.modalInput}
+                placeholder="Código no fornecedor (opcional)"
+                placeholderTextColor={Colors.textTertiary}
+                value={supplierSku}
+                onChangeText={setSupplierSku}
+                autoCapitalize="characters"
+              />
+              <TextInput
+                style={styles.modalInput}
+                placeholder="Último preço pago (R$)"
+                placeholderTextColor={Colors.textTertiary}
+                value={lastPrice}
+                onChangeText={setLastPrice}
+                keyboardType="decimal-pad"
+              />
+              <Pressable
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  setPreferred((v) => !v);
+                }}
+                style={styles.toggleRow}
+              >
+                <Ionicons
+                  name={preferred ? "checkbox" : "square-outline"}
+                  size={22}
+                  color={preferred ? Colors.primary : Colors.textTertiary}
+                />
+                <Text style={styles.toggleText}>Fornecedor preferido para reposição</Text>
+              </Pressable>
+            </ScrollView>
+            <Pressable onPress={handleSave} style={({ pressed }) => [styles.modalSaveBtn, pressed && { opacity: 0.8 }]}>
+              <Ionicons name="checkmark" size={18} color={Colors.white} />
+              <Text style={styles.modalSaveText}>Salvar</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  sectionHeader: {
+    marginBottom: 12,
+  },
+  sectionHeaderRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  sectionLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  sectionLinkText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.primary,
+  },
+  empty: {
+    alignItems: "center",
+    paddingVertical: 24,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+  },
+  list: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    overflow: "hidden",
+    marginBottom: 20,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  icon: {
+    width: 28,
+    height: 28,
+    borderRadius: 7,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 10,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  subtitle: {
+    fontSize: 11,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginTop: 1,
+  },
+  price: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.text,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalCard: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: Platform.OS === "web" ? 34 : 40,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: "Inter_700Bold",
+    color: Colors.text,
+  },
+  modalScroll: {
+    maxHeight: 420,
+  },
+  modalInput: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: "Inter_400Regular",
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  chipGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  toggleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 8,
+  },
+  toggleText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  modalSaveBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    marginTop: 12,
+  },
+  modalSaveText: {
+    fontSize: 15,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.white,
+  },
+});
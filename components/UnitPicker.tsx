@@ -0,0 +1,79 @@
+import React from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import type { ProductUnit } from "@/lib/storage";
+
+/** Escolha das unidades de um produto serializado pelo número de série. */
+export function UnitPicker({
+  units,
+  selected,
+  onChange,
+}: {
+  units: ProductUnit[];
+  selected: string[];
+  onChange: (unitIds: string[]) => void;
+}) {
+  if (units.length === 0) {
+    return <Text style={styles.empty}>Nenhuma unidade disponível neste local</Text>;
+  }
+
+  const toggle = (unitId: string) => {
+    Haptics.selectionAsync();
+    onChange(selected.includes(unitId) ? selected.filter((id) => id !== unitId) : [...selected, unitId]);
+  };
+
+  return (
+    <View style={styles.grid}>
+      {units.map((unit) => {
+        const active = selected.includes(unit.id);
+        return (
+          <Pressable key={unit.id} onPress={() => toggle(unit.id)} style={[styles.chip, active && styles.chipActive]}>
+            <Ionicons
+              name={active ? "checkmark-circle" : "barcode-outline"}
+              size={14}
+              color={active ? Colors.white : Colors.primary}
+            />
+            <Text style={[styles.chipText, active && { color: Colors.white }]}>{unit.serial}</Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: "Inter_500Medium",
+    color: Colors.text,
+  },
+  empty: {
+    fontSize: 13,
+    fontFamily: "Inter_400Regular",
+    color: Colors.textTertiary,
+    marginBottom: 20,
+  },
+});
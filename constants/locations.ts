@@ -0,0 +1,8 @@
+import type { Ionicons } from "@expo/vector-icons";
+import type { LocationKind } from "@shared/locations";
+
+export const LOCATION_KIND_ICONS: Record<LocationKind, keyof typeof Ionicons.glyphMap> = {
+  warehouse: "business-outline",
+  vehicle: "car-outline",
+  site: "construct-outline",
+};
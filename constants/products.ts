@@ -0,0 +1,27 @@
+import type { Ionicons } from "@expo/vector-icons";
+import Colors from "@/constants/colors";
+import type { MaintenanceKind, ProductKind, UnitStatus } from "@shared/products";
+
+export const PRODUCT_KIND_ICONS: Record<ProductKind, keyof typeof Ionicons.glyphMap> = {
+  consumable: "water-outline",
+  tool: "hammer-outline",
+  asset: "pricetag-outline",
+};
+
+export const PRODUCT_KIND_HINTS: Record<ProductKind, string> = {
+  consumable: "Sai do estoque e não volta. Entra nas projeções de consumo.",
+  tool: "Sai por retirada, com devolução prevista.",
+  asset: "Bem durável, controlado por retirada e devolução.",
+};
+
+export const UNIT_STATUS_COLORS: Record<UnitStatus, { color: string; bg: string }> = {
+  available: { color: Colors.success, bg: Colors.successLight },
+  checked_out: { color: Colors.warning, bg: Colors.warningLight },
+  in_repair: { color: "#3B82F6", bg: "#DBEAFE" },
+  written_off: { color: Colors.textSecondary, bg: Colors.surfaceElevated },
+};
+
+export const MAINTENANCE_KIND_ICONS: Record<MaintenanceKind, keyof typeof Ionicons.glyphMap> = {
+  calibration: "speedometer-outline",
+  maintenance: "construct-outline",
+};
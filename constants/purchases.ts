@@ -0,0 +1,10 @@
+import Colors from "@/constants/colors";
+import type { PurchaseOrderStatus } from "@shared/purchases";
+
+export const PURCHASE_ORDER_STATUS_COLORS: Record<PurchaseOrderStatus, { color: string; bg: string }> = {
+  draft: { color: Colors.textSecondary, bg: Colors.surfaceElevated },
+  sent: { color: "#3B82F6", bg: "#DBEAFE" },
+  partially_received: { color: Colors.warning, bg: Colors.warningLight },
+  received: { color: Colors.success, bg: Colors.successLight },
+  cancelled: { color: Colors.danger, bg: Colors.dangerLight },
+};
@@ -0,0 +1,8 @@
+import Colors from "@/constants/colors";
+import type { StocktakeStatus } from "@shared/stocktakes";
+
+export const STOCKTAKE_STATUS_COLORS: Record<StocktakeStatus, { color: string; bg: string }> = {
+  counting: { color: "#3B82F6", bg: "#DBEAFE" },
+  approved: { color: Colors.success, bg: Colors.successLight },
+  cancelled: { color: Colors.danger, bg: Colors.dangerLight },
+};
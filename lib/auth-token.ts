@@ -0,0 +1,40 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const TOKEN_KEY = "@estoque/auth_token";
+
+let authToken: string | null = null;
+const unauthorizedListeners = new Set<() => void>();
+
+/**
+ * Carrega o token salvo no dispositivo. Deve ser chamado uma vez ao abrir o
+ * app, antes da primeira requisição autenticada.
+ */
+export async function loadAuthToken(): Promise<string | null> {
+  authToken = await AsyncStorage.getItem(TOKEN_KEY);
+  return authToken;
+}
+
+export async function setAuthToken(token: string | null): Promise<void> {
+  authToken = token;
+  if (token) {
+    await AsyncStorage.setItem(TOKEN_KEY, token);
+  } else {
+    await AsyncStorage.removeItem(TOKEN_KEY);
+  }
+}
+
+export function authHeaders(): Record<string, string> {
+  return authToken ? { Authorization: `Bearer ${authToken}` } : {};
+}
+
+/** Avisa quem estiver ouvindo que o servidor recusou a sessão atual. */
+export function notifyUnauthorized(): void {
+  unauthorizedListeners.forEach((listener) => listener());
+}
+
+export function onUnauthorized(listener: () => void): () => void {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+}
@@ -0,0 +1,60 @@
+import { Platform } from "react-native";
+import * as Print from "expo-print";
+
+const REPORT_CSS = `
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; color: #1E293B; padding: 24px; font-size: 12px; }
+    .header { text-align: center; border-bottom: 2px solid #0D9488; padding-bottom: 12px; margin-bottom: 20px; }
+    .header h1 { font-size: 18px; color: #0D9488; letter-spacing: 3px; margin-bottom: 4px; }
+    .header h2 { font-size: 14px; color: #334155; }
+    .header .meta { font-size: 11px; color: #64748B; margin-top: 6px; }
+    .section-title { font-size: 13px; font-weight: 700; color: #0F172A; margin: 16px 0 8px; border-left: 3px solid #0D9488; padding-left: 8px; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+    th { background-color: #F1F5F9; font-weight: 600; text-align: left; padding: 8px; border-bottom: 2px solid #CBD5E1; font-size: 11px; color: #475569; }
+    td { padding: 6px 8px; border-bottom: 1px solid #E2E8F0; font-size: 11px; }
+    tr:nth-child(even) { background-color: #F8FAFC; }
+    .summary-box { display: flex; gap: 16px; margin-bottom: 16px; }
+    .summary-item { flex: 1; background: #F1F5F9; border-radius: 8px; padding: 12px; text-align: center; }
+    .summary-item .value { font-size: 18px; font-weight: 700; color: #0F172A; }
+    .summary-item .label { font-size: 10px; color: #64748B; margin-top: 2px; }
+    .badge { display: inline-block; padding: 2px 8px; border-radius: 4px; font-size: 10px; font-weight: 600; }
+    .badge-critical { background: #FEE2E2; color: #DC2626; }
+    .badge-warning { background: #FEF3C7; color: #D97706; }
+    .badge-ok { background: #E0F2F1; color: #0D9488; }
+    .entry { color: #10B981; }
+    .exit { color: #EF4444; }
+    .footer { text-align: center; font-size: 10px; color: #94A3B8; margin-top: 24px; border-top: 1px solid #E2E8F0; padding-top: 8px; }
+    @media print { body { padding: 12px; } }
+  </style>`;
+
+function formatPrintDate(date: Date): string {
+  return `${date.getDate().toString().padStart(2, "0")}/${(date.getMonth() + 1).toString().padStart(2, "0")}/${date.getFullYear()} ${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
+}
+
+/** Página impressa com o cabeçalho e o rodapé da empresa usados em todos os relatórios. */
+export function buildReportHtml({ title, meta, body }: { title: string; meta: string; body: string }): string {
+  const dateStr = formatPrintDate(new Date());
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>Relatório MTEC ENERGIA</title>${REPORT_CSS}</head><body>
+  <div class="header">
+    <h1>MTEC ENERGIA</h1>
+    <h2>${title}</h2>
+    <div class="meta">${meta} | Gerado em: ${dateStr}</div>
+  </div>
+  ${body}
+  <div class="footer">MTEC ENERGIA - Sistema de Controle de Estoque - ${dateStr}</div>
+</body></html>`;
+}
+
+export async function printHtml(html: string): Promise<void> {
+  if (Platform.OS === "web") {
+    const printWindow = window.open("", "_blank");
+    if (printWindow) {
+      printWindow.document.write(html);
+      printWindow.document.close();
+      setTimeout(() => printWindow.print(), 300);
+    }
+  } else {
+    await Print.printAsync({ html });
+  }
+}
@@ -1,14 +1,20 @@
 import { fetch } from "expo/fetch";
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { authHeaders, notifyUnauthorized } from "@/lib/auth-token";
 
 /**
- * URL fixa do backend no Render
+ * URL do backend: a mesma de `lib/storage.ts` (EXPO_PUBLIC_API_URL) quando
+ * definida, para que o token de login valha nos dois clientes; senão, a URL
+ * fixa do Render.
  */
 export function getApiUrl(): string {
+  const envUrl = process.env.EXPO_PUBLIC_API_URL;
+  if (envUrl) return envUrl.endsWith("/") ? envUrl : `${envUrl}/`;
   return "https://stock-control-web-da84.onrender.com/";
 }
 
 async function throwIfResNotOk(res: Response) {
+  if (res.status === 401) notifyUnauthorized();
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     console.error("Erro HTTP:", res.status, text);
@@ -28,7 +34,10 @@ export async function apiRequest(
 
   const res = await fetch(url.toString(), {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...authHeaders(),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -50,6 +59,7 @@ export const getQueryFn: <T>(options: {
     console.log("GET:", url.toString());
 
     const res = await fetch(url.toString(), {
+      headers: authHeaders(),
       credentials: "include",
     });
 
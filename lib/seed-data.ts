@@ -1,16 +1,24 @@
 import { Category, Product, BackupData } from "./storage";
+import type { ProductKind } from "@shared/products";
 
 const CATEGORIES: Category[] = [
-  { id: "cat_ferramentas", name: "Ferramentas Manuais", color: "#3B82F6" },
-  { id: "cat_eletricas", name: "Ferramentas Elétricas", color: "#EF4444" },
-  { id: "cat_soquetes", name: "Soquetes e Encaixes", color: "#8B5CF6" },
-  { id: "cat_brocas", name: "Brocas e Serras", color: "#F59E0B" },
-  { id: "cat_epi", name: "EPI", color: "#10B981" },
-  { id: "cat_construcao", name: "Construção", color: "#F97316" },
-  { id: "cat_medicao", name: "Medição", color: "#06B6D4" },
-  { id: "cat_insumos", name: "Insumos", color: "#64748B" },
+  { id: "cat_ferramentas", name: "Ferramentas Manuais", color: "#3B82F6", deletedAt: null },
+  { id: "cat_eletricas", name: "Ferramentas Elétricas", color: "#EF4444", deletedAt: null },
+  { id: "cat_soquetes", name: "Soquetes e Encaixes", color: "#8B5CF6", deletedAt: null },
+  { id: "cat_brocas", name: "Brocas e Serras", color: "#F59E0B", deletedAt: null },
+  { id: "cat_epi", name: "EPI", color: "#10B981", deletedAt: null },
+  { id: "cat_construcao", name: "Construção", color: "#F97316", deletedAt: null },
+  { id: "cat_medicao", name: "Medição", color: "#06B6D4", deletedAt: null },
+  { id: "cat_insumos", name: "Insumos", color: "#64748B", deletedAt: null },
 ];
 
+// Brocas, EPI e insumos se gastam com o uso; o resto vai a campo e volta.
+const CONSUMABLE_CATEGORIES = ["cat_brocas", "cat_epi", "cat_insumos"];
+
+function kindForCategory(categoryId: string): ProductKind {
+  return CONSUMABLE_CATEGORIES.includes(categoryId) ? "consumable" : "tool";
+}
+
 function makeProduct(
   name: string,
   categoryId: string,
@@ -26,7 +34,17 @@ function makeProduct(
     quantity,
     minStock: quantity <= 2 ? 1 : Math.max(1, Math.floor(quantity * 0.2)),
     price: 0,
+    averageCost: null,
     unit,
+    kind: kindForCategory(categoryId),
+    serialized: false,
+    caNumber: null,
+    caExpiresAt: null,
+    createdBy: null,
+    updatedBy: null,
+    createdByName: null,
+    updatedByName: null,
+    deletedAt: null,
     createdAt: now,
     updatedAt: now,
   };
@@ -1,5 +1,14 @@
 import { Platform } from "react-native";
 import * as Crypto from "expo-crypto";
+import { authHeaders, notifyUnauthorized, setAuthToken } from "@/lib/auth-token";
+import type { UserRole } from "@shared/permissions";
+import type { LocationKind } from "@shared/locations";
+import type { MaintenanceKind, ProductKind, UnitStatus } from "@shared/products";
+import type { PurchaseOrderStatus } from "@shared/purchases";
+import type { PricePointKind } from "@shared/costing";
+import type { StocktakeScope, StocktakeStatus } from "@shared/stocktakes";
+import type { MovementDocumentType, MovementType } from "@shared/movements";
+import type { BackupRestoreMode, BackupRestoreResult, BackupSnapshotReason, ClearDataResult } from "@shared/backup";
 
 /* =========================
    TIPAGENS
@@ -9,6 +18,7 @@ export interface Category {
   id: string;
   name: string;
   color: string;
+  deletedAt: string | null;
 }
 
 export interface Product {
@@ -18,20 +28,375 @@ export interface Product {
   quantity: number;
   minStock: number;
   price: string | number;
+  /** Custo médio ponderado; nulo até a primeira entrada com custo. */
+  averageCost: string | null;
   unit: string;
+  kind: ProductKind;
+  serialized: boolean;
+  caNumber: string | null;
+  caExpiresAt: string | null;
+  createdBy: string | null;
+  updatedBy: string | null;
+  createdByName: string | null;
+  updatedByName: string | null;
+  deletedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface Location {
+  id: string;
+  name: string;
+  kind: LocationKind;
+  isDefault: boolean;
+  createdAt: string;
+}
+
+/** Saldo de um produto em um local; `products.quantity` é a soma de todos. */
+export interface StockBalance {
+  productId: string;
+  locationId: string;
+  quantity: number;
+  minStock: number;
+}
+
+/** Lote em estoque num local; as saídas consomem primeiro o que vence antes. */
+export interface StockLot {
+  id: string;
+  productId: string;
+  locationId: string;
+  lotNumber: string | null;
+  expiresAt: string | null;
+  quantity: number;
+  createdAt: string;
+}
+
+/** Unidade de um produto serializado; só as disponíveis contam no saldo do local. */
+export interface ProductUnit {
+  id: string;
+  productId: string;
+  serial: string;
+  status: UnitStatus;
+  locationId: string;
+  holderId: string | null;
+  holderName: string | null;
+  checkoutId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Plano periódico de calibração ou manutenção; sem `unitId`, vale para todas as unidades. */
+export interface MaintenancePlan {
+  id: string;
+  productId: string;
+  unitId: string | null;
+  serial: string | null;
+  kind: MaintenanceKind;
+  description: string | null;
+  intervalDays: number | null;
+  intervalUses: number | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface MaintenanceEvent {
+  id: string;
+  productId: string;
+  unitId: string | null;
+  serial: string | null;
+  planId: string | null;
+  kind: MaintenanceKind;
+  cost: string | number;
+  note: string | null;
+  performedAt: string;
+  userId: string | null;
+  userName: string | null;
+  createdAt: string;
+}
+
+/** Prazo de um plano para uma unidade (ou para o produto, se não serializado). */
+export interface MaintenanceStatus {
+  planId: string;
+  productId: string;
+  productName: string;
+  unitId: string | null;
+  serial: string | null;
+  unitStatus: UnitStatus | null;
+  kind: MaintenanceKind;
+  description: string | null;
+  intervalDays: number | null;
+  intervalUses: number | null;
+  lastPerformedAt: string | null;
+  usesSince: number;
+  dueAt: string | null;
+  state: "ok" | "soon" | "due";
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  /** Só os dígitos. */
+  cnpj: string | null;
+  contactName: string | null;
+  phone: string | null;
+  email: string | null;
+  /** Prazo de entrega habitual, em dias. */
+  leadTimeDays: number;
+  note: string | null;
+  productCount: number;
+  createdAt: string;
+}
+
+/** Vínculo entre produto e fornecedor; no máximo um por produto é o preferido. */
+export interface ProductSupplier {
+  productId: string;
+  supplierId: string;
+  supplierName: string;
+  supplierSku: string | null;
+  lastPrice: string | null;
+  preferred: boolean;
+  leadTimeDays: number;
+  updatedAt: string;
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  orderId: string;
+  productId: string;
+  productName: string;
+  productUnit: string;
+  serialized: boolean;
+  quantity: number;
+  receivedQuantity: number;
+  unitCost: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  /** Número sequencial mostrado ao usuário. */
+  number: number;
+  supplierId: string;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  expectedAt: string | null;
+  note: string | null;
+  lines: PurchaseOrderLine[];
+  createdBy: string;
+  sentAt: string | null;
+  closedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReorderSuggestion {
+  productId: string;
+  productName: string;
+  unit: string;
+  quantity: number;
+  minStock: number;
+  /** Pedido e ainda não entregue, rascunhos incluídos. */
+  onOrder: number;
+  dailyAvg: number;
+  monthlyProjection: number;
+  daysUntilEmpty: number | null;
+  leadTimeDays: number;
+  supplierId: string | null;
+  supplierName: string | null;
+  unitCost: string | null;
+  suggestedQuantity: number;
+  /** Estoque mais o pedido já abaixo do ponto de pedido. */
+  urgent: boolean;
+}
+
+export interface PricePoint {
+  id: string;
+  productId: string;
+  kind: PricePointKind;
+  value: string;
+  movementId: string | null;
+  userId: string | null;
+  createdAt: string;
+}
+
+export interface CostIncrease {
+  productId: string;
+  productName: string;
+  unit: string;
+  fromCost: string;
+  fromAt: string;
+  toCost: string;
+  toAt: string;
+  increasePercent: number;
+}
+
+export interface StocktakeItem {
+  id: string;
+  stocktakeId: string;
+  productId: string;
+  productName: string;
+  productUnit: string;
+  categoryId: string;
+  locationId: string;
+  locationName: string;
+  /** Saldo do sistema na abertura do inventário. */
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  countedBy: string | null;
+  countedAt: string | null;
+}
+
+export interface Stocktake {
+  id: string;
+  number: number;
+  scope: StocktakeScope;
+  categoryId: string | null;
+  categoryName: string | null;
+  locationId: string | null;
+  locationName: string | null;
+  status: StocktakeStatus;
+  note: string | null;
+  createdBy: string | null;
+  approvedBy: string | null;
+  closedAt: string | null;
+  createdAt: string;
+}
+
+export interface StocktakeSummary extends Stocktake {
+  itemCount: number;
+  countedCount: number;
+  varianceCount: number;
+}
+
+export interface StocktakeDetail extends Stocktake {
+  items: StocktakeItem[];
+}
+
+/** Recebimento ou requisição com várias linhas; as linhas são movimentações com `documentId`. */
+export interface MovementDocument {
+  id: string;
+  type: MovementDocumentType;
+  number: string;
+  documentDate: string;
+  supplierId: string | null;
+  supplierName: string | null;
+  technicianId: string | null;
+  technicianName: string | null;
+  locationId: string;
+  note: string | null;
+  userId: string | null;
+  userName: string | null;
+  createdAt: string;
+}
+
+export interface MovementDocumentLineInput {
+  productId: string;
+  quantity: number;
+  /** Só nos recebimentos. */
+  unitCost?: number | null;
+  lotNumber?: string | null;
+  expiresAt?: Date | null;
+  serials?: string[];
+  unitIds?: string[];
+}
+
+export interface AdjustmentReason {
+  id: string;
+  name: string;
+  /** Preenchido nos motivos padrão, que o sistema localiza. */
+  code: string | null;
+  active: boolean;
+  createdAt: string;
+}
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  createdAt: string;
+}
+
 export interface Movement {
   id: string;
   productId: string;
-  type: "entry" | "exit";
+  type: MovementType;
+  /** Positiva, exceto nos ajustes, em que o sinal indica o sentido. */
   quantity: number;
   note: string | null;
+  locationId: string | null;
+  /** Liga as duas pontas de uma transferência entre locais. */
+  transferId: string | null;
+  transferDirection: "out" | "in" | null;
+  /** Preenchido nas saídas e devoluções de retiradas de ferramentas. */
+  checkoutId: string | null;
+  /** Lote da entrada, quando informado. */
+  lotId: string | null;
+  /** Entradas geradas por um pedido de compra. */
+  purchaseOrderId: string | null;
+  /** Ajustes lançados na aprovação de um inventário. */
+  stocktakeId: string | null;
+  /** Motivo, obrigatório nos ajustes. */
+  reasonId: string | null;
+  reasonName: string | null;
+  /** Linha de um documento de recebimento ou requisição. */
+  documentId: string | null;
+  /** Unidade que saiu ou voltou por mudança de situação; não é consumo nem compra. */
+  unitStatusChange: boolean;
+  /** Custo pago na entrada ou custo médio na saída. */
+  unitCost: string | null;
+  /** Estorno: aponta para a movimentação estornada. */
+  reversesId: string | null;
+  /** Lançamento refeito por uma correção. */
+  correctsId: string | null;
+  userId: string | null;
+  userName: string | null;
   createdAt: string;
 }
 
+export interface Checkout {
+  id: string;
+  productId: string;
+  locationId: string;
+  technicianId: string;
+  technicianName: string;
+  quantity: number;
+  returnedQuantity: number;
+  lostQuantity: number;
+  damagedQuantity: number;
+  expectedReturnAt: string;
+  note: string | null;
+  userId: string | null;
+  userName: string | null;
+  closedAt: string | null;
+  createdAt: string;
+}
+
+export interface Technician {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+export type AuditEntityType = "product" | "category" | "movement" | "user" | "location" | "checkout" | "unit" | "maintenance" | "supplier" | "purchase_order" | "stocktake" | "adjustment_reason" | "movement_document" | "backup";
+
+export interface AuditEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityName: string | null;
+  action: "create" | "update" | "archive" | "restore" | "delete";
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  userId: string | null;
+  userName: string | null;
+  createdAt: string;
+}
+
+/** Campos preenchidos pelo servidor, nunca enviados pelo app. */
+type ProductServerFields = "averageCost" | "createdBy" | "updatedBy" | "createdByName" | "updatedByName" | "deletedAt";
+
+/** `include` traz também os itens da lixeira; `only`, apenas eles. */
+export type ArchivedFilter = "include" | "only";
+
 /* =========================
    CONFIGURAÇÃO DE API
 ========================= */
@@ -56,10 +421,13 @@ async function apiRequest(path: string, options: RequestInit = {}) {
     ...options,
     headers: {
       "Content-Type": "application/json",
+      ...authHeaders(),
       ...options.headers,
     },
   });
 
+  if (response.status === 401) notifyUnauthorized();
+
   if (!response.ok) {
     const error = await response
       .json()
@@ -73,12 +441,78 @@ async function apiRequest(path: string, options: RequestInit = {}) {
   return response.json();
 }
 
+/* =========================
+   AUTH
+========================= */
+
+interface AuthResponse {
+  token: string;
+  user: AuthUser;
+}
+
+export async function login(username: string, password: string): Promise<AuthUser> {
+  const { token, user }: AuthResponse = await apiRequest("/auth/login", {
+    method: "POST",
+    body: JSON.stringify({ username, password }),
+  });
+  await setAuthToken(token);
+  return user;
+}
+
+/**
+ * Cria a primeira conta do sistema e já entra com ela. Depois que existe
+ * algum usuário, o servidor só aceita cadastros feitos por quem está logado.
+ */
+export async function registerFirstUser(username: string, password: string): Promise<AuthUser> {
+  const { token, user }: AuthResponse = await apiRequest("/auth/register", {
+    method: "POST",
+    body: JSON.stringify({ username, password }),
+  });
+  await setAuthToken(token);
+  return user;
+}
+
+export async function logout(): Promise<void> {
+  try {
+    await apiRequest("/auth/logout", { method: "POST" });
+  } finally {
+    await setAuthToken(null);
+  }
+}
+
+/* =========================
+   USERS
+========================= */
+
+export async function getUsers(): Promise<AuthUser[]> {
+  return apiRequest("/users");
+}
+
+export async function addUser(
+  username: string,
+  password: string,
+  role: UserRole
+): Promise<AuthUser> {
+  const { user }: { user: AuthUser } = await apiRequest("/auth/register", {
+    method: "POST",
+    body: JSON.stringify({ username, password, role }),
+  });
+  return user;
+}
+
+export async function updateUserRole(id: string, role: UserRole): Promise<AuthUser> {
+  return apiRequest(`/users/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify({ role }),
+  });
+}
+
 /* =========================
    CATEGORIES
 ========================= */
 
-export async function getCategories(): Promise<Category[]> {
-  return apiRequest("/categories");
+export async function getCategories(archived?: ArchivedFilter): Promise<Category[]> {
+  return apiRequest(archived ? `/categories?archived=${archived}` : "/categories");
 }
 
 export async function addCategory(
@@ -95,7 +529,7 @@ export async function addCategory(
 
 export async function updateCategory(
   id: string,
-  data: Partial<Omit<Category, "id">>
+  data: Partial<Omit<Category, "id" | "deletedAt">>
 ): Promise<Category> {
   return apiRequest(`/categories/${id}`, {
     method: "PATCH",
@@ -103,29 +537,268 @@ export async function updateCategory(
   });
 }
 
+/** Move a categoria para a lixeira. */
 export async function deleteCategory(id: string): Promise<void> {
   return apiRequest(`/categories/${id}`, {
     method: "DELETE",
   });
 }
 
+export async function restoreCategory(id: string): Promise<Category> {
+  return apiRequest(`/categories/${id}/restore`, {
+    method: "POST",
+  });
+}
+
+export async function purgeCategory(id: string): Promise<void> {
+  return apiRequest(`/categories/${id}/purge`, {
+    method: "DELETE",
+  });
+}
+
+/* =========================
+   LOCATIONS
+========================= */
+
+export async function getLocations(): Promise<Location[]> {
+  return apiRequest("/locations");
+}
+
+export async function addLocation(name: string, kind: LocationKind): Promise<Location> {
+  return apiRequest("/locations", {
+    method: "POST",
+    body: JSON.stringify({ name, kind }),
+  });
+}
+
+export async function updateLocation(
+  id: string,
+  data: Partial<Pick<Location, "name" | "kind">>
+): Promise<Location> {
+  return apiRequest(`/locations/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function getStockBalances(): Promise<StockBalance[]> {
+  return apiRequest("/stock-balances");
+}
+
+export async function updateLocationMinStock(
+  productId: string,
+  locationId: string,
+  minStock: number
+): Promise<StockBalance> {
+  return apiRequest(`/stock-balances/${productId}/${locationId}`, {
+    method: "PATCH",
+    body: JSON.stringify({ minStock }),
+  });
+}
+
+/* =========================
+   SUPPLIERS
+========================= */
+
+export type SupplierInput = Omit<Supplier, "id" | "productCount" | "createdAt">;
+
+export async function getSuppliers(): Promise<Supplier[]> {
+  return apiRequest("/suppliers");
+}
+
+export async function addSupplier(data: SupplierInput): Promise<Supplier> {
+  return apiRequest("/suppliers", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateSupplier(id: string, data: Partial<SupplierInput>): Promise<Supplier> {
+  return apiRequest(`/suppliers/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function deleteSupplier(id: string): Promise<void> {
+  return apiRequest(`/suppliers/${id}`, {
+    method: "DELETE",
+  });
+}
+
+export async function getProductSuppliers(productId: string): Promise<ProductSupplier[]> {
+  return apiRequest(`/products/${productId}/suppliers`);
+}
+
+export async function saveProductSupplier(
+  productId: string,
+  supplierId: string,
+  data: { supplierSku: string | null; lastPrice: number | null; preferred: boolean }
+): Promise<ProductSupplier> {
+  return apiRequest(`/products/${productId}/suppliers/${supplierId}`, {
+    method: "PUT",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function removeProductSupplier(productId: string, supplierId: string): Promise<void> {
+  return apiRequest(`/products/${productId}/suppliers/${supplierId}`, {
+    method: "DELETE",
+  });
+}
+
+/* =========================
+   PURCHASES
+========================= */
+
+export type PurchaseOrderInput = {
+  supplierId: string;
+  expectedAt: Date | null;
+  note: string | null;
+  lines: { productId: string; quantity: number; unitCost: number }[];
+};
+
+/** Quantidade que o fornecedor ainda precisa entregar. */
+export function pendingQuantity(line: PurchaseOrderLine): number {
+  return Math.max(0, line.quantity - line.receivedQuantity);
+}
+
+export async function getPurchaseOrders(status: "open" | "all" = "open"): Promise<PurchaseOrder[]> {
+  return apiRequest(`/purchase-orders?status=${status}`);
+}
+
+export async function getPurchaseOrder(id: string): Promise<PurchaseOrder> {
+  return apiRequest(`/purchase-orders/${id}`);
+}
+
+export async function addPurchaseOrder(data: PurchaseOrderInput): Promise<PurchaseOrder> {
+  return apiRequest("/purchase-orders", {
+    method: "POST",
+    body: JSON.stringify({ ...data, expectedAt: data.expectedAt?.toISOString() ?? null }),
+  });
+}
+
+export async function updatePurchaseOrder(id: string, data: PurchaseOrderInput): Promise<PurchaseOrder> {
+  return apiRequest(`/purchase-orders/${id}`, {
+    method: "PUT",
+    body: JSON.stringify({ ...data, expectedAt: data.expectedAt?.toISOString() ?? null }),
+  });
+}
+
+export async function setPurchaseOrderStatus(id: string, status: "sent" | "cancelled"): Promise<PurchaseOrder> {
+  return apiRequest(`/purchase-orders/${id}/status`, {
+    method: "POST",
+    body: JSON.stringify({ status }),
+  });
+}
+
+export async function receivePurchaseOrder(
+  id: string,
+  data: {
+    locationId?: string;
+    note: string | null;
+    lines: {
+      lineId: string;
+      quantity: number;
+      lotNumber?: string | null;
+      expiresAt?: Date | null;
+      serials?: string[];
+    }[];
+  }
+): Promise<PurchaseOrder> {
+  return apiRequest(`/purchase-orders/${id}/receive`, {
+    method: "POST",
+    body: JSON.stringify({
+      ...data,
+      lines: data.lines.map((line) => ({ ...line, expiresAt: line.expiresAt?.toISOString() ?? null })),
+    }),
+  });
+}
+
+export async function getReorderSuggestions(
+  coverageDays: number
+): Promise<{ coverageDays: number; windowDays: number; suggestions: ReorderSuggestion[] }> {
+  return apiRequest(`/reorder/suggestions?coverageDays=${coverageDays}`);
+}
+
+/* =========================
+   STOCKTAKES
+========================= */
+
+export async function getStocktakes(status: "open" | "all" = "open"): Promise<StocktakeSummary[]> {
+  return apiRequest(`/stocktakes?status=${status}`);
+}
+
+export async function getStocktake(id: string): Promise<StocktakeDetail> {
+  return apiRequest(`/stocktakes/${id}`);
+}
+
+export async function addStocktake(data: {
+  scope: StocktakeScope;
+  categoryId?: string | null;
+  locationId?: string | null;
+  note: string | null;
+}): Promise<StocktakeDetail> {
+  return apiRequest("/stocktakes", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function saveStocktakeCounts(
+  id: string,
+  counts: { itemId: string; countedQuantity: number | null }[]
+): Promise<StocktakeDetail> {
+  return apiRequest(`/stocktakes/${id}/counts`, {
+    method: "PUT",
+    body: JSON.stringify({ counts }),
+  });
+}
+
+export async function approveStocktake(id: string): Promise<StocktakeDetail> {
+  return apiRequest(`/stocktakes/${id}/approve`, { method: "POST" });
+}
+
+export async function cancelStocktake(id: string): Promise<StocktakeDetail> {
+  return apiRequest(`/stocktakes/${id}/cancel`, { method: "POST" });
+}
+
+/* =========================
+   PRICES
+========================= */
+
+export async function getProductPrices(productId: string): Promise<PricePoint[]> {
+  return apiRequest(`/products/${productId}/prices`);
+}
+
+export async function getCostIncreases(filters: {
+  from?: Date;
+  to?: Date;
+  threshold: number;
+}): Promise<{ threshold: number; increases: CostIncrease[] }> {
+  const params = new URLSearchParams({ threshold: String(filters.threshold) });
+  if (filters.from) params.set("from", filters.from.toISOString());
+  if (filters.to) params.set("to", filters.to.toISOString());
+  return apiRequest(`/prices/cost-increases?${params.toString()}`);
+}
+
 /* =========================
    PRODUCTS
 ========================= */
 
-export async function getProducts(): Promise<Product[]> {
-  return apiRequest("/products");
+export async function getProducts(archived?: ArchivedFilter): Promise<Product[]> {
+  return apiRequest(archived ? `/products?archived=${archived}` : "/products");
 }
 
 export async function getProduct(
   id: string
 ): Promise<Product | undefined> {
-  const products = await getProducts();
+  const products = await getProducts("include");
   return products.find((p) => p.id === id);
 }
 
 export async function addProduct(
-  data: Omit<Product, "id" | "createdAt" | "updatedAt">
+  data: Omit<Product, "id" | "createdAt" | "updatedAt" | ProductServerFields>
 ): Promise<Product> {
   const id = Crypto.randomUUID();
 
@@ -137,7 +810,7 @@ export async function addProduct(
 
 export async function updateProduct(
   id: string,
-  data: Partial<Omit<Product, "id" | "createdAt">>
+  data: Partial<Omit<Product, "id" | "createdAt" | "quantity" | "serialized" | ProductServerFields>>
 ): Promise<Product> {
   return apiRequest(`/products/${id}`, {
     method: "PATCH",
@@ -145,12 +818,25 @@ export async function updateProduct(
   });
 }
 
+/** Move o produto para a lixeira; o histórico de movimentações é mantido. */
 export async function deleteProduct(id: string): Promise<void> {
   return apiRequest(`/products/${id}`, {
     method: "DELETE",
   });
 }
 
+export async function restoreProduct(id: string): Promise<Product> {
+  return apiRequest(`/products/${id}/restore`, {
+    method: "POST",
+  });
+}
+
+export async function purgeProduct(id: string): Promise<void> {
+  return apiRequest(`/products/${id}/purge`, {
+    method: "DELETE",
+  });
+}
+
 /* =========================
    MOVEMENTS
 ========================= */
@@ -160,7 +846,19 @@ export async function getMovements(): Promise<Movement[]> {
 }
 
 export async function addMovement(
-  data: Omit<Movement, "id" | "createdAt">
+  data: Pick<Movement, "productId" | "quantity" | "note" | "locationId"> & {
+    type: "entry" | "exit" | "adjustment";
+    /** Obrigatório nos ajustes. */
+    reasonId?: string | null;
+    /** Produtos serializados: números das unidades que entram. */
+    serials?: string[];
+    /** Produtos serializados: unidades escolhidas para sair. */
+    unitIds?: string[];
+    lotNumber?: string | null;
+    expiresAt?: Date | null;
+    /** Só nas entradas; sem ele, a entrada vale o custo médio. */
+    unitCost?: number | null;
+  }
 ): Promise<Movement> {
   const id = Crypto.randomUUID();
 
@@ -170,6 +868,253 @@ export async function addMovement(
   });
 }
 
+export interface TransferInput {
+  productId: string;
+  fromLocationId: string;
+  toLocationId: string;
+  quantity: number;
+  note: string | null;
+  unitIds?: string[];
+}
+
+/** Registra a transferência e devolve as duas pontas: saída e chegada. */
+export async function addTransfer(data: TransferInput): Promise<Movement[]> {
+  return apiRequest("/transfers", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+/** Estorna a movimentação; nas transferências, devolve as duas pontas do estorno. */
+export async function reverseMovement(id: string, note?: string | null): Promise<Movement[]> {
+  return apiRequest(`/movements/${id}/reverse`, {
+    method: "POST",
+    body: JSON.stringify({ note }),
+  });
+}
+
+/** Estorna e lança de novo com os valores corrigidos. */
+export async function correctMovement(
+  id: string,
+  data: { quantity: number; unitCost?: number | null; reasonId?: string | null; note?: string | null }
+): Promise<Movement> {
+  return apiRequest(`/movements/${id}/correct`, {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+/* =========================
+   MOVEMENT DOCUMENTS
+========================= */
+
+export async function getMovementDocuments(): Promise<MovementDocument[]> {
+  return apiRequest("/movement-documents");
+}
+
+export async function addMovementDocument(data: {
+  type: MovementDocumentType;
+  number: string;
+  documentDate: Date;
+  supplierId?: string | null;
+  technicianId?: string | null;
+  locationId: string;
+  note: string | null;
+  lines: MovementDocumentLineInput[];
+}): Promise<MovementDocument & { lines: Movement[] }> {
+  return apiRequest("/movement-documents", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+/* =========================
+   ADJUSTMENT REASONS
+========================= */
+
+export async function getAdjustmentReasons(): Promise<AdjustmentReason[]> {
+  return apiRequest("/adjustment-reasons");
+}
+
+export async function addAdjustmentReason(name: string): Promise<AdjustmentReason> {
+  return apiRequest("/adjustment-reasons", {
+    method: "POST",
+    body: JSON.stringify({ name }),
+  });
+}
+
+export async function updateAdjustmentReason(
+  id: string,
+  data: Partial<Pick<AdjustmentReason, "name" | "active">>
+): Promise<AdjustmentReason> {
+  return apiRequest(`/adjustment-reasons/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(data),
+  });
+}
+
+/* =========================
+   LOTS
+========================= */
+
+export async function getLots(): Promise<StockLot[]> {
+  return apiRequest("/lots");
+}
+
+/* =========================
+   UNITS
+========================= */
+
+export async function getProductUnits(productId: string): Promise<ProductUnit[]> {
+  return apiRequest(`/products/${productId}/units`);
+}
+
+export async function getUnitHistory(unitId: string): Promise<AuditEntry[]> {
+  return apiRequest(`/units/${unitId}/history`);
+}
+
+export async function updateUnitStatus(unitId: string, status: UnitStatus): Promise<ProductUnit> {
+  return apiRequest(`/units/${unitId}/status`, {
+    method: "PATCH",
+    body: JSON.stringify({ status }),
+  });
+}
+
+/** Liga o número de série num produto com estoque, cadastrando cada unidade do saldo atual. */
+export async function serializeProduct(
+  productId: string,
+  units: { serial: string; locationId: string }[]
+): Promise<Product> {
+  return apiRequest(`/products/${productId}/serialize`, {
+    method: "POST",
+    body: JSON.stringify({ units }),
+  });
+}
+
+/* =========================
+   MAINTENANCE
+========================= */
+
+export async function getProductMaintenance(
+  productId: string
+): Promise<{ plans: MaintenancePlan[]; events: MaintenanceEvent[] }> {
+  return apiRequest(`/products/${productId}/maintenance`);
+}
+
+export async function getMaintenanceStatus(productId?: string): Promise<MaintenanceStatus[]> {
+  return apiRequest(productId ? `/maintenance/status?productId=${productId}` : "/maintenance/status");
+}
+
+export async function addMaintenancePlan(data: {
+  productId: string;
+  unitId: string | null;
+  kind: MaintenanceKind;
+  description: string | null;
+  intervalDays: number | null;
+  intervalUses: number | null;
+}): Promise<MaintenancePlan> {
+  return apiRequest("/maintenance/plans", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function deleteMaintenancePlan(id: string): Promise<void> {
+  return apiRequest(`/maintenance/plans/${id}`, {
+    method: "DELETE",
+  });
+}
+
+/** `releaseUnit` devolve ao estoque a unidade que estava em manutenção. */
+export async function addMaintenanceEvent(data: {
+  productId: string;
+  unitId: string | null;
+  planId: string | null;
+  kind: MaintenanceKind;
+  cost: number;
+  note: string | null;
+  releaseUnit?: boolean;
+}): Promise<MaintenanceEvent> {
+  return apiRequest("/maintenance/events", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+/* =========================
+   CHECKOUTS
+========================= */
+
+/** Quantidade ainda com o técnico: nem devolvida, nem baixada. */
+export function outstandingQuantity(checkout: Checkout): number {
+  return checkout.quantity - checkout.returnedQuantity - checkout.lostQuantity - checkout.damagedQuantity;
+}
+
+export async function getCheckouts(status: "open" | "all" = "open"): Promise<Checkout[]> {
+  return apiRequest(`/checkouts?status=${status}`);
+}
+
+export async function getTechnicians(): Promise<Technician[]> {
+  return apiRequest("/technicians");
+}
+
+export async function addCheckout(data: {
+  productId: string;
+  locationId: string;
+  technicianId: string;
+  quantity: number;
+  expectedReturnAt: Date;
+  note: string | null;
+  unitIds?: string[];
+  /** Retira mesmo com manutenção ou calibração vencida. */
+  ignoreMaintenance?: boolean;
+}): Promise<Checkout> {
+  return apiRequest("/checkouts", {
+    method: "POST",
+    body: JSON.stringify({ ...data, expectedReturnAt: data.expectedReturnAt.toISOString() }),
+  });
+}
+
+export type UnitOutcome = "returned" | "lost" | "damaged";
+
+export async function returnCheckout(
+  id: string,
+  data: {
+    returned: number;
+    lost: number;
+    damaged: number;
+    note: string | null;
+    units?: { unitId: string; outcome: UnitOutcome }[];
+  }
+): Promise<Checkout> {
+  return apiRequest(`/checkouts/${id}/return`, {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+/* =========================
+   AUDIT
+========================= */
+
+export interface AuditFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export async function getAuditLog(filters: AuditFilters = {}): Promise<AuditEntry[]> {
+  const params = new URLSearchParams();
+  if (filters.entityType) params.set("entityType", filters.entityType);
+  if (filters.entityId) params.set("entityId", filters.entityId);
+  if (filters.from) params.set("from", filters.from.toISOString());
+  if (filters.to) params.set("to", filters.to.toISOString());
+
+  const query = params.toString();
+  return apiRequest(`/audit${query ? `?${query}` : ""}`);
+}
+
 /* =========================
    BACKUP
 ========================= */
@@ -182,10 +1127,22 @@ export interface BackupData {
   movements: Movement[];
 }
 
+/** Cópia gravada pelo servidor antes de limpar ou substituir os dados. */
+export interface BackupSnapshot {
+  id: string;
+  reason: BackupSnapshotReason;
+  userId: string | null;
+  userName: string | null;
+  createdAt: string;
+  categories: number;
+  products: number;
+  movements: number;
+}
+
 export async function exportAllData(): Promise<BackupData> {
   const [categories, products, movements] = await Promise.all([
-    getCategories(),
-    getProducts(),
+    getCategories("include"),
+    getProducts("include"),
     getMovements(),
   ]);
 
@@ -198,23 +1155,29 @@ export async function exportAllData(): Promise<BackupData> {
   };
 }
 
-export async function importAllData(data: BackupData): Promise<void> {
-  for (const cat of data.categories) {
-    await addCategory(cat.name, cat.color);
-  }
+/** Restaura o backup no servidor, com os mesmos IDs e datas, numa única transação. */
+export async function importAllData(data: BackupData, mode: BackupRestoreMode): Promise<BackupRestoreResult> {
+  return apiRequest("/backup/restore", {
+    method: "POST",
+    body: JSON.stringify({ mode, data }),
+  });
+}
 
-  for (const prod of data.products) {
-    await addProduct({
-      name: prod.name,
-      categoryId: prod.categoryId,
-      quantity: prod.quantity,
-      minStock: prod.minStock,
-      price: prod.price,
-      unit: prod.unit,
-    });
-  }
+/** Apaga produtos, categorias e movimentações; o servidor guarda uma cópia antes. */
+export async function clearAllData(confirmation: string): Promise<ClearDataResult> {
+  return apiRequest("/backup/clear", {
+    method: "POST",
+    body: JSON.stringify({ confirmation }),
+  });
+}
+
+export async function getBackupSnapshots(): Promise<BackupSnapshot[]> {
+  return apiRequest("/backup/snapshots");
 }
 
-export async function clearAllData(): Promise<void> {
-  // Implementar se necessário
+export async function restoreBackupSnapshot(id: string, mode: BackupRestoreMode): Promise<BackupRestoreResult> {
+  return apiRequest(`/backup/snapshots/${id}/restore`, {
+    method: "POST",
+    body: JSON.stringify({ mode }),
+  });
 }
@@ -0,0 +1,143 @@
+import type { Express } from "express";
+import { and, asc, eq, ne } from "drizzle-orm";
+import {
+  adjustmentReasons,
+  insertAdjustmentReasonSchema,
+  updateAdjustmentReasonSchema,
+  type InsertAdjustmentReason,
+  type UpdateAdjustmentReason,
+  type AdjustmentReason,
+} from "@shared/schema";
+import { DEFAULT_ADJUSTMENT_REASONS } from "@shared/movements";
+import { db } from "./db";
+import { HttpError, sendHttpError } from "./errors";
+import { validateBody } from "./validation";
+import { requirePermission } from "./auth";
+import { recordAudit } from "./audit";
+
+type DbExecutor = Pick<typeof db, "select">;
+
+/** Cria os motivos padrão que ainda não existem. Roda na subida do servidor. */
+export async function ensureAdjustmentReasons(): Promise<void> {
+  await db
+    .insert(adjustmentReasons)
+    .values(DEFAULT_ADJUSTMENT_REASONS.map((reason) => ({ ...reason })))
+    .onConflictDoNothing();
+}
+
+export async function getAdjustmentReasonByCode(executor: DbExecutor, code: string): Promise<AdjustmentReason> {
+  const [reason] = await executor.select().from(adjustmentReasons).where(eq(adjustmentReasons.code, code));
+  if (!reason) {
+    throw new HttpError(500, "Motivo de ajuste padrão não configurado");
+  }
+  return reason;
+}
+
+/** Motivo escolhido num ajuste manual: precisa existir e estar ativo. */
+export async function getActiveAdjustmentReason(executor: DbExecutor, reasonId: string): Promise<AdjustmentReason> {
+  const [reason] = await executor.select().from(adjustmentReasons).where(eq(adjustmentReasons.id, reasonId));
+  if (!reason) {
+    throw new HttpError(404, "Motivo de ajuste não encontrado");
+  }
+  if (!reason.active) {
+    throw new HttpError(409, `O motivo "${reason.name}" está desativado`);
+  }
+  return reason;
+}
+
+async function assertNameAvailable(executor: DbExecutor, name: string, exceptId?: string): Promise<void> {
+  const sameName = eq(adjustmentReasons.name, name);
+  const [existing] = await executor
+    .select({ id: adjustmentReasons.id })
+    .from(adjustmentReasons)
+    .where(exceptId ? and(sameName, ne(adjustmentReasons.id, exceptId)) : sameName);
+  if (existing) {
+    throw new HttpError(409, "Já existe um motivo com este nome");
+  }
+}
+
+export function registerAdjustmentReasonRoutes(app: Express): void {
+  app.get("/api/adjustment-reasons", async (_req, res) => {
+    try {
+      const reasons = await db.select().from(adjustmentReasons).orderBy(asc(adjustmentReasons.createdAt));
+      res.json(reasons);
+    } catch (error) {
+      console.error("Erro ao buscar motivos de ajuste:", error);
+      res.status(500).json({ message: "Erro ao buscar motivos de ajuste" });
+    }
+  });
+
+  app.post(
+    "/api/adjustment-reasons",
+    requirePermission("reason:manage"),
+    validateBody(insertAdjustmentReasonSchema),
+    async (req, res) => {
+      try {
+        const data: InsertAdjustmentReason = req.body;
+        const reason = await db.transaction(async (tx) => {
+          await assertNameAvailable(tx, data.name);
+          const [created] = await tx.insert(adjustmentReasons).values(data).returning();
+          await recordAudit(tx, {
+            entityType: "adjustment_reason",
+            entityId: created.id,
+            entityName: created.name,
+            action: "create",
+            userId: req.user!.id,
+            after: created,
+          });
+          return created;
+        });
+        res.json(reason);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao criar motivo de ajuste:", error);
+        res.status(500).json({ message: "Erro ao criar motivo de ajuste" });
+      }
+    },
+  );
+
+  app.patch(
+    "/api/adjustment-reasons/:id",
+    requirePermission("reason:manage"),
+    validateBody(updateAdjustmentReasonSchema),
+    async (req, res) => {
+      try {
+        const data: UpdateAdjustmentReason = req.body;
+        const reason = await db.transaction(async (tx) => {
+          const [current] = await tx
+            .select()
+            .from(adjustmentReasons)
+            .where(eq(adjustmentReasons.id, req.params.id))
+            .for("update");
+          if (!current) {
+            throw new HttpError(404, "Motivo de ajuste não encontrado");
+          }
+          if (data.name) {
+            await assertNameAvailable(tx, data.name, current.id);
+          }
+
+          const [updated] = await tx
+            .update(adjustmentReasons)
+            .set(data)
+            .where(eq(adjustmentReasons.id, req.params.id))
+            .returning();
+          await recordAudit(tx, {
+            entityType: "adjustment_reason",
+            entityId: updated.id,
+            entityName: updated.name,
+            action: "update",
+            userId: req.user!.id,
+            before: current,
+            after: updated,
+          });
+          return updated;
+        });
+        res.json(reason);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao atualizar motivo de ajuste:", error);
+        res.status(500).json({ message: "Erro ao atualizar motivo de ajuste" });
+      }
+    },
+  );
+}
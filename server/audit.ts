@@ -0,0 +1,105 @@
+import type { Express } from "express";
+import { and, desc, eq, getTableColumns, gte, lte, type SQL } from "drizzle-orm";
+import { fromZodError } from "zod-validation-error";
+import {
+  auditLog,
+  auditQuerySchema,
+  users,
+  type AuditAction,
+  type AuditEntityType,
+} from "@shared/schema";
+import { db } from "./db";
+import { requirePermission } from "./auth";
+
+/** `db` ou a transação em andamento, para o registro entrar no mesmo commit. */
+type DbExecutor = Pick<typeof db, "insert">;
+
+type AuditRecord = {
+  entityType: AuditEntityType;
+  entityId: string;
+  entityName?: string | null;
+  action: AuditAction;
+  userId: string;
+  before?: object | null;
+  after?: object | null;
+};
+
+// Campos que mudam em toda gravação e só poluiriam o histórico.
+const IGNORED_FIELDS = new Set(["updatedAt", "updatedBy"]);
+
+const AUDIT_LIMIT = 500;
+
+function toJson(value: object): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/** Mantém apenas os campos que mudaram entre `before` e `after`. */
+function diffFields(before: object, after: object) {
+  const beforeJson = toJson(before);
+  const afterJson = toJson(after);
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const key of Object.keys(afterJson)) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    if (JSON.stringify(beforeJson[key]) !== JSON.stringify(afterJson[key])) {
+      changedBefore[key] = beforeJson[key] ?? null;
+      changedAfter[key] = afterJson[key];
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+export async function recordAudit(executor: DbExecutor, record: AuditRecord): Promise<void> {
+  let before = record.before ? toJson(record.before) : null;
+  let after = record.after ? toJson(record.after) : null;
+
+  if (record.action === "update" && record.before && record.after) {
+    ({ before, after } = diffFields(record.before, record.after));
+    if (Object.keys(after).length === 0) return;
+  }
+
+  await executor.insert(auditLog).values({
+    entityType: record.entityType,
+    entityId: record.entityId,
+    entityName: record.entityName ?? null,
+    action: record.action,
+    userId: record.userId,
+    before,
+    after,
+  });
+}
+
+export function registerAuditRoutes(app: Express): void {
+  app.get("/api/audit", requirePermission("audit:view"), async (req, res) => {
+    try {
+      const parsed = auditQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: fromZodError(parsed.error, { prefix: "Filtro inválido" }).message,
+        });
+      }
+
+      const { entityType, entityId, from, to } = parsed.data;
+      const conditions: SQL[] = [];
+      if (entityType) conditions.push(eq(auditLog.entityType, entityType));
+      if (entityId) conditions.push(eq(auditLog.entityId, entityId));
+      if (from) conditions.push(gte(auditLog.createdAt, from));
+      if (to) conditions.push(lte(auditLog.createdAt, to));
+
+      const entries = await db
+        .select({ ...getTableColumns(auditLog), userName: users.username })
+        .from(auditLog)
+        .leftJoin(users, eq(auditLog.userId, users.id))
+        .where(and(...conditions))
+        .orderBy(desc(auditLog.createdAt))
+        .limit(AUDIT_LIMIT);
+
+      res.json(entries);
+    } catch (error) {
+      console.error("Erro ao buscar auditoria:", error);
+      res.status(500).json({ message: "Erro ao buscar auditoria" });
+    }
+  });
+}
@@ -0,0 +1,252 @@
+import type { Express, Request, RequestHandler } from "express";
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { count, eq, sql } from "drizzle-orm";
+import {
+  users,
+  insertUserSchema,
+  loginSchema,
+  updateUserSchema,
+  type InsertUser,
+  type PublicUser,
+  type UpdateUser,
+  type User,
+} from "@shared/schema";
+import { can, type Permission } from "@shared/permissions";
+import { db } from "./db";
+import { storage } from "./storage";
+import { recordAudit } from "./audit";
+import { validateBody } from "./validation";
+import { HttpError, sendHttpError } from "./errors";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    user?: PublicUser;
+    sessionId?: string;
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Chave do advisory lock que serializa os cadastros, para que dois primeiros
+// cadastros simultâneos não virem ambos administradores.
+const REGISTER_LOCK_KEY = 7_200_301;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+async function createSessionFor(user: User) {
+  const token = randomBytes(32).toString("hex");
+  await storage.createSession({
+    id: hashToken(token),
+    userId: user.id,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+  return { token, user: toPublicUser(user) };
+}
+
+/** Resolve o usuário do header `Authorization: Bearer <token>`, se houver. */
+async function resolveUser(req: Request): Promise<void> {
+  const header = req.header("authorization");
+  if (!header?.startsWith("Bearer ")) return;
+
+  const sessionId = hashToken(header.slice("Bearer ".length).trim());
+  const session = await storage.getSession(sessionId);
+  if (!session) return;
+
+  if (session.expiresAt.getTime() < Date.now()) {
+    await storage.deleteSession(sessionId);
+    return;
+  }
+
+  const user = await storage.getUser(session.userId);
+  if (!user) return;
+
+  req.user = toPublicUser(user);
+  req.sessionId = sessionId;
+}
+
+export const requireAuth: RequestHandler<Record<string, string>> = async (req, res, next) => {
+  try {
+    await resolveUser(req);
+    if (!req.user) {
+      res.status(401).json({ message: "Sessão expirada. Faça login novamente." });
+      return;
+    }
+    next();
+  } catch (error) {
+    console.error("Erro ao validar sessão:", error);
+    res.status(500).json({ message: "Erro ao validar sessão" });
+  }
+};
+
+/** Deve vir depois de `requireAuth`. */
+export function requirePermission<P = Record<string, string>>(permission: Permission): RequestHandler<P> {
+  return (req, res, next) => {
+    if (!can(req.user?.role, permission)) {
+      res.status(403).json({ message: "Você não tem permissão para esta ação" });
+      return;
+    }
+    next();
+  };
+}
+
+export function registerAuthRoutes(app: Express): void {
+  app.post("/api/auth/register", validateBody(insertUserSchema), async (req, res) => {
+    try {
+      const data: InsertUser = req.body;
+      const password = await hashPassword(data.password);
+
+      const user = await db.transaction(async (tx) => {
+        await tx.execute(sql`select pg_advisory_xact_lock(${REGISTER_LOCK_KEY})`);
+
+        // O primeiro cadastro é livre e vira administrador; depois disso só
+        // um administrador pode criar usuários.
+        const [{ value: userCount }] = await tx.select({ value: count() }).from(users);
+        const isFirstUser = userCount === 0;
+        if (!isFirstUser) {
+          await resolveUser(req);
+          if (!can(req.user?.role, "user:manage")) {
+            throw new HttpError(403, "Cadastro restrito. Peça acesso a um administrador.");
+          }
+        }
+
+        const [existing] = await tx.select({ id: users.id }).from(users).where(eq(users.username, data.username));
+        if (existing) {
+          throw new HttpError(409, "Este usuário já existe");
+        }
+
+        const [created] = await tx
+          .insert(users)
+          .values({
+            id: randomUUID(),
+            username: data.username,
+            password,
+            role: isFirstUser ? "admin" : data.role,
+          })
+          .returning();
+        await recordAudit(tx, {
+          entityType: "user",
+          entityId: created.id,
+          entityName: created.username,
+          action: "create",
+          userId: req.user?.id ?? created.id,
+          after: toPublicUser(created),
+        });
+        return created;
+      });
+
+      // Quem cadastra outra pessoa continua com a própria sessão.
+      if (req.user) {
+        return res.status(201).json({ user: toPublicUser(user) });
+      }
+      res.status(201).json(await createSessionFor(user));
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao cadastrar usuário:", error);
+      res.status(500).json({ message: "Erro ao cadastrar usuário" });
+    }
+  });
+
+  app.post("/api/auth/login", validateBody(loginSchema), async (req, res) => {
+    try {
+      const { username, password } = req.body;
+      const user = await storage.getUserByUsername(username);
+
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return res.status(401).json({ message: "Usuário ou senha inválidos" });
+      }
+
+      res.json(await createSessionFor(user));
+    } catch (error) {
+      console.error("Erro ao fazer login:", error);
+      res.status(500).json({ message: "Erro ao fazer login" });
+    }
+  });
+
+  app.post("/api/auth/logout", requireAuth, async (req, res) => {
+    try {
+      await storage.deleteSession(req.sessionId!);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Erro ao sair:", error);
+      res.status(500).json({ message: "Erro ao sair" });
+    }
+  });
+
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json(req.user);
+  });
+
+  app.get("/api/users", requireAuth, requirePermission("user:manage"), async (_req, res) => {
+    try {
+      const allUsers = await storage.listUsers();
+      res.json(allUsers.map(toPublicUser));
+    } catch (error) {
+      console.error("Erro ao buscar usuários:", error);
+      res.status(500).json({ message: "Erro ao buscar usuários" });
+    }
+  });
+
+  app.patch(
+    "/api/users/:id",
+    requireAuth,
+    requirePermission("user:manage"),
+    validateBody(updateUserSchema),
+    async (req, res) => {
+      try {
+        const data: UpdateUser = req.body;
+
+        // Evita que o sistema fique sem nenhum administrador.
+        if (req.params.id === req.user!.id && data.role !== "admin") {
+          return res.status(409).json({ message: "Você não pode remover seu próprio perfil de administrador" });
+        }
+
+        const current = await storage.getUser(req.params.id);
+        if (!current) {
+          return res.status(404).json({ message: "Usuário não encontrado" });
+        }
+
+        const user = await storage.updateUser(req.params.id, data);
+        if (!user) {
+          return res.status(404).json({ message: "Usuário não encontrado" });
+        }
+        await recordAudit(db, {
+          entityType: "user",
+          entityId: user.id,
+          entityName: user.username,
+          action: "update",
+          userId: req.user!.id,
+          before: toPublicUser(current),
+          after: toPublicUser(user),
+        });
+        res.json(toPublicUser(user));
+      } catch (error) {
+        console.error("Erro ao atualizar usuário:", error);
+        res.status(500).json({ message: "Erro ao atualizar usuário" });
+      }
+    },
+  );
+}
@@ -0,0 +1,440 @@
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import { and, count, desc, eq, gt, inArray, isNull, sql } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import {
+  adjustmentReasons,
+  backupSnapshots,
+  categories,
+  checkouts,
+  locations,
+  maintenanceEvents,
+  maintenancePlans,
+  movementDocuments,
+  movementUnits,
+  movements,
+  pricePoints,
+  productSuppliers,
+  productUnits,
+  products,
+  purchaseOrderLines,
+  purchaseOrders,
+  stockBalances,
+  stockLots,
+  stocktakeItems,
+  stocktakes,
+  users,
+  backupDataSchema,
+  clearDataSchema,
+  restoreBackupSchema,
+  restoreSnapshotSchema,
+  type BackupData,
+  type RestoreBackup,
+  type RestoreSnapshot,
+} from "@shared/schema";
+import type {
+  BackupConflict,
+  BackupCounts,
+  BackupRestoreMode,
+  BackupRestoreResult,
+  BackupSnapshotReason,
+  ClearDataResult,
+} from "@shared/backup";
+import { movementDelta } from "@shared/movements";
+import { db } from "./db";
+import { HttpError, sendHttpError } from "./errors";
+import { validateBody } from "./validation";
+import { requirePermission } from "./auth";
+import { recordAudit } from "./audit";
+import { adjustBalance, getDefaultLocationId } from "./locations";
+
+type DbExecutor = Pick<typeof db, "select" | "insert" | "update" | "delete">;
+
+// Mantém cada insert bem abaixo do limite de parâmetros do Postgres.
+const INSERT_CHUNK = 500;
+
+async function insertChunked<T>(rows: T[], insert: (chunk: T[]) => Promise<unknown>): Promise<void> {
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+    await insert(rows.slice(i, i + INSERT_CHUNK));
+  }
+}
+
+/** IDs de `ids` que existem na tabela. */
+async function existingIds(
+  executor: DbExecutor,
+  table: PgTable,
+  column: PgColumn,
+  ids: (string | null | undefined)[],
+): Promise<Set<string>> {
+  const wanted = [...new Set(ids.filter((id): id is string => !!id))];
+  if (wanted.length === 0) return new Set();
+  const rows = await executor.select({ id: column }).from(table).where(inArray(column, wanted));
+  return new Set(rows.map((row) => String(row.id)));
+}
+
+/** Grava o estoque atual no formato do arquivo de backup e devolve o ID da cópia. */
+export async function writeSnapshot(
+  executor: DbExecutor,
+  reason: BackupSnapshotReason,
+  userId: string,
+): Promise<string> {
+  const [allCategories, allProducts, allMovements] = await Promise.all([
+    executor
+      .select({ id: categories.id, name: categories.name, color: categories.color, deletedAt: categories.deletedAt })
+      .from(categories),
+    executor.select().from(products),
+    executor.select().from(movements),
+  ]);
+  const [snapshot] = await executor
+    .insert(backupSnapshots)
+    .values({
+      reason,
+      data: {
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        categories: allCategories,
+        products: allProducts,
+        movements: allMovements,
+      },
+      userId,
+    })
+    .returning({ id: backupSnapshots.id });
+  return snapshot.id;
+}
+
+/**
+ * Apaga movimentações, produtos e categorias, junto com tudo o que depende
+ * deles, na ordem das chaves estrangeiras. Usuários, locais, fornecedores e
+ * motivos de ajuste ficam.
+ *
+ * A cópia automática guarda só categorias, produtos e movimentações; o resto
+ * se perde de vez: unidades com número de série, lotes e validades, histórico
+ * de preços, planos e registros de manutenção, documentos, vínculos com
+ * fornecedores, retiradas encerradas, pedidos em rascunho, recebidos ou
+ * cancelados e inventários encerrados. Por isso a limpeza é recusada enquanto
+ * houver retiradas em aberto, pedidos aguardando entrega, inventários em
+ * contagem ou produtos com número de série em estoque, que a cópia não
+ * consegue trazer de volta.
+ */
+export async function wipeInventory(executor: DbExecutor): Promise<BackupCounts> {
+  const [[openCheckouts], [openOrders], [openStocktakes], [serializedInStock]] = await Promise.all([
+    executor.select({ value: count() }).from(checkouts).where(isNull(checkouts.closedAt)),
+    executor
+      .select({ value: count() })
+      .from(purchaseOrders)
+      .where(inArray(purchaseOrders.status, ["sent", "partially_received"])),
+    executor.select({ value: count() }).from(stocktakes).where(eq(stocktakes.status, "counting")),
+    executor
+      .select({ value: count() })
+      .from(products)
+      .where(and(eq(products.serialized, true), gt(products.quantity, 0))),
+  ]);
+  const pending = [
+    openCheckouts.value > 0 ? `${openCheckouts.value} retirada(s) em aberto` : null,
+    openOrders.value > 0 ? `${openOrders.value} pedido(s) de compra aguardando entrega` : null,
+    openStocktakes.value > 0 ? `${openStocktakes.value} inventário(s) em contagem` : null,
+    serializedInStock.value > 0 ? `${serializedInStock.value} produto(s) com número de série em estoque` : null,
+  ].filter((item): item is string => item !== null);
+  if (pending.length > 0) {
+    throw new HttpError(
+      409,
+      `Resolva antes: ${pending.join(", ")}. Eles não voltam com a cópia automática.`,
+      {
+        openCheckouts: openCheckouts.value,
+        openPurchaseOrders: openOrders.value,
+        openStocktakes: openStocktakes.value,
+        serializedInStock: serializedInStock.value,
+      },
+    );
+  }
+
+  await executor.delete(movementUnits);
+  await executor.delete(pricePoints);
+  await executor.delete(maintenanceEvents);
+  await executor.delete(maintenancePlans);
+  const removedMovements = await executor.delete(movements).returning({ id: movements.id });
+  await executor.delete(movementDocuments);
+  await executor.delete(productUnits);
+  await executor.delete(checkouts);
+  await executor.delete(stockLots);
+  await executor.delete(stockBalances);
+  await executor.delete(productSuppliers);
+  await executor.delete(purchaseOrderLines);
+  await executor.delete(purchaseOrders);
+  await executor.delete(stocktakeItems);
+  await executor.delete(stocktakes);
+  const removedProducts = await executor.delete(products).returning({ id: products.id });
+  const removedCategories = await executor.delete(categories).returning({ id: categories.id });
+  return {
+    categories: removedCategories.length,
+    products: removedProducts.length,
+    movements: removedMovements.length,
+  };
+}
+
+/**
+ * Importa o backup mantendo IDs e datas. No modo "replace" o estoque atual é
+ * apagado antes; no "merge" os registros cujo ID já existe ficam como estão e
+ * voltam na lista de conflitos. Produtos que não voltariam iguais, como
+ * serializados com estoque ou com histórico que deixa saldo negativo num
+ * local, também ficam de fora, como conflito.
+ */
+export async function restoreBackup(
+  executor: DbExecutor,
+  data: BackupData,
+  mode: BackupRestoreMode,
+  userId: string,
+): Promise<BackupRestoreResult> {
+  let snapshotId: string | null = null;
+  if (mode === "replace") {
+    // O que vai ser substituído fica guardado numa cópia automática.
+    snapshotId = await writeSnapshot(executor, "replace", userId);
+    await wipeInventory(executor);
+  }
+  const conflicts: BackupConflict[] = [];
+
+  const takenCategories = await existingIds(executor, categories, categories.id, data.categories.map((c) => c.id));
+  const newCategories = data.categories.filter((category) => {
+    if (!takenCategories.has(category.id)) return true;
+    conflicts.push({ entity: "category", id: category.id, name: category.name, reason: "Já existe uma categoria com este ID" });
+    return false;
+  });
+  await insertChunked(newCategories, (chunk) =>
+    executor.insert(categories).values(chunk.map((c) => ({ ...c, createdBy: userId, updatedBy: userId }))),
+  );
+
+  const knownCategories = new Set([
+    ...newCategories.map((c) => c.id),
+    ...(await existingIds(executor, categories, categories.id, data.products.map((p) => p.categoryId))),
+  ]);
+  const takenProducts = await existingIds(executor, products, products.id, data.products.map((p) => p.id));
+  const takenMovements = await existingIds(executor, movements, movements.id, data.movements.map((m) => m.id));
+  const knownLocations = await existingIds(executor, locations, locations.id, data.movements.map((m) => m.locationId));
+  const defaultLocationId = await getDefaultLocationId(executor);
+  const movementLocation = (m: BackupData["movements"][number]) =>
+    m.locationId && knownLocations.has(m.locationId) ? m.locationId : defaultLocationId;
+
+  // Saldo por local de cada produto, refeito a partir das movimentações do backup.
+  const balances = new Map<string, Map<string, number>>();
+  for (const movement of data.movements) {
+    const byLocation = balances.get(movement.productId) ?? new Map<string, number>();
+    const locationId = movementLocation(movement);
+    byLocation.set(locationId, (byLocation.get(locationId) ?? 0) + movementDelta(movement));
+    balances.set(movement.productId, byLocation);
+  }
+  // O estoque inicial do cadastro não gera movimentação: o que o histórico não
+  // explica volta como saldo de abertura no local padrão.
+  for (const product of data.products) {
+    const byLocation = balances.get(product.id) ?? new Map<string, number>();
+    const explained = [...byLocation.values()].reduce((sum, quantity) => sum + quantity, 0);
+    if (explained !== product.quantity) {
+      byLocation.set(defaultLocationId, (byLocation.get(defaultLocationId) ?? 0) + product.quantity - explained);
+    }
+    balances.set(product.id, byLocation);
+  }
+  const historyConflict = new Set(data.movements.filter((m) => takenMovements.has(m.id)).map((m) => m.productId));
+
+  const newProducts = data.products.filter((product) => {
+    const reason = takenProducts.has(product.id)
+      ? "Já existe um produto com este ID"
+      : !knownCategories.has(product.categoryId)
+        ? "A categoria do produto não está no backup nem no sistema"
+        : product.serialized && product.quantity > 0
+          ? "Os números de série das unidades não vão no backup"
+          : historyConflict.has(product.id)
+            ? "Parte das movimentações do produto já existe no sistema"
+            : [...balances.get(product.id)!.values()].some((quantity) => quantity < 0)
+              ? "As movimentações do backup deixam saldo negativo num local"
+              : null;
+    if (!reason) return true;
+    conflicts.push({ entity: "product", id: product.id, name: product.name, reason });
+    return false;
+  });
+  await insertChunked(newProducts, (chunk) =>
+    executor.insert(products).values(chunk.map((p) => ({ ...p, createdBy: userId, updatedBy: userId }))),
+  );
+  for (const product of newProducts) {
+    for (const [locationId, quantity] of balances.get(product.id)!) {
+      if (quantity > 0) {
+        await adjustBalance(executor, product.id, locationId, quantity);
+      }
+    }
+  }
+
+  // A quantidade dos produtos já reflete o histórico, então as movimentações
+  // voltam só como registro, sem mexer no estoque. Por isso só entram as dos
+  // produtos importados agora.
+  const restoredProducts = new Set(newProducts.map((p) => p.id));
+  const productNames = new Map(data.products.map((p) => [p.id, p.name]));
+  const newMovements = data.movements.filter((movement) => {
+    const reason = takenMovements.has(movement.id)
+      ? "Já existe uma movimentação com este ID"
+      : takenProducts.has(movement.productId)
+        ? "O produto já existia; o histórico dele não foi alterado"
+        : !restoredProducts.has(movement.productId)
+          ? "O produto da movimentação não foi importado"
+          : null;
+    if (!reason) return true;
+    conflicts.push({
+      entity: "movement",
+      id: movement.id,
+      name: productNames.get(movement.productId) ?? movement.productId,
+      reason,
+    });
+    return false;
+  });
+
+  // Retiradas, lotes, pedidos, inventários e documentos não vão no backup;
+  // os vínculos só ficam quando o registro existe neste sistema.
+  const [knownUsers, knownReasons, knownCheckouts, knownLots, knownOrders, knownStocktakes, knownDocuments] =
+    await Promise.all([
+      existingIds(executor, users, users.id, newMovements.map((m) => m.userId)),
+      existingIds(executor, adjustmentReasons, adjustmentReasons.id, newMovements.map((m) => m.reasonId)),
+      existingIds(executor, checkouts, checkouts.id, newMovements.map((m) => m.checkoutId)),
+      existingIds(executor, stockLots, stockLots.id, newMovements.map((m) => m.lotId)),
+      existingIds(executor, purchaseOrders, purchaseOrders.id, newMovements.map((m) => m.purchaseOrderId)),
+      existingIds(executor, stocktakes, stocktakes.id, newMovements.map((m) => m.stocktakeId)),
+      existingIds(executor, movementDocuments, movementDocuments.id, newMovements.map((m) => m.documentId)),
+    ]);
+  const keep = (id: string | null | undefined, known: Set<string>) => (id && known.has(id) ? id : null);
+
+  await insertChunked(newMovements, (chunk) =>
+    executor.insert(movements).values(
+      chunk.map((m) => ({
+        ...m,
+        locationId: movementLocation(m),
+        userId: keep(m.userId, knownUsers),
+        reasonId: keep(m.reasonId, knownReasons),
+        checkoutId: keep(m.checkoutId, knownCheckouts),
+        lotId: keep(m.lotId, knownLots),
+        purchaseOrderId: keep(m.purchaseOrderId, knownOrders),
+        stocktakeId: keep(m.stocktakeId, knownStocktakes),
+        documentId: keep(m.documentId, knownDocuments),
+        // Ligados depois que todas as linhas existem.
+        reversesId: null,
+        correctsId: null,
+      })),
+    ),
+  );
+  const restoredMovements = new Set(newMovements.map((m) => m.id));
+  for (const movement of newMovements) {
+    const reversesId = keep(movement.reversesId, restoredMovements);
+    const correctsId = keep(movement.correctsId, restoredMovements);
+    if (reversesId || correctsId) {
+      await executor.update(movements).set({ reversesId, correctsId }).where(eq(movements.id, movement.id));
+    }
+  }
+
+  return {
+    mode,
+    snapshotId,
+    restored: { categories: newCategories.length, products: newProducts.length, movements: newMovements.length },
+    conflicts,
+  };
+}
+
+export function registerBackupRoutes(app: Express): void {
+  app.post("/api/backup/restore", requirePermission("backup:import"), validateBody(restoreBackupSchema), async (req, res) => {
+    try {
+      const { mode, data }: RestoreBackup = req.body;
+      const result = await db.transaction(async (tx) => {
+        const restored = await restoreBackup(tx, data, mode, req.user!.id);
+        await recordAudit(tx, {
+          entityType: "backup",
+          entityId: randomUUID(),
+          entityName: `Backup de ${new Date(data.exportedAt).toLocaleDateString("pt-BR")}`,
+          action: "restore",
+          userId: req.user!.id,
+          after: { mode, exportedAt: data.exportedAt, ...restored.restored, conflicts: restored.conflicts.length },
+        });
+        return restored;
+      });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao importar backup:", error);
+      res.status(500).json({ message: "Erro ao importar backup" });
+    }
+  });
+
+  // A lista não traz os dados, só quantos registros cada cópia guarda.
+  app.get("/api/backup/snapshots", requirePermission("backup:import"), async (_req, res) => {
+    try {
+      const snapshots = await db
+        .select({
+          id: backupSnapshots.id,
+          reason: backupSnapshots.reason,
+          userId: backupSnapshots.userId,
+          userName: users.username,
+          createdAt: backupSnapshots.createdAt,
+          categories: sql<number>`jsonb_array_length(${backupSnapshots.data}->'categories')`.mapWith(Number),
+          products: sql<number>`jsonb_array_length(${backupSnapshots.data}->'products')`.mapWith(Number),
+          movements: sql<number>`jsonb_array_length(${backupSnapshots.data}->'movements')`.mapWith(Number),
+        })
+        .from(backupSnapshots)
+        .leftJoin(users, eq(backupSnapshots.userId, users.id))
+        .orderBy(desc(backupSnapshots.createdAt));
+      res.json(snapshots);
+    } catch (error) {
+      console.error("Erro ao buscar cópias automáticas:", error);
+      res.status(500).json({ message: "Erro ao buscar cópias automáticas" });
+    }
+  });
+
+  app.post(
+    "/api/backup/snapshots/:id/restore",
+    requirePermission("backup:import"),
+    validateBody<{ id: string }>(restoreSnapshotSchema),
+    async (req, res) => {
+      try {
+        const { mode }: RestoreSnapshot = req.body;
+        const result = await db.transaction(async (tx) => {
+          const [snapshot] = await tx.select().from(backupSnapshots).where(eq(backupSnapshots.id, req.params.id));
+          if (!snapshot) {
+            throw new HttpError(404, "Cópia automática não encontrada");
+          }
+          const data = backupDataSchema.parse(snapshot.data);
+          const restored = await restoreBackup(tx, data, mode, req.user!.id);
+          await recordAudit(tx, {
+            entityType: "backup",
+            entityId: snapshot.id,
+            entityName: `Cópia de ${snapshot.createdAt.toLocaleDateString("pt-BR")}`,
+            action: "restore",
+            userId: req.user!.id,
+            after: { mode, ...restored.restored, conflicts: restored.conflicts.length },
+          });
+          return restored;
+        });
+        res.json(result);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao restaurar cópia automática:", error);
+        res.status(500).json({ message: "Erro ao restaurar cópia automática" });
+      }
+    },
+  );
+
+  // Antes de apagar, grava uma cópia que pode ser restaurada pela rota acima.
+  app.post("/api/backup/clear", requirePermission("data:clear"), validateBody(clearDataSchema), async (req, res) => {
+    try {
+      const result: ClearDataResult = await db.transaction(async (tx) => {
+        const snapshotId = await writeSnapshot(tx, "clear", req.user!.id);
+        const removed = await wipeInventory(tx);
+        await recordAudit(tx, {
+          entityType: "backup",
+          entityId: snapshotId,
+          entityName: "Limpeza de todos os dados",
+          action: "delete",
+          userId: req.user!.id,
+          before: removed,
+        });
+        return { snapshotId, removed };
+      });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao limpar os dados:", error);
+      res.status(500).json({ message: "Erro ao limpar os dados" });
+    }
+  });
+}
@@ -0,0 +1,320 @@
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import { and, asc, desc, eq, getTableColumns, isNull } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { fromZodError } from "zod-validation-error";
+import {
+  checkouts,
+  locations,
+  movements,
+  products,
+  productUnits,
+  stockBalances,
+  users,
+  insertCheckoutSchema,
+  returnCheckoutSchema,
+  checkoutQuerySchema,
+  type InsertCheckout,
+  type ReturnCheckout,
+} from "@shared/schema";
+import { isReturnable, maintenanceDueLabel } from "@shared/products";
+import { COST_SCALE, currentUnitCost } from "@shared/costing";
+import { db } from "./db";
+import { HttpError, sendHttpError } from "./errors";
+import { validateBody } from "./validation";
+import { requirePermission } from "./auth";
+import { recordAudit } from "./audit";
+import { adjustBalance, getDefaultLocationId } from "./locations";
+import { linkUnits, pickUnits, updateUnits } from "./units";
+import { getMaintenanceStatus } from "./maintenance";
+
+const technician = alias(users, "technician");
+
+export function registerCheckoutRoutes(app: Express): void {
+  app.get("/api/checkouts", async (req, res) => {
+    try {
+      const parsed = checkoutQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: fromZodError(parsed.error, { prefix: "Filtro inválido" }).message,
+        });
+      }
+
+      const allCheckouts = await db
+        .select({
+          ...getTableColumns(checkouts),
+          technicianName: technician.username,
+          userName: users.username,
+        })
+        .from(checkouts)
+        .innerJoin(technician, eq(checkouts.technicianId, technician.id))
+        .leftJoin(users, eq(checkouts.userId, users.id))
+        .where(parsed.data.status === "all" ? undefined : isNull(checkouts.closedAt))
+        .orderBy(desc(checkouts.createdAt));
+      res.json(allCheckouts);
+    } catch (error) {
+      console.error("Erro ao buscar retiradas:", error);
+      res.status(500).json({ message: "Erro ao buscar retiradas" });
+    }
+  });
+
+  // Lista enxuta de usuários para escolher quem retira, sem exigir `user:manage`.
+  app.get("/api/technicians", requirePermission("checkout:manage"), async (_req, res) => {
+    try {
+      const technicians = await db
+        .select({ id: users.id, username: users.username, role: users.role })
+        .from(users)
+        .orderBy(asc(users.username));
+      res.json(technicians);
+    } catch (error) {
+      console.error("Erro ao buscar técnicos:", error);
+      res.status(500).json({ message: "Erro ao buscar técnicos" });
+    }
+  });
+
+  app.post("/api/checkouts", requirePermission("checkout:manage"), validateBody(insertCheckoutSchema), async (req, res) => {
+    try {
+      const {
+        productId,
+        technicianId,
+        quantity,
+        expectedReturnAt,
+        note,
+        unitIds,
+        locationId: requestedLocationId,
+        ignoreMaintenance,
+      }: InsertCheckout = req.body;
+
+      const checkout = await db.transaction(async (tx) => {
+        const [product] = await tx
+          .select()
+          .from(products)
+          .where(eq(products.id, productId))
+          .for("update");
+
+        if (!product) {
+          throw new HttpError(404, "Produto não encontrado");
+        }
+
+        if (product.deletedAt) {
+          throw new HttpError(409, "Este produto está na lixeira. Restaure-o para movimentar o estoque.");
+        }
+
+        if (!isReturnable(product.kind)) {
+          throw new HttpError(409, "Consumíveis saem por baixa simples, não por retirada.");
+        }
+
+        const [holder] = await tx.select().from(users).where(eq(users.id, technicianId));
+        if (!holder) {
+          throw new HttpError(404, "Técnico não encontrado");
+        }
+
+        const locationId = requestedLocationId ?? (await getDefaultLocationId(tx));
+        const [location] = await tx.select().from(locations).where(eq(locations.id, locationId));
+        if (!location) {
+          throw new HttpError(404, "Local não encontrado");
+        }
+
+        const [balance] = await tx
+          .select()
+          .from(stockBalances)
+          .where(and(eq(stockBalances.productId, productId), eq(stockBalances.locationId, locationId)))
+          .for("update");
+        const available = balance?.quantity ?? 0;
+
+        if (quantity > available) {
+          throw new HttpError(409, `Estoque insuficiente em ${location.name}. Disponível: ${available} ${product.unit}`, {
+            available,
+          });
+        }
+
+        const units = product.serialized ? await pickUnits(tx, { product, locationId, unitIds, quantity }) : [];
+
+        if (!ignoreMaintenance) {
+          const pickedIds = units.map((unit) => unit.id);
+          const due = (await getMaintenanceStatus(tx, productId)).filter(
+            (item) => item.state === "due" && (item.unitId === null || pickedIds.includes(item.unitId)),
+          );
+          if (due.length > 0) {
+            throw new HttpError(409, `${due.map(maintenanceDueLabel).join(", ")}. Confirme para retirar mesmo assim.`, {
+              maintenanceDue: due.map((item) => ({ planId: item.planId, unitId: item.unitId })),
+            });
+          }
+        }
+
+        const [created] = await tx
+          .insert(checkouts)
+          .values({ productId, locationId, technicianId, quantity, expectedReturnAt, note, userId: req.user!.id })
+          .returning();
+
+        const movementId = randomUUID();
+        await tx.insert(movements).values({
+          id: movementId,
+          productId,
+          type: "exit",
+          quantity,
+          note: `Retirada por ${holder.username}`,
+          locationId,
+          checkoutId: created.id,
+          unitCost: currentUnitCost(product).toFixed(COST_SCALE),
+          userId: req.user!.id,
+        });
+        if (units.length > 0) {
+          await linkUnits(tx, movementId, units.map((unit) => unit.id));
+          await updateUnits(
+            tx,
+            units,
+            { status: "checked_out", holderId: technicianId, checkoutId: created.id },
+            { productName: product.name, userId: req.user!.id },
+          );
+        }
+        await adjustBalance(tx, productId, locationId, -quantity);
+        await tx
+          .update(products)
+          .set({ quantity: product.quantity - quantity, updatedBy: req.user!.id, updatedAt: new Date() })
+          .where(eq(products.id, productId));
+
+        await recordAudit(tx, {
+          entityType: "checkout",
+          entityId: created.id,
+          entityName: `${product.name} (${holder.username})`,
+          action: "create",
+          userId: req.user!.id,
+          after: created,
+        });
+
+        return { ...created, technicianName: holder.username };
+      });
+
+      res.json({ ...checkout, userName: req.user!.username });
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao registrar retirada:", error);
+      res.status(500).json({ message: "Erro ao registrar retirada" });
+    }
+  });
+
+  app.post(
+    "/api/checkouts/:id/return",
+    requirePermission("checkout:manage"),
+    validateBody(returnCheckoutSchema),
+    async (req, res) => {
+      try {
+        const { returned, lost, damaged, note, units: unitOutcomes }: ReturnCheckout = req.body;
+
+        const checkout = await db.transaction(async (tx) => {
+          const [current] = await tx
+            .select()
+            .from(checkouts)
+            .where(eq(checkouts.id, req.params.id))
+            .for("update");
+
+          if (!current) {
+            throw new HttpError(404, "Retirada não encontrada");
+          }
+
+          if (current.closedAt) {
+            throw new HttpError(409, "Esta retirada já foi encerrada");
+          }
+
+          const outstanding =
+            current.quantity - current.returnedQuantity - current.lostQuantity - current.damagedQuantity;
+          if (returned + lost + damaged > outstanding) {
+            throw new HttpError(409, `Quantidade maior que a pendente. Pendente: ${outstanding}`, { outstanding });
+          }
+
+          const [product] = await tx
+            .select()
+            .from(products)
+            .where(eq(products.id, current.productId))
+            .for("update");
+          const [holder] = await tx.select().from(users).where(eq(users.id, current.technicianId));
+
+          // Em produtos serializados, cada unidade devolvida, perdida ou avariada é apontada.
+          const heldUnits = product.serialized
+            ? await tx
+                .select()
+                .from(productUnits)
+                .where(and(eq(productUnits.checkoutId, current.id), eq(productUnits.status, "checked_out")))
+                .for("update")
+            : [];
+          const unitsFor = (outcome: "returned" | "lost" | "damaged") =>
+            heldUnits.filter((unit) => unitOutcomes?.some((u) => u.unitId === unit.id && u.outcome === outcome));
+          if (product.serialized) {
+            const matched = unitsFor("returned").length + unitsFor("lost").length + unitsFor("damaged").length;
+            const picked = unitOutcomes ?? [];
+            if (
+              new Set(picked.map((u) => u.unitId)).size !== picked.length ||
+              matched !== picked.length ||
+              unitsFor("returned").length !== returned ||
+              unitsFor("lost").length !== lost ||
+              unitsFor("damaged").length !== damaged
+            ) {
+              throw new HttpError(400, "Aponte pelo número de série cada unidade devolvida, perdida ou avariada");
+            }
+          }
+
+          // Só o que voltou em condições de uso retorna ao estoque do local.
+          const movementId = randomUUID();
+          if (returned > 0) {
+            await tx.insert(movements).values({
+              id: movementId,
+              productId: current.productId,
+              type: "entry",
+              quantity: returned,
+              note: note || `Devolução de ${holder.username}`,
+              locationId: current.locationId,
+              checkoutId: current.id,
+              unitCost: currentUnitCost(product).toFixed(COST_SCALE),
+              userId: req.user!.id,
+            });
+            await adjustBalance(tx, current.productId, current.locationId, returned);
+            await tx
+              .update(products)
+              .set({ quantity: product.quantity + returned, updatedBy: req.user!.id, updatedAt: new Date() })
+              .where(eq(products.id, current.productId));
+          }
+
+          if (product.serialized) {
+            const audit = { productName: product.name, userId: req.user!.id };
+            const released = { holderId: null, checkoutId: null };
+            await linkUnits(tx, movementId, unitsFor("returned").map((unit) => unit.id));
+            await updateUnits(tx, unitsFor("returned"), { ...released, status: "available" }, audit);
+            await updateUnits(tx, unitsFor("lost"), { ...released, status: "written_off" }, audit);
+            await updateUnits(tx, unitsFor("damaged"), { ...released, status: "in_repair" }, audit);
+          }
+
+          const settled = returned + lost + damaged === outstanding;
+          const [updated] = await tx
+            .update(checkouts)
+            .set({
+              returnedQuantity: current.returnedQuantity + returned,
+              lostQuantity: current.lostQuantity + lost,
+              damagedQuantity: current.damagedQuantity + damaged,
+              closedAt: settled ? new Date() : null,
+            })
+            .where(eq(checkouts.id, current.id))
+            .returning();
+
+          await recordAudit(tx, {
+            entityType: "checkout",
+            entityId: updated.id,
+            entityName: `${product.name} (${holder.username})`,
+            action: "update",
+            userId: req.user!.id,
+            before: current,
+            after: updated,
+          });
+
+          return { ...updated, technicianName: holder.username };
+        });
+
+        res.json(checkout);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao registrar devolução:", error);
+        res.status(500).json({ message: "Erro ao registrar devolução" });
+      }
+    },
+  );
+}
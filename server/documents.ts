@@ -0,0 +1,179 @@
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import { and, desc, eq, getTableColumns, isNull } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import {
+  locations,
+  movementDocuments,
+  suppliers,
+  users,
+  insertMovementDocumentSchema,
+  type InsertMovementDocument,
+} from "@shared/schema";
+import { can } from "@shared/permissions";
+import { MOVEMENT_DOCUMENT_TYPE_LABELS } from "@shared/movements";
+import { db } from "./db";
+import { HttpError, isUniqueViolation, sendHttpError } from "./errors";
+import { validateBody } from "./validation";
+import { recordAudit } from "./audit";
+import { getDefaultLocationId } from "./locations";
+import { createMovement, movementPermission } from "./movements";
+
+const technicians = alias(users, "technicians");
+
+const documentColumns = {
+  ...getTableColumns(movementDocuments),
+  supplierName: suppliers.name,
+  technicianName: technicians.username,
+  userName: users.username,
+};
+
+export function registerDocumentRoutes(app: Express): void {
+  app.get("/api/movement-documents", async (_req, res) => {
+    try {
+      const documents = await db
+        .select(documentColumns)
+        .from(movementDocuments)
+        .leftJoin(suppliers, eq(movementDocuments.supplierId, suppliers.id))
+        .leftJoin(technicians, eq(movementDocuments.technicianId, technicians.id))
+        .leftJoin(users, eq(movementDocuments.userId, users.id))
+        .orderBy(desc(movementDocuments.documentDate), desc(movementDocuments.createdAt));
+      res.json(documents);
+    } catch (error) {
+      console.error("Erro ao buscar documentos:", error);
+      res.status(500).json({ message: "Erro ao buscar documentos" });
+    }
+  });
+
+  // Todas as linhas entram na mesma transação: se uma falhar, nada é gravado.
+  app.post("/api/movement-documents", validateBody(insertMovementDocumentSchema), async (req, res) => {
+    try {
+      const { type, number, documentDate, supplierId, technicianId, locationId: requestedLocationId, note, lines }:
+        InsertMovementDocument = req.body;
+
+      if (!can(req.user!.role, movementPermission(type))) {
+        return res.status(403).json({ message: "Você não tem permissão para registrar este tipo de documento" });
+      }
+      const label = MOVEMENT_DOCUMENT_TYPE_LABELS[type];
+
+      const document = await db.transaction(async (tx) => {
+        const locationId = requestedLocationId ?? (await getDefaultLocationId(tx));
+        const [location] = await tx.select().from(locations).where(eq(locations.id, locationId));
+        if (!location) {
+          throw new HttpError(404, "Local não encontrado");
+        }
+
+        // O recebimento aponta o fornecedor; a requisição, o técnico.
+        const counterpartSupplierId = type === "entry" ? (supplierId ?? null) : null;
+        const counterpartTechnicianId = type === "exit" ? (technicianId ?? null) : null;
+        const [supplier] = counterpartSupplierId
+          ? await tx.select().from(suppliers).where(eq(suppliers.id, counterpartSupplierId))
+          : [];
+        if (counterpartSupplierId && !supplier) {
+          throw new HttpError(404, "Fornecedor não encontrado");
+        }
+        const [technician] = counterpartTechnicianId
+          ? await tx.select().from(users).where(eq(users.id, counterpartTechnicianId))
+          : [];
+        if (counterpartTechnicianId && !technician) {
+          throw new HttpError(404, "Técnico não encontrado");
+        }
+
+        // Notas de fornecedores diferentes podem repetir o número.
+        const [duplicate] = await tx
+          .select({ id: movementDocuments.id })
+          .from(movementDocuments)
+          .where(
+            and(
+              eq(movementDocuments.type, type),
+              eq(movementDocuments.number, number),
+              counterpartSupplierId
+                ? eq(movementDocuments.supplierId, counterpartSupplierId)
+                : isNull(movementDocuments.supplierId),
+            ),
+          );
+        const duplicateMessage = `Já existe um documento de ${label.toLowerCase()} com o número ${number}`;
+        if (duplicate) {
+          throw new HttpError(409, duplicateMessage);
+        }
+
+        const [created] = await tx
+          .insert(movementDocuments)
+          .values({
+            type,
+            number,
+            documentDate,
+            supplierId: counterpartSupplierId,
+            technicianId: counterpartTechnicianId,
+            locationId,
+            note,
+            userId: req.user!.id,
+          })
+          .returning()
+          .catch((error) => {
+            throw isUniqueViolation(error) ? new HttpError(409, duplicateMessage) : error;
+          });
+
+        const createdLines = [];
+        for (const [index, line] of lines.entries()) {
+          try {
+            createdLines.push(
+              await createMovement(
+                tx,
+                {
+                  id: randomUUID(),
+                  productId: line.productId,
+                  type,
+                  quantity: line.quantity,
+                  note: null,
+                  locationId,
+                  serials: line.serials,
+                  unitIds: line.unitIds,
+                  ...(type === "entry"
+                    ? { unitCost: line.unitCost, lotNumber: line.lotNumber, expiresAt: line.expiresAt }
+                    : {}),
+                },
+                req.user!.id,
+                // As linhas entram na data do documento, não na do lançamento.
+                { documentId: created.id, createdAt: documentDate },
+              ),
+            );
+          } catch (error) {
+            // Aponta a linha com problema, já que a mensagem vale para um item só.
+            if (error instanceof HttpError) {
+              throw new HttpError(error.status, `Item ${index + 1}: ${error.message}`, { ...error.details, line: index });
+            }
+            throw error;
+          }
+        }
+
+        await recordAudit(tx, {
+          entityType: "movement_document",
+          entityId: created.id,
+          entityName: `${label} ${created.number}`,
+          action: "create",
+          userId: req.user!.id,
+          after: {
+            ...created,
+            supplier: supplier?.name ?? null,
+            technician: technician?.username ?? null,
+            itemCount: createdLines.length,
+          },
+        });
+
+        return {
+          ...created,
+          supplierName: supplier?.name ?? null,
+          technicianName: technician?.username ?? null,
+          lines: createdLines,
+        };
+      });
+
+      res.json({ ...document, userName: req.user!.username });
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao registrar documento:", error);
+      res.status(500).json({ message: "Erro ao registrar documento" });
+    }
+  });
+}
@@ -0,0 +1,25 @@
+import type { Response } from "express";
+
+/**
+ * Erro com status HTTP, lançado pelas regras de negócio (ex.: dentro de uma
+ * transação) e convertido em resposta JSON pelas rotas.
+ */
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/** Violação de índice único do Postgres (código 23505), como em gravações simultâneas. */
+export function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Error && (error as { code?: string }).code === "23505";
+}
+
+export function sendHttpError(res: Response, error: HttpError) {
+  return res.status(error.status).json({ message: error.message, ...error.details });
+}
@@ -12,7 +12,7 @@ function setupCors(app: express.Application) {
     if (origin) {
       res.header("Access-Control-Allow-Origin", origin);
       res.header("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
-      res.header("Access-Control-Allow-Headers", "Content-Type");
+      res.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
       res.header("Access-Control-Allow-Credentials", "true");
     }
     if (req.method === "OPTIONS") return res.sendStatus(200);
@@ -20,7 +20,8 @@ function setupCors(app: express.Application) {
   });
 }
 
-app.use(express.json());
+// Os backups chegam inteiros num único corpo JSON.
+app.use(express.json({ limit: "20mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 (async () => {
@@ -0,0 +1,215 @@
+import type { Express } from "express";
+import { and, asc, eq, sql } from "drizzle-orm";
+import {
+  locations,
+  products,
+  stockBalances,
+  insertLocationSchema,
+  updateLocationSchema,
+  updateStockBalanceSchema,
+  type InsertLocation,
+  type UpdateLocation,
+  type UpdateStockBalance,
+} from "@shared/schema";
+import { DEFAULT_LOCATION_NAME } from "@shared/locations";
+import { db } from "./db";
+import { HttpError, sendHttpError } from "./errors";
+import { validateBody } from "./validation";
+import { requirePermission } from "./auth";
+import { recordAudit } from "./audit";
+import { consumeLots, type ConsumedLot } from "./lots";
+
+type DbExecutor = Pick<typeof db, "select" | "insert" | "update">;
+
+/**
+ * Garante que existe um local padrão e que todo produto sem saldo por local
+ * tenha o estoque atual lançado nele. Roda na subida do servidor, para
+ * bancos criados antes da separação por locais.
+ */
+export async function ensureDefaultLocation(): Promise<void> {
+  const [existing] = await db.select().from(locations).where(eq(locations.isDefault, true));
+  const defaultLocation =
+    existing ??
+    (await db
+      .insert(locations)
+      .values({ name: DEFAULT_LOCATION_NAME, kind: "warehouse", isDefault: true })
+      .returning()
+      .then(([created]) => created));
+
+  await db.execute(sql`
+    insert into ${stockBalances} (product_id, location_id, quantity)
+    select ${products.id}, ${defaultLocation.id}, ${products.quantity}
+    from ${products}
+    where not exists (
+      select 1 from ${stockBalances} where ${stockBalances.productId} = ${products.id}
+    )
+  `);
+}
+
+export async function getDefaultLocationId(executor: DbExecutor): Promise<string> {
+  const [location] = await executor
+    .select({ id: locations.id })
+    .from(locations)
+    .where(eq(locations.isDefault, true));
+  if (!location) {
+    throw new HttpError(500, "Nenhum local padrão configurado");
+  }
+  return location.id;
+}
+
+/**
+ * Soma `delta` ao saldo do produto no local, criando o saldo se preciso. Nas
+ * baixas, consome também os lotes do local e devolve o que saiu de cada um,
+ * a não ser que quem chama já tenha baixado um lote específico (`fromLots`).
+ */
+export async function adjustBalance(
+  executor: DbExecutor,
+  productId: string,
+  locationId: string,
+  delta: number,
+  { fromLots = true }: { fromLots?: boolean } = {},
+): Promise<ConsumedLot[]> {
+  await executor
+    .insert(stockBalances)
+    .values({ productId, locationId, quantity: delta })
+    .onConflictDoUpdate({
+      target: [stockBalances.productId, stockBalances.locationId],
+      set: { quantity: sql`${stockBalances.quantity} + ${delta}` },
+    });
+  return delta < 0 && fromLots ? consumeLots(executor, productId, locationId, -delta) : [];
+}
+
+export function registerLocationRoutes(app: Express): void {
+  app.get("/api/locations", async (_req, res) => {
+    try {
+      const allLocations = await db
+        .select()
+        .from(locations)
+        .orderBy(asc(locations.createdAt));
+      res.json(allLocations);
+    } catch (error) {
+      console.error("Erro ao buscar locais:", error);
+      res.status(500).json({ message: "Erro ao buscar locais" });
+    }
+  });
+
+  app.post("/api/locations", requirePermission("location:manage"), validateBody(insertLocationSchema), async (req, res) => {
+    try {
+      const data: InsertLocation = req.body;
+      const location = await db.transaction(async (tx) => {
+        const [created] = await tx.insert(locations).values(data).returning();
+        await recordAudit(tx, {
+          entityType: "location",
+          entityId: created.id,
+          entityName: created.name,
+          action: "create",
+          userId: req.user!.id,
+          after: created,
+        });
+        return created;
+      });
+      res.json(location);
+    } catch (error) {
+      console.error("Erro ao criar local:", error);
+      res.status(500).json({ message: "Erro ao criar local" });
+    }
+  });
+
+  app.patch("/api/locations/:id", requirePermission("location:manage"), validateBody(updateLocationSchema), async (req, res) => {
+    try {
+      const data: UpdateLocation = req.body;
+      const location = await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select()
+          .from(locations)
+          .where(eq(locations.id, req.params.id))
+          .for("update");
+        if (!current) {
+          throw new HttpError(404, "Local não encontrado");
+        }
+
+        const [updated] = await tx
+          .update(locations)
+          .set(data)
+          .where(eq(locations.id, req.params.id))
+          .returning();
+        await recordAudit(tx, {
+          entityType: "location",
+          entityId: updated.id,
+          entityName: updated.name,
+          action: "update",
+          userId: req.user!.id,
+          before: current,
+          after: updated,
+        });
+        return updated;
+      });
+      res.json(location);
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao atualizar local:", error);
+      res.status(500).json({ message: "Erro ao atualizar local" });
+    }
+  });
+
+  app.get("/api/stock-balances", async (_req, res) => {
+    try {
+      const balances = await db.select().from(stockBalances);
+      res.json(balances);
+    } catch (error) {
+      console.error("Erro ao buscar saldos:", error);
+      res.status(500).json({ message: "Erro ao buscar saldos" });
+    }
+  });
+
+  app.patch(
+    "/api/stock-balances/:productId/:locationId",
+    requirePermission("product:write"),
+    validateBody(updateStockBalanceSchema),
+    async (req, res) => {
+      try {
+        const { minStock }: UpdateStockBalance = req.body;
+        const { productId, locationId } = req.params;
+
+        const balance = await db.transaction(async (tx) => {
+          const [product] = await tx.select().from(products).where(eq(products.id, productId));
+          const [location] = await tx.select().from(locations).where(eq(locations.id, locationId));
+          if (!product || !location) {
+            throw new HttpError(404, "Produto ou local não encontrado");
+          }
+
+          const [current] = await tx
+            .select()
+            .from(stockBalances)
+            .where(and(eq(stockBalances.productId, productId), eq(stockBalances.locationId, locationId)))
+            .for("update");
+
+          const [saved] = await tx
+            .insert(stockBalances)
+            .values({ productId, locationId, quantity: 0, minStock })
+            .onConflictDoUpdate({
+              target: [stockBalances.productId, stockBalances.locationId],
+              set: { minStock },
+            })
+            .returning();
+
+          await recordAudit(tx, {
+            entityType: "product",
+            entityId: product.id,
+            entityName: `${product.name} (${location.name})`,
+            action: "update",
+            userId: req.user!.id,
+            before: { minStock: current?.minStock ?? 0 },
+            after: { minStock: saved.minStock },
+          });
+          return saved;
+        });
+        res.json(balance);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao atualizar saldo:", error);
+        res.status(500).json({ message: "Erro ao atualizar saldo" });
+      }
+    },
+  );
+}
@@ -0,0 +1,113 @@
+import type { Express } from "express";
+import { and, asc, eq, gt, isNull } from "drizzle-orm";
+import { stockLots, type StockLot } from "@shared/schema";
+import { db } from "./db";
+import { HttpError } from "./errors";
+
+type DbExecutor = Pick<typeof db, "select" | "insert" | "update">;
+
+/** Parte de um lote baixada numa saída, para recriá-la no destino de uma transferência. */
+export type ConsumedLot = Pick<StockLot, "lotNumber" | "expiresAt" | "quantity">;
+
+/** Soma a quantidade ao lote com mesmo número e validade no local, ou abre um novo. */
+export async function receiveLot(
+  executor: DbExecutor,
+  {
+    productId,
+    locationId,
+    lotNumber,
+    expiresAt,
+    quantity,
+  }: { productId: string; locationId: string; lotNumber: string | null; expiresAt: Date | null; quantity: number },
+): Promise<StockLot> {
+  const [existing] = await executor
+    .select()
+    .from(stockLots)
+    .where(
+      and(
+        eq(stockLots.productId, productId),
+        eq(stockLots.locationId, locationId),
+        lotNumber ? eq(stockLots.lotNumber, lotNumber) : isNull(stockLots.lotNumber),
+        expiresAt ? eq(stockLots.expiresAt, expiresAt) : isNull(stockLots.expiresAt),
+      ),
+    )
+    .for("update");
+
+  if (existing) {
+    const [updated] = await executor
+      .update(stockLots)
+      .set({ quantity: existing.quantity + quantity })
+      .where(eq(stockLots.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  const [created] = await executor
+    .insert(stockLots)
+    .values({ productId, locationId, lotNumber, expiresAt, quantity })
+    .returning();
+  return created;
+}
+
+/**
+ * Baixa `quantity` dos lotes do produto no local, do que vence primeiro para
+ * o que vence depois. Lotes sem validade saem por último (nulos vêm no fim da
+ * ordenação crescente do Postgres); o que sobrar sai do saldo sem lote.
+ */
+export async function consumeLots(
+  executor: DbExecutor,
+  productId: string,
+  locationId: string,
+  quantity: number,
+): Promise<ConsumedLot[]> {
+  const lots = await executor
+    .select()
+    .from(stockLots)
+    .where(and(eq(stockLots.productId, productId), eq(stockLots.locationId, locationId), gt(stockLots.quantity, 0)))
+    .orderBy(asc(stockLots.expiresAt), asc(stockLots.createdAt))
+    .for("update");
+
+  const consumed: ConsumedLot[] = [];
+  let remaining = quantity;
+  for (const lot of lots) {
+    if (remaining === 0) break;
+    const taken = Math.min(lot.quantity, remaining);
+    await executor
+      .update(stockLots)
+      .set({ quantity: lot.quantity - taken })
+      .where(eq(stockLots.id, lot.id));
+    consumed.push({ lotNumber: lot.lotNumber, expiresAt: lot.expiresAt, quantity: taken });
+    remaining -= taken;
+  }
+  return consumed;
+}
+
+/** Baixa a quantidade de um lote específico, como no estorno da entrada que o abriu. */
+export async function takeFromLot(executor: DbExecutor, lotId: string, quantity: number): Promise<void> {
+  const [lot] = await executor.select().from(stockLots).where(eq(stockLots.id, lotId)).for("update");
+  if (!lot || lot.quantity < quantity) {
+    throw new HttpError(409, `Restam só ${lot?.quantity ?? 0} no lote ${lot?.lotNumber ?? "sem número"}`, {
+      available: lot?.quantity ?? 0,
+    });
+  }
+  await executor
+    .update(stockLots)
+    .set({ quantity: lot.quantity - quantity })
+    .where(eq(stockLots.id, lot.id));
+}
+
+export function registerLotRoutes(app: Express): void {
+  app.get("/api/lots", async (_req, res) => {
+    try {
+      const lots = await db
+        .select()
+        .from(stockLots)
+        .where(gt(stockLots.quantity, 0))
+        .orderBy(asc(stockLots.expiresAt));
+      res.json(lots);
+    } catch (error) {
+      console.error("Erro ao buscar lotes:", error);
+      res.status(500).json({ message: "Erro ao buscar lotes" });
+    }
+  });
+}
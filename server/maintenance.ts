@@ -0,0 +1,294 @@
+import type { Express } from "express";
+import { and, desc, eq, getTableColumns, inArray, isNotNull, isNull, max, ne } from "drizzle-orm";
+import { fromZodError } from "zod-validation-error";
+import {
+  checkouts,
+  maintenanceEvents,
+  maintenancePlans,
+  movements,
+  movementUnits,
+  products,
+  productUnits,
+  users,
+  insertMaintenancePlanSchema,
+  insertMaintenanceEventSchema,
+  maintenanceStatusQuerySchema,
+  type InsertMaintenancePlan,
+  type InsertMaintenanceEvent,
+  type MaintenancePlan,
+} from "@shared/schema";
+import { MAINTENANCE_KIND_LABELS, MAINTENANCE_WARNING_DAYS, isReturnable } from "@shared/products";
+import { db } from "./db";
+import { HttpError, sendHttpError } from "./errors";
+import { validateBody } from "./validation";
+import { requirePermission } from "./auth";
+import { recordAudit } from "./audit";
+import { changeUnitStatus } from "./units";
+
+type DbExecutor = Pick<typeof db, "select">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type MaintenanceState = "ok" | "soon" | "due";
+
+/**
+ * Situação do prazo: vence pela data (último serviço + dias) ou pelo número
+ * de retiradas desde o último serviço, o que chegar primeiro.
+ */
+function maintenanceState(plan: MaintenancePlan, dueAt: Date | null, usesSince: number, now: Date): MaintenanceState {
+  if ((dueAt && dueAt <= now) || (plan.intervalUses && usesSince >= plan.intervalUses)) return "due";
+  if (dueAt && dueAt.getTime() - now.getTime() <= MAINTENANCE_WARNING_DAYS * DAY_MS) return "soon";
+  return "ok";
+}
+
+/**
+ * Prazo de cada plano, por unidade quando o produto é serializado. Sem
+ * `productId`, de todos os produtos fora da lixeira.
+ */
+export async function getMaintenanceStatus(executor: DbExecutor, productId?: string) {
+  const plans = await executor
+    .select({ plan: maintenancePlans, productName: products.name, serialized: products.serialized })
+    .from(maintenancePlans)
+    .innerJoin(products, eq(maintenancePlans.productId, products.id))
+    .where(and(isNull(products.deletedAt), productId ? eq(maintenancePlans.productId, productId) : undefined));
+  if (plans.length === 0) return [];
+
+  const productIds = [...new Set(plans.map((p) => p.plan.productId))];
+  const units = await executor
+    .select()
+    .from(productUnits)
+    .where(and(inArray(productUnits.productId, productIds), ne(productUnits.status, "written_off")));
+  const lastEvents = await executor
+    .select({
+      planId: maintenanceEvents.planId,
+      unitId: maintenanceEvents.unitId,
+      performedAt: max(maintenanceEvents.performedAt),
+    })
+    .from(maintenanceEvents)
+    .where(inArray(maintenanceEvents.productId, productIds))
+    .groupBy(maintenanceEvents.planId, maintenanceEvents.unitId);
+  // Cada retirada conta como um uso: da unidade, se serializada, ou do produto.
+  const unitUses = await executor
+    .select({ unitId: movementUnits.unitId, createdAt: movements.createdAt })
+    .from(movementUnits)
+    .innerJoin(movements, eq(movementUnits.movementId, movements.id))
+    .where(
+      and(inArray(movements.productId, productIds), eq(movements.type, "exit"), isNotNull(movements.checkoutId)),
+    );
+  const productUses = await executor
+    .select({ productId: checkouts.productId, createdAt: checkouts.createdAt })
+    .from(checkouts)
+    .where(inArray(checkouts.productId, productIds));
+
+  const now = new Date();
+  return plans.flatMap(({ plan, productName, serialized }) => {
+    const targets =
+      plan.unitId || serialized
+        ? units.filter((u) => (plan.unitId ? u.id === plan.unitId : u.productId === plan.productId))
+        : [null];
+    return targets.map((unit) => {
+      const lastPerformedAt =
+        lastEvents.find((e) => e.planId === plan.id && e.unitId === (unit?.id ?? null))?.performedAt ?? null;
+      const since = lastPerformedAt ?? unit?.createdAt ?? plan.createdAt;
+      const usesSince = unit
+        ? unitUses.filter((u) => u.unitId === unit.id && u.createdAt > since).length
+        : productUses.filter((u) => u.productId === plan.productId && u.createdAt > since).length;
+      const dueAt = plan.intervalDays ? new Date(since.getTime() + plan.intervalDays * DAY_MS) : null;
+      return {
+        planId: plan.id,
+        productId: plan.productId,
+        productName,
+        unitId: unit?.id ?? null,
+        serial: unit?.serial ?? null,
+        unitStatus: unit?.status ?? null,
+        kind: plan.kind,
+        description: plan.description,
+        intervalDays: plan.intervalDays,
+        intervalUses: plan.intervalUses,
+        lastPerformedAt,
+        usesSince,
+        dueAt,
+        state: maintenanceState(plan, dueAt, usesSince, now),
+      };
+    });
+  });
+}
+
+export function registerMaintenanceRoutes(app: Express): void {
+  // Planos e registros de manutenção de um produto.
+  app.get("/api/products/:id/maintenance", async (req, res) => {
+    try {
+      const plans = await db
+        .select({ ...getTableColumns(maintenancePlans), serial: productUnits.serial })
+        .from(maintenancePlans)
+        .leftJoin(productUnits, eq(maintenancePlans.unitId, productUnits.id))
+        .where(eq(maintenancePlans.productId, req.params.id))
+        .orderBy(maintenancePlans.createdAt);
+      const events = await db
+        .select({ ...getTableColumns(maintenanceEvents), serial: productUnits.serial, userName: users.username })
+        .from(maintenanceEvents)
+        .leftJoin(productUnits, eq(maintenanceEvents.unitId, productUnits.id))
+        .leftJoin(users, eq(maintenanceEvents.userId, users.id))
+        .where(eq(maintenanceEvents.productId, req.params.id))
+        .orderBy(desc(maintenanceEvents.performedAt));
+      res.json({ plans, events });
+    } catch (error) {
+      console.error("Erro ao buscar manutenções:", error);
+      res.status(500).json({ message: "Erro ao buscar manutenções" });
+    }
+  });
+
+  // Prazo de cada plano, por unidade quando o produto é serializado.
+  app.get("/api/maintenance/status", async (req, res) => {
+    try {
+      const parsed = maintenanceStatusQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: fromZodError(parsed.error, { prefix: "Filtro inválido" }).message,
+        });
+      }
+      res.json(await getMaintenanceStatus(db, parsed.data.productId));
+    } catch (error) {
+      console.error("Erro ao calcular prazos de manutenção:", error);
+      res.status(500).json({ message: "Erro ao calcular prazos de manutenção" });
+    }
+  });
+
+  app.post(
+    "/api/maintenance/plans",
+    requirePermission("maintenance:manage"),
+    validateBody(insertMaintenancePlanSchema),
+    async (req, res) => {
+      try {
+        const data: InsertMaintenancePlan = req.body;
+
+        const plan = await db.transaction(async (tx) => {
+          const [product] = await tx.select().from(products).where(eq(products.id, data.productId));
+          if (!product) {
+            throw new HttpError(404, "Produto não encontrado");
+          }
+          if (product.deletedAt) {
+            throw new HttpError(409, "Este produto está na lixeira. Restaure-o para planejar manutenções.");
+          }
+          if (!isReturnable(product.kind)) {
+            throw new HttpError(409, "Consumíveis não têm plano de manutenção.");
+          }
+          if (data.unitId) {
+            const [unit] = await tx.select().from(productUnits).where(eq(productUnits.id, data.unitId));
+            if (!unit || unit.productId !== product.id) {
+              throw new HttpError(404, "Unidade não encontrada");
+            }
+          }
+
+          const [created] = await tx
+            .insert(maintenancePlans)
+            .values({ ...data, createdBy: req.user!.id })
+            .returning();
+          await recordAudit(tx, {
+            entityType: "maintenance",
+            entityId: created.id,
+            entityName: `${product.name} (${MAINTENANCE_KIND_LABELS[created.kind]})`,
+            action: "create",
+            userId: req.user!.id,
+            after: created,
+          });
+          return created;
+        });
+        res.json(plan);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao criar plano de manutenção:", error);
+        res.status(500).json({ message: "Erro ao criar plano de manutenção" });
+      }
+    },
+  );
+
+  // Os registros já feitos continuam no histórico, só perdem o vínculo com o plano.
+  app.delete("/api/maintenance/plans/:id", requirePermission("maintenance:manage"), async (req, res) => {
+    try {
+      await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select({ plan: maintenancePlans, productName: products.name })
+          .from(maintenancePlans)
+          .innerJoin(products, eq(maintenancePlans.productId, products.id))
+          .where(eq(maintenancePlans.id, req.params.id));
+        if (!current) {
+          throw new HttpError(404, "Plano não encontrado");
+        }
+
+        await tx.update(maintenanceEvents).set({ planId: null }).where(eq(maintenanceEvents.planId, current.plan.id));
+        await tx.delete(maintenancePlans).where(eq(maintenancePlans.id, current.plan.id));
+        await recordAudit(tx, {
+          entityType: "maintenance",
+          entityId: current.plan.id,
+          entityName: `${current.productName} (${MAINTENANCE_KIND_LABELS[current.plan.kind]})`,
+          action: "delete",
+          userId: req.user!.id,
+          before: current.plan,
+        });
+      });
+      res.sendStatus(204);
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao excluir plano de manutenção:", error);
+      res.status(500).json({ message: "Erro ao excluir plano de manutenção" });
+    }
+  });
+
+  app.post(
+    "/api/maintenance/events",
+    requirePermission("maintenance:manage"),
+    validateBody(insertMaintenanceEventSchema),
+    async (req, res) => {
+      try {
+        const { releaseUnit, ...data }: InsertMaintenanceEvent = req.body;
+
+        const event = await db.transaction(async (tx) => {
+          const [product] = await tx.select().from(products).where(eq(products.id, data.productId));
+          if (!product) {
+            throw new HttpError(404, "Produto não encontrado");
+          }
+
+          const [plan] = data.planId
+            ? await tx.select().from(maintenancePlans).where(eq(maintenancePlans.id, data.planId))
+            : [];
+          if (data.planId && (!plan || plan.productId !== product.id)) {
+            throw new HttpError(404, "Plano não encontrado");
+          }
+          const unitId = plan?.unitId ?? data.unitId ?? null;
+          if (product.serialized && plan && !unitId) {
+            throw new HttpError(400, "Selecione a unidade atendida");
+          }
+
+          const [unit] = unitId ? await tx.select().from(productUnits).where(eq(productUnits.id, unitId)) : [];
+          if (unitId && (!unit || unit.productId !== product.id)) {
+            throw new HttpError(404, "Unidade não encontrada");
+          }
+
+          const [created] = await tx
+            .insert(maintenanceEvents)
+            .values({ ...data, unitId, kind: plan?.kind ?? data.kind, userId: req.user!.id })
+            .returning();
+          await recordAudit(tx, {
+            entityType: "maintenance",
+            entityId: created.id,
+            entityName: `${product.name}${unit ? ` (${unit.serial})` : ""}`,
+            action: "create",
+            userId: req.user!.id,
+            after: created,
+          });
+
+          if (releaseUnit && unit?.status === "in_repair") {
+            await changeUnitStatus(tx, unit.id, "available", req.user!.id);
+          }
+          return created;
+        });
+        res.json(event);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao registrar manutenção:", error);
+        res.status(500).json({ message: "Erro ao registrar manutenção" });
+      }
+    },
+  );
+}
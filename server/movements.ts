@@ -0,0 +1,552 @@
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import { and, desc, eq, getTableColumns, inArray } from "drizzle-orm";
+import { fromZodError } from "zod-validation-error";
+import {
+  adjustmentReasons,
+  locations,
+  movements,
+  products,
+  stockBalances,
+  stockLots,
+  users,
+  insertMovementSchema,
+  reverseMovementSchema,
+  correctMovementSchema,
+  type InsertMovement,
+  type Movement,
+  type Product,
+  type ReverseMovement,
+  type CorrectMovement,
+} from "@shared/schema";
+import { can, type Permission } from "@shared/permissions";
+import { PRODUCT_KIND_LABELS, isReturnable } from "@shared/products";
+import { COST_SCALE, currentUnitCost, reversedAverageCost, weightedAverageCost } from "@shared/costing";
+import { correctionBlocker, movementDelta, reversalBlocker, type MovementType } from "@shared/movements";
+import { db } from "./db";
+import { HttpError, sendHttpError } from "./errors";
+import { validateBody } from "./validation";
+import { requirePermission } from "./auth";
+import { recordAudit } from "./audit";
+import { adjustBalance, getDefaultLocationId } from "./locations";
+import { linkUnits, lockMovementUnits, pickUnits, receiveUnits, updateUnits } from "./units";
+import { receiveLot, takeFromLot } from "./lots";
+import { discardPricePoints, recordPricePoint } from "./prices";
+import { getActiveAdjustmentReason } from "./adjustments";
+import { reverseReceipt } from "./purchases";
+
+type DbExecutor = Pick<typeof db, "select" | "insert" | "update" | "delete">;
+
+/** Permissão exigida para lançar cada tipo de movimentação avulsa. */
+export function movementPermission(type: Exclude<MovementType, "transfer">): Permission {
+  return type === "entry" ? "movement:entry" : type === "exit" ? "movement:exit" : "movement:adjust";
+}
+
+async function lockProduct(executor: DbExecutor, productId: string): Promise<Product> {
+  // Trava a linha do produto até o fim da transação, para que saídas
+  // simultâneas vejam o saldo já atualizado pela anterior.
+  const [product] = await executor
+    .select()
+    .from(products)
+    .where(eq(products.id, productId))
+    .for("update");
+
+  if (!product) {
+    throw new HttpError(404, "Produto não encontrado");
+  }
+
+  if (product.deletedAt) {
+    throw new HttpError(409, "Este produto está na lixeira. Restaure-o para movimentar o estoque.");
+  }
+  return product;
+}
+
+async function lockBalance(executor: DbExecutor, productId: string, locationId: string): Promise<number> {
+  const [balance] = await executor
+    .select()
+    .from(stockBalances)
+    .where(and(eq(stockBalances.productId, productId), eq(stockBalances.locationId, locationId)))
+    .for("update");
+  return balance?.quantity ?? 0;
+}
+
+/** Registra uma entrada, saída ou ajuste e atualiza saldo, lotes, unidades e custo médio. */
+export async function createMovement(
+  executor: DbExecutor,
+  data: InsertMovement,
+  userId: string,
+  {
+    correctsId,
+    documentId,
+    purchaseOrderId,
+    createdAt,
+  }: { correctsId?: string; documentId?: string; purchaseOrderId?: string; createdAt?: Date } = {},
+) {
+  const {
+    productId,
+    type,
+    quantity,
+    note,
+    id,
+    locationId: requestedLocationId,
+    serials,
+    unitIds,
+    lotNumber,
+    expiresAt,
+    unitCost,
+    reasonId,
+  } = data;
+
+  const product = await lockProduct(executor, productId);
+
+  if (type === "exit" && isReturnable(product.kind)) {
+    throw new HttpError(
+      409,
+      `${PRODUCT_KIND_LABELS[product.kind]} não sai por baixa simples. Registre uma retirada em "Com quem está".`,
+    );
+  }
+
+  const reason = type === "adjustment" ? await getActiveAdjustmentReason(executor, reasonId!) : null;
+
+  const locationId = requestedLocationId ?? (await getDefaultLocationId(executor));
+  const [location] = await executor.select().from(locations).where(eq(locations.id, locationId));
+  if (!location) {
+    throw new HttpError(404, "Local não encontrado");
+  }
+
+  const available = await lockBalance(executor, productId, locationId);
+  // Ajustes guardam a quantidade com sinal; entradas e saídas, sempre positiva.
+  const delta = movementDelta({ type, quantity });
+
+  if (delta < 0 && -delta > available) {
+    throw new HttpError(409, `Estoque insuficiente em ${location.name}. Disponível: ${available} ${product.unit}`, {
+      available,
+    });
+  }
+
+  const exitUnits =
+    product.serialized && delta < 0
+      ? await pickUnits(executor, { product, locationId, unitIds, quantity: -delta })
+      : [];
+
+  const lot =
+    delta > 0 && (lotNumber || expiresAt)
+      ? await receiveLot(executor, {
+          productId,
+          locationId,
+          lotNumber: lotNumber || null,
+          expiresAt: expiresAt ?? null,
+          quantity: delta,
+        })
+      : null;
+
+  // Entradas sem custo informado e ajustes entram pelo custo médio e não o alteram.
+  const averageCost = currentUnitCost(product);
+  const cost = type === "entry" && unitCost ? Number(unitCost) : averageCost;
+
+  const [created] = await executor.insert(movements).values({
+    id,
+    productId,
+    type,
+    quantity,
+    note,
+    locationId,
+    lotId: lot?.id,
+    reasonId: reason?.id,
+    unitCost: cost.toFixed(COST_SCALE),
+    correctsId,
+    documentId,
+    purchaseOrderId,
+    userId,
+    createdAt,
+  }).returning();
+
+  if (type === "entry" && unitCost) {
+    await recordPricePoint(executor, {
+      productId,
+      kind: "cost",
+      value: created.unitCost!,
+      movementId: created.id,
+      userId,
+    });
+  }
+
+  if (product.serialized && delta > 0) {
+    await receiveUnits(executor, {
+      product,
+      locationId,
+      serials,
+      quantity: delta,
+      movementId: created.id,
+      userId,
+    });
+  } else if (exitUnits.length > 0) {
+    await linkUnits(executor, created.id, exitUnits.map((unit) => unit.id));
+    await updateUnits(executor, exitUnits, { status: "written_off" }, { productName: product.name, userId });
+  }
+
+  await adjustBalance(executor, productId, locationId, delta);
+
+  await executor.update(products)
+    .set({
+      quantity: product.quantity + delta,
+      ...(type === "entry"
+        ? {
+            averageCost: weightedAverageCost(product.quantity, averageCost, quantity, cost).toFixed(COST_SCALE),
+          }
+        : {}),
+      updatedBy: userId,
+      updatedAt: new Date(),
+    })
+    .where(eq(products.id, productId));
+
+  await recordAudit(executor, {
+    entityType: "movement",
+    entityId: created.id,
+    entityName: product.name,
+    action: "create",
+    userId,
+    // O motivo vai pelo nome, legível na auditoria.
+    after: reason ? { ...created, reason: reason.name } : created,
+  });
+
+  return { ...created, reasonName: reason?.name ?? null };
+}
+
+/**
+ * Lança o inverso de uma entrada, saída ou ajuste no mesmo local. A entrada
+ * estornada sai do lote que abriu e desfaz o custo e o recebimento do pedido;
+ * a saída estornada volta ao saldo sem lote, pois a baixa não guarda de quais
+ * lotes saiu.
+ */
+async function reverseSingle(
+  executor: DbExecutor,
+  product: Product,
+  original: Movement,
+  { note, userId }: { note: string | null; userId: string },
+): Promise<Movement[]> {
+  const delta = -movementDelta(original);
+  const locationId = original.locationId ?? (await getDefaultLocationId(executor));
+  const [location] = await executor.select().from(locations).where(eq(locations.id, locationId));
+  const available = await lockBalance(executor, product.id, locationId);
+
+  if (delta < 0 && -delta > available) {
+    throw new HttpError(
+      409,
+      `Estoque insuficiente em ${location?.name ?? "local"} para estornar. Disponível: ${available} ${product.unit}`,
+      { available },
+    );
+  }
+
+  // As unidades voltam ao estado anterior; as que já mudaram de situação
+  // precisam ser resolvidas antes.
+  const units = await lockMovementUnits(executor, original.id);
+  const moved = units.filter((unit) =>
+    delta < 0 ? unit.status !== "available" || unit.locationId !== locationId : unit.status !== "written_off",
+  );
+  if (moved.length > 0) {
+    throw new HttpError(409, `Unidades que já mudaram de situação: ${moved.map((u) => u.serial).join(", ")}`, {
+      unitIds: moved.map((u) => u.id),
+    });
+  }
+
+  if (delta < 0 && original.lotId) {
+    await takeFromLot(executor, original.lotId, -delta);
+  }
+
+  const averageCost = currentUnitCost(product);
+  const [reversal] = await executor
+    .insert(movements)
+    .values({
+      id: randomUUID(),
+      productId: product.id,
+      type: original.type,
+      quantity: -original.quantity,
+      note,
+      locationId,
+      lotId: original.lotId,
+      reasonId: original.reasonId,
+      unitCost: original.unitCost ?? averageCost.toFixed(COST_SCALE),
+      reversesId: original.id,
+      userId,
+    })
+    .returning();
+
+  if (units.length > 0) {
+    await linkUnits(executor, reversal.id, units.map((unit) => unit.id));
+    await updateUnits(
+      executor,
+      units,
+      delta < 0 ? { status: "written_off" } : { status: "available", locationId },
+      { productName: product.name, userId },
+    );
+  }
+
+  await adjustBalance(executor, product.id, locationId, delta, { fromLots: !original.lotId });
+
+  await executor
+    .update(products)
+    .set({
+      quantity: product.quantity + delta,
+      ...(original.type === "entry"
+        ? {
+            averageCost: reversedAverageCost(
+              product.quantity,
+              averageCost,
+              original.quantity,
+              original.unitCost ? Number(original.unitCost) : averageCost,
+            ).toFixed(COST_SCALE),
+          }
+        : {}),
+      updatedBy: userId,
+      updatedAt: new Date(),
+    })
+    .where(eq(products.id, product.id));
+
+  if (original.type === "entry") {
+    await discardPricePoints(executor, original.id);
+  }
+  if (original.purchaseOrderId) {
+    await reverseReceipt(executor, {
+      orderId: original.purchaseOrderId,
+      productId: product.id,
+      quantity: original.quantity,
+      userId,
+    });
+  }
+
+  await recordAudit(executor, {
+    entityType: "movement",
+    entityId: reversal.id,
+    entityName: product.name,
+    action: "create",
+    userId,
+    after: reversal,
+  });
+
+  return [reversal];
+}
+
+/**
+ * Estorno de transferência: uma nova transferência do destino de volta à
+ * origem, com as mesmas unidades e os lotes que saírem do destino.
+ */
+async function reverseTransfer(
+  executor: DbExecutor,
+  product: Product,
+  legs: Movement[],
+  { note, userId }: { note: string | null; userId: string },
+): Promise<Movement[]> {
+  const out = legs.find((leg) => leg.transferDirection === "out");
+  const arrival = legs.find((leg) => leg.transferDirection === "in");
+  if (!out?.locationId || !arrival?.locationId) {
+    throw new HttpError(409, "Transferência incompleta, não é possível estornar");
+  }
+  const fromLocationId = arrival.locationId;
+  const toLocationId = out.locationId;
+  const quantity = out.quantity;
+
+  const [from] = await executor.select().from(locations).where(eq(locations.id, fromLocationId));
+  const [to] = await executor.select().from(locations).where(eq(locations.id, toLocationId));
+  const available = await lockBalance(executor, product.id, fromLocationId);
+  if (quantity > available) {
+    throw new HttpError(
+      409,
+      `Estoque insuficiente em ${from.name} para estornar. Disponível: ${available} ${product.unit}`,
+      { available },
+    );
+  }
+
+  const units = await lockMovementUnits(executor, arrival.id);
+  const moved = units.filter((unit) => unit.status !== "available" || unit.locationId !== fromLocationId);
+  if (moved.length > 0) {
+    throw new HttpError(409, `Unidades que já mudaram de situação: ${moved.map((u) => u.serial).join(", ")}`, {
+      unitIds: moved.map((u) => u.id),
+    });
+  }
+
+  const transferId = randomUUID();
+  const base = { productId: product.id, type: "transfer" as const, quantity, note, transferId, userId };
+  const created = await executor
+    .insert(movements)
+    .values([
+      {
+        ...base,
+        id: randomUUID(),
+        locationId: fromLocationId,
+        transferDirection: "out" as const,
+        reversesId: arrival.id,
+      },
+      { ...base, id: randomUUID(), locationId: toLocationId, transferDirection: "in" as const, reversesId: out.id },
+    ])
+    .returning();
+
+  if (units.length > 0) {
+    for (const leg of created) {
+      await linkUnits(executor, leg.id, units.map((unit) => unit.id));
+    }
+    await updateUnits(executor, units, { locationId: toLocationId }, { productName: product.name, userId });
+  }
+
+  const movedLots = await adjustBalance(executor, product.id, fromLocationId, -quantity);
+  await adjustBalance(executor, product.id, toLocationId, quantity);
+  for (const lot of movedLots) {
+    await receiveLot(executor, { ...lot, productId: product.id, locationId: toLocationId });
+  }
+
+  await recordAudit(executor, {
+    entityType: "movement",
+    entityId: transferId,
+    entityName: `${product.name} (${from.name} → ${to.name})`,
+    action: "create",
+    userId,
+    after: { type: "transfer", productId: product.id, quantity, note, fromLocationId, toLocationId, reverses: out.transferId },
+  });
+
+  return created;
+}
+
+/**
+ * Estorna a movimentação com um lançamento inverso ligado a ela; o original
+ * continua no histórico. Transferências são estornadas pelas duas pontas.
+ */
+export async function reverseMovement(
+  executor: DbExecutor,
+  movementId: string,
+  { note, userId }: { note: string | null; userId: string },
+): Promise<Movement[]> {
+  const [original] = await executor.select().from(movements).where(eq(movements.id, movementId)).for("update");
+  if (!original) {
+    throw new HttpError(404, "Movimentação não encontrada");
+  }
+  const blocker = reversalBlocker(original);
+  if (blocker) {
+    throw new HttpError(409, blocker);
+  }
+
+  const legs = original.transferId
+    ? await executor.select().from(movements).where(eq(movements.transferId, original.transferId)).for("update")
+    : [original];
+  const [reversed] = await executor
+    .select({ id: movements.id })
+    .from(movements)
+    .where(inArray(movements.reversesId, legs.map((leg) => leg.id)));
+  if (reversed) {
+    throw new HttpError(409, "Esta movimentação já foi estornada");
+  }
+
+  const product = await lockProduct(executor, original.productId);
+  return original.type === "transfer"
+    ? reverseTransfer(executor, product, legs, { note, userId })
+    : reverseSingle(executor, product, original, { note, userId });
+}
+
+export function registerMovementRoutes(app: Express): void {
+  app.get("/api/movements", async (_req, res) => {
+    try {
+      const allMovements = await db
+        .select({ ...getTableColumns(movements), userName: users.username, reasonName: adjustmentReasons.name })
+        .from(movements)
+        .leftJoin(users, eq(movements.userId, users.id))
+        .leftJoin(adjustmentReasons, eq(movements.reasonId, adjustmentReasons.id))
+        .orderBy(desc(movements.createdAt));
+      res.json(allMovements);
+    } catch (error) {
+      console.error("Erro ao buscar movimentações:", error);
+      res.status(500).json({ message: "Erro ao buscar movimentações" });
+    }
+  });
+
+  app.post("/api/movements", validateBody(insertMovementSchema), async (req, res) => {
+    try {
+      const data: InsertMovement = req.body;
+
+      if (!can(req.user!.role, movementPermission(data.type))) {
+        return res.status(403).json({ message: "Você não tem permissão para registrar este tipo de movimentação" });
+      }
+
+      const movement = await db.transaction((tx) => createMovement(tx, data, req.user!.id));
+
+      res.json({ ...movement, userName: req.user!.username });
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao criar movimentação:", error);
+      res.status(500).json({ message: "Erro ao criar movimentação" });
+    }
+  });
+
+  app.post(
+    "/api/movements/:id/reverse",
+    requirePermission("movement:reverse"),
+    validateBody(reverseMovementSchema),
+    async (req, res) => {
+      try {
+        const { note }: ReverseMovement = req.body;
+        const reversal = await db.transaction((tx) =>
+          reverseMovement(tx, req.params.id, { note: note || null, userId: req.user!.id }),
+        );
+        res.json(reversal.map((movement) => ({ ...movement, userName: req.user!.username })));
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao estornar movimentação:", error);
+        res.status(500).json({ message: "Erro ao estornar movimentação" });
+      }
+    },
+  );
+
+  // Correção: estorna o original e lança de novo com os valores informados,
+  // mantendo tipo, produto, local e lote.
+  app.post(
+    "/api/movements/:id/correct",
+    requirePermission("movement:reverse"),
+    validateBody(correctMovementSchema),
+    async (req, res) => {
+      try {
+        const changes: CorrectMovement = req.body;
+
+        const movement = await db.transaction(async (tx) => {
+          const [original] = await tx.select().from(movements).where(eq(movements.id, req.params.id));
+          if (!original) {
+            throw new HttpError(404, "Movimentação não encontrada");
+          }
+          const [product] = await tx.select().from(products).where(eq(products.id, original.productId));
+          const blocker = correctionBlocker(original, product.serialized);
+          if (blocker) {
+            throw new HttpError(409, blocker);
+          }
+          if (original.type === "transfer" || !can(req.user!.role, movementPermission(original.type))) {
+            throw new HttpError(403, "Você não tem permissão para registrar este tipo de movimentação");
+          }
+
+          const [lot] = original.lotId
+            ? await tx.select().from(stockLots).where(eq(stockLots.id, original.lotId))
+            : [];
+          const parsed = insertMovementSchema.safeParse({
+            id: randomUUID(),
+            productId: original.productId,
+            type: original.type,
+            quantity: changes.quantity,
+            note: changes.note,
+            locationId: original.locationId,
+            unitCost: original.type === "entry" ? (changes.unitCost ?? original.unitCost) : null,
+            reasonId: original.type === "adjustment" ? changes.reasonId : null,
+            lotNumber: lot?.lotNumber,
+            expiresAt: lot?.expiresAt,
+          });
+          if (!parsed.success) {
+            throw new HttpError(400, fromZodError(parsed.error, { prefix: "Dados inválidos" }).message);
+          }
+
+          await reverseMovement(tx, original.id, { note: "Correção", userId: req.user!.id });
+          return createMovement(tx, parsed.data, req.user!.id, { correctsId: original.id });
+        });
+
+        res.json({ ...movement, userName: req.user!.username });
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao corrigir movimentação:", error);
+        res.status(500).json({ message: "Erro ao corrigir movimentação" });
+      }
+    },
+  );
+}
@@ -0,0 +1,92 @@
+import type { Express } from "express";
+import { and, asc, eq, lte } from "drizzle-orm";
+import { fromZodError } from "zod-validation-error";
+import { pricePoints, products, costIncreaseQuerySchema, type PricePoint } from "@shared/schema";
+import { DEFAULT_COST_INCREASE_THRESHOLD, type PricePointKind } from "@shared/costing";
+import { db } from "./db";
+
+type DbExecutor = Pick<typeof db, "insert">;
+
+export async function recordPricePoint(
+  executor: DbExecutor,
+  point: { productId: string; kind: PricePointKind; value: string; movementId?: string; userId: string },
+): Promise<void> {
+  await executor.insert(pricePoints).values(point);
+}
+
+/** Descarta os custos registrados por uma entrada que foi estornada. */
+export async function discardPricePoints(executor: Pick<typeof db, "delete">, movementId: string): Promise<void> {
+  await executor.delete(pricePoints).where(eq(pricePoints.movementId, movementId));
+}
+
+export function registerPriceRoutes(app: Express): void {
+  app.get("/api/products/:id/prices", async (req, res) => {
+    try {
+      const points = await db
+        .select()
+        .from(pricePoints)
+        .where(eq(pricePoints.productId, req.params.id))
+        .orderBy(asc(pricePoints.createdAt));
+      res.json(points);
+    } catch (error) {
+      console.error("Erro ao buscar histórico de preços:", error);
+      res.status(500).json({ message: "Erro ao buscar histórico de preços" });
+    }
+  });
+
+  // Compara o custo de compra no fim do período com o custo em vigor no
+  // início: o último antes dele ou, sem histórico anterior, o primeiro dentro.
+  app.get("/api/prices/cost-increases", async (req, res) => {
+    try {
+      const parsed = costIncreaseQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: fromZodError(parsed.error, { prefix: "Filtro inválido" }).message,
+        });
+      }
+      const { from, to = new Date(), threshold = DEFAULT_COST_INCREASE_THRESHOLD } = parsed.data;
+
+      const points = await db
+        .select({ point: pricePoints, productName: products.name, unit: products.unit })
+        .from(pricePoints)
+        .innerJoin(products, eq(pricePoints.productId, products.id))
+        .where(and(eq(pricePoints.kind, "cost"), lte(pricePoints.createdAt, to)))
+        .orderBy(asc(pricePoints.createdAt));
+
+      const byProduct = new Map<string, { productName: string; unit: string; points: PricePoint[] }>();
+      for (const { point, productName, unit } of points) {
+        const entry = byProduct.get(point.productId) ?? { productName, unit, points: [] };
+        entry.points.push(point);
+        byProduct.set(point.productId, entry);
+      }
+
+      const increases = [...byProduct.entries()]
+        .map(([productId, { productName, unit, points: history }]) => {
+          const before = from ? history.filter((p) => p.createdAt < from) : [];
+          const during = from ? history.filter((p) => p.createdAt >= from) : history;
+          const baseline = before[before.length - 1] ?? during[0];
+          const latest = during[during.length - 1];
+          if (!baseline || !latest || baseline === latest || Number(baseline.value) <= 0) return null;
+
+          const increasePercent = ((Number(latest.value) - Number(baseline.value)) / Number(baseline.value)) * 100;
+          return {
+            productId,
+            productName,
+            unit,
+            fromCost: baseline.value,
+            fromAt: baseline.createdAt,
+            toCost: latest.value,
+            toAt: latest.createdAt,
+            increasePercent,
+          };
+        })
+        .filter((item): item is NonNullable<typeof item> => item !== null && item.increasePercent > threshold)
+        .sort((a, b) => b.increasePercent - a.increasePercent);
+
+      res.json({ threshold, increases });
+    } catch (error) {
+      console.error("Erro ao calcular altas de custo:", error);
+      res.status(500).json({ message: "Erro ao calcular altas de custo" });
+    }
+  });
+}
@@ -0,0 +1,425 @@
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import { desc, eq, getTableColumns, inArray, isNull } from "drizzle-orm";
+import { fromZodError } from "zod-validation-error";
+import {
+  locations,
+  products,
+  productSuppliers,
+  purchaseOrderLines,
+  purchaseOrders,
+  suppliers,
+  insertPurchaseOrderSchema,
+  updatePurchaseOrderStatusSchema,
+  receivePurchaseOrderSchema,
+  purchaseOrderQuerySchema,
+  type InsertPurchaseOrder,
+  type PurchaseOrder,
+  type UpdatePurchaseOrderStatus,
+  type ReceivePurchaseOrder,
+} from "@shared/schema";
+import { PURCHASE_ORDER_STATUS_LABELS, PURCHASE_ORDER_TRANSITIONS, isPurchaseOrderOpen } from "@shared/purchases";
+import { db } from "./db";
+import { HttpError, sendHttpError } from "./errors";
+import { validateBody } from "./validation";
+import { requirePermission } from "./auth";
+import { recordAudit } from "./audit";
+import { getDefaultLocationId } from "./locations";
+import { createMovement } from "./movements";
+
+type DbExecutor = Pick<typeof db, "select" | "insert" | "update" | "delete">;
+
+const orderLineColumns = {
+  ...getTableColumns(purchaseOrderLines),
+  productName: products.name,
+  productUnit: products.unit,
+  serialized: products.serialized,
+};
+
+async function lockOrder(executor: DbExecutor, id: string): Promise<PurchaseOrder> {
+  const [order] = await executor
+    .select()
+    .from(purchaseOrders)
+    .where(eq(purchaseOrders.id, id))
+    .for("update");
+  if (!order) {
+    throw new HttpError(404, "Pedido não encontrado");
+  }
+  return order;
+}
+
+/**
+ * Desfaz parte do recebimento de um produto quando a entrada é estornada: a
+ * quantidade volta a faltar e o pedido reabre como "recebido em parte", ou
+ * "enviado" se nada mais foi recebido. Pedidos cancelados continuam cancelados.
+ */
+export async function reverseReceipt(
+  executor: DbExecutor,
+  { orderId, productId, quantity, userId }: { orderId: string; productId: string; quantity: number; userId: string },
+): Promise<void> {
+  const current = await lockOrder(executor, orderId);
+  const lines = await executor
+    .select()
+    .from(purchaseOrderLines)
+    .where(eq(purchaseOrderLines.orderId, orderId))
+    .for("update");
+
+  let remaining = quantity;
+  for (const line of lines) {
+    if (remaining === 0) break;
+    if (line.productId !== productId || line.receivedQuantity === 0) continue;
+    const taken = Math.min(line.receivedQuantity, remaining);
+    await executor
+      .update(purchaseOrderLines)
+      .set({ receivedQuantity: line.receivedQuantity - taken })
+      .where(eq(purchaseOrderLines.id, line.id));
+    line.receivedQuantity -= taken;
+    remaining -= taken;
+  }
+
+  if (current.status === "cancelled") return;
+  const anyReceived = lines.some((l) => l.receivedQuantity > 0);
+  const [updated] = await executor
+    .update(purchaseOrders)
+    .set({
+      status: anyReceived ? "partially_received" : "sent",
+      closedAt: null,
+      updatedBy: userId,
+      updatedAt: new Date(),
+    })
+    .where(eq(purchaseOrders.id, orderId))
+    .returning();
+  await recordAudit(executor, {
+    entityType: "purchase_order",
+    entityId: current.id,
+    entityName: `Pedido ${current.number}`,
+    action: "update",
+    userId,
+    before: current,
+    after: updated,
+  });
+}
+
+/** Confere fornecedor e produtos do pedido antes de gravar as linhas. */
+async function validateOrder(executor: DbExecutor, data: InsertPurchaseOrder) {
+  const [supplier] = await executor.select().from(suppliers).where(eq(suppliers.id, data.supplierId));
+  if (!supplier) {
+    throw new HttpError(404, "Fornecedor não encontrado");
+  }
+  const productIds = data.lines.map((line) => line.productId);
+  const found = await executor.select().from(products).where(inArray(products.id, productIds));
+  const missing = productIds.filter((id) => !found.some((p) => p.id === id));
+  if (missing.length > 0) {
+    throw new HttpError(404, "Produto não encontrado", { productIds: missing });
+  }
+  const archived = found.filter((p) => p.deletedAt);
+  if (archived.length > 0) {
+    throw new HttpError(409, `Produto na lixeira: ${archived.map((p) => p.name).join(", ")}`);
+  }
+  return supplier;
+}
+
+async function getOrderDetail(executor: DbExecutor, id: string) {
+  const [order] = await executor
+    .select({ ...getTableColumns(purchaseOrders), supplierName: suppliers.name })
+    .from(purchaseOrders)
+    .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+    .where(eq(purchaseOrders.id, id));
+  if (!order) return null;
+  const lines = await executor
+    .select(orderLineColumns)
+    .from(purchaseOrderLines)
+    .innerJoin(products, eq(purchaseOrderLines.productId, products.id))
+    .where(eq(purchaseOrderLines.orderId, id))
+    .orderBy(products.name);
+  return { ...order, lines };
+}
+
+export function registerPurchaseRoutes(app: Express): void {
+  app.get("/api/purchase-orders", async (req, res) => {
+    try {
+      const parsed = purchaseOrderQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: fromZodError(parsed.error, { prefix: "Filtro inválido" }).message,
+        });
+      }
+
+      const orders = await db
+        .select({ ...getTableColumns(purchaseOrders), supplierName: suppliers.name })
+        .from(purchaseOrders)
+        .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+        .where(parsed.data.status === "all" ? undefined : isNull(purchaseOrders.closedAt))
+        .orderBy(desc(purchaseOrders.number));
+      const lines =
+        orders.length > 0
+          ? await db
+              .select(orderLineColumns)
+              .from(purchaseOrderLines)
+              .innerJoin(products, eq(purchaseOrderLines.productId, products.id))
+              .where(inArray(purchaseOrderLines.orderId, orders.map((o) => o.id)))
+          : [];
+      res.json(orders.map((order) => ({ ...order, lines: lines.filter((line) => line.orderId === order.id) })));
+    } catch (error) {
+      console.error("Erro ao buscar pedidos de compra:", error);
+      res.status(500).json({ message: "Erro ao buscar pedidos de compra" });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", async (req, res) => {
+    try {
+      const order = await getOrderDetail(db, req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Pedido não encontrado" });
+      }
+      res.json(order);
+    } catch (error) {
+      console.error("Erro ao buscar pedido de compra:", error);
+      res.status(500).json({ message: "Erro ao buscar pedido de compra" });
+    }
+  });
+
+  app.post(
+    "/api/purchase-orders",
+    requirePermission("purchase:manage"),
+    validateBody(insertPurchaseOrderSchema),
+    async (req, res) => {
+      try {
+        const { lines, ...data }: InsertPurchaseOrder = req.body;
+
+        const order = await db.transaction(async (tx) => {
+          const supplier = await validateOrder(tx, { ...data, lines });
+          const [created] = await tx
+            .insert(purchaseOrders)
+            .values({ ...data, createdBy: req.user!.id, updatedBy: req.user!.id })
+            .returning();
+          await tx.insert(purchaseOrderLines).values(lines.map((line) => ({ ...line, orderId: created.id })));
+          await recordAudit(tx, {
+            entityType: "purchase_order",
+            entityId: created.id,
+            entityName: `Pedido ${created.number} (${supplier.name})`,
+            action: "create",
+            userId: req.user!.id,
+            after: { ...created, lines },
+          });
+          return getOrderDetail(tx, created.id);
+        });
+        res.json(order);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao criar pedido de compra:", error);
+        res.status(500).json({ message: "Erro ao criar pedido de compra" });
+      }
+    },
+  );
+
+  // Só rascunhos podem ser editados; as linhas são substituídas por inteiro.
+  app.put(
+    "/api/purchase-orders/:id",
+    requirePermission("purchase:manage"),
+    validateBody(insertPurchaseOrderSchema),
+    async (req, res) => {
+      try {
+        const { lines, ...data }: InsertPurchaseOrder = req.body;
+
+        const order = await db.transaction(async (tx) => {
+          const current = await lockOrder(tx, req.params.id);
+          if (current.status !== "draft") {
+            throw new HttpError(409, "Só pedidos em rascunho podem ser editados");
+          }
+          const supplier = await validateOrder(tx, { ...data, lines });
+          const before = await tx.select().from(purchaseOrderLines).where(eq(purchaseOrderLines.orderId, current.id));
+
+          const [updated] = await tx
+            .update(purchaseOrders)
+            .set({ ...data, updatedBy: req.user!.id, updatedAt: new Date() })
+            .where(eq(purchaseOrders.id, current.id))
+            .returning();
+          await tx.delete(purchaseOrderLines).where(eq(purchaseOrderLines.orderId, current.id));
+          await tx.insert(purchaseOrderLines).values(lines.map((line) => ({ ...line, orderId: current.id })));
+          await recordAudit(tx, {
+            entityType: "purchase_order",
+            entityId: current.id,
+            entityName: `Pedido ${current.number} (${supplier.name})`,
+            action: "update",
+            userId: req.user!.id,
+            before: {
+              ...current,
+              lines: before.map(({ productId, quantity, unitCost }) => ({ productId, quantity, unitCost })),
+            },
+            after: { ...updated, lines },
+          });
+          return getOrderDetail(tx, current.id);
+        });
+        res.json(order);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao atualizar pedido de compra:", error);
+        res.status(500).json({ message: "Erro ao atualizar pedido de compra" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/purchase-orders/:id/status",
+    requirePermission("purchase:manage"),
+    validateBody(updatePurchaseOrderStatusSchema),
+    async (req, res) => {
+      try {
+        const { status }: UpdatePurchaseOrderStatus = req.body;
+
+        const order = await db.transaction(async (tx) => {
+          const current = await lockOrder(tx, req.params.id);
+          if (!PURCHASE_ORDER_TRANSITIONS[current.status].includes(status)) {
+            throw new HttpError(
+              409,
+              `Não é possível passar de "${PURCHASE_ORDER_STATUS_LABELS[current.status]}" para "${PURCHASE_ORDER_STATUS_LABELS[status]}"`,
+            );
+          }
+
+          const now = new Date();
+          const [updated] = await tx
+            .update(purchaseOrders)
+            .set({
+              status,
+              ...(status === "sent" ? { sentAt: now } : { closedAt: now }),
+              updatedBy: req.user!.id,
+              updatedAt: now,
+            })
+            .where(eq(purchaseOrders.id, current.id))
+            .returning();
+          await recordAudit(tx, {
+            entityType: "purchase_order",
+            entityId: current.id,
+            entityName: `Pedido ${current.number}`,
+            action: "update",
+            userId: req.user!.id,
+            before: current,
+            after: updated,
+          });
+          return getOrderDetail(tx, current.id);
+        });
+        res.json(order);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao atualizar pedido de compra:", error);
+        res.status(500).json({ message: "Erro ao atualizar pedido de compra" });
+      }
+    },
+  );
+
+  // Recebe uma entrega, total ou parcial: cada linha recebida vira uma entrada
+  // no estoque, tudo na mesma transação.
+  app.post(
+    "/api/purchase-orders/:id/receive",
+    requirePermission("movement:entry"),
+    validateBody(receivePurchaseOrderSchema),
+    async (req, res) => {
+      try {
+        const { locationId: requestedLocationId, note, lines: received }: ReceivePurchaseOrder = req.body;
+
+        const order = await db.transaction(async (tx) => {
+          const current = await lockOrder(tx, req.params.id);
+          if (!isPurchaseOrderOpen(current.status)) {
+            throw new HttpError(
+              409,
+              `Pedidos "${PURCHASE_ORDER_STATUS_LABELS[current.status]}" não recebem entregas`,
+            );
+          }
+
+          const locationId = requestedLocationId ?? (await getDefaultLocationId(tx));
+          const [location] = await tx.select().from(locations).where(eq(locations.id, locationId));
+          if (!location) {
+            throw new HttpError(404, "Local não encontrado");
+          }
+
+          const lines = await tx
+            .select()
+            .from(purchaseOrderLines)
+            .where(eq(purchaseOrderLines.orderId, current.id))
+            .for("update");
+
+          for (const item of received) {
+            if (item.quantity === 0) continue;
+            const line = lines.find((l) => l.id === item.lineId);
+            if (!line) {
+              throw new HttpError(404, "Item do pedido não encontrado", { lineId: item.lineId });
+            }
+
+            const [product] = await tx.select().from(products).where(eq(products.id, line.productId));
+            const pending = line.quantity - line.receivedQuantity;
+            if (item.quantity > pending) {
+              throw new HttpError(409, `${product.name}: faltam receber só ${pending} ${product.unit}`, {
+                lineId: line.id,
+                pending,
+              });
+            }
+            if (product.deletedAt) {
+              throw new HttpError(409, `${product.name} está na lixeira. Restaure-o para receber o pedido.`);
+            }
+
+            await createMovement(
+              tx,
+              {
+                id: randomUUID(),
+                productId: product.id,
+                type: "entry",
+                quantity: item.quantity,
+                note: note?.trim() || `Pedido de compra ${current.number}`,
+                locationId,
+                serials: item.serials,
+                lotNumber: item.lotNumber,
+                expiresAt: item.expiresAt,
+                unitCost: line.unitCost,
+              },
+              req.user!.id,
+              { purchaseOrderId: current.id },
+            );
+
+            await tx
+              .update(purchaseOrderLines)
+              .set({ receivedQuantity: line.receivedQuantity + item.quantity })
+              .where(eq(purchaseOrderLines.id, line.id));
+            line.receivedQuantity += item.quantity;
+
+            // O custo do pedido passa a ser o último preço pago a este fornecedor.
+            await tx
+              .insert(productSuppliers)
+              .values({ productId: product.id, supplierId: current.supplierId, lastPrice: line.unitCost })
+              .onConflictDoUpdate({
+                target: [productSuppliers.productId, productSuppliers.supplierId],
+                set: { lastPrice: line.unitCost, updatedAt: new Date() },
+              });
+          }
+
+          const complete = lines.every((l) => l.receivedQuantity >= l.quantity);
+          const [updated] = await tx
+            .update(purchaseOrders)
+            .set({
+              status: complete ? "received" : "partially_received",
+              closedAt: complete ? new Date() : null,
+              updatedBy: req.user!.id,
+              updatedAt: new Date(),
+            })
+            .where(eq(purchaseOrders.id, current.id))
+            .returning();
+          await recordAudit(tx, {
+            entityType: "purchase_order",
+            entityId: current.id,
+            entityName: `Pedido ${current.number}`,
+            action: "update",
+            userId: req.user!.id,
+            before: current,
+            after: updated,
+          });
+          return getOrderDetail(tx, current.id);
+        });
+        res.json(order);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao receber pedido de compra:", error);
+        res.status(500).json({ message: "Erro ao receber pedido de compra" });
+      }
+    },
+  );
+}
@@ -0,0 +1,132 @@
+import type { Express } from "express";
+import { and, eq, gte, isNull, sql, sum } from "drizzle-orm";
+import { fromZodError } from "zod-validation-error";
+import {
+  movements,
+  products,
+  productSuppliers,
+  purchaseOrderLines,
+  purchaseOrders,
+  suppliers,
+  reorderQuerySchema,
+} from "@shared/schema";
+import {
+  DEFAULT_REORDER_COVERAGE_DAYS,
+  REORDER_WINDOW_DAYS,
+  consumptionStats,
+  reorderPoint,
+  suggestReorderQuantity,
+} from "@shared/reorder";
+import { db } from "./db";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function registerReorderRoutes(app: Express): void {
+  // Propõe compras para os consumíveis a partir do consumo recente, do
+  // estoque mínimo e do prazo do fornecedor preferido. Só entram os produtos
+  // com quantidade sugerida.
+  app.get("/api/reorder/suggestions", async (req, res) => {
+    try {
+      const parsed = reorderQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: fromZodError(parsed.error, { prefix: "Filtro inválido" }).message,
+        });
+      }
+      const coverageDays = parsed.data.coverageDays ?? DEFAULT_REORDER_COVERAGE_DAYS;
+      const now = new Date();
+      const since = new Date(now.getTime() - REORDER_WINDOW_DAYS * DAY_MS);
+
+      const [candidates, consumed, onOrder, links] = await Promise.all([
+        db
+          .select()
+          .from(products)
+          .where(and(eq(products.kind, "consumable"), isNull(products.deletedAt))),
+        // Saídas de retiradas voltam ao estoque e idas à manutenção não
+        // gastam nada; nenhuma das duas conta como consumo.
+        db
+          .select({ productId: movements.productId, total: sum(movements.quantity).mapWith(Number) })
+          .from(movements)
+          .where(
+            and(
+              eq(movements.type, "exit"),
+              isNull(movements.checkoutId),
+              eq(movements.unitStatusChange, false),
+              gte(movements.createdAt, since),
+            ),
+          )
+          .groupBy(movements.productId),
+        // Rascunhos também contam: já são uma compra prevista.
+        db
+          .select({
+            productId: purchaseOrderLines.productId,
+            pending: sql<number>`sum(${purchaseOrderLines.quantity} - ${purchaseOrderLines.receivedQuantity})`.mapWith(Number),
+          })
+          .from(purchaseOrderLines)
+          .innerJoin(purchaseOrders, eq(purchaseOrderLines.orderId, purchaseOrders.id))
+          .where(isNull(purchaseOrders.closedAt))
+          .groupBy(purchaseOrderLines.productId),
+        db
+          .select({
+            productId: productSuppliers.productId,
+            supplierId: productSuppliers.supplierId,
+            supplierName: suppliers.name,
+            leadTimeDays: suppliers.leadTimeDays,
+            lastPrice: productSuppliers.lastPrice,
+            preferred: productSuppliers.preferred,
+          })
+          .from(productSuppliers)
+          .innerJoin(suppliers, eq(productSuppliers.supplierId, suppliers.id)),
+      ]);
+
+      const suggestions = candidates
+        .map((product) => {
+          // Produto recente: a média usa só os dias desde o cadastro.
+          const days = Math.min(
+            REORDER_WINDOW_DAYS,
+            Math.max(1, Math.ceil((now.getTime() - product.createdAt.getTime()) / DAY_MS)),
+          );
+          const stats = consumptionStats(
+            consumed.find((c) => c.productId === product.id)?.total ?? 0,
+            days,
+            product.quantity,
+          );
+          const productLinks = links.filter((l) => l.productId === product.id);
+          const supplier = productLinks.find((l) => l.preferred) ?? productLinks[0] ?? null;
+          const leadTimeDays = supplier?.leadTimeDays ?? 0;
+          const pending = onOrder.find((o) => o.productId === product.id)?.pending ?? 0;
+
+          const suggestedQuantity = suggestReorderQuantity({
+            onHand: product.quantity,
+            onOrder: pending,
+            minStock: product.minStock,
+            dailyAvg: stats.dailyAvg,
+            leadTimeDays,
+            coverageDays,
+          });
+          return {
+            productId: product.id,
+            productName: product.name,
+            unit: product.unit,
+            quantity: product.quantity,
+            minStock: product.minStock,
+            onOrder: pending,
+            ...stats,
+            leadTimeDays,
+            supplierId: supplier?.supplierId ?? null,
+            supplierName: supplier?.supplierName ?? null,
+            unitCost: supplier?.lastPrice ?? null,
+            suggestedQuantity,
+            urgent: product.quantity + pending <= reorderPoint(product.minStock, stats.dailyAvg, leadTimeDays),
+          };
+        })
+        .filter((s) => s.suggestedQuantity > 0)
+        .sort((a, b) => Number(b.urgent) - Number(a.urgent) || a.productName.localeCompare(b.productName));
+
+      res.json({ coverageDays, windowDays: REORDER_WINDOW_DAYS, suggestions });
+    } catch (error) {
+      console.error("Erro ao calcular sugestões de compra:", error);
+      res.status(500).json({ message: "Erro ao calcular sugestões de compra" });
+    }
+  });
+}
@@ -1,13 +1,112 @@
 import type { Express } from "express";
+import { randomUUID } from "crypto";
 import { db } from "./db";
-import { categories, products, movements } from "@shared/schema";
-import { eq, desc } from "drizzle-orm";
+import {
+  users,
+  categories,
+  products,
+  movements,
+  checkouts,
+  locations,
+  stockBalances,
+  productUnits,
+  movementUnits,
+  stockLots,
+  maintenancePlans,
+  maintenanceEvents,
+  pricePoints,
+  productSuppliers,
+  purchaseOrderLines,
+  stocktakes,
+  stocktakeItems,
+  insertCategorySchema,
+  updateCategorySchema,
+  insertProductSchema,
+  updateProductSchema,
+  insertTransferSchema,
+  archivedQuerySchema,
+  type InsertCategory,
+  type UpdateCategory,
+  type InsertProduct,
+  type UpdateProduct,
+  type InsertTransfer,
+} from "@shared/schema";
+import { and, count, eq, getTableColumns, inArray, isNotNull, isNull, type Column, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { HttpError, sendHttpError } from "./errors";
+import { validateBody } from "./validation";
+import { registerAuthRoutes, requireAuth, requirePermission } from "./auth";
+import { recordAudit, registerAuditRoutes } from "./audit";
+import { adjustBalance, ensureDefaultLocation, getDefaultLocationId, registerLocationRoutes } from "./locations";
+import { registerCheckoutRoutes } from "./checkouts";
+import { linkUnits, pickUnits, registerUnitRoutes, updateUnits } from "./units";
+import { receiveLot, registerLotRoutes } from "./lots";
+import { registerMaintenanceRoutes } from "./maintenance";
+import { registerSupplierRoutes } from "./suppliers";
+import { registerPurchaseRoutes } from "./purchases";
+import { registerReorderRoutes } from "./reorder";
+import { recordPricePoint, registerPriceRoutes } from "./prices";
+import { registerStocktakeRoutes } from "./stocktakes";
+import { ensureAdjustmentReasons, registerAdjustmentReasonRoutes } from "./adjustments";
+import { registerMovementRoutes } from "./movements";
+import { registerDocumentRoutes } from "./documents";
+import { registerBackupRoutes } from "./backup";
+import { can } from "@shared/permissions";
+import { COST_SCALE } from "@shared/costing";
+
+const createdByUser = alias(users, "created_by_user");
+const updatedByUser = alias(users, "updated_by_user");
+
+/** Filtro da lixeira a partir de `?archived=include|only`; por padrão, só itens ativos. */
+function archivedCondition(deletedAt: Column, query: unknown): SQL | undefined {
+  const parsed = archivedQuerySchema.safeParse(query);
+  const archived = parsed.success ? parsed.data.archived : undefined;
+  if (archived === "include") return undefined;
+  return archived === "only" ? isNotNull(deletedAt) : isNull(deletedAt);
+}
+
+/** Confere a categoria escolhida para um produto, que precisa existir e estar fora da lixeira. */
+async function assertActiveCategory(executor: Pick<typeof db, "select">, categoryId: string): Promise<void> {
+  const [category] = await executor.select().from(categories).where(eq(categories.id, categoryId));
+  if (!category) {
+    throw new HttpError(404, "Categoria não encontrada");
+  }
+  if (category.deletedAt) {
+    throw new HttpError(409, `A categoria "${category.name}" está na lixeira. Restaure-a ou escolha outra.`);
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<void> {
+  registerAuthRoutes(app);
+
+  // Todas as rotas abaixo exigem usuário logado
+  app.use("/api", requireAuth);
+
+  registerAuditRoutes(app);
+  registerLocationRoutes(app);
+  registerCheckoutRoutes(app);
+  registerUnitRoutes(app);
+  registerLotRoutes(app);
+  registerMaintenanceRoutes(app);
+  registerSupplierRoutes(app);
+  registerPurchaseRoutes(app);
+  registerReorderRoutes(app);
+  registerPriceRoutes(app);
+  registerStocktakeRoutes(app);
+  registerAdjustmentReasonRoutes(app);
+  registerMovementRoutes(app);
+  registerDocumentRoutes(app);
+  registerBackupRoutes(app);
+  await ensureDefaultLocation();
+  await ensureAdjustmentReasons();
+
   // Categories
-  app.get("/api/categories", async (_req, res) => {
+  app.get("/api/categories", async (req, res) => {
     try {
-      const allCategories = await db.select().from(categories);
+      const allCategories = await db
+        .select()
+        .from(categories)
+        .where(archivedCondition(categories.deletedAt, req.query));
       res.json(allCategories);
     } catch (error) {
       console.error("Erro ao buscar categorias:", error);
@@ -15,9 +114,24 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/categories", async (req, res) => {
+  app.post("/api/categories", requirePermission("category:write"), validateBody(insertCategorySchema), async (req, res) => {
     try {
-      const [category] = await db.insert(categories).values(req.body).returning();
+      const data: InsertCategory = req.body;
+      const category = await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(categories)
+          .values({ ...data, createdBy: req.user!.id, updatedBy: req.user!.id })
+          .returning();
+        await recordAudit(tx, {
+          entityType: "category",
+          entityId: created.id,
+          entityName: created.name,
+          action: "create",
+          userId: req.user!.id,
+          after: created,
+        });
+        return created;
+      });
       res.json(category);
     } catch (error) {
       console.error("Erro ao criar categoria:", error);
@@ -25,34 +139,157 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.patch("/api/categories/:id", async (req, res) => {
+  app.patch("/api/categories/:id", requirePermission("category:write"), validateBody(updateCategorySchema), async (req, res) => {
     try {
-      const [category] = await db
-        .update(categories)
-        .set(req.body)
-        .where(eq(categories.id, req.params.id))
-        .returning();
+      const data: UpdateCategory = req.body;
+      const category = await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select()
+          .from(categories)
+          .where(eq(categories.id, req.params.id))
+          .for("update");
+        if (!current) {
+          throw new HttpError(404, "Categoria não encontrada");
+        }
+
+        const [updated] = await tx
+          .update(categories)
+          .set({ ...data, updatedBy: req.user!.id })
+          .where(eq(categories.id, req.params.id))
+          .returning();
+        await recordAudit(tx, {
+          entityType: "category",
+          entityId: updated.id,
+          entityName: updated.name,
+          action: "update",
+          userId: req.user!.id,
+          before: current,
+          after: updated,
+        });
+        return updated;
+      });
       res.json(category);
     } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
       console.error("Erro ao atualizar categoria:", error);
       res.status(500).json({ message: "Erro ao atualizar categoria" });
     }
   });
 
-  app.delete("/api/categories/:id", async (req, res) => {
+  // Excluir manda para a lixeira; só o purge remove de fato.
+  app.delete("/api/categories/:id", requirePermission("category:delete"), async (req, res) => {
     try {
-      await db.delete(categories).where(eq(categories.id, req.params.id));
+      await db.transaction(async (tx) => {
+        const [archived] = await tx
+          .update(categories)
+          .set({ deletedAt: new Date(), updatedBy: req.user!.id })
+          .where(and(eq(categories.id, req.params.id), isNull(categories.deletedAt)))
+          .returning();
+        if (!archived) {
+          throw new HttpError(404, "Categoria não encontrada");
+        }
+        await recordAudit(tx, {
+          entityType: "category",
+          entityId: archived.id,
+          entityName: archived.name,
+          action: "archive",
+          userId: req.user!.id,
+        });
+      });
       res.sendStatus(204);
     } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao excluir categoria:", error);
+      res.status(500).json({ message: "Erro ao excluir categoria" });
+    }
+  });
+
+  app.post("/api/categories/:id/restore", requirePermission("category:delete"), async (req, res) => {
+    try {
+      const category = await db.transaction(async (tx) => {
+        const [restored] = await tx
+          .update(categories)
+          .set({ deletedAt: null, updatedBy: req.user!.id })
+          .where(and(eq(categories.id, req.params.id), isNotNull(categories.deletedAt)))
+          .returning();
+        if (!restored) {
+          throw new HttpError(404, "Categoria não encontrada na lixeira");
+        }
+        await recordAudit(tx, {
+          entityType: "category",
+          entityId: restored.id,
+          entityName: restored.name,
+          action: "restore",
+          userId: req.user!.id,
+        });
+        return restored;
+      });
+      res.json(category);
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao restaurar categoria:", error);
+      res.status(500).json({ message: "Erro ao restaurar categoria" });
+    }
+  });
+
+  app.delete("/api/categories/:id/purge", requirePermission("category:delete"), async (req, res) => {
+    try {
+      await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select()
+          .from(categories)
+          .where(eq(categories.id, req.params.id))
+          .for("update");
+        if (!current) {
+          throw new HttpError(404, "Categoria não encontrada");
+        }
+        if (!current.deletedAt) {
+          throw new HttpError(409, "Mova a categoria para a lixeira antes de excluí-la definitivamente");
+        }
+
+        const [linked] = await tx
+          .select({ value: count() })
+          .from(products)
+          .where(eq(products.categoryId, current.id));
+        if (linked.value > 0) {
+          throw new HttpError(409, "Esta categoria ainda possui produtos, inclusive na lixeira", {
+            products: linked.value,
+          });
+        }
+
+        // Inventários antigos da categoria continuam, sem apontar para ela.
+        await tx.update(stocktakes).set({ categoryId: null }).where(eq(stocktakes.categoryId, current.id));
+        await tx.delete(categories).where(eq(categories.id, current.id));
+        await recordAudit(tx, {
+          entityType: "category",
+          entityId: current.id,
+          entityName: current.name,
+          action: "delete",
+          userId: req.user!.id,
+          before: current,
+        });
+      });
+      res.sendStatus(204);
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
       console.error("Erro ao excluir categoria:", error);
       res.status(500).json({ message: "Erro ao excluir categoria" });
     }
   });
 
   // Products
-  app.get("/api/products", async (_req, res) => {
+  app.get("/api/products", async (req, res) => {
     try {
-      const allProducts = await db.select().from(products);
+      const allProducts = await db
+        .select({
+          ...getTableColumns(products),
+          createdByName: createdByUser.username,
+          updatedByName: updatedByUser.username,
+        })
+        .from(products)
+        .leftJoin(createdByUser, eq(products.createdBy, createdByUser.id))
+        .leftJoin(updatedByUser, eq(products.updatedBy, updatedByUser.id))
+        .where(archivedCondition(products.deletedAt, req.query));
       res.json(allProducts);
     } catch (error) {
       console.error("Erro ao buscar produtos:", error);
@@ -60,82 +297,303 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/products", async (req, res) => {
+  app.post("/api/products", requirePermission("product:write"), validateBody(insertProductSchema), async (req, res) => {
     try {
-      const [product] = await db.insert(products).values(req.body).returning();
+      const data: InsertProduct = req.body;
+      if (data.serialized && data.quantity) {
+        return res.status(400).json({
+          message: "Produtos com número de série começam sem estoque. Registre uma entrada informando os números.",
+        });
+      }
+
+      const product = await db.transaction(async (tx) => {
+        await assertActiveCategory(tx, data.categoryId);
+        const [created] = await tx
+          .insert(products)
+          .values({
+            ...data,
+            // O estoque inicial é valorizado pelo preço informado no cadastro.
+            averageCost: data.quantity ? Number(data.price ?? 0).toFixed(COST_SCALE) : null,
+            createdBy: req.user!.id,
+            updatedBy: req.user!.id,
+          })
+          .returning();
+        await recordPricePoint(tx, {
+          productId: created.id,
+          kind: "price",
+          value: created.price,
+          userId: req.user!.id,
+        });
+        // O estoque inicial entra no local padrão.
+        if (created.quantity > 0) {
+          await adjustBalance(tx, created.id, await getDefaultLocationId(tx), created.quantity);
+        }
+        await recordAudit(tx, {
+          entityType: "product",
+          entityId: created.id,
+          entityName: created.name,
+          action: "create",
+          userId: req.user!.id,
+          after: created,
+        });
+        return created;
+      });
       res.json(product);
     } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
       console.error("Erro ao criar produto:", error);
       res.status(500).json({ message: "Erro ao criar produto" });
     }
   });
 
-  app.patch("/api/products/:id", async (req, res) => {
+  app.patch("/api/products/:id", requirePermission("product:write"), validateBody(updateProductSchema), async (req, res) => {
     try {
-      const [product] = await db
-        .update(products)
-        .set({ ...req.body, updatedAt: new Date() })
-        .where(eq(products.id, req.params.id))
-        .returning();
+      const data: UpdateProduct = req.body;
+
+      const product = await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select()
+          .from(products)
+          .where(eq(products.id, req.params.id))
+          .for("update");
+        if (!current) {
+          throw new HttpError(404, "Produto não encontrado");
+        }
+
+        if (
+          data.price !== undefined &&
+          !can(req.user!.role, "product:price") &&
+          Number(current.price) !== Number(data.price)
+        ) {
+          throw new HttpError(403, "Apenas administradores podem alterar preços");
+        }
+        if (data.categoryId !== undefined && data.categoryId !== current.categoryId) {
+          await assertActiveCategory(tx, data.categoryId);
+        }
+
+        const [updated] = await tx
+          .update(products)
+          .set({ ...data, updatedBy: req.user!.id, updatedAt: new Date() })
+          .where(eq(products.id, req.params.id))
+          .returning();
+        if (Number(updated.price) !== Number(current.price)) {
+          await recordPricePoint(tx, {
+            productId: updated.id,
+            kind: "price",
+            value: updated.price,
+            userId: req.user!.id,
+          });
+        }
+        await recordAudit(tx, {
+          entityType: "product",
+          entityId: updated.id,
+          entityName: updated.name,
+          action: "update",
+          userId: req.user!.id,
+          before: current,
+          after: updated,
+        });
+        return updated;
+      });
       res.json(product);
     } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
       console.error("Erro ao atualizar produto:", error);
       res.status(500).json({ message: "Erro ao atualizar produto" });
     }
   });
 
-  app.delete("/api/products/:id", async (req, res) => {
+  // Excluir manda para a lixeira; as movimentações continuam nos relatórios.
+  app.delete("/api/products/:id", requirePermission("product:delete"), async (req, res) => {
     try {
-      await db.delete(movements).where(eq(movements.productId, req.params.id));
-      await db.delete(products).where(eq(products.id, req.params.id));
+      await db.transaction(async (tx) => {
+        const [archived] = await tx
+          .update(products)
+          .set({ deletedAt: new Date(), updatedBy: req.user!.id, updatedAt: new Date() })
+          .where(and(eq(products.id, req.params.id), isNull(products.deletedAt)))
+          .returning();
+        if (!archived) {
+          throw new HttpError(404, "Produto não encontrado");
+        }
+        await recordAudit(tx, {
+          entityType: "product",
+          entityId: archived.id,
+          entityName: archived.name,
+          action: "archive",
+          userId: req.user!.id,
+        });
+      });
       res.sendStatus(204);
     } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
       console.error("Erro ao excluir produto:", error);
       res.status(500).json({ message: "Erro ao excluir produto" });
     }
   });
 
-  // Movements
-  app.get("/api/movements", async (_req, res) => {
+  app.post("/api/products/:id/restore", requirePermission("product:delete"), async (req, res) => {
     try {
-      const allMovements = await db.select().from(movements).orderBy(desc(movements.createdAt));
-      res.json(allMovements);
+      const product = await db.transaction(async (tx) => {
+        const [restored] = await tx
+          .update(products)
+          .set({ deletedAt: null, updatedBy: req.user!.id, updatedAt: new Date() })
+          .where(and(eq(products.id, req.params.id), isNotNull(products.deletedAt)))
+          .returning();
+        if (!restored) {
+          throw new HttpError(404, "Produto não encontrado na lixeira");
+        }
+        await recordAudit(tx, {
+          entityType: "product",
+          entityId: restored.id,
+          entityName: restored.name,
+          action: "restore",
+          userId: req.user!.id,
+        });
+        return restored;
+      });
+      res.json(product);
     } catch (error) {
-      console.error("Erro ao buscar movimentações:", error);
-      res.status(500).json({ message: "Erro ao buscar movimentações" });
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao restaurar produto:", error);
+      res.status(500).json({ message: "Erro ao restaurar produto" });
     }
   });
 
-  app.post("/api/movements", async (req, res) => {
+  app.delete("/api/products/:id/purge", requirePermission("product:delete"), async (req, res) => {
     try {
-      const { productId, type, quantity, note, id } = req.body;
-      
-      const [movement] = await db.insert(movements).values({
-        id,
-        productId,
-        type,
-        quantity,
-        note,
-      }).returning();
-
-      // Update product quantity
-      const [product] = await db.select().from(products).where(eq(products.id, productId));
-      if (product) {
-        let newQuantity = product.quantity;
-        if (type === "entry") {
-          newQuantity += quantity;
-        } else {
-          newQuantity = Math.max(0, newQuantity - quantity);
-        }
-        await db.update(products)
-          .set({ quantity: newQuantity, updatedAt: new Date() })
-          .where(eq(products.id, productId));
-      }
+      await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select()
+          .from(products)
+          .where(eq(products.id, req.params.id))
+          .for("update");
+        if (!current) {
+          throw new HttpError(404, "Produto não encontrado");
+        }
+        if (!current.deletedAt) {
+          throw new HttpError(409, "Mova o produto para a lixeira antes de excluí-lo definitivamente");
+        }
+
+        const unitIds = tx
+          .select({ id: productUnits.id })
+          .from(productUnits)
+          .where(eq(productUnits.productId, current.id));
+        await tx.delete(movementUnits).where(inArray(movementUnits.unitId, unitIds));
+        await tx.delete(pricePoints).where(eq(pricePoints.productId, current.id));
+        await tx.delete(maintenanceEvents).where(eq(maintenanceEvents.productId, current.id));
+        await tx.delete(maintenancePlans).where(eq(maintenancePlans.productId, current.id));
+        await tx.delete(productSuppliers).where(eq(productSuppliers.productId, current.id));
+        await tx.delete(purchaseOrderLines).where(eq(purchaseOrderLines.productId, current.id));
+        await tx.delete(stocktakeItems).where(eq(stocktakeItems.productId, current.id));
+        await tx.delete(productUnits).where(eq(productUnits.productId, current.id));
+        await tx.delete(movements).where(eq(movements.productId, current.id));
+        await tx.delete(stockLots).where(eq(stockLots.productId, current.id));
+        await tx.delete(checkouts).where(eq(checkouts.productId, current.id));
+        await tx.delete(stockBalances).where(eq(stockBalances.productId, current.id));
+        await tx.delete(products).where(eq(products.id, current.id));
+        await recordAudit(tx, {
+          entityType: "product",
+          entityId: current.id,
+          entityName: current.name,
+          action: "delete",
+          userId: req.user!.id,
+          before: current,
+        });
+      });
+      res.sendStatus(204);
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao excluir produto:", error);
+      res.status(500).json({ message: "Erro ao excluir produto" });
+    }
+  });
+
+  // Transfers
+  app.post("/api/transfers", requirePermission("movement:transfer"), validateBody(insertTransferSchema), async (req, res) => {
+    try {
+      const { productId, fromLocationId, toLocationId, quantity, note, unitIds }: InsertTransfer = req.body;
+
+      const legs = await db.transaction(async (tx) => {
+        // Mesma trava da rota de movimentações, para não concorrer com saídas.
+        const [product] = await tx
+          .select()
+          .from(products)
+          .where(eq(products.id, productId))
+          .for("update");
+
+        if (!product) {
+          throw new HttpError(404, "Produto não encontrado");
+        }
+
+        if (product.deletedAt) {
+          throw new HttpError(409, "Este produto está na lixeira. Restaure-o para movimentar o estoque.");
+        }
+
+        const [from] = await tx.select().from(locations).where(eq(locations.id, fromLocationId));
+        const [to] = await tx.select().from(locations).where(eq(locations.id, toLocationId));
+        if (!from || !to) {
+          throw new HttpError(404, "Local não encontrado");
+        }
+
+        const [balance] = await tx
+          .select()
+          .from(stockBalances)
+          .where(and(eq(stockBalances.productId, productId), eq(stockBalances.locationId, fromLocationId)))
+          .for("update");
+        const available = balance?.quantity ?? 0;
+
+        if (quantity > available) {
+          throw new HttpError(409, `Estoque insuficiente em ${from.name}. Disponível: ${available} ${product.unit}`, {
+            available,
+          });
+        }
+
+        const units = product.serialized
+          ? await pickUnits(tx, { product, locationId: fromLocationId, unitIds, quantity })
+          : [];
+
+        const transferId = randomUUID();
+        const base = { productId, type: "transfer" as const, quantity, note, transferId, userId: req.user!.id };
+        const created = await tx
+          .insert(movements)
+          .values([
+            { ...base, id: randomUUID(), locationId: fromLocationId, transferDirection: "out" as const },
+            { ...base, id: randomUUID(), locationId: toLocationId, transferDirection: "in" as const },
+          ])
+          .returning();
+
+        if (units.length > 0) {
+          for (const leg of created) {
+            await linkUnits(tx, leg.id, units.map((unit) => unit.id));
+          }
+          await updateUnits(tx, units, { locationId: toLocationId }, { productName: product.name, userId: req.user!.id });
+        }
+
+        // O total do produto não muda; só os saldos dos dois locais. Os lotes
+        // saem da origem e chegam ao destino com o mesmo número e validade.
+        const movedLots = await adjustBalance(tx, productId, fromLocationId, -quantity);
+        await adjustBalance(tx, productId, toLocationId, quantity);
+        for (const moved of movedLots) {
+          await receiveLot(tx, { ...moved, productId, locationId: toLocationId });
+        }
+
+        await recordAudit(tx, {
+          entityType: "movement",
+          entityId: transferId,
+          entityName: `${product.name} (${from.name} → ${to.name})`,
+          action: "create",
+          userId: req.user!.id,
+          after: { type: "transfer", productId, quantity, note, fromLocationId, toLocationId },
+        });
+
+        return created;
+      });
 
-      res.json(movement);
+      res.json(legs.map((leg) => ({ ...leg, userName: req.user!.username })));
     } catch (error) {
-      console.error("Erro ao criar movimentação:", error);
-      res.status(500).json({ message: "Erro ao criar movimentação" });
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao criar transferência:", error);
+      res.status(500).json({ message: "Erro ao criar transferência" });
     }
   });
 }
@@ -0,0 +1,423 @@
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import { and, count, desc, eq, getTableColumns, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import { fromZodError } from "zod-validation-error";
+import {
+  categories,
+  locations,
+  movements,
+  products,
+  stockBalances,
+  stocktakeItems,
+  stocktakes,
+  insertStocktakeSchema,
+  saveStocktakeCountsSchema,
+  stocktakeQuerySchema,
+  type InsertStocktake,
+  type SaveStocktakeCounts,
+  type Stocktake,
+} from "@shared/schema";
+import { STOCKTAKE_STATUS_LABELS, stocktakeVariance } from "@shared/stocktakes";
+import { COST_SCALE, currentUnitCost } from "@shared/costing";
+import { STOCKTAKE_ADJUSTMENT_REASON_CODE } from "@shared/movements";
+import { db } from "./db";
+import { HttpError, sendHttpError } from "./errors";
+import { validateBody } from "./validation";
+import { requirePermission } from "./auth";
+import { recordAudit } from "./audit";
+import { adjustBalance, getDefaultLocationId } from "./locations";
+import { getAdjustmentReasonByCode } from "./adjustments";
+
+type DbExecutor = Pick<typeof db, "select" | "insert" | "update" | "delete">;
+
+const stocktakeColumns = {
+  ...getTableColumns(stocktakes),
+  categoryName: categories.name,
+  locationName: locations.name,
+};
+
+const itemColumns = {
+  ...getTableColumns(stocktakeItems),
+  productName: products.name,
+  productUnit: products.unit,
+  categoryId: products.categoryId,
+  locationName: locations.name,
+};
+
+async function lockStocktake(executor: DbExecutor, id: string): Promise<Stocktake> {
+  const [stocktake] = await executor
+    .select()
+    .from(stocktakes)
+    .where(eq(stocktakes.id, id))
+    .for("update");
+  if (!stocktake) {
+    throw new HttpError(404, "Inventário não encontrado");
+  }
+  return stocktake;
+}
+
+function assertCounting(stocktake: Stocktake) {
+  if (stocktake.status !== "counting") {
+    throw new HttpError(409, `Este inventário já está "${STOCKTAKE_STATUS_LABELS[stocktake.status]}"`);
+  }
+}
+
+async function getStocktakeDetail(executor: DbExecutor, id: string) {
+  const [stocktake] = await executor
+    .select(stocktakeColumns)
+    .from(stocktakes)
+    .leftJoin(categories, eq(stocktakes.categoryId, categories.id))
+    .leftJoin(locations, eq(stocktakes.locationId, locations.id))
+    .where(eq(stocktakes.id, id));
+  if (!stocktake) return null;
+  const items = await executor
+    .select(itemColumns)
+    .from(stocktakeItems)
+    .innerJoin(products, eq(stocktakeItems.productId, products.id))
+    .innerJoin(locations, eq(stocktakeItems.locationId, locations.id))
+    .where(eq(stocktakeItems.stocktakeId, id))
+    .orderBy(products.name, locations.name);
+  return { ...stocktake, items };
+}
+
+/**
+ * Itens do inventário com o saldo atual de cada produto por local. Produtos
+ * sem saldo registrado entram no local padrão, para que sobras apareçam.
+ * Serializados ficam de fora: são conferidos unidade por unidade.
+ */
+async function snapshotItems(executor: DbExecutor, data: InsertStocktake) {
+  const candidates = await executor
+    .select()
+    .from(products)
+    .where(
+      and(
+        isNull(products.deletedAt),
+        eq(products.serialized, false),
+        data.scope === "category" ? eq(products.categoryId, data.categoryId!) : undefined,
+      ),
+    );
+  if (candidates.length === 0) return [];
+
+  const balances = await executor
+    .select()
+    .from(stockBalances)
+    .where(
+      and(
+        inArray(stockBalances.productId, candidates.map((p) => p.id)),
+        data.scope === "location" ? eq(stockBalances.locationId, data.locationId!) : undefined,
+      ),
+    );
+  if (data.scope === "location") {
+    return balances.map((b) => ({ productId: b.productId, locationId: b.locationId, expectedQuantity: b.quantity }));
+  }
+
+  const defaultLocationId = await getDefaultLocationId(executor);
+  return candidates.flatMap((product) => {
+    const productBalances = balances.filter((b) => b.productId === product.id);
+    return productBalances.length > 0
+      ? productBalances.map((b) => ({ productId: product.id, locationId: b.locationId, expectedQuantity: b.quantity }))
+      : [{ productId: product.id, locationId: defaultLocationId, expectedQuantity: 0 }];
+  });
+}
+
+export function registerStocktakeRoutes(app: Express): void {
+  app.get("/api/stocktakes", async (req, res) => {
+    try {
+      const parsed = stocktakeQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: fromZodError(parsed.error, { prefix: "Filtro inválido" }).message,
+        });
+      }
+
+      const list = await db
+        .select(stocktakeColumns)
+        .from(stocktakes)
+        .leftJoin(categories, eq(stocktakes.categoryId, categories.id))
+        .leftJoin(locations, eq(stocktakes.locationId, locations.id))
+        .where(parsed.data.status === "all" ? undefined : isNull(stocktakes.closedAt))
+        .orderBy(desc(stocktakes.number));
+      const totals =
+        list.length > 0
+          ? await db
+              .select({
+                stocktakeId: stocktakeItems.stocktakeId,
+                itemCount: count(),
+                countedCount: count(stocktakeItems.countedQuantity),
+                varianceCount:
+                  sql<number>`count(*) filter (where ${stocktakeItems.countedQuantity} <> ${stocktakeItems.expectedQuantity})`.mapWith(
+                    Number,
+                  ),
+              })
+              .from(stocktakeItems)
+              .where(inArray(stocktakeItems.stocktakeId, list.map((s) => s.id)))
+              .groupBy(stocktakeItems.stocktakeId)
+          : [];
+      res.json(
+        list.map((stocktake) => {
+          const total = totals.find((t) => t.stocktakeId === stocktake.id);
+          return {
+            ...stocktake,
+            itemCount: total?.itemCount ?? 0,
+            countedCount: total?.countedCount ?? 0,
+            varianceCount: total?.varianceCount ?? 0,
+          };
+        }),
+      );
+    } catch (error) {
+      console.error("Erro ao buscar inventários:", error);
+      res.status(500).json({ message: "Erro ao buscar inventários" });
+    }
+  });
+
+  app.get("/api/stocktakes/:id", async (req, res) => {
+    try {
+      const stocktake = await getStocktakeDetail(db, req.params.id);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Inventário não encontrado" });
+      }
+      res.json(stocktake);
+    } catch (error) {
+      console.error("Erro ao buscar inventário:", error);
+      res.status(500).json({ message: "Erro ao buscar inventário" });
+    }
+  });
+
+  app.post("/api/stocktakes", requirePermission("stocktake:manage"), validateBody(insertStocktakeSchema), async (req, res) => {
+    try {
+      const data: InsertStocktake = req.body;
+
+      const stocktake = await db.transaction(async (tx) => {
+        let targetName = "todos os produtos";
+        if (data.scope === "category") {
+          const [category] = await tx.select().from(categories).where(eq(categories.id, data.categoryId!));
+          if (!category) {
+            throw new HttpError(404, "Categoria não encontrada");
+          }
+          targetName = category.name;
+        } else if (data.scope === "location") {
+          const [location] = await tx.select().from(locations).where(eq(locations.id, data.locationId!));
+          if (!location) {
+            throw new HttpError(404, "Local não encontrado");
+          }
+          targetName = location.name;
+        }
+
+        const items = await snapshotItems(tx, data);
+        if (items.length === 0) {
+          throw new HttpError(409, "Nenhum produto para contar nesta abrangência");
+        }
+
+        const [created] = await tx
+          .insert(stocktakes)
+          .values({
+            scope: data.scope,
+            categoryId: data.scope === "category" ? data.categoryId : null,
+            locationId: data.scope === "location" ? data.locationId : null,
+            note: data.note?.trim() || null,
+            createdBy: req.user!.id,
+          })
+          .returning();
+        await tx.insert(stocktakeItems).values(items.map((item) => ({ ...item, stocktakeId: created.id })));
+        await recordAudit(tx, {
+          entityType: "stocktake",
+          entityId: created.id,
+          entityName: `Inventário ${created.number} (${targetName})`,
+          action: "create",
+          userId: req.user!.id,
+          after: { ...created, itemCount: items.length },
+        });
+        return getStocktakeDetail(tx, created.id);
+      });
+      res.json(stocktake);
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao abrir inventário:", error);
+      res.status(500).json({ message: "Erro ao abrir inventário" });
+    }
+  });
+
+  // Cada aparelho envia só os itens que contou; os demais não são tocados.
+  app.put(
+    "/api/stocktakes/:id/counts",
+    requirePermission("stocktake:count"),
+    validateBody(saveStocktakeCountsSchema),
+    async (req, res) => {
+      try {
+        const { counts }: SaveStocktakeCounts = req.body;
+
+        const stocktake = await db.transaction(async (tx) => {
+          const current = await lockStocktake(tx, req.params.id);
+          assertCounting(current);
+
+          const items = await tx
+            .select({ id: stocktakeItems.id })
+            .from(stocktakeItems)
+            .where(
+              and(
+                eq(stocktakeItems.stocktakeId, current.id),
+                inArray(stocktakeItems.id, counts.map((c) => c.itemId)),
+              ),
+            );
+          const missing = counts.filter((c) => !items.some((item) => item.id === c.itemId));
+          if (missing.length > 0) {
+            throw new HttpError(404, "Item do inventário não encontrado", { itemIds: missing.map((c) => c.itemId) });
+          }
+
+          const now = new Date();
+          for (const { itemId, countedQuantity } of counts) {
+            await tx
+              .update(stocktakeItems)
+              .set({
+                countedQuantity,
+                countedBy: countedQuantity === null ? null : req.user!.id,
+                countedAt: countedQuantity === null ? null : now,
+              })
+              .where(eq(stocktakeItems.id, itemId));
+          }
+          return getStocktakeDetail(tx, current.id);
+        });
+        res.json(stocktake);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao salvar contagem:", error);
+        res.status(500).json({ message: "Erro ao salvar contagem" });
+      }
+    },
+  );
+
+  // Lança a diferença de cada item contado sobre o saldo atual, de modo que
+  // as movimentações feitas durante a contagem continuem valendo. Itens não
+  // contados ficam como estão.
+  app.post("/api/stocktakes/:id/approve", requirePermission("stocktake:manage"), async (req, res) => {
+    try {
+      const stocktake = await db.transaction(async (tx) => {
+        const current = await lockStocktake(tx, req.params.id);
+        assertCounting(current);
+
+        const items = await tx
+          .select()
+          .from(stocktakeItems)
+          .where(and(eq(stocktakeItems.stocktakeId, current.id), isNotNull(stocktakeItems.countedQuantity)));
+        if (items.length === 0) {
+          throw new HttpError(409, "Conte ao menos um item antes de aprovar o inventário");
+        }
+        const reason = await getAdjustmentReasonByCode(tx, STOCKTAKE_ADJUSTMENT_REASON_CODE);
+
+        for (const item of items) {
+          const variance = stocktakeVariance(item) ?? 0;
+          if (variance === 0) continue;
+
+          const [product] = await tx
+            .select()
+            .from(products)
+            .where(eq(products.id, item.productId))
+            .for("update");
+          if (product.deletedAt) {
+            throw new HttpError(409, `${product.name} está na lixeira. Restaure-o para aprovar o inventário.`);
+          }
+
+          if (variance < 0) {
+            const [balance] = await tx
+              .select()
+              .from(stockBalances)
+              .where(and(eq(stockBalances.productId, item.productId), eq(stockBalances.locationId, item.locationId)))
+              .for("update");
+            const available = balance?.quantity ?? 0;
+            if (-variance > available) {
+              throw new HttpError(
+                409,
+                `${product.name}: a falta apurada (${-variance} ${product.unit}) é maior que o saldo atual (${available} ${product.unit})`,
+                { itemId: item.id, available },
+              );
+            }
+          }
+
+          // O ajuste sai e entra pelo custo médio, sem alterá-lo.
+          const [movement] = await tx
+            .insert(movements)
+            .values({
+              id: randomUUID(),
+              productId: product.id,
+              type: "adjustment",
+              quantity: variance,
+              note: `Inventário ${current.number}`,
+              locationId: item.locationId,
+              stocktakeId: current.id,
+              reasonId: reason.id,
+              unitCost: currentUnitCost(product).toFixed(COST_SCALE),
+              userId: req.user!.id,
+            })
+            .returning();
+
+          await adjustBalance(tx, product.id, item.locationId, variance);
+          await tx
+            .update(products)
+            .set({ quantity: product.quantity + variance, updatedBy: req.user!.id, updatedAt: new Date() })
+            .where(eq(products.id, product.id));
+
+          await recordAudit(tx, {
+            entityType: "movement",
+            entityId: movement.id,
+            entityName: product.name,
+            action: "create",
+            userId: req.user!.id,
+            after: { ...movement, reason: reason.name },
+          });
+        }
+
+        const now = new Date();
+        const [updated] = await tx
+          .update(stocktakes)
+          .set({ status: "approved", approvedBy: req.user!.id, closedAt: now })
+          .where(eq(stocktakes.id, current.id))
+          .returning();
+        await recordAudit(tx, {
+          entityType: "stocktake",
+          entityId: current.id,
+          entityName: `Inventário ${current.number}`,
+          action: "update",
+          userId: req.user!.id,
+          before: current,
+          after: updated,
+        });
+        return getStocktakeDetail(tx, current.id);
+      });
+      res.json(stocktake);
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao aprovar inventário:", error);
+      res.status(500).json({ message: "Erro ao aprovar inventário" });
+    }
+  });
+
+  app.post("/api/stocktakes/:id/cancel", requirePermission("stocktake:manage"), async (req, res) => {
+    try {
+      const stocktake = await db.transaction(async (tx) => {
+        const current = await lockStocktake(tx, req.params.id);
+        assertCounting(current);
+
+        const [updated] = await tx
+          .update(stocktakes)
+          .set({ status: "cancelled", closedAt: new Date() })
+          .where(eq(stocktakes.id, current.id))
+          .returning();
+        await recordAudit(tx, {
+          entityType: "stocktake",
+          entityId: current.id,
+          entityName: `Inventário ${current.number}`,
+          action: "update",
+          userId: req.user!.id,
+          before: current,
+          after: updated,
+        });
+        return getStocktakeDetail(tx, current.id);
+      });
+      res.json(stocktake);
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao cancelar inventário:", error);
+      res.status(500).json({ message: "Erro ao cancelar inventário" });
+    }
+  });
+}
@@ -1,12 +1,17 @@
-import { type User, type InsertUser, users } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { type User, type InsertUser, type UpdateUser, type Session, users, sessions } from "@shared/schema";
+import { asc, eq } from "drizzle-orm";
 import { db } from "./db";
 import { randomUUID } from "crypto";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  listUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, data: UpdateUser): Promise<User | undefined>;
+  createSession(session: Omit<Session, "createdAt">): Promise<Session>;
+  getSession(id: string): Promise<Session | undefined>;
+  deleteSession(id: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -29,6 +34,10 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async listUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(asc(users.username));
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
 
@@ -39,6 +48,38 @@ export class DatabaseStorage implements IStorage {
 
     return user;
   }
+
+  async updateUser(id: string, data: UpdateUser): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(data)
+      .where(eq(users.id, id))
+      .returning();
+
+    return user;
+  }
+
+  async createSession(session: Omit<Session, "createdAt">): Promise<Session> {
+    const [created] = await db
+      .insert(sessions)
+      .values(session)
+      .returning();
+
+    return created;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const result = await db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.id, id));
+
+    return result[0];
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.id, id));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,290 @@
+import type { Express } from "express";
+import { and, asc, count, eq, getTableColumns, ne } from "drizzle-orm";
+import {
+  movementDocuments,
+  products,
+  productSuppliers,
+  purchaseOrders,
+  suppliers,
+  insertSupplierSchema,
+  updateSupplierSchema,
+  upsertProductSupplierSchema,
+  type InsertSupplier,
+  type UpdateSupplier,
+  type UpsertProductSupplier,
+} from "@shared/schema";
+import { db } from "./db";
+import { HttpError, sendHttpError } from "./errors";
+import { validateBody } from "./validation";
+import { requirePermission } from "./auth";
+import { recordAudit } from "./audit";
+
+type DbExecutor = Pick<typeof db, "select">;
+
+async function ensureUniqueCnpj(executor: DbExecutor, cnpj: string | null | undefined, supplierId?: string) {
+  if (!cnpj) return;
+  const [existing] = await executor
+    .select({ name: suppliers.name })
+    .from(suppliers)
+    .where(and(eq(suppliers.cnpj, cnpj), supplierId ? ne(suppliers.id, supplierId) : undefined));
+  if (existing) {
+    throw new HttpError(409, `CNPJ já cadastrado para ${existing.name}`);
+  }
+}
+
+export function registerSupplierRoutes(app: Express): void {
+  app.get("/api/suppliers", async (_req, res) => {
+    try {
+      const allSuppliers = await db
+        .select({ ...getTableColumns(suppliers), productCount: count(productSuppliers.productId) })
+        .from(suppliers)
+        .leftJoin(productSuppliers, eq(productSuppliers.supplierId, suppliers.id))
+        .groupBy(suppliers.id)
+        .orderBy(asc(suppliers.name));
+      res.json(allSuppliers);
+    } catch (error) {
+      console.error("Erro ao buscar fornecedores:", error);
+      res.status(500).json({ message: "Erro ao buscar fornecedores" });
+    }
+  });
+
+  app.post("/api/suppliers", requirePermission("supplier:manage"), validateBody(insertSupplierSchema), async (req, res) => {
+    try {
+      const data: InsertSupplier = req.body;
+      const supplier = await db.transaction(async (tx) => {
+        await ensureUniqueCnpj(tx, data.cnpj);
+        const [created] = await tx.insert(suppliers).values(data).returning();
+        await recordAudit(tx, {
+          entityType: "supplier",
+          entityId: created.id,
+          entityName: created.name,
+          action: "create",
+          userId: req.user!.id,
+          after: created,
+        });
+        return created;
+      });
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao criar fornecedor:", error);
+      res.status(500).json({ message: "Erro ao criar fornecedor" });
+    }
+  });
+
+  app.patch(
+    "/api/suppliers/:id",
+    requirePermission("supplier:manage"),
+    validateBody(updateSupplierSchema),
+    async (req, res) => {
+      try {
+        const data: UpdateSupplier = req.body;
+        const supplier = await db.transaction(async (tx) => {
+          const [current] = await tx
+            .select()
+            .from(suppliers)
+            .where(eq(suppliers.id, req.params.id))
+            .for("update");
+          if (!current) {
+            throw new HttpError(404, "Fornecedor não encontrado");
+          }
+          await ensureUniqueCnpj(tx, data.cnpj, current.id);
+
+          const [updated] = await tx
+            .update(suppliers)
+            .set(data)
+            .where(eq(suppliers.id, current.id))
+            .returning();
+          await recordAudit(tx, {
+            entityType: "supplier",
+            entityId: updated.id,
+            entityName: updated.name,
+            action: "update",
+            userId: req.user!.id,
+            before: current,
+            after: updated,
+          });
+          return updated;
+        });
+        res.json(supplier);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao atualizar fornecedor:", error);
+        res.status(500).json({ message: "Erro ao atualizar fornecedor" });
+      }
+    },
+  );
+
+  // Só sai quem não fornece mais nenhum produto nem tem pedidos ou documentos,
+  // para não apagar preços, códigos e o histórico de compras.
+  app.delete("/api/suppliers/:id", requirePermission("supplier:manage"), async (req, res) => {
+    try {
+      await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select()
+          .from(suppliers)
+          .where(eq(suppliers.id, req.params.id))
+          .for("update");
+        if (!current) {
+          throw new HttpError(404, "Fornecedor não encontrado");
+        }
+        const [{ linked }] = await tx
+          .select({ linked: count() })
+          .from(productSuppliers)
+          .where(eq(productSuppliers.supplierId, current.id));
+        if (linked > 0) {
+          throw new HttpError(
+            409,
+            `Este fornecedor está ligado a ${linked} ${linked === 1 ? "produto" : "produtos"}. Remova os vínculos antes de excluir.`,
+          );
+        }
+        const [{ orders }] = await tx
+          .select({ orders: count() })
+          .from(purchaseOrders)
+          .where(eq(purchaseOrders.supplierId, current.id));
+        if (orders > 0) {
+          throw new HttpError(409, "Este fornecedor tem pedidos de compra registrados e não pode ser excluído.");
+        }
+        const [{ documents }] = await tx
+          .select({ documents: count() })
+          .from(movementDocuments)
+          .where(eq(movementDocuments.supplierId, current.id));
+        if (documents > 0) {
+          throw new HttpError(409, "Este fornecedor tem documentos de entrada registrados e não pode ser excluído.");
+        }
+
+        await tx.delete(suppliers).where(eq(suppliers.id, current.id));
+        await recordAudit(tx, {
+          entityType: "supplier",
+          entityId: current.id,
+          entityName: current.name,
+          action: "delete",
+          userId: req.user!.id,
+          before: current,
+        });
+      });
+      res.sendStatus(204);
+    } catch (error) {
+      if (error instanceof HttpError) return sendHttpError(res, error);
+      console.error("Erro ao excluir fornecedor:", error);
+      res.status(500).json({ message: "Erro ao excluir fornecedor" });
+    }
+  });
+
+  app.get("/api/products/:id/suppliers", async (req, res) => {
+    try {
+      const links = await db
+        .select({
+          ...getTableColumns(productSuppliers),
+          supplierName: suppliers.name,
+          leadTimeDays: suppliers.leadTimeDays,
+        })
+        .from(productSuppliers)
+        .innerJoin(suppliers, eq(productSuppliers.supplierId, suppliers.id))
+        .where(eq(productSuppliers.productId, req.params.id))
+        .orderBy(asc(suppliers.name));
+      res.json(links);
+    } catch (error) {
+      console.error("Erro ao buscar fornecedores do produto:", error);
+      res.status(500).json({ message: "Erro ao buscar fornecedores do produto" });
+    }
+  });
+
+  // Cria ou atualiza o vínculo; marcar como preferido desmarca os demais. O
+  // histórico fica no fornecedor, com o produto no nome do registro.
+  app.put(
+    "/api/products/:id/suppliers/:supplierId",
+    requirePermission("supplier:manage"),
+    validateBody(upsertProductSupplierSchema),
+    async (req, res) => {
+      try {
+        const data: UpsertProductSupplier = req.body;
+        const { id: productId, supplierId } = req.params;
+
+        const link = await db.transaction(async (tx) => {
+          const [product] = await tx.select().from(products).where(eq(products.id, productId));
+          const [supplier] = await tx.select().from(suppliers).where(eq(suppliers.id, supplierId));
+          if (!product || !supplier) {
+            throw new HttpError(404, "Produto ou fornecedor não encontrado");
+          }
+
+          const [current] = await tx
+            .select()
+            .from(productSuppliers)
+            .where(and(eq(productSuppliers.productId, productId), eq(productSuppliers.supplierId, supplierId)))
+            .for("update");
+
+          if (data.preferred) {
+            await tx
+              .update(productSuppliers)
+              .set({ preferred: false })
+              .where(and(eq(productSuppliers.productId, productId), ne(productSuppliers.supplierId, supplierId)));
+          }
+
+          const [saved] = await tx
+            .insert(productSuppliers)
+            .values({ productId, supplierId, ...data })
+            .onConflictDoUpdate({
+              target: [productSuppliers.productId, productSuppliers.supplierId],
+              set: { ...data, updatedAt: new Date() },
+            })
+            .returning();
+
+          await recordAudit(tx, {
+            entityType: "supplier",
+            entityId: supplier.id,
+            entityName: `${supplier.name} · ${product.name}`,
+            action: current ? "update" : "create",
+            userId: req.user!.id,
+            before: current,
+            after: saved,
+          });
+          return { ...saved, supplierName: supplier.name, leadTimeDays: supplier.leadTimeDays };
+        });
+        res.json(link);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao salvar fornecedor do produto:", error);
+        res.status(500).json({ message: "Erro ao salvar fornecedor do produto" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/products/:id/suppliers/:supplierId",
+    requirePermission("supplier:manage"),
+    async (req, res) => {
+      try {
+        const { id: productId, supplierId } = req.params;
+        await db.transaction(async (tx) => {
+          const [current] = await tx
+            .select({ link: productSuppliers, productName: products.name, supplierName: suppliers.name })
+            .from(productSuppliers)
+            .innerJoin(products, eq(productSuppliers.productId, products.id))
+            .innerJoin(suppliers, eq(productSuppliers.supplierId, suppliers.id))
+            .where(and(eq(productSuppliers.productId, productId), eq(productSuppliers.supplierId, supplierId)));
+          if (!current) {
+            throw new HttpError(404, "Vínculo não encontrado");
+          }
+
+          await tx
+            .delete(productSuppliers)
+            .where(and(eq(productSuppliers.productId, productId), eq(productSuppliers.supplierId, supplierId)));
+          await recordAudit(tx, {
+            entityType: "supplier",
+            entityId: supplierId,
+            entityName: `${current.supplierName} · ${current.productName}`,
+            action: "delete",
+            userId: req.user!.id,
+            before: current.link,
+          });
+        });
+        res.sendStatus(204);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao remover fornecedor do produto:", error);
+        res.status(500).json({ message: "Erro ao remover fornecedor do produto" });
+      }
+    },
+  );
+}
@@ -0,0 +1,379 @@
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import { and, asc, count, desc, eq, getTableColumns, inArray, isNull } from "drizzle-orm";
+import {
+  auditLog,
+  checkouts,
+  locations,
+  movements,
+  movementUnits,
+  productUnits,
+  products,
+  stockBalances,
+  users,
+  updateUnitStatusSchema,
+  serializeProductSchema,
+  type Product,
+  type ProductUnit,
+  type UpdateUnitStatus,
+  type SerializeProduct,
+} from "@shared/schema";
+import { UNIT_STATUS_LABELS, UNIT_STATUS_TRANSITIONS, type UnitStatus } from "@shared/products";
+import { COST_SCALE, currentUnitCost } from "@shared/costing";
+import { db } from "./db";
+import { HttpError, sendHttpError } from "./errors";
+import { validateBody } from "./validation";
+import { requirePermission } from "./auth";
+import { recordAudit } from "./audit";
+import { adjustBalance } from "./locations";
+
+type DbExecutor = Pick<typeof db, "select" | "insert" | "update">;
+
+type UnitChanges = Partial<Pick<ProductUnit, "status" | "locationId" | "holderId" | "checkoutId">>;
+
+/** Estado legível da unidade para o histórico, com nomes no lugar dos ids. */
+async function describeUnit(executor: DbExecutor, unit: ProductUnit) {
+  const [location] = await executor
+    .select({ name: locations.name })
+    .from(locations)
+    .where(eq(locations.id, unit.locationId));
+  const [holder] = unit.holderId
+    ? await executor.select({ username: users.username }).from(users).where(eq(users.id, unit.holderId))
+    : [];
+  return {
+    serial: unit.serial,
+    status: unit.status,
+    location: location?.name ?? null,
+    holder: holder?.username ?? null,
+  };
+}
+
+export async function linkUnits(executor: DbExecutor, movementId: string, unitIds: string[]): Promise<void> {
+  if (unitIds.length === 0) return;
+  await executor.insert(movementUnits).values(unitIds.map((unitId) => ({ movementId, unitId })));
+}
+
+/** Trava as unidades vinculadas a uma movimentação. */
+export async function lockMovementUnits(executor: DbExecutor, movementId: string): Promise<ProductUnit[]> {
+  const links = await executor
+    .select({ unitId: movementUnits.unitId })
+    .from(movementUnits)
+    .where(eq(movementUnits.movementId, movementId));
+  if (links.length === 0) return [];
+  return executor
+    .select()
+    .from(productUnits)
+    .where(inArray(productUnits.id, links.map((link) => link.unitId)))
+    .for("update");
+}
+
+/** Cadastra as unidades que chegaram numa entrada, uma por número de série. */
+export async function receiveUnits(
+  executor: DbExecutor,
+  {
+    product,
+    locationId,
+    serials,
+    quantity,
+    movementId,
+    userId,
+  }: {
+    product: Product;
+    locationId: string;
+    serials: string[] | undefined;
+    quantity: number;
+    movementId: string | null;
+    userId: string;
+  },
+): Promise<ProductUnit[]> {
+  const list = serials ?? [];
+  if (list.length !== quantity) {
+    throw new HttpError(400, `Informe um número de série para cada unidade (${quantity})`);
+  }
+  if (new Set(list).size !== list.length) {
+    throw new HttpError(400, "Há números de série repetidos");
+  }
+
+  const existing = await executor
+    .select({ serial: productUnits.serial })
+    .from(productUnits)
+    .where(inArray(productUnits.serial, list));
+  if (existing.length > 0) {
+    throw new HttpError(409, `Número de série já cadastrado: ${existing.map((u) => u.serial).join(", ")}`);
+  }
+
+  const created = await executor
+    .insert(productUnits)
+    .values(list.map((serial) => ({ productId: product.id, serial, locationId })))
+    .returning();
+  if (movementId) {
+    await linkUnits(executor, movementId, created.map((unit) => unit.id));
+  }
+
+  for (const unit of created) {
+    await recordAudit(executor, {
+      entityType: "unit",
+      entityId: unit.id,
+      entityName: `${product.name} (${unit.serial})`,
+      action: "create",
+      userId,
+      after: await describeUnit(executor, unit),
+    });
+  }
+  return created;
+}
+
+/** Trava as unidades escolhidas e confere se estão disponíveis no local de saída. */
+export async function pickUnits(
+  executor: DbExecutor,
+  {
+    product,
+    locationId,
+    unitIds,
+    quantity,
+  }: { product: Product; locationId: string; unitIds: string[] | undefined; quantity: number },
+): Promise<ProductUnit[]> {
+  const ids = unitIds ?? [];
+  if (ids.length !== quantity || new Set(ids).size !== ids.length) {
+    throw new HttpError(400, `Selecione ${quantity} ${quantity === 1 ? "unidade" : "unidades"} pelo número de série`);
+  }
+
+  const units = await executor
+    .select()
+    .from(productUnits)
+    .where(inArray(productUnits.id, ids))
+    .for("update");
+  const unavailable = ids.filter((id) => {
+    const unit = units.find((u) => u.id === id);
+    return !unit || unit.productId !== product.id || unit.status !== "available" || unit.locationId !== locationId;
+  });
+  const inMaintenance = units.filter((u) => ids.includes(u.id) && u.status === "in_repair");
+  if (inMaintenance.length > 0) {
+    throw new HttpError(409, `Unidade em manutenção: ${inMaintenance.map((u) => u.serial).join(", ")}`, {
+      unitIds: inMaintenance.map((u) => u.id),
+    });
+  }
+  if (unavailable.length > 0) {
+    throw new HttpError(409, "Algumas unidades escolhidas não estão disponíveis neste local", { unitIds: unavailable });
+  }
+  return units;
+}
+
+/** Atualiza as unidades e registra a mudança de cada uma no histórico. */
+export async function updateUnits(
+  executor: DbExecutor,
+  units: ProductUnit[],
+  changes: UnitChanges,
+  { productName, userId }: { productName: string; userId: string },
+): Promise<ProductUnit[]> {
+  const updated: ProductUnit[] = [];
+  for (const unit of units) {
+    const [saved] = await executor
+      .update(productUnits)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(productUnits.id, unit.id))
+      .returning();
+    await recordAudit(executor, {
+      entityType: "unit",
+      entityId: unit.id,
+      entityName: `${productName} (${unit.serial})`,
+      action: "update",
+      userId,
+      before: await describeUnit(executor, unit),
+      after: await describeUnit(executor, saved),
+    });
+    updated.push(saved);
+  }
+  return updated;
+}
+
+/**
+ * Muda a situação de uma unidade pelas transições permitidas. Sair de
+ * "disponível" tira a unidade do saldo do local; voltar da manutenção repõe.
+ */
+export async function changeUnitStatus(
+  executor: DbExecutor,
+  unitId: string,
+  status: UnitStatus,
+  userId: string,
+): Promise<ProductUnit> {
+  const [current] = await executor
+    .select()
+    .from(productUnits)
+    .where(eq(productUnits.id, unitId))
+    .for("update");
+  if (!current) {
+    throw new HttpError(404, "Unidade não encontrada");
+  }
+  if (!UNIT_STATUS_TRANSITIONS[current.status].includes(status)) {
+    throw new HttpError(
+      409,
+      `Não é possível passar de "${UNIT_STATUS_LABELS[current.status]}" para "${UNIT_STATUS_LABELS[status]}"`,
+    );
+  }
+
+  const [product] = await executor
+    .select()
+    .from(products)
+    .where(eq(products.id, current.productId))
+    .for("update");
+
+  const delta = current.status === "available" ? -1 : status === "available" ? 1 : 0;
+  if (delta !== 0) {
+    const movementId = randomUUID();
+    await executor.insert(movements).values({
+      id: movementId,
+      productId: product.id,
+      type: delta > 0 ? "entry" : "exit",
+      quantity: 1,
+      note: `${current.serial}: ${UNIT_STATUS_LABELS[current.status]} → ${UNIT_STATUS_LABELS[status]}`,
+      locationId: current.locationId,
+      unitCost: currentUnitCost(product).toFixed(COST_SCALE),
+      unitStatusChange: true,
+      userId,
+    });
+    await linkUnits(executor, movementId, [current.id]);
+    await adjustBalance(executor, product.id, current.locationId, delta);
+    await executor
+      .update(products)
+      .set({ quantity: product.quantity + delta, updatedBy: userId, updatedAt: new Date() })
+      .where(eq(products.id, product.id));
+  }
+
+  const [updated] = await updateUnits(executor, [current], { status }, { productName: product.name, userId });
+  return updated;
+}
+
+export function registerUnitRoutes(app: Express): void {
+  app.get("/api/products/:id/units", async (req, res) => {
+    try {
+      const units = await db
+        .select({ ...getTableColumns(productUnits), holderName: users.username })
+        .from(productUnits)
+        .leftJoin(users, eq(productUnits.holderId, users.id))
+        .where(eq(productUnits.productId, req.params.id))
+        .orderBy(asc(productUnits.serial));
+      res.json(units);
+    } catch (error) {
+      console.error("Erro ao buscar unidades:", error);
+      res.status(500).json({ message: "Erro ao buscar unidades" });
+    }
+  });
+
+  // Histórico de uma unidade; não exige `audit:view` porque se limita a ela.
+  app.get("/api/units/:id/history", async (req, res) => {
+    try {
+      const entries = await db
+        .select({ ...getTableColumns(auditLog), userName: users.username })
+        .from(auditLog)
+        .leftJoin(users, eq(auditLog.userId, users.id))
+        .where(and(eq(auditLog.entityType, "unit"), eq(auditLog.entityId, req.params.id)))
+        .orderBy(desc(auditLog.createdAt));
+      res.json(entries);
+    } catch (error) {
+      console.error("Erro ao buscar histórico da unidade:", error);
+      res.status(500).json({ message: "Erro ao buscar histórico da unidade" });
+    }
+  });
+
+  app.patch(
+    "/api/units/:id/status",
+    requirePermission("product:write"),
+    validateBody(updateUnitStatusSchema),
+    async (req, res) => {
+      try {
+        const { status }: UpdateUnitStatus = req.body;
+
+        const unit = await db.transaction((tx) => changeUnitStatus(tx, req.params.id, status, req.user!.id));
+        res.json(unit);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao atualizar unidade:", error);
+        res.status(500).json({ message: "Erro ao atualizar unidade" });
+      }
+    },
+  );
+
+  // Liga o controle por número de série num produto que já tem estoque: cada
+  // unidade do saldo atual precisa ganhar um número, local por local.
+  app.post(
+    "/api/products/:id/serialize",
+    requirePermission("product:write"),
+    validateBody(serializeProductSchema),
+    async (req, res) => {
+      try {
+        const { units }: SerializeProduct = req.body;
+
+        const product = await db.transaction(async (tx) => {
+          const [current] = await tx
+            .select()
+            .from(products)
+            .where(eq(products.id, req.params.id))
+            .for("update");
+          if (!current) {
+            throw new HttpError(404, "Produto não encontrado");
+          }
+          if (current.serialized) {
+            throw new HttpError(409, "Este produto já é controlado por número de série");
+          }
+          // Retiradas abertas não têm unidades e não poderiam ser devolvidas depois.
+          const [{ open }] = await tx
+            .select({ open: count() })
+            .from(checkouts)
+            .where(and(eq(checkouts.productId, current.id), isNull(checkouts.closedAt)));
+          if (open > 0) {
+            throw new HttpError(
+              409,
+              `Este produto tem ${open} ${open === 1 ? "retirada em aberto" : "retiradas em aberto"}. Registre as devoluções antes de ativar o número de série.`,
+            );
+          }
+
+          const balances = await tx.select().from(stockBalances).where(eq(stockBalances.productId, current.id));
+          const locationIds = new Set([...balances.map((b) => b.locationId), ...units.map((u) => u.locationId)]);
+          for (const locationId of locationIds) {
+            const expected = balances.find((b) => b.locationId === locationId)?.quantity ?? 0;
+            const serials = units.filter((u) => u.locationId === locationId).map((u) => u.serial);
+            if (serials.length !== expected) {
+              const [location] = await tx.select().from(locations).where(eq(locations.id, locationId));
+              throw new HttpError(
+                400,
+                `Informe ${expected} ${expected === 1 ? "número de série" : "números de série"} para ${location?.name ?? "o local"}`,
+              );
+            }
+            if (serials.length > 0) {
+              await receiveUnits(tx, {
+                product: current,
+                locationId,
+                serials,
+                quantity: expected,
+                movementId: null,
+                userId: req.user!.id,
+              });
+            }
+          }
+
+          const [updated] = await tx
+            .update(products)
+            .set({ serialized: true, updatedBy: req.user!.id, updatedAt: new Date() })
+            .where(eq(products.id, current.id))
+            .returning();
+          await recordAudit(tx, {
+            entityType: "product",
+            entityId: updated.id,
+            entityName: updated.name,
+            action: "update",
+            userId: req.user!.id,
+            before: current,
+            after: updated,
+          });
+          return updated;
+        });
+        res.json(product);
+      } catch (error) {
+        if (error instanceof HttpError) return sendHttpError(res, error);
+        console.error("Erro ao ativar número de série:", error);
+        res.status(500).json({ message: "Erro ao ativar número de série" });
+      }
+    },
+  );
+}
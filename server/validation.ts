@@ -0,0 +1,26 @@
+import type { RequestHandler } from "express";
+import type { ZodTypeAny } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+/**
+ * Valida `req.body` contra o schema e o substitui pelos dados já
+ * convertidos. Campos desconhecidos são descartados pelo zod.
+ */
+export function validateBody<P = Record<string, string>>(schema: ZodTypeAny): RequestHandler<P> {
+  return (req, res, next) => {
+    const result = schema.safeParse(req.body ?? {});
+    if (!result.success) {
+      const validationError = fromZodError(result.error, { prefix: "Dados inválidos" });
+      res.status(400).json({
+        message: validationError.message,
+        errors: result.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+      return;
+    }
+    req.body = result.data;
+    next();
+  };
+}
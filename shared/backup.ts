@@ -0,0 +1,45 @@
+export const BACKUP_RESTORE_MODES = ["replace", "merge"] as const;
+
+export type BackupRestoreMode = (typeof BACKUP_RESTORE_MODES)[number];
+
+export const BACKUP_RESTORE_MODE_LABELS: Record<BackupRestoreMode, string> = {
+  replace: "Substituir tudo",
+  merge: "Mesclar",
+};
+
+export type BackupEntity = "category" | "product" | "movement";
+
+/** Registro do backup que não foi importado, com o motivo. */
+export type BackupConflict = {
+  entity: BackupEntity;
+  id: string;
+  name: string;
+  reason: string;
+};
+
+export type BackupCounts = Record<"categories" | "products" | "movements", number>;
+
+export type BackupRestoreResult = {
+  mode: BackupRestoreMode;
+  /** Cópia automática do que foi substituído; nula ao mesclar. */
+  snapshotId: string | null;
+  restored: BackupCounts;
+  conflicts: BackupConflict[];
+};
+
+/** Frase que o administrador digita para confirmar a limpeza de todos os dados. */
+export const CLEAR_DATA_CONFIRMATION = "APAGAR TUDO";
+
+export const BACKUP_SNAPSHOT_REASONS = ["clear", "replace"] as const;
+
+export type BackupSnapshotReason = (typeof BACKUP_SNAPSHOT_REASONS)[number];
+
+export const BACKUP_SNAPSHOT_REASON_LABELS: Record<BackupSnapshotReason, string> = {
+  clear: "Antes de limpar os dados",
+  replace: "Antes de substituir por um backup",
+};
+
+export type ClearDataResult = {
+  snapshotId: string;
+  removed: BackupCounts;
+};
@@ -0,0 +1,49 @@
+/** Casas decimais dos custos; mais que o preço, para a média não acumular arredondamento. */
+export const COST_SCALE = 4;
+
+/**
+ * Custo unitário corrente do produto. Itens que ainda não tiveram entrada com
+ * custo partem do preço cadastrado.
+ */
+export function currentUnitCost(product: { averageCost: string | null; price: string | number }): number {
+  return Number(product.averageCost ?? product.price);
+}
+
+/** Custo médio ponderado móvel depois de uma entrada. */
+export function weightedAverageCost(onHand: number, averageCost: number, quantity: number, unitCost: number): number {
+  if (onHand <= 0) return unitCost;
+  return (onHand * averageCost + quantity * unitCost) / (onHand + quantity);
+}
+
+/**
+ * Valor da movimentação pelo custo gravado nela. Registros anteriores ao custo
+ * por movimentação usam o custo corrente do produto.
+ */
+export function movementCost(movement: { quantity: number; unitCost: string | null }, fallbackUnitCost: number): number {
+  return movement.quantity * (movement.unitCost !== null ? Number(movement.unitCost) : fallbackUnitCost);
+}
+
+/** `price` é o preço cadastrado; `cost`, o custo pago numa entrada. */
+export const PRICE_POINT_KINDS = ["price", "cost"] as const;
+
+export type PricePointKind = (typeof PRICE_POINT_KINDS)[number];
+
+export const PRICE_POINT_KIND_LABELS: Record<PricePointKind, string> = {
+  price: "Preço",
+  cost: "Custo de compra",
+};
+
+/**
+ * Custo médio depois de estornar uma entrada: tira do estoque a quantidade e
+ * o valor que ela trouxe. Sem saldo restante, mantém o custo atual.
+ */
+export function reversedAverageCost(onHand: number, averageCost: number, quantity: number, unitCost: number): number {
+  const remaining = onHand - quantity;
+  if (remaining <= 0) return averageCost;
+  return Math.max(0, (onHand * averageCost - quantity * unitCost) / remaining);
+}
+
+/** Alta de custo, em %, a partir da qual o produto entra no relatório. */
+export const DEFAULT_COST_INCREASE_THRESHOLD = 10;
+
+export const COST_INCREASE_THRESHOLD_OPTIONS = [5, 10, 20, 50] as const;
@@ -0,0 +1,12 @@
+export const LOCATION_KINDS = ["warehouse", "vehicle", "site"] as const;
+
+export type LocationKind = (typeof LOCATION_KINDS)[number];
+
+export const LOCATION_KIND_LABELS: Record<LocationKind, string> = {
+  warehouse: "Almoxarifado",
+  vehicle: "Veículo",
+  site: "Obra",
+};
+
+/** Nome do local criado automaticamente para receber o estoque existente. */
+export const DEFAULT_LOCATION_NAME = "Almoxarifado Principal";
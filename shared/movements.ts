@@ -0,0 +1,95 @@
+export const MOVEMENT_TYPES = ["entry", "exit", "transfer", "adjustment"] as const;
+
+export type MovementType = (typeof MOVEMENT_TYPES)[number];
+
+export const MOVEMENT_TYPE_LABELS: Record<MovementType, string> = {
+  entry: "Entrada",
+  exit: "Saída",
+  transfer: "Transferência",
+  adjustment: "Ajuste",
+};
+
+/** Documentos com várias linhas: recebimento (entradas) e requisição (saídas). */
+export const MOVEMENT_DOCUMENT_TYPES = ["entry", "exit"] as const;
+
+export type MovementDocumentType = (typeof MOVEMENT_DOCUMENT_TYPES)[number];
+
+export const MOVEMENT_DOCUMENT_TYPE_LABELS: Record<MovementDocumentType, string> = {
+  entry: "Recebimento",
+  exit: "Requisição",
+};
+
+/**
+ * Motivos de ajuste criados na subida do servidor. O código identifica os
+ * que o sistema procura; os nomes podem ser alterados e novos motivos criados.
+ */
+export const DEFAULT_ADJUSTMENT_REASONS = [
+  { code: "loss", name: "Perda" },
+  { code: "damage", name: "Avaria" },
+  { code: "theft", name: "Furto" },
+  { code: "count_correction", name: "Correção de contagem" },
+  { code: "internal_use", name: "Consumo interno" },
+] as const;
+
+/** Motivo dos ajustes lançados na aprovação de um inventário. */
+export const STOCKTAKE_ADJUSTMENT_REASON_CODE = "count_correction";
+
+/**
+ * Variação que a movimentação causa no saldo do local: ajustes já guardam a
+ * quantidade com sinal; transferências contam como saída na origem e entrada
+ * no destino. Estornos repetem o tipo do original com a quantidade invertida.
+ */
+export function movementDelta(movement: {
+  type: MovementType;
+  quantity: number;
+  transferDirection?: "out" | "in" | null;
+}): number {
+  if (movement.type === "adjustment") return movement.quantity;
+  if (movement.type === "entry" || movement.transferDirection === "in") return movement.quantity;
+  return -movement.quantity;
+}
+
+type ReversibleMovement = {
+  type: MovementType;
+  checkoutId: string | null;
+  purchaseOrderId: string | null;
+  stocktakeId: string | null;
+  documentId: string | null;
+  unitStatusChange: boolean;
+  reversesId: string | null;
+};
+
+/** Por que a movimentação não pode ser estornada, ou nulo se pode. */
+export function reversalBlocker(movement: ReversibleMovement): string | null {
+  if (movement.reversesId) return "Um estorno não pode ser estornado";
+  if (movement.checkoutId) return "Movimentações de retiradas são desfeitas pela própria retirada";
+  if (movement.unitStatusChange) return "Mudanças de situação são desfeitas mudando a situação da unidade";
+  return null;
+}
+
+/**
+ * Por que a movimentação não pode ser corrigida, ou nulo se pode. A correção
+ * refaz só lançamentos manuais; os demais podem apenas ser estornados.
+ */
+export function correctionBlocker(movement: ReversibleMovement, serialized: boolean): string | null {
+  const blocker = reversalBlocker(movement);
+  if (blocker) return blocker;
+  if (movement.type === "transfer") return "Transferências são estornadas e registradas de novo";
+  if (movement.purchaseOrderId) return "Entradas de pedidos de compra são estornadas e recebidas de novo";
+  if (movement.stocktakeId) return "Ajustes de inventário são estornados, não corrigidos";
+  if (movement.documentId) return "Itens de documento são estornados e lançados num novo documento";
+  if (serialized) return "Em produtos com número de série, estorne e registre de novo";
+  return null;
+}
+
+/** Movimentações que já têm estorno; nas transferências, as duas pontas. */
+export function reversedMovementIds(
+  movements: { id: string; reversesId: string | null; transferId: string | null }[],
+): Set<string> {
+  const ids = new Set(movements.flatMap((m) => (m.reversesId ? [m.reversesId] : [])));
+  const transferIds = new Set(movements.filter((m) => m.transferId && ids.has(m.id)).map((m) => m.transferId));
+  for (const m of movements) {
+    if (m.transferId && transferIds.has(m.transferId)) ids.add(m.id);
+  }
+  return ids;
+}
@@ -0,0 +1,85 @@
+export const USER_ROLES = ["admin", "stock_keeper", "technician"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Administrador",
+  stock_keeper: "Almoxarife",
+  technician: "Técnico",
+};
+
+export type Permission =
+  | "movement:entry"
+  | "movement:exit"
+  | "movement:transfer"
+  | "movement:adjust"
+  | "movement:reverse"
+  | "product:write"
+  | "product:price"
+  | "product:delete"
+  | "category:write"
+  | "category:delete"
+  | "location:manage"
+  | "reason:manage"
+  | "checkout:manage"
+  | "maintenance:manage"
+  | "supplier:manage"
+  | "purchase:manage"
+  | "stocktake:count"
+  | "stocktake:manage"
+  | "backup:import"
+  | "data:clear"
+  | "audit:view"
+  | "user:manage";
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  technician: ["movement:exit", "stocktake:count"],
+  stock_keeper: [
+    "movement:entry",
+    "movement:exit",
+    "movement:transfer",
+    "movement:adjust",
+    "movement:reverse",
+    "product:write",
+    "category:write",
+    "location:manage",
+    "reason:manage",
+    "checkout:manage",
+    "maintenance:manage",
+    "supplier:manage",
+    "purchase:manage",
+    "stocktake:count",
+    "stocktake:manage",
+    "audit:view",
+  ],
+  admin: [
+    "movement:entry",
+    "movement:exit",
+    "movement:transfer",
+    "movement:adjust",
+    "movement:reverse",
+    "product:write",
+    "product:price",
+    "product:delete",
+    "category:write",
+    "category:delete",
+    "location:manage",
+    "reason:manage",
+    "checkout:manage",
+    "maintenance:manage",
+    "supplier:manage",
+    "purchase:manage",
+    "stocktake:count",
+    "stocktake:manage",
+    "backup:import",
+    "data:clear",
+    "audit:view",
+    "user:manage",
+  ],
+};
+
+/** Regra única de permissões, usada pelo servidor e pelas telas do app. */
+export function can(role: UserRole | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,57 @@
+export const PRODUCT_KINDS = ["consumable", "tool", "asset"] as const;
+
+export type ProductKind = (typeof PRODUCT_KINDS)[number];
+
+export const PRODUCT_KIND_LABELS: Record<ProductKind, string> = {
+  consumable: "Consumível",
+  tool: "Ferramenta",
+  asset: "Patrimônio",
+};
+
+/**
+ * Consumíveis saem do estoque e não voltam; ferramentas e patrimônio só saem
+ * por retirada, com devolução prevista.
+ */
+export function isReturnable(kind: ProductKind): boolean {
+  return kind !== "consumable";
+}
+
+export const UNIT_STATUSES = ["available", "checked_out", "in_repair", "written_off"] as const;
+
+export type UnitStatus = (typeof UNIT_STATUSES)[number];
+
+export const UNIT_STATUS_LABELS: Record<UnitStatus, string> = {
+  available: "Disponível",
+  checked_out: "Retirada",
+  in_repair: "Em manutenção",
+  written_off: "Baixada",
+};
+
+/** Situações que o usuário pode definir à mão; retiradas seguem o fluxo de "Com quem está". */
+export const UNIT_STATUS_TRANSITIONS: Record<UnitStatus, UnitStatus[]> = {
+  available: ["in_repair", "written_off"],
+  checked_out: [],
+  in_repair: ["available", "written_off"],
+  written_off: [],
+};
+
+/** Lotes e CAs que vencem dentro deste prazo aparecem nos alertas. */
+export const EXPIRY_WARNING_DAYS = 30;
+
+export const MAINTENANCE_KINDS = ["calibration", "maintenance"] as const;
+
+export type MaintenanceKind = (typeof MAINTENANCE_KINDS)[number];
+
+export const MAINTENANCE_KIND_LABELS: Record<MaintenanceKind, string> = {
+  calibration: "Calibração",
+  maintenance: "Manutenção",
+};
+
+/** Planos que vencem dentro deste prazo já aparecem nos alertas. */
+export const MAINTENANCE_WARNING_DAYS = 7;
+
+/** "Calibração vencida (SN123)", usado ao avisar sobre retiradas. */
+export function maintenanceDueLabel(item: { kind: MaintenanceKind; serial: string | null }): string {
+  const label = item.kind === "calibration" ? "Calibração vencida" : "Manutenção vencida";
+  return item.serial ? `${label} (${item.serial})` : label;
+}
@@ -0,0 +1,29 @@
+export const PURCHASE_ORDER_STATUSES = ["draft", "sent", "partially_received", "received", "cancelled"] as const;
+
+export type PurchaseOrderStatus = (typeof PURCHASE_ORDER_STATUSES)[number];
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Rascunho",
+  sent: "Enviado",
+  partially_received: "Recebido em parte",
+  received: "Recebido",
+  cancelled: "Cancelado",
+};
+
+/**
+ * Mudanças feitas à mão; os recebimentos movem o pedido para "recebido em
+ * parte" e "recebido". Cancelar um pedido recebido em parte encerra o saldo
+ * que ainda faltava entregar.
+ */
+export const PURCHASE_ORDER_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ["sent", "cancelled"],
+  sent: ["cancelled"],
+  partially_received: ["cancelled"],
+  received: [],
+  cancelled: [],
+};
+
+/** Pedidos que ainda esperam entrega. */
+export function isPurchaseOrderOpen(status: PurchaseOrderStatus): boolean {
+  return status === "sent" || status === "partially_received";
+}
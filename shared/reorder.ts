@@ -0,0 +1,55 @@
+/** Janela de histórico usada para medir o consumo médio. */
+export const REORDER_WINDOW_DAYS = 90;
+
+/** Períodos de cobertura oferecidos na tela de sugestões. */
+export const REORDER_COVERAGE_OPTIONS = [15, 30, 60, 90] as const;
+
+export const DEFAULT_REORDER_COVERAGE_DAYS = 30;
+
+export interface ConsumptionStats {
+  dailyAvg: number;
+  monthlyProjection: number;
+  /** null quando não há consumo no período. */
+  daysUntilEmpty: number | null;
+}
+
+export function consumptionStats(consumed: number, days: number, onHand: number): ConsumptionStats {
+  const dailyAvg = consumed / Math.max(days, 1);
+  return {
+    dailyAvg,
+    monthlyProjection: dailyAvg * 30,
+    daysUntilEmpty: dailyAvg > 0 ? Math.round(onHand / dailyAvg) : null,
+  };
+}
+
+/**
+ * Ponto de pedido: o estoque mínimo mais o que se consome enquanto a entrega
+ * não chega. Abaixo dele, o pedido já está atrasado.
+ */
+export function reorderPoint(minStock: number, dailyAvg: number, leadTimeDays: number): number {
+  return minStock + dailyAvg * leadTimeDays;
+}
+
+/**
+ * Quanto pedir para que, depois do prazo de entrega, o estoque ainda cubra
+ * `coverageDays` sem furar o mínimo. O que já está pedido e não chegou conta
+ * como estoque.
+ */
+export function suggestReorderQuantity({
+  onHand,
+  onOrder,
+  minStock,
+  dailyAvg,
+  leadTimeDays,
+  coverageDays,
+}: {
+  onHand: number;
+  onOrder: number;
+  minStock: number;
+  dailyAvg: number;
+  leadTimeDays: number;
+  coverageDays: number;
+}): number {
+  const target = reorderPoint(minStock, dailyAvg, leadTimeDays) + dailyAvg * coverageDays;
+  return Math.max(0, Math.ceil(target - onHand - onOrder));
+}
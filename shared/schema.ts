@@ -1,7 +1,29 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, decimal } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  varchar,
+  integer,
+  timestamp,
+  decimal,
+  jsonb,
+  boolean,
+  primaryKey,
+  serial,
+  unique,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { USER_ROLES } from "./permissions";
+import { LOCATION_KINDS } from "./locations";
+import { MAINTENANCE_KINDS, PRODUCT_KINDS, UNIT_STATUSES } from "./products";
+import { isValidCnpj, normalizeCnpj } from "./suppliers";
+import { PURCHASE_ORDER_STATUSES } from "./purchases";
+import { COST_SCALE, PRICE_POINT_KINDS } from "./costing";
+import { STOCKTAKE_SCOPES, STOCKTAKE_STATUSES } from "./stocktakes";
+import { MOVEMENT_DOCUMENT_TYPES, MOVEMENT_TYPES } from "./movements";
+import { BACKUP_RESTORE_MODES, BACKUP_SNAPSHOT_REASONS, CLEAR_DATA_CONFIRMATION } from "./backup";
 
 export const users = pgTable("users", {
   id: varchar("id")
@@ -9,12 +31,27 @@ export const users = pgTable("users", {
     .default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role", { enum: USER_ROLES }).notNull().default("technician"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Sessões de login. O id é o hash SHA-256 do token entregue ao app,
+// para que um vazamento da tabela não permita reutilizar sessões.
+export const sessions = pgTable("sessions", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey(),
   name: text("name").notNull(),
   color: text("color").notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  // Preenchido quando a categoria vai para a lixeira.
+  deletedAt: timestamp("deleted_at"),
 });
 
 export const products = pgTable("products", {
@@ -24,37 +61,944 @@ export const products = pgTable("products", {
   quantity: integer("quantity").notNull().default(0),
   minStock: integer("min_stock").notNull().default(0),
   price: decimal("price", { precision: 10, scale: 2 }).notNull().default("0"),
+  // Custo médio ponderado, recalculado a cada entrada com custo. Nulo até a
+  // primeira delas; enquanto isso o estoque é valorizado pelo preço.
+  averageCost: decimal("average_cost", { precision: 12, scale: 4 }),
   unit: text("unit").notNull().default("un"),
+  // Define como o item sai do estoque: consumíveis por saída simples,
+  // ferramentas e patrimônio por retirada com devolução.
+  kind: text("kind", { enum: PRODUCT_KINDS }).notNull().default("consumable"),
+  // Produtos serializados têm cada unidade cadastrada em `product_units`.
+  serialized: boolean("serialized").notNull().default(false),
+  // Certificado de Aprovação dos EPIs; a validade entra nos alertas.
+  caNumber: text("ca_number"),
+  caExpiresAt: timestamp("ca_expires_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  // Produtos na lixeira somem das telas de operação, mas continuam nos
+  // relatórios para não quebrar o histórico de movimentações.
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Almoxarifados, veículos das equipes e obras. Exatamente um local é o
+// padrão, usado quando uma movimentação não informa o local.
+export const locations = pgTable("locations", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  kind: text("kind", { enum: LOCATION_KINDS }).notNull().default("warehouse"),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Saldo de cada produto por local. `products.quantity` continua sendo o
+// total de todos os locais, atualizado junto com os saldos.
+export const stockBalances = pgTable(
+  "stock_balances",
+  {
+    productId: varchar("product_id").references(() => products.id).notNull(),
+    locationId: varchar("location_id").references(() => locations.id).notNull(),
+    quantity: integer("quantity").notNull().default(0),
+    minStock: integer("min_stock").notNull().default(0),
+  },
+  (table) => [primaryKey({ columns: [table.productId, table.locationId] })],
+);
+
+// Ferramenta retirada por um técnico. A retirada baixa o estoque do local;
+// cada devolução repõe o que voltou em condições de uso, enquanto perdas e
+// avarias ficam registradas sem voltar ao estoque.
+export const checkouts = pgTable("checkouts", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  locationId: varchar("location_id").references(() => locations.id).notNull(),
+  technicianId: varchar("technician_id").references(() => users.id).notNull(),
+  quantity: integer("quantity").notNull(),
+  returnedQuantity: integer("returned_quantity").notNull().default(0),
+  lostQuantity: integer("lost_quantity").notNull().default(0),
+  damagedQuantity: integer("damaged_quantity").notNull().default(0),
+  expectedReturnAt: timestamp("expected_return_at").notNull(),
+  note: text("note"),
+  userId: varchar("user_id").references(() => users.id),
+  // Preenchido quando toda a quantidade retirada foi devolvida ou baixada.
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Lote recebido numa entrada, com número e validade opcionais. As saídas
+// consomem primeiro os lotes que vencem antes; o saldo sem lote sai por último.
+export const stockLots = pgTable("stock_lots", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  locationId: varchar("location_id").references(() => locations.id).notNull(),
+  lotNumber: text("lot_number"),
+  expiresAt: timestamp("expires_at"),
+  quantity: integer("quantity").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Motivos dos ajustes de estoque. Os motivos não são excluídos, só
+// desativados, para que os ajustes antigos continuem com o motivo.
+export const adjustmentReasons = pgTable("adjustment_reasons", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  // Preenchido nos motivos padrão, que o sistema localiza pelo código.
+  code: text("code").unique(),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Recebimento ou requisição com várias linhas, gravadas juntas como
+// movimentações do mesmo local. A contraparte é o fornecedor que entregou ou o
+// técnico que requisitou.
+export const movementDocuments = pgTable("movement_documents", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  type: text("type", { enum: MOVEMENT_DOCUMENT_TYPES }).notNull(),
+  // Número informado pelo usuário, como o da nota fiscal ou da requisição.
+  number: text("number").notNull(),
+  documentDate: timestamp("document_date").notNull(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id),
+  technicianId: varchar("technician_id").references(() => users.id),
+  locationId: varchar("location_id").references(() => locations.id).notNull(),
+  note: text("note"),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // Sem fornecedor, o número não se repete dentro do tipo (nulos contam como iguais).
+  unique().on(table.type, table.number, table.supplierId).nullsNotDistinct(),
+]);
+
 export const movements = pgTable("movements", {
   id: varchar("id").primaryKey(),
   productId: varchar("product_id").references(() => products.id).notNull(),
-  type: text("type", { enum: ["entry", "exit"] }).notNull(),
+  type: text("type", { enum: MOVEMENT_TYPES }).notNull(),
+  // Sempre positiva, exceto nos ajustes e estornos, em que o sinal indica o sentido.
+  quantity: integer("quantity").notNull(),
+  note: text("note"),
+  locationId: varchar("location_id").references(() => locations.id),
+  // Uma transferência gera duas movimentações com o mesmo `transferId`: a
+  // saída do local de origem ("out") e a chegada no destino ("in").
+  transferId: varchar("transfer_id"),
+  transferDirection: text("transfer_direction", { enum: ["out", "in"] }),
+  // Saídas e devoluções geradas pelas retiradas de ferramentas.
+  checkoutId: varchar("checkout_id").references(() => checkouts.id),
+  // Lote criado ou reforçado por uma entrada.
+  lotId: varchar("lot_id").references(() => stockLots.id),
+  // Entradas geradas pelo recebimento de um pedido de compra.
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id),
+  // Ajustes lançados na aprovação de um inventário.
+  stocktakeId: varchar("stocktake_id").references(() => stocktakes.id),
+  // Obrigatório nos ajustes.
+  reasonId: varchar("reason_id").references(() => adjustmentReasons.id),
+  // Linha de um documento de recebimento ou requisição.
+  documentId: varchar("document_id").references(() => movementDocuments.id),
+  // Saída ou volta de uma unidade serializada por mudança de situação (ida à
+  // manutenção, baixa). Não é consumo nem compra e fica fora desses relatórios.
+  unitStatusChange: boolean("unit_status_change").notNull().default(false),
+  // Custo unitário: o pago nas entradas, o custo médio do momento nas saídas.
+  unitCost: decimal("unit_cost", { precision: 12, scale: 4 }),
+  // Estorno: repete o tipo do original com a quantidade invertida. O de uma
+  // transferência faz o caminho de volta, e cada ponta aponta para a ponta do
+  // original no mesmo local.
+  reversesId: varchar("reverses_id")
+    .references((): AnyPgColumn => movements.id)
+    .unique(),
+  // Lançamento refeito por uma correção, que antes estorna o original.
+  correctsId: varchar("corrects_id").references((): AnyPgColumn => movements.id),
+  // Nulo apenas em registros anteriores ao login por usuário.
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Histórico de preços: cada alteração do preço cadastrado e cada custo pago
+// numa entrada viram um ponto datado.
+export const pricePoints = pgTable("price_points", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  kind: text("kind", { enum: PRICE_POINT_KINDS }).notNull(),
+  value: decimal("value", { precision: 12, scale: 4 }).notNull(),
+  // Entrada que gerou o custo.
+  movementId: varchar("movement_id").references(() => movements.id),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Unidade individual de um produto serializado. Só as unidades disponíveis
+// contam no saldo do local; as demais estão com um técnico (`holderId`), em
+// manutenção ou baixadas, e `locationId` guarda o último local por onde passaram.
+export const productUnits = pgTable("product_units", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  serial: text("serial").notNull().unique(),
+  status: text("status", { enum: UNIT_STATUSES }).notNull().default("available"),
+  locationId: varchar("location_id").references(() => locations.id).notNull(),
+  holderId: varchar("holder_id").references(() => users.id),
+  checkoutId: varchar("checkout_id").references(() => checkouts.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Quais unidades entraram ou saíram em cada movimentação.
+export const movementUnits = pgTable(
+  "movement_units",
+  {
+    movementId: varchar("movement_id").references(() => movements.id).notNull(),
+    unitId: varchar("unit_id").references(() => productUnits.id).notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.movementId, table.unitId] })],
+);
+
+// Plano de calibração ou manutenção periódica. Sem `unitId`, vale para o
+// produto e, se ele for serializado, para cada unidade. O prazo conta em dias,
+// em usos (retiradas) ou nos dois, o que vencer primeiro.
+export const maintenancePlans = pgTable("maintenance_plans", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  unitId: varchar("unit_id").references(() => productUnits.id),
+  kind: text("kind", { enum: MAINTENANCE_KINDS }).notNull().default("maintenance"),
+  description: text("description"),
+  intervalDays: integer("interval_days"),
+  intervalUses: integer("interval_uses"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Calibração ou manutenção realizada. A última de cada plano (e unidade)
+// reinicia a contagem do prazo.
+export const maintenanceEvents = pgTable("maintenance_events", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  unitId: varchar("unit_id").references(() => productUnits.id),
+  planId: varchar("plan_id").references(() => maintenancePlans.id),
+  kind: text("kind", { enum: MAINTENANCE_KINDS }).notNull().default("maintenance"),
+  cost: decimal("cost", { precision: 10, scale: 2 }).notNull().default("0"),
+  note: text("note"),
+  performedAt: timestamp("performed_at").defaultNow().notNull(),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  // Só os dígitos; a formatação fica por conta do app.
+  cnpj: text("cnpj").unique(),
+  contactName: text("contact_name"),
+  phone: text("phone"),
+  email: text("email"),
+  // Prazo de entrega habitual, em dias corridos desde o pedido.
+  leadTimeDays: integer("lead_time_days").notNull().default(0),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Quem fornece cada produto, com o código do item no catálogo do fornecedor e
+// o último preço pago. No máximo um fornecedor por produto é o preferido.
+export const productSuppliers = pgTable(
+  "product_suppliers",
+  {
+    productId: varchar("product_id").references(() => products.id).notNull(),
+    supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+    supplierSku: text("supplier_sku"),
+    lastPrice: decimal("last_price", { precision: 10, scale: 2 }),
+    preferred: boolean("preferred").notNull().default(false),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.productId, table.supplierId] })],
+);
+
+// Pedido de compra a um fornecedor. O número é sequencial, para conversar
+// com o fornecedor; o recebimento entra no local escolhido em cada entrega.
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  number: serial("number").notNull().unique(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  status: text("status", { enum: PURCHASE_ORDER_STATUSES }).notNull().default("draft"),
+  expectedAt: timestamp("expected_at"),
+  note: text("note"),
+  createdBy: varchar("created_by").references(() => users.id),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  sentAt: timestamp("sent_at"),
+  // Preenchido quando o pedido é recebido por completo ou cancelado.
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const purchaseOrderLines = pgTable("purchase_order_lines", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => purchaseOrders.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
   quantity: integer("quantity").notNull(),
+  receivedQuantity: integer("received_quantity").notNull().default(0),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull().default("0"),
+});
+
+// Inventário físico de todos os produtos, de uma categoria ou de um local. Na
+// abertura, cada item guarda o saldo do sistema; a aprovação lança a diferença
+// para o que foi contado como ajuste, com o motivo de correção de contagem.
+export const stocktakes = pgTable("stocktakes", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  number: serial("number").notNull().unique(),
+  scope: text("scope", { enum: STOCKTAKE_SCOPES }).notNull(),
+  categoryId: varchar("category_id").references(() => categories.id),
+  locationId: varchar("location_id").references(() => locations.id),
+  status: text("status", { enum: STOCKTAKE_STATUSES }).notNull().default("counting"),
   note: text("note"),
+  createdBy: varchar("created_by").references(() => users.id),
+  approvedBy: varchar("approved_by").references(() => users.id),
+  // Preenchido na aprovação ou no cancelamento.
+  closedAt: timestamp("closed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+// Um item por produto e local. A contagem pode vir de vários aparelhos: cada
+// um grava só os itens que contou, e vale a última contagem de cada item.
+export const stocktakeItems = pgTable(
+  "stocktake_items",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    stocktakeId: varchar("stocktake_id").references(() => stocktakes.id).notNull(),
+    productId: varchar("product_id").references(() => products.id).notNull(),
+    locationId: varchar("location_id").references(() => locations.id).notNull(),
+    expectedQuantity: integer("expected_quantity").notNull(),
+    countedQuantity: integer("counted_quantity"),
+    countedBy: varchar("counted_by").references(() => users.id),
+    countedAt: timestamp("counted_at"),
+  },
+  (table) => [unique().on(table.stocktakeId, table.productId, table.locationId)],
+);
+
+// Cópia de categorias, produtos e movimentações no formato do arquivo de
+// backup, gravada antes de cada operação que apaga o estoque.
+export const backupSnapshots = pgTable("backup_snapshots", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  reason: text("reason", { enum: BACKUP_SNAPSHOT_REASONS }).notNull(),
+  data: jsonb("data").$type<Record<string, unknown>>().notNull(),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const AUDIT_ENTITY_TYPES = ["product", "category", "movement", "user", "location", "checkout", "unit", "maintenance", "supplier", "purchase_order", "stocktake", "adjustment_reason", "movement_document", "backup"] as const;
+export const AUDIT_ACTIONS = ["create", "update", "archive", "restore", "delete"] as const;
+
+// Registro de todas as alterações feitas pela API. Em atualizações, `before` e
+// `after` guardam só os campos que mudaram; na criação e na exclusão, o
+// registro inteiro.
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  entityType: text("entity_type", { enum: AUDIT_ENTITY_TYPES }).notNull(),
+  entityId: varchar("entity_id").notNull(),
+  entityName: text("entity_name"),
+  action: text("action", { enum: AUDIT_ACTIONS }).notNull(),
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().toLowerCase().min(3, "O usuário deve ter ao menos 3 caracteres"),
+  password: (schema) => schema.min(6, "A senha deve ter ao menos 6 caracteres"),
+}).pick({
   username: true,
   password: true,
+  role: true,
+});
+
+export const updateUserSchema = z.object({
+  role: z.enum(USER_ROLES, { errorMap: () => ({ message: "Perfil inválido" }) }),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().toLowerCase().min(1, "Informe o usuário"),
+  password: z.string().min(1, "Informe a senha"),
 });
 
-export const insertCategorySchema = createInsertSchema(categories);
-export const insertProductSchema = createInsertSchema(products);
-export const insertMovementSchema = createInsertSchema(movements);
+export const insertCategorySchema = createInsertSchema(categories, {
+  name: (schema) => schema.trim().min(1, "Informe o nome da categoria"),
+  color: (schema) => schema.min(1, "Informe a cor da categoria"),
+}).omit({ createdBy: true, updatedBy: true, deletedAt: true });
+export const updateCategorySchema = insertCategorySchema.omit({ id: true }).partial();
+
+export const insertProductSchema = createInsertSchema(products, {
+  name: (schema) => schema.trim().min(1, "Informe o nome do produto"),
+  quantity: (schema) => schema.nonnegative("A quantidade não pode ser negativa"),
+  minStock: (schema) => schema.nonnegative("O estoque mínimo não pode ser negativo"),
+  // O app envia o preço como número; a coluna decimal espera texto.
+  price: z.coerce
+    .number({ invalid_type_error: "Preço inválido" })
+    .nonnegative("O preço não pode ser negativo")
+    .transform((value) => value.toFixed(2)),
+  unit: (schema) => schema.trim().min(1, "Informe a unidade"),
+  caNumber: (schema) => schema.trim(),
+  caExpiresAt: z.coerce.date({ invalid_type_error: "Validade do CA inválida" }).nullish(),
+}).omit({ averageCost: true, createdBy: true, updatedBy: true, deletedAt: true, createdAt: true, updatedAt: true });
+// A quantidade só muda por movimentações, nunca por edição direta.
+// O controle por número de série só é ligado pela rota própria, que cadastra as unidades.
+export const updateProductSchema = insertProductSchema
+  .omit({ id: true, quantity: true, serialized: true })
+  .partial()
+  .extend({
+    // Recusada em vez de descartada, para o app não achar que o estoque mudou.
+    quantity: z.undefined({
+      invalid_type_error: "A quantidade não é editada no cadastro; registre um ajuste de estoque",
+    }),
+    serialized: z.undefined({
+      invalid_type_error: "O controle por número de série é ativado cadastrando as unidades do produto",
+    }),
+  });
+
+export const insertMovementSchema = createInsertSchema(movements, {
+  // Transferências têm rota própria, que grava as duas pontas juntas.
+  type: z.enum(["entry", "exit", "adjustment"], { errorMap: () => ({ message: "Tipo de movimentação inválido" }) }),
+  quantity: (schema) => schema.int("A quantidade deve ser um número inteiro"),
+  // Só vale nas entradas; as saídas levam o custo médio do produto.
+  unitCost: z.coerce
+    .number({ invalid_type_error: "Custo inválido" })
+    .nonnegative("O custo não pode ser negativo")
+    .transform((value) => value.toFixed(COST_SCALE))
+    .nullish(),
+})
+  .omit({
+    userId: true,
+    createdAt: true,
+    transferId: true,
+    transferDirection: true,
+    checkoutId: true,
+    lotId: true,
+    purchaseOrderId: true,
+    stocktakeId: true,
+    documentId: true,
+    unitStatusChange: true,
+    reversesId: true,
+    correctsId: true,
+  })
+  .extend({
+    // Lote e validade, opcionais, informados nas entradas.
+    lotNumber: z.string().trim().nullish(),
+    expiresAt: z.coerce.date({ invalid_type_error: "Validade inválida" }).nullish(),
+    // Produtos serializados: números das unidades que entram, ou unidades escolhidas na saída.
+    serials: z.array(z.string().trim().min(1, "Número de série vazio")).optional(),
+    unitIds: z.array(z.string()).optional(),
+  })
+  // Ajustes aceitam quantidade negativa, mas exigem o motivo.
+  .superRefine((data, ctx) => {
+    if (data.type !== "adjustment") {
+      if (data.quantity <= 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A quantidade deve ser maior que zero", path: ["quantity"] });
+      }
+      return;
+    }
+    if (data.quantity === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "O ajuste não pode ser zero", path: ["quantity"] });
+    }
+    if (!data.reasonId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Informe o motivo do ajuste", path: ["reasonId"] });
+    }
+  });
+
+export const reverseMovementSchema = z.object({
+  note: z.string().trim().nullish(),
+});
+
+// Novos valores do lançamento corrigido; tipo, produto, local e lote são mantidos.
+export const correctMovementSchema = z.object({
+  quantity: z.number({ invalid_type_error: "Quantidade inválida" }).int("A quantidade deve ser um número inteiro"),
+  unitCost: z.coerce
+    .number({ invalid_type_error: "Custo inválido" })
+    .nonnegative("O custo não pode ser negativo")
+    .nullish(),
+  reasonId: z.string().nullish(),
+  note: z.string().trim().nullish(),
+});
+
+export const insertTransferSchema = z
+  .object({
+    productId: z.string().min(1, "Selecione um produto"),
+    fromLocationId: z.string().min(1, "Selecione o local de origem"),
+    toLocationId: z.string().min(1, "Selecione o local de destino"),
+    quantity: z
+      .number({ invalid_type_error: "Quantidade inválida" })
+      .int("A quantidade deve ser um número inteiro")
+      .positive("A quantidade deve ser maior que zero"),
+    note: z.string().nullish(),
+    unitIds: z.array(z.string()).optional(),
+  })
+  .refine((data) => data.fromLocationId !== data.toLocationId, {
+    message: "A origem e o destino devem ser locais diferentes",
+    path: ["toLocationId"],
+  });
+
+// `include` traz também os itens da lixeira; `only`, apenas eles.
+export const archivedQuerySchema = z.object({
+  archived: z.enum(["include", "only"]).optional(),
+});
+
+export const insertCheckoutSchema = z.object({
+  productId: z.string().min(1, "Selecione uma ferramenta"),
+  locationId: z.string().optional(),
+  technicianId: z.string().min(1, "Selecione o técnico"),
+  quantity: z
+    .number({ invalid_type_error: "Quantidade inválida" })
+    .int("A quantidade deve ser um número inteiro")
+    .positive("A quantidade deve ser maior que zero"),
+  expectedReturnAt: z.coerce.date({ invalid_type_error: "Data de devolução inválida" }),
+  note: z.string().nullish(),
+  unitIds: z.array(z.string()).optional(),
+  // Confirma a retirada de ferramenta com manutenção ou calibração vencida.
+  ignoreMaintenance: z.boolean().optional(),
+});
+
+const returnQuantity = z
+  .number({ invalid_type_error: "Quantidade inválida" })
+  .int("A quantidade deve ser um número inteiro")
+  .nonnegative("A quantidade não pode ser negativa")
+  .default(0);
+
+export const returnCheckoutSchema = z
+  .object({
+    returned: returnQuantity,
+    lost: returnQuantity,
+    damaged: returnQuantity,
+    note: z.string().nullish(),
+    // Em produtos serializados, o destino de cada unidade; as quantidades devem bater.
+    units: z
+      .array(z.object({ unitId: z.string(), outcome: z.enum(["returned", "lost", "damaged"]) }))
+      .optional(),
+  })
+  .refine((data) => data.returned + data.lost + data.damaged > 0, {
+    message: "Informe ao menos uma quantidade",
+    path: ["returned"],
+  });
+
+export const checkoutQuerySchema = z.object({
+  status: z.enum(["open", "all"]).optional(),
+});
+
+export const updateUnitStatusSchema = z.object({
+  status: z.enum(UNIT_STATUSES, { errorMap: () => ({ message: "Situação inválida" }) }),
+});
+
+export const serializeProductSchema = z.object({
+  units: z.array(
+    z.object({
+      serial: z.string().trim().min(1, "Informe o número de série"),
+      locationId: z.string().min(1, "Informe o local da unidade"),
+    }),
+  ),
+});
+
+const maintenanceInterval = z
+  .number({ invalid_type_error: "Intervalo inválido" })
+  .int("O intervalo deve ser um número inteiro")
+  .positive("O intervalo deve ser maior que zero")
+  .nullish();
+
+export const insertMaintenancePlanSchema = createInsertSchema(maintenancePlans, {
+  description: (schema) => schema.trim(),
+  intervalDays: maintenanceInterval,
+  intervalUses: maintenanceInterval,
+})
+  .pick({ productId: true, unitId: true, kind: true, description: true, intervalDays: true, intervalUses: true })
+  .refine((data) => data.intervalDays != null || data.intervalUses != null, {
+    message: "Informe o intervalo em dias ou em usos",
+    path: ["intervalDays"],
+  });
+
+export const insertMaintenanceEventSchema = createInsertSchema(maintenanceEvents, {
+  cost: z.coerce
+    .number({ invalid_type_error: "Custo inválido" })
+    .nonnegative("O custo não pode ser negativo")
+    .transform((value) => value.toFixed(2)),
+  performedAt: z.coerce.date({ invalid_type_error: "Data inválida" }).optional(),
+})
+  .pick({ productId: true, unitId: true, planId: true, kind: true, cost: true, note: true, performedAt: true })
+  .extend({
+    // Devolve ao estoque a unidade que estava em manutenção.
+    releaseUnit: z.boolean().optional(),
+  });
+
+export const maintenanceStatusQuerySchema = z.object({
+  productId: z.string().optional(),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers, {
+  name: (schema) => schema.trim().min(1, "Informe o nome do fornecedor"),
+  cnpj: z
+    .string()
+    .trim()
+    .nullish()
+    .transform((value) => (value ? normalizeCnpj(value) : null))
+    .refine((value) => value === null || isValidCnpj(value), "CNPJ inválido"),
+  contactName: (schema) => schema.trim(),
+  phone: (schema) => schema.trim(),
+  email: (schema) => schema.trim().email("E-mail inválido").or(z.literal("")),
+  leadTimeDays: (schema) => schema.int("O prazo deve ser um número inteiro").nonnegative("O prazo não pode ser negativo"),
+}).omit({ id: true, createdAt: true });
+export const updateSupplierSchema = insertSupplierSchema.partial();
+
+export const upsertProductSupplierSchema = z.object({
+  supplierSku: z.string().trim().nullish(),
+  lastPrice: z.coerce
+    .number({ invalid_type_error: "Preço inválido" })
+    .nonnegative("O preço não pode ser negativo")
+    .transform((value) => value.toFixed(2))
+    .nullish(),
+  preferred: z.boolean().optional(),
+});
+
+const purchaseQuantity = z
+  .number({ invalid_type_error: "Quantidade inválida" })
+  .int("A quantidade deve ser um número inteiro");
+
+export const insertPurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, "Selecione o fornecedor"),
+  expectedAt: z.coerce.date({ invalid_type_error: "Data de entrega inválida" }).nullish(),
+  note: z.string().nullish(),
+  lines: z
+    .array(
+      z.object({
+        productId: z.string().min(1, "Selecione o produto"),
+        quantity: purchaseQuantity.positive("A quantidade deve ser maior que zero"),
+        unitCost: z.coerce
+          .number({ invalid_type_error: "Custo inválido" })
+          .nonnegative("O custo não pode ser negativo")
+          .transform((value) => value.toFixed(2)),
+      }),
+    )
+    .min(1, "Inclua ao menos um item no pedido")
+    .refine((lines) => new Set(lines.map((l) => l.productId)).size === lines.length, {
+      message: "O mesmo produto aparece em mais de uma linha",
+    }),
+});
+
+export const insertMovementDocumentSchema = z.object({
+  type: z.enum(MOVEMENT_DOCUMENT_TYPES, { errorMap: () => ({ message: "Tipo de documento inválido" }) }),
+  number: z.string().trim().min(1, "Informe o número do documento"),
+  documentDate: z.coerce.date({ invalid_type_error: "Data do documento inválida" }),
+  // Fornecedor no recebimento; técnico na requisição.
+  supplierId: z.string().nullish(),
+  technicianId: z.string().nullish(),
+  locationId: z.string().nullish(),
+  note: z.string().trim().nullish(),
+  lines: z
+    .array(
+      z.object({
+        productId: z.string().min(1, "Selecione o produto"),
+        quantity: purchaseQuantity.positive("A quantidade deve ser maior que zero"),
+        // Como nas entradas avulsas: sem custo, a linha entra pelo custo médio.
+        unitCost: z.coerce
+          .number({ invalid_type_error: "Custo inválido" })
+          .nonnegative("O custo não pode ser negativo")
+          .transform((value) => value.toFixed(COST_SCALE))
+          .nullish(),
+        lotNumber: z.string().trim().nullish(),
+        expiresAt: z.coerce.date({ invalid_type_error: "Validade inválida" }).nullish(),
+        serials: z.array(z.string().trim().min(1, "Número de série vazio")).optional(),
+        unitIds: z.array(z.string()).optional(),
+      }),
+    )
+    .min(1, "Inclua ao menos um item no documento"),
+});
+
+export const updatePurchaseOrderStatusSchema = z.object({
+  status: z.enum(["sent", "cancelled"], { errorMap: () => ({ message: "Situação inválida" }) }),
+});
+
+export const receivePurchaseOrderSchema = z
+  .object({
+    locationId: z.string().optional(),
+    note: z.string().nullish(),
+    lines: z.array(
+      z.object({
+        lineId: z.string(),
+        quantity: purchaseQuantity.nonnegative("A quantidade não pode ser negativa"),
+        lotNumber: z.string().trim().nullish(),
+        expiresAt: z.coerce.date({ invalid_type_error: "Validade inválida" }).nullish(),
+        serials: z.array(z.string().trim().min(1, "Número de série vazio")).optional(),
+      }),
+    ),
+  })
+  .refine((data) => data.lines.some((line) => line.quantity > 0), {
+    message: "Informe a quantidade recebida de ao menos um item",
+    path: ["lines"],
+  });
+
+export const purchaseOrderQuerySchema = z.object({
+  status: z.enum(["open", "all"]).optional(),
+});
+
+export const insertStocktakeSchema = z
+  .object({
+    scope: z.enum(STOCKTAKE_SCOPES, { errorMap: () => ({ message: "Abrangência inválida" }) }),
+    categoryId: z.string().nullish(),
+    locationId: z.string().nullish(),
+    note: z.string().nullish(),
+  })
+  .refine((data) => data.scope !== "category" || !!data.categoryId, {
+    message: "Selecione a categoria",
+    path: ["categoryId"],
+  })
+  .refine((data) => data.scope !== "location" || !!data.locationId, {
+    message: "Selecione o local",
+    path: ["locationId"],
+  });
+
+export const saveStocktakeCountsSchema = z.object({
+  counts: z
+    .array(
+      z.object({
+        itemId: z.string(),
+        // Nulo apaga a contagem do item.
+        countedQuantity: z
+          .number({ invalid_type_error: "Quantidade inválida" })
+          .int("A quantidade deve ser um número inteiro")
+          .nonnegative("A quantidade não pode ser negativa")
+          .nullable(),
+      }),
+    )
+    .min(1, "Informe ao menos uma contagem"),
+});
+
+export const stocktakeQuerySchema = z.object({
+  status: z.enum(["open", "all"]).optional(),
+});
+
+export const costIncreaseQuerySchema = z.object({
+  from: z.coerce.date({ invalid_type_error: "Data inicial inválida" }).optional(),
+  to: z.coerce.date({ invalid_type_error: "Data final inválida" }).optional(),
+  threshold: z.coerce
+    .number({ invalid_type_error: "Percentual inválido" })
+    .positive("O percentual deve ser maior que zero")
+    .optional(),
+});
+
+export const reorderQuerySchema = z.object({
+  coverageDays: z.coerce
+    .number({ invalid_type_error: "Cobertura inválida" })
+    .int("A cobertura deve ser um número inteiro de dias")
+    .min(1, "A cobertura deve ser de ao menos 1 dia")
+    .max(365, "A cobertura pode ser de no máximo 365 dias")
+    .optional(),
+});
+
+export const insertLocationSchema = createInsertSchema(locations, {
+  name: (schema) => schema.trim().min(1, "Informe o nome do local"),
+}).pick({ name: true, kind: true });
+export const updateLocationSchema = insertLocationSchema.partial();
+
+export const insertAdjustmentReasonSchema = createInsertSchema(adjustmentReasons, {
+  name: (schema) => schema.trim().min(1, "Informe o nome do motivo"),
+}).pick({ name: true });
+export const updateAdjustmentReasonSchema = createInsertSchema(adjustmentReasons, {
+  name: (schema) => schema.trim().min(1, "Informe o nome do motivo"),
+})
+  .pick({ name: true, active: true })
+  .partial();
+
+export const updateStockBalanceSchema = z.object({
+  minStock: z
+    .number({ invalid_type_error: "Estoque mínimo inválido" })
+    .int("O estoque mínimo deve ser um número inteiro")
+    .nonnegative("O estoque mínimo não pode ser negativo"),
+});
+
+export const auditQuerySchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().optional(),
+  from: z.coerce.date({ invalid_type_error: "Data inicial inválida" }).optional(),
+  to: z.coerce.date({ invalid_type_error: "Data final inválida" }).optional(),
+});
+
+// Arquivo exportado pelo app (`BackupData`). Backups antigos não têm os campos
+// mais novos, que voltam com o valor padrão.
+const backupDate = z.coerce.date({ invalid_type_error: "Data inválida no backup" });
+const backupId = z.string().min(1, "Registro sem ID no backup");
+
+export const backupDataSchema = z.object({
+  version: z.number().int(),
+  exportedAt: z.string(),
+  categories: z.array(
+    z.object({
+      id: backupId,
+      name: z.string().trim().min(1, "Categoria sem nome no backup"),
+      color: z.string(),
+      deletedAt: backupDate.nullish(),
+    }),
+  ),
+  products: z.array(
+    z.object({
+      id: backupId,
+      name: z.string().trim().min(1, "Produto sem nome no backup"),
+      categoryId: z.string(),
+      quantity: z.number().int().nonnegative("Quantidade negativa no backup"),
+      minStock: z.number().int().nonnegative().default(0),
+      price: z.coerce
+        .number({ invalid_type_error: "Preço inválido no backup" })
+        .nonnegative()
+        .transform((value) => value.toFixed(2)),
+      averageCost: z.coerce
+        .number({ invalid_type_error: "Custo médio inválido no backup" })
+        .nonnegative()
+        .transform((value) => value.toFixed(COST_SCALE))
+        .nullish(),
+      unit: z.string().default("un"),
+      kind: z.enum(PRODUCT_KINDS).default("consumable"),
+      serialized: z.boolean().default(false),
+      caNumber: z.string().nullish(),
+      caExpiresAt: backupDate.nullish(),
+      deletedAt: backupDate.nullish(),
+      createdAt: backupDate.optional(),
+      updatedAt: backupDate.optional(),
+    }),
+  ),
+  movements: z.array(
+    z.object({
+      id: backupId,
+      productId: z.string(),
+      type: z.enum(MOVEMENT_TYPES),
+      quantity: z.number().int(),
+      note: z.string().nullish(),
+      locationId: z.string().nullish(),
+      transferId: z.string().nullish(),
+      transferDirection: z.enum(["out", "in"]).nullish(),
+      checkoutId: z.string().nullish(),
+      lotId: z.string().nullish(),
+      purchaseOrderId: z.string().nullish(),
+      stocktakeId: z.string().nullish(),
+      reasonId: z.string().nullish(),
+      documentId: z.string().nullish(),
+      unitStatusChange: z.boolean().default(false),
+      unitCost: z.coerce
+        .number({ invalid_type_error: "Custo inválido no backup" })
+        .transform((value) => value.toFixed(COST_SCALE))
+        .nullish(),
+      reversesId: z.string().nullish(),
+      correctsId: z.string().nullish(),
+      userId: z.string().nullish(),
+      createdAt: backupDate,
+    }),
+  ),
+});
+
+export const restoreBackupSchema = z.object({
+  mode: z.enum(BACKUP_RESTORE_MODES, { errorMap: () => ({ message: "Modo de importação inválido" }) }),
+  data: backupDataSchema,
+});
+
+export const restoreSnapshotSchema = restoreBackupSchema.pick({ mode: true });
+
+export const clearDataSchema = z.object({
+  confirmation: z
+    .string()
+    .refine((value) => value.trim() === CLEAR_DATA_CONFIRMATION, `Digite "${CLEAR_DATA_CONFIRMATION}" para confirmar`),
+});
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
+export type Session = typeof sessions.$inferSelect;
 
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type UpdateCategory = z.infer<typeof updateCategorySchema>;
 
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type UpdateProduct = z.infer<typeof updateProductSchema>;
 
 export type Movement = typeof movements.$inferSelect;
 export type InsertMovement = z.infer<typeof insertMovementSchema>;
+export type InsertTransfer = z.infer<typeof insertTransferSchema>;
+export type ReverseMovement = z.infer<typeof reverseMovementSchema>;
+export type MovementDocument = typeof movementDocuments.$inferSelect;
+export type InsertMovementDocument = z.infer<typeof insertMovementDocumentSchema>;
+export type CorrectMovement = z.infer<typeof correctMovementSchema>;
+
+export type BackupData = z.infer<typeof backupDataSchema>;
+export type RestoreBackup = z.infer<typeof restoreBackupSchema>;
+export type RestoreSnapshot = z.infer<typeof restoreSnapshotSchema>;
+export type BackupSnapshot = typeof backupSnapshots.$inferSelect;
+
+export type AdjustmentReason = typeof adjustmentReasons.$inferSelect;
+export type InsertAdjustmentReason = z.infer<typeof insertAdjustmentReasonSchema>;
+export type UpdateAdjustmentReason = z.infer<typeof updateAdjustmentReasonSchema>;
+
+export type Checkout = typeof checkouts.$inferSelect;
+export type InsertCheckout = z.infer<typeof insertCheckoutSchema>;
+export type ReturnCheckout = z.infer<typeof returnCheckoutSchema>;
+
+export type ProductUnit = typeof productUnits.$inferSelect;
+export type UpdateUnitStatus = z.infer<typeof updateUnitStatusSchema>;
+export type SerializeProduct = z.infer<typeof serializeProductSchema>;
+
+export type StockLot = typeof stockLots.$inferSelect;
+
+export type PricePoint = typeof pricePoints.$inferSelect;
+
+export type Stocktake = typeof stocktakes.$inferSelect;
+export type StocktakeItem = typeof stocktakeItems.$inferSelect;
+export type InsertStocktake = z.infer<typeof insertStocktakeSchema>;
+export type SaveStocktakeCounts = z.infer<typeof saveStocktakeCountsSchema>;
+
+export type MaintenancePlan = typeof maintenancePlans.$inferSelect;
+export type InsertMaintenancePlan = z.infer<typeof insertMaintenancePlanSchema>;
+export type MaintenanceEvent = typeof maintenanceEvents.$inferSelect;
+export type InsertMaintenanceEvent = z.infer<typeof insertMaintenanceEventSchema>;
+
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type UpdateSupplier = z.infer<typeof updateSupplierSchema>;
+export type ProductSupplier = typeof productSuppliers.$inferSelect;
+export type UpsertProductSupplier = z.infer<typeof upsertProductSupplierSchema>;
+
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type UpdatePurchaseOrderStatus = z.infer<typeof updatePurchaseOrderStatusSchema>;
+export type ReceivePurchaseOrder = z.infer<typeof receivePurchaseOrderSchema>;
+
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type UpdateLocation = z.infer<typeof updateLocationSchema>;
+export type StockBalance = typeof stockBalances.$inferSelect;
+export type UpdateStockBalance = z.infer<typeof updateStockBalanceSchema>;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
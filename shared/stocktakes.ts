@@ -0,0 +1,38 @@
+export const STOCKTAKE_SCOPES = ["all", "category", "location"] as const;
+
+export type StocktakeScope = (typeof STOCKTAKE_SCOPES)[number];
+
+export const STOCKTAKE_SCOPE_LABELS: Record<StocktakeScope, string> = {
+  all: "Todos os produtos",
+  category: "Uma categoria",
+  location: "Um local",
+};
+
+export const STOCKTAKE_STATUSES = ["counting", "approved", "cancelled"] as const;
+
+export type StocktakeStatus = (typeof STOCKTAKE_STATUSES)[number];
+
+export const STOCKTAKE_STATUS_LABELS: Record<StocktakeStatus, string> = {
+  counting: "Em contagem",
+  approved: "Aprovado",
+  cancelled: "Cancelado",
+};
+
+/**
+ * Diferença entre o contado e o saldo do sistema na abertura do inventário;
+ * nula enquanto o item não foi contado.
+ */
+export function stocktakeVariance(item: { expectedQuantity: number; countedQuantity: number | null }): number | null {
+  return item.countedQuantity === null ? null : item.countedQuantity - item.expectedQuantity;
+}
+
+/** O que o inventário cobre: a categoria, o local ou todos os produtos. */
+export function stocktakeTarget(stocktake: {
+  scope: StocktakeScope;
+  categoryName: string | null;
+  locationName: string | null;
+}): string {
+  if (stocktake.scope === "category") return stocktake.categoryName ?? "Categoria removida";
+  if (stocktake.scope === "location") return stocktake.locationName ?? "Local removido";
+  return STOCKTAKE_SCOPE_LABELS.all;
+}
@@ -0,0 +1,24 @@
+/** Mantém só os dígitos do CNPJ, como ele é gravado. */
+export function normalizeCnpj(value: string): string {
+  return value.replace(/\D/g, "");
+}
+
+/** Confere o tamanho e os dois dígitos verificadores do CNPJ. */
+export function isValidCnpj(value: string): boolean {
+  const digits = normalizeCnpj(value);
+  if (digits.length !== 14 || /^(\d)\1+$/.test(digits)) return false;
+
+  const checkDigit = (length: number) => {
+    const weights = length === 12 ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2] : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const sum = weights.reduce((total, weight, i) => total + Number(digits[i]) * weight, 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+  return checkDigit(12) === Number(digits[12]) && checkDigit(13) === Number(digits[13]);
+}
+
+export function formatCnpj(value: string): string {
+  const digits = normalizeCnpj(value);
+  if (digits.length !== 14) return value;
+  return `${digits.slice(0, 2)}.${digits.slice(2, 5)}.${digits.slice(5, 8)}/${digits.slice(8, 12)}-${digits.slice(12)}`;
+}